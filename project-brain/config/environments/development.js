@@ -21,10 +21,32 @@ module.exports = {
     level: 'debug', // debug, info, warn, error
     captureErrors: true,
   },
+  storage: {
+    adapter: 'local', // local (files under localPath, for running without a bucket) or supabase
+    bucket: 'documents', // Supabase Storage bucket for project documents
+    localPath: '.storage', // Relative to the project root
+    signedUrlTtlMs: 5 * 60 * 1000, // Upload and download links work for 5 minutes
+    maxFileBytes: 100 * 1024 * 1024, // Largest file that can be uploaded: 100 MB
+  },
   security: {
+    // Reverse proxies in front of the app that append to X-Forwarded-For (the
+    // platform's edge, or Next.js itself when self-hosted). The client IP is
+    // read that many hops from the right; anything further left is client-supplied.
+    trustedProxies: 1,
     captchaEnabled: false,
+    invitations: {
+      expiresMs: 7 * 24 * 60 * 60 * 1000, // Invitation links are valid for a week
+    },
+    temporaryGrants: {
+      maxDurationMs: 7 * 24 * 60 * 60 * 1000, // Longest a temporary grant may last
+    },
+    impersonation: {
+      maxDurationMs: 60 * 60 * 1000, // Admins view the app as another user for up to an hour
+      allowMutations: false, // Block server actions and API writes while impersonating
+    },
     rateLimit: {
       enabled: false,
+      store: 'memory', // memory (single instance) or postgres (shared across instances)
     },
   },
 }; 
\ No newline at end of file
@@ -21,12 +21,38 @@ module.exports = {
     level: 'warn', // Log warnings and errors in staging
     captureErrors: true,
   },
+  storage: {
+    adapter: 'supabase', // local (files under localPath, for running without a bucket) or supabase
+    bucket: 'documents', // Supabase Storage bucket for project documents
+    signedUrlTtlMs: 5 * 60 * 1000, // Upload and download links work for 5 minutes
+    maxFileBytes: 100 * 1024 * 1024, // Largest file that can be uploaded: 100 MB
+  },
   security: {
+    // Reverse proxies in front of the app that append to X-Forwarded-For (the
+    // platform's edge, or Next.js itself when self-hosted). The client IP is
+    // read that many hops from the right; anything further left is client-supplied.
+    trustedProxies: 1,
     captchaEnabled: true,
+    invitations: {
+      expiresMs: 7 * 24 * 60 * 60 * 1000, // Invitation links are valid for a week
+    },
+    temporaryGrants: {
+      maxDurationMs: 7 * 24 * 60 * 60 * 1000, // Longest a temporary grant may last
+    },
+    impersonation: {
+      maxDurationMs: 60 * 60 * 1000, // Admins view the app as another user for up to an hour
+      allowMutations: false, // Block server actions and API writes while impersonating
+    },
     rateLimit: {
       enabled: true,
+      store: 'postgres', // Counters shared by every instance
+      algorithm: 'sliding-window', // sliding-window or token-bucket
       maxRequests: 200, // Higher limit for testing
       windowMs: 15 * 60 * 1000, // Per 15 minutes
+      anonymous: {
+        maxRequests: 30, // Per client IP when signed out
+        windowMs: 15 * 60 * 1000,
+      },
     },
   },
 }; 
\ No newline at end of file
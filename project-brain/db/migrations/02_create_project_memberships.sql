@@ -0,0 +1,77 @@
+-- Per-project role assignments
+-- A user's global role (users.role) still applies everywhere for admins and
+-- directors; every other role only reaches the projects it is a member of,
+-- with the role recorded on the membership.
+CREATE TABLE IF NOT EXISTS public.project_members (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    UNIQUE(project_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS project_members_user_id_idx ON public.project_members(user_id);
+CREATE INDEX IF NOT EXISTS project_members_project_id_idx ON public.project_members(project_id);
+
+-- Check a permission for a user within a specific project
+CREATE OR REPLACE FUNCTION public.has_project_permission(
+    user_id UUID,
+    project_id UUID,
+    required_permission TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    global_role TEXT;
+    project_role TEXT;
+BEGIN
+    SELECT role INTO global_role FROM public.users WHERE id = has_project_permission.user_id;
+
+    -- Admins and directors act on every project with their global role
+    IF global_role IN ('admin', 'director') THEN
+        RETURN public.has_permission(has_project_permission.user_id, required_permission);
+    END IF;
+
+    SELECT pm.role INTO project_role
+    FROM public.project_members pm
+    WHERE pm.user_id = has_project_permission.user_id
+      AND pm.project_id = has_project_permission.project_id;
+
+    IF project_role IS NULL THEN
+        RETURN FALSE;
+    END IF;
+
+    RETURN EXISTS (
+        SELECT 1 FROM public.role_permissions
+        WHERE role = project_role AND permission = required_permission
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Secure project memberships
+ALTER TABLE public.project_members ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can read their own memberships
+CREATE POLICY project_members_read_own ON public.project_members
+    FOR SELECT
+    USING (user_id = auth.uid());
+
+-- Policy: Admins and directors can read all memberships
+CREATE POLICY project_members_staff_read_all ON public.project_members
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = auth.uid() AND role IN ('admin', 'director')
+        )
+    );
+
+-- Policy: Admins and directors can assign, change and remove memberships
+CREATE POLICY project_members_staff_manage ON public.project_members
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = auth.uid() AND role IN ('admin', 'director')
+        )
+    );
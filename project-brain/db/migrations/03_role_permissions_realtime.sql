@@ -0,0 +1,3 @@
+-- Broadcast role_permissions changes so cached mappings are invalidated
+-- as soon as an admin edits them
+ALTER PUBLICATION supabase_realtime ADD TABLE public.role_permissions;
@@ -0,0 +1,31 @@
+-- Runtime-defined roles beyond the built-in admin/director/team/client/builder.
+-- Permissions for custom roles live in role_permissions like any other role.
+CREATE TABLE IF NOT EXISTS public.custom_roles (
+    key TEXT PRIMARY KEY CHECK (key ~ '^[a-z][a-z0-9_]*$'),
+    display_name TEXT NOT NULL,
+    color TEXT NOT NULL DEFAULT 'gray',
+    parent_roles TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    CHECK (key NOT IN ('admin', 'director', 'team', 'client', 'builder'))
+);
+
+-- Secure custom roles
+ALTER TABLE public.custom_roles ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Anyone can read custom roles
+CREATE POLICY anyone_read_custom_roles ON public.custom_roles
+    FOR SELECT
+    USING (true);
+
+-- Policy: Admins can create, update and delete custom roles
+CREATE POLICY admin_manage_custom_roles ON public.custom_roles
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Broadcast changes so cached role registries are invalidated
+ALTER PUBLICATION supabase_realtime ADD TABLE public.custom_roles;
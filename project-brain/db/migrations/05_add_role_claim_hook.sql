@@ -0,0 +1,37 @@
+-- Custom access token hook: adds the user's role as a `user_role` claim so
+-- middleware can authorize requests without querying the users table.
+-- Enable it under Authentication → Hooks → Customize Access Token.
+-- Role changes reach the claim on the next token refresh; until then the
+-- middleware keeps using the role the token was issued with.
+CREATE OR REPLACE FUNCTION public.custom_access_token_hook(event JSONB)
+RETURNS JSONB AS $$
+DECLARE
+    claims JSONB;
+    claimed_role TEXT;
+BEGIN
+    SELECT role INTO claimed_role FROM public.users WHERE id = (event->>'user_id')::UUID;
+
+    claims := event->'claims';
+
+    IF claimed_role IS NOT NULL THEN
+        claims := jsonb_set(claims, '{user_role}', to_jsonb(claimed_role));
+    ELSE
+        claims := jsonb_set(claims, '{user_role}', 'null');
+    END IF;
+
+    RETURN jsonb_set(event, '{claims}', claims);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Only the auth server may run the hook
+GRANT USAGE ON SCHEMA public TO supabase_auth_admin;
+GRANT EXECUTE ON FUNCTION public.custom_access_token_hook TO supabase_auth_admin;
+REVOKE EXECUTE ON FUNCTION public.custom_access_token_hook FROM authenticated, anon, public;
+
+-- The hook reads roles from the users table
+GRANT SELECT ON TABLE public.users TO supabase_auth_admin;
+
+CREATE POLICY auth_admin_read_user_roles ON public.users
+    AS PERMISSIVE FOR SELECT
+    TO supabase_auth_admin
+    USING (true);
@@ -0,0 +1,128 @@
+-- Rate limit counters shared by every app instance (see src/lib/rateLimit.ts).
+-- Unlogged: counters are disposable and don't need to survive a crash.
+-- Times are epoch milliseconds from the database clock.
+CREATE UNLOGGED TABLE IF NOT EXISTS public.rate_limits (
+    key TEXT PRIMARY KEY,
+    window_start BIGINT NOT NULL DEFAULT 0,
+    count INTEGER NOT NULL DEFAULT 0,
+    previous_count INTEGER NOT NULL DEFAULT 0,
+    tokens DOUBLE PRECISION,
+    updated_at BIGINT NOT NULL,
+    expires_at BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS rate_limits_expires_at_idx ON public.rate_limits (expires_at);
+
+-- No policies: only consume_rate_limit touches the table
+ALTER TABLE public.rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Count one request against a key and report whether it is allowed.
+-- Mirrors the sliding window and token bucket in the in-memory store.
+-- Signed-in callers may only consume their own user buckets and anonymous
+-- callers only IP buckets, so nobody can exhaust someone else's quota.
+CREATE OR REPLACE FUNCTION public.consume_rate_limit(
+    p_key TEXT,
+    p_max_requests INTEGER,
+    p_window_ms INTEGER,
+    p_algorithm TEXT DEFAULT 'sliding-window'
+)
+RETURNS TABLE (allowed BOOLEAN, remaining INTEGER, reset_ms INTEGER) AS $$
+DECLARE
+    now_ms BIGINT := FLOOR(EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::BIGINT;
+    entry public.rate_limits%ROWTYPE;
+    current_start BIGINT;
+    current_count INTEGER := 0;
+    prior_count INTEGER := 0;
+    estimate DOUBLE PRECISION;
+    refill_rate DOUBLE PRECISION;
+    available DOUBLE PRECISION;
+BEGIN
+    IF p_max_requests <= 0 OR p_window_ms <= 0 THEN
+        RAISE EXCEPTION 'Rate limit must allow at least one request per window';
+    END IF;
+
+    IF auth.uid() IS NOT NULL THEN
+        IF p_key NOT LIKE '%:user:' || auth.uid()::TEXT THEN
+            RAISE EXCEPTION 'Rate limit key does not belong to the caller';
+        END IF;
+    ELSIF p_key NOT LIKE '%:ip:%' THEN
+        RAISE EXCEPTION 'Anonymous callers may only use IP rate limit keys';
+    END IF;
+
+    -- Occasionally clear out counters nobody has used for a while
+    IF random() < 0.01 THEN
+        DELETE FROM public.rate_limits WHERE expires_at < now_ms;
+    END IF;
+
+    INSERT INTO public.rate_limits (key, updated_at, expires_at)
+    VALUES (p_key, now_ms, now_ms)
+    ON CONFLICT (key) DO NOTHING;
+
+    SELECT * INTO entry FROM public.rate_limits WHERE key = p_key FOR UPDATE;
+
+    IF p_algorithm = 'token-bucket' THEN
+        refill_rate := p_max_requests::DOUBLE PRECISION / p_window_ms;
+        available := LEAST(
+            p_max_requests,
+            COALESCE(entry.tokens + (now_ms - entry.updated_at) * refill_rate, p_max_requests)
+        );
+
+        allowed := available >= 1;
+        IF allowed THEN
+            available := available - 1;
+        END IF;
+
+        remaining := FLOOR(available);
+        reset_ms := CEIL(
+            CASE WHEN allowed THEN p_max_requests - available ELSE 1 - available END / refill_rate
+        );
+
+        UPDATE public.rate_limits
+        SET tokens = available,
+            updated_at = now_ms,
+            expires_at = now_ms + CEIL((p_max_requests - available) / refill_rate)::BIGINT
+        WHERE key = p_key;
+    ELSE
+        current_start := (now_ms / p_window_ms) * p_window_ms;
+
+        IF entry.window_start = current_start THEN
+            current_count := entry.count;
+            prior_count := entry.previous_count;
+        ELSIF entry.window_start = current_start - p_window_ms THEN
+            prior_count := entry.count;
+        END IF;
+
+        estimate := prior_count * (1 - (now_ms - current_start)::DOUBLE PRECISION / p_window_ms) + current_count;
+        allowed := estimate + 1 <= p_max_requests;
+
+        IF allowed THEN
+            current_count := current_count + 1;
+            remaining := GREATEST(0, FLOOR(p_max_requests - estimate - 1));
+            reset_ms := current_start + p_window_ms - now_ms;
+        ELSIF current_count + 1 <= p_max_requests THEN
+            remaining := 0;
+            reset_ms := CEIL(
+                current_start + p_window_ms * (1 - (p_max_requests - current_count - 1)::DOUBLE PRECISION / prior_count) - now_ms
+            );
+        ELSE
+            remaining := 0;
+            reset_ms := CEIL(
+                current_start + p_window_ms + p_window_ms * (1 - (p_max_requests - 1)::DOUBLE PRECISION / current_count) - now_ms
+            );
+        END IF;
+
+        UPDATE public.rate_limits
+        SET window_start = current_start,
+            count = current_count,
+            previous_count = prior_count,
+            tokens = NULL,
+            updated_at = now_ms,
+            expires_at = current_start + 2 * p_window_ms
+        WHERE key = p_key;
+    END IF;
+
+    RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.consume_rate_limit TO anon, authenticated;
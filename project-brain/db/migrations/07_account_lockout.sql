@@ -0,0 +1,61 @@
+-- Account lockout: failed sign-ins are counted in users.failed_login_attempts
+-- and lock the account (users.locked_until) once a threshold is reached.
+-- These run before the caller has a session, so they bypass RLS and only
+-- ever touch the lockout columns.
+
+-- Also reset on the first successful login, when OLD.last_login is NULL
+CREATE OR REPLACE FUNCTION public.reset_failed_login_attempts()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Reset failed attempts and locked status on successful login
+    IF NEW.last_login IS NOT NULL AND NEW.last_login IS DISTINCT FROM OLD.last_login THEN
+        NEW.failed_login_attempts := 0;
+        NEW.locked_until := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- When the account for an email is locked until, or NULL if it isn't locked
+CREATE OR REPLACE FUNCTION public.get_login_lock(p_email TEXT)
+RETURNS TIMESTAMPTZ AS $$
+    SELECT locked_until
+    FROM public.users
+    WHERE lower(email) = lower(p_email) AND locked_until > NOW();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Count a failed sign-in. From p_max_attempts failures in a row the account
+-- is locked for p_lockout_seconds, doubling with every further failure up to
+-- p_max_lockout_seconds. Returns no row if no account has the email.
+CREATE OR REPLACE FUNCTION public.record_failed_login(
+    p_email TEXT,
+    p_max_attempts INTEGER,
+    p_lockout_seconds INTEGER,
+    p_max_lockout_seconds INTEGER
+)
+RETURNS TABLE (user_id UUID, failed_attempts INTEGER, locked_until TIMESTAMPTZ) AS $$
+    UPDATE public.users AS u
+    SET failed_login_attempts = COALESCE(u.failed_login_attempts, 0) + 1,
+        locked_until = CASE
+            WHEN COALESCE(u.failed_login_attempts, 0) + 1 >= p_max_attempts THEN
+                NOW() + LEAST(
+                    p_max_lockout_seconds,
+                    p_lockout_seconds * POWER(2, COALESCE(u.failed_login_attempts, 0) + 1 - p_max_attempts)
+                ) * INTERVAL '1 second'
+            ELSE u.locked_until
+        END
+    WHERE lower(u.email) = lower(p_email)
+    RETURNING u.id, u.failed_login_attempts, u.locked_until;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Record a successful sign-in for the current user; the trigger above
+-- clears the failed attempts and any lock
+CREATE OR REPLACE FUNCTION public.record_successful_login()
+RETURNS VOID AS $$
+    UPDATE public.users SET last_login = NOW() WHERE id = auth.uid();
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_login_lock TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_failed_login TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_successful_login TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_successful_login FROM anon, public;
@@ -0,0 +1,103 @@
+-- Deactivating a user (users.active = false) revokes their access immediately:
+-- their sessions are signed out, no new tokens are issued and RLS stops
+-- serving them anything but their own profile.
+
+-- When and by whom the user was deactivated
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS deactivated_by UUID REFERENCES public.users(id) ON DELETE SET NULL;
+
+-- Stamp deactivations and sign the user out of every session
+CREATE OR REPLACE FUNCTION public.handle_user_deactivation()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.active AND NOT NEW.active THEN
+        NEW.deactivated_at := NOW();
+        NEW.deactivated_by := auth.uid();
+
+        DELETE FROM auth.refresh_tokens WHERE user_id = NEW.id::TEXT;
+        DELETE FROM auth.sessions WHERE user_id = NEW.id;
+    ELSIF NOT OLD.active AND NEW.active THEN
+        -- The history stays in the audit log
+        NEW.deactivated_at := NULL;
+        NEW.deactivated_by := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS handle_user_deactivation ON public.users;
+CREATE TRIGGER handle_user_deactivation
+BEFORE UPDATE OF active ON public.users
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_user_deactivation();
+
+-- Whether the current user exists and is active
+CREATE OR REPLACE FUNCTION public.is_active_user()
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE((SELECT active FROM public.users WHERE id = auth.uid()), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Restrictive policies apply on top of every permissive one.
+-- Deactivated users may still read their own profile, so the app can tell
+-- them their account is disabled, but not change it.
+CREATE POLICY users_active_only ON public.users
+    AS RESTRICTIVE
+    TO authenticated
+    USING (public.is_active_user() OR id = auth.uid())
+    WITH CHECK (public.is_active_user());
+
+CREATE POLICY role_permissions_active_only ON public.role_permissions
+    AS RESTRICTIVE
+    TO authenticated
+    USING (public.is_active_user())
+    WITH CHECK (public.is_active_user());
+
+CREATE POLICY custom_roles_active_only ON public.custom_roles
+    AS RESTRICTIVE
+    TO authenticated
+    USING (public.is_active_user())
+    WITH CHECK (public.is_active_user());
+
+CREATE POLICY project_members_active_only ON public.project_members
+    AS RESTRICTIVE
+    TO authenticated
+    USING (public.is_active_user())
+    WITH CHECK (public.is_active_user());
+
+-- Denied requests from deactivated users are still logged
+CREATE POLICY audit_logs_active_read_only ON public.audit_logs
+    AS RESTRICTIVE
+    FOR SELECT
+    TO authenticated
+    USING (public.is_active_user());
+
+-- Refuse to issue tokens to deactivated users, including on refresh
+CREATE OR REPLACE FUNCTION public.custom_access_token_hook(event JSONB)
+RETURNS JSONB AS $$
+DECLARE
+    claims JSONB;
+    claimed_role TEXT;
+    is_active BOOLEAN;
+BEGIN
+    SELECT role, active INTO claimed_role, is_active
+    FROM public.users
+    WHERE id = (event->>'user_id')::UUID;
+
+    IF is_active = false THEN
+        RETURN jsonb_build_object(
+            'error', jsonb_build_object('http_code', 403, 'message', 'Account disabled')
+        );
+    END IF;
+
+    claims := event->'claims';
+
+    IF claimed_role IS NOT NULL THEN
+        claims := jsonb_set(claims, '{user_role}', to_jsonb(claimed_role));
+    ELSE
+        claims := jsonb_set(claims, '{user_role}', 'null');
+    END IF;
+
+    RETURN jsonb_set(event, '{claims}', claims);
+END;
+$$ LANGUAGE plpgsql STABLE;
@@ -0,0 +1,11 @@
+-- Audit log viewer (/admin/audit): a permission to read and export the log,
+-- and indexes for its filters
+
+INSERT INTO public.role_permissions (role, permission)
+VALUES
+    ('admin', 'view:audit'),
+    ('director', 'view:audit')
+ON CONFLICT (role, permission) DO NOTHING;
+
+CREATE INDEX IF NOT EXISTS audit_logs_target_user_id_idx ON public.audit_logs(target_user_id);
+CREATE INDEX IF NOT EXISTS audit_logs_success_timestamp_idx ON public.audit_logs(success, timestamp);
@@ -0,0 +1,7 @@
+-- One audit event schema (src/lib/audit.ts): every event records the client's
+-- user agent and the correlation id of the request it belongs to
+
+ALTER TABLE public.audit_logs ADD COLUMN IF NOT EXISTS user_agent TEXT;
+ALTER TABLE public.audit_logs ADD COLUMN IF NOT EXISTS correlation_id TEXT;
+
+CREATE INDEX IF NOT EXISTS audit_logs_correlation_id_idx ON public.audit_logs(correlation_id);
@@ -0,0 +1,110 @@
+-- User invitations: an admin or director invites an email address with a
+-- role and optional project memberships. The invitee accepts through a
+-- single-use link (/invite/<token>) and sets their own password. Only a
+-- SHA-256 hash of the token is stored.
+CREATE TABLE IF NOT EXISTS public.invitations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    email TEXT NOT NULL,
+    role TEXT NOT NULL,
+    -- [{ "projectId": "<uuid>", "role": "<role>" }, ...]
+    project_assignments JSONB NOT NULL DEFAULT '[]'::jsonb,
+    token_hash TEXT NOT NULL UNIQUE,
+    expires_at TIMESTAMPTZ NOT NULL,
+    invited_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    -- Resending replaces the token and pushes back the expiry
+    last_sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    send_count INTEGER NOT NULL DEFAULT 1,
+    accepted_at TIMESTAMPTZ,
+    accepted_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    revoked_at TIMESTAMPTZ,
+    revoked_by UUID REFERENCES public.users(id) ON DELETE SET NULL
+);
+
+-- At most one open invitation per email
+CREATE UNIQUE INDEX IF NOT EXISTS invitations_open_email_idx
+    ON public.invitations (lower(email))
+    WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+INSERT INTO public.role_permissions (role, permission)
+VALUES
+    ('admin', 'invite:users'),
+    ('director', 'invite:users')
+ON CONFLICT (role, permission) DO NOTHING;
+
+ALTER TABLE public.invitations ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users who may invite can see and manage invitations
+CREATE POLICY invitations_staff_manage ON public.invitations
+    USING (public.has_permission(auth.uid(), 'invite:users'))
+    WITH CHECK (public.has_permission(auth.uid(), 'invite:users'));
+
+CREATE POLICY invitations_active_only ON public.invitations
+    AS RESTRICTIVE
+    TO authenticated
+    USING (public.is_active_user())
+    WITH CHECK (public.is_active_user());
+
+-- The invitation a token belongs to, for the invitee who has no session yet.
+-- Returns nothing for unknown, accepted or revoked tokens.
+CREATE OR REPLACE FUNCTION public.get_invitation(p_token_hash TEXT)
+RETURNS TABLE (id UUID, email TEXT, role TEXT, expires_at TIMESTAMPTZ) AS $$
+    SELECT i.id, i.email, i.role, i.expires_at
+    FROM public.invitations AS i
+    WHERE i.token_hash = p_token_hash
+      AND i.accepted_at IS NULL
+      AND i.revoked_at IS NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Accept an invitation for the auth user just signed up with its email:
+-- creates their profile with the invited role, adds the project memberships
+-- and uses up the token, all at once.
+CREATE OR REPLACE FUNCTION public.accept_invitation(p_token_hash TEXT, p_user_id UUID)
+RETURNS TABLE (id UUID, invited_by UUID, role TEXT) AS $$
+DECLARE
+    invitation public.invitations%ROWTYPE;
+    user_email TEXT;
+BEGIN
+    SELECT * INTO invitation
+    FROM public.invitations AS i
+    WHERE i.token_hash = p_token_hash
+      AND i.accepted_at IS NULL
+      AND i.revoked_at IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invitation not found';
+    END IF;
+
+    IF invitation.expires_at <= NOW() THEN
+        RAISE EXCEPTION 'Invitation has expired';
+    END IF;
+
+    SELECT u.email INTO user_email FROM auth.users AS u WHERE u.id = p_user_id;
+
+    IF user_email IS NULL OR lower(user_email) <> lower(invitation.email) THEN
+        RAISE EXCEPTION 'Invitation is for a different email';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.users AS u WHERE u.id = p_user_id) THEN
+        RAISE EXCEPTION 'User already has a profile';
+    END IF;
+
+    INSERT INTO public.users (id, email, role, created_at)
+    VALUES (p_user_id, user_email, invitation.role, NOW());
+
+    INSERT INTO public.project_members (project_id, user_id, role, created_by)
+    SELECT (assignment->>'projectId')::UUID, p_user_id, assignment->>'role', invitation.invited_by
+    FROM jsonb_array_elements(invitation.project_assignments) AS assignment
+    ON CONFLICT (project_id, user_id) DO NOTHING;
+
+    UPDATE public.invitations AS i
+    SET accepted_at = NOW(), accepted_by = p_user_id
+    WHERE i.id = invitation.id;
+
+    RETURN QUERY SELECT invitation.id, invitation.invited_by, invitation.role;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_invitation TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_invitation TO anon, authenticated;
@@ -0,0 +1,53 @@
+-- Role delegation: the app decides who may assign which role
+-- (src/lib/roleDelegation.ts). The rules that must never be broken, whatever
+-- the caller, are also enforced here:
+--   * nobody changes their own role
+--   * only admins grant or take away the admin role
+--   * the last active admin can't be demoted, deactivated or deleted
+
+CREATE OR REPLACE FUNCTION public.enforce_role_delegation()
+RETURNS TRIGGER AS $$
+DECLARE
+    actor_role TEXT;
+BEGIN
+    -- Changes made by the user themselves or by another user; the service
+    -- role and migrations (no auth.uid()) are trusted
+    IF TG_OP = 'UPDATE' AND NEW.role IS DISTINCT FROM OLD.role AND auth.uid() IS NOT NULL THEN
+        IF auth.uid() = NEW.id THEN
+            RAISE EXCEPTION 'Users cannot change their own role';
+        END IF;
+
+        SELECT role INTO actor_role FROM public.users WHERE id = auth.uid();
+
+        IF (OLD.role = 'admin' OR NEW.role = 'admin') AND actor_role IS DISTINCT FROM 'admin' THEN
+            RAISE EXCEPTION 'Only admins can grant or revoke the admin role';
+        END IF;
+    END IF;
+
+    -- Whether this removes an active admin
+    IF OLD.role = 'admin' AND OLD.active AND (
+        TG_OP = 'DELETE' OR NEW.role <> 'admin' OR NOT NEW.active
+    ) THEN
+        -- Serialise concurrent demotions so two admins can't remove each other
+        PERFORM 1 FROM public.users WHERE role = 'admin' AND active FOR UPDATE;
+
+        IF NOT EXISTS (
+            SELECT 1 FROM public.users
+            WHERE role = 'admin' AND active AND id <> OLD.id
+        ) THEN
+            RAISE EXCEPTION 'At least one active admin is required';
+        END IF;
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_role_delegation ON public.users;
+CREATE TRIGGER enforce_role_delegation
+BEFORE UPDATE OF role, active OR DELETE ON public.users
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_role_delegation();
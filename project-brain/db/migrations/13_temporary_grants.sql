@@ -0,0 +1,169 @@
+-- Temporary grants: a role and/or a set of permissions given to a user on top
+-- of their own role, with a reason, until expires_at. Grants made by an admin
+-- for someone else apply at once; any other grant waits for another admin to
+-- approve it (src/lib/temporaryGrants.ts).
+CREATE TABLE IF NOT EXISTS public.temporary_grants (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    role TEXT,
+    permissions TEXT[] NOT NULL DEFAULT '{}',
+    reason TEXT NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    approved_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    approved_at TIMESTAMPTZ,
+    rejected_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    rejected_at TIMESTAMPTZ,
+    revoked_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    revoked_at TIMESTAMPTZ,
+    -- Set by expire_temporary_grants() once the expiry has been audited
+    expired_at TIMESTAMPTZ,
+    CONSTRAINT temporary_grants_grants_something
+        CHECK (role IS NOT NULL OR cardinality(permissions) > 0),
+    CONSTRAINT temporary_grants_has_reason CHECK (length(trim(reason)) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS temporary_grants_user_id_idx
+    ON public.temporary_grants (user_id, expires_at)
+    WHERE approved_at IS NOT NULL AND revoked_at IS NULL;
+
+INSERT INTO public.role_permissions (role, permission)
+VALUES
+    ('admin', 'manage:grants'),
+    ('director', 'manage:grants')
+ON CONFLICT (role, permission) DO NOTHING;
+
+ALTER TABLE public.temporary_grants ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can read their own grants
+CREATE POLICY temporary_grants_read_own ON public.temporary_grants
+    FOR SELECT
+    USING (user_id = auth.uid());
+
+-- Policy: Users who manage grants can see and manage all of them
+CREATE POLICY temporary_grants_staff_manage ON public.temporary_grants
+    USING (public.has_permission(auth.uid(), 'manage:grants'))
+    WITH CHECK (public.has_permission(auth.uid(), 'manage:grants'));
+
+CREATE POLICY temporary_grants_active_only ON public.temporary_grants
+    AS RESTRICTIVE
+    TO authenticated
+    USING (public.is_active_user())
+    WITH CHECK (public.is_active_user());
+
+-- Only admins approve grants, never their own or one made out to them
+CREATE OR REPLACE FUNCTION public.enforce_temporary_grant_approval()
+RETURNS TRIGGER AS $$
+DECLARE
+    actor_role TEXT;
+BEGIN
+    -- The service role and migrations (no auth.uid()) are trusted
+    IF auth.uid() IS NULL OR NEW.approved_at IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND OLD.approved_at IS NOT NULL THEN
+        IF NEW.approved_by IS DISTINCT FROM OLD.approved_by OR NEW.approved_at <> OLD.approved_at THEN
+            RAISE EXCEPTION 'Grant has already been approved';
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    SELECT role INTO actor_role FROM public.users WHERE id = auth.uid();
+
+    IF actor_role IS DISTINCT FROM 'admin' OR NEW.approved_by IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'Only admins can approve temporary grants';
+    END IF;
+
+    IF NEW.user_id = auth.uid() THEN
+        RAISE EXCEPTION 'Users cannot approve their own grants';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_temporary_grant_approval ON public.temporary_grants;
+CREATE TRIGGER enforce_temporary_grant_approval
+BEFORE INSERT OR UPDATE ON public.temporary_grants
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_temporary_grant_approval();
+
+-- Whether an approved grant of the user applies right now
+CREATE OR REPLACE FUNCTION public.has_active_grant(p_user_id UUID, required_permission TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.temporary_grants AS g
+        LEFT JOIN public.role_permissions AS rp ON rp.role = g.role
+        WHERE g.user_id = p_user_id
+          AND g.approved_at IS NOT NULL
+          AND g.revoked_at IS NULL
+          AND g.expires_at > NOW()
+          AND (required_permission = ANY (g.permissions) OR rp.permission = required_permission)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- has_permission now also honours temporary grants
+CREATE OR REPLACE FUNCTION public.has_permission(user_id UUID, required_permission TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+    user_role TEXT;
+BEGIN
+    -- Get the user's role
+    SELECT role INTO user_role FROM public.users WHERE id = user_id;
+
+    -- Check if the role has the permission
+    RETURN EXISTS (
+        SELECT 1 FROM public.role_permissions
+        WHERE role = user_role AND permission = required_permission
+    ) OR public.has_active_grant(has_permission.user_id, required_permission);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Audit every approved grant that has run out since the last call. Called
+-- before grants are listed and, where pg_cron is available, every minute.
+CREATE OR REPLACE FUNCTION public.expire_temporary_grants()
+RETURNS INTEGER AS $$
+DECLARE
+    expired_count INTEGER;
+BEGIN
+    WITH expired AS (
+        UPDATE public.temporary_grants
+        SET expired_at = NOW()
+        WHERE expired_at IS NULL
+          AND approved_at IS NOT NULL
+          AND revoked_at IS NULL
+          AND expires_at <= NOW()
+        RETURNING id, user_id, role, permissions, expires_at
+    )
+    INSERT INTO public.audit_logs (action, target_user_id, success, details)
+    SELECT
+        'temporary_grant_expired',
+        expired.user_id,
+        true,
+        jsonb_build_object(
+            'grantId', expired.id,
+            'role', expired.role,
+            'permissions', to_jsonb(expired.permissions),
+            'expiresAt', expired.expires_at
+        )
+    FROM expired;
+
+    GET DIAGNOSTICS expired_count = ROW_COUNT;
+    RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'expire-temporary-grants',
+            '* * * * *',
+            'SELECT public.expire_temporary_grants()'
+        );
+    END IF;
+END;
+$$;
@@ -0,0 +1,72 @@
+-- Impersonation: an admin views the app as another user, for support. The
+-- pb-impersonation cookie names a row here; it only takes effect for the
+-- admin who started it, until it ends or expires (src/lib/impersonation.ts).
+CREATE TABLE IF NOT EXISTS public.impersonation_sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    admin_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    target_user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL,
+    ended_at TIMESTAMPTZ,
+    CONSTRAINT impersonation_sessions_not_self CHECK (admin_id <> target_user_id),
+    CONSTRAINT impersonation_sessions_has_reason CHECK (length(trim(reason)) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS impersonation_sessions_admin_id_idx
+    ON public.impersonation_sessions (admin_id)
+    WHERE ended_at IS NULL;
+
+INSERT INTO public.role_permissions (role, permission)
+VALUES ('admin', 'impersonate:users')
+ON CONFLICT (role, permission) DO NOTHING;
+
+ALTER TABLE public.impersonation_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Admins who may impersonate see and manage their own sessions only
+CREATE POLICY impersonation_sessions_own ON public.impersonation_sessions
+    USING (admin_id = auth.uid() AND public.has_permission(auth.uid(), 'impersonate:users'))
+    WITH CHECK (admin_id = auth.uid() AND public.has_permission(auth.uid(), 'impersonate:users'));
+
+-- Policy: Anyone who can read the audit log can see who impersonated whom
+CREATE POLICY impersonation_sessions_audit_read ON public.impersonation_sessions
+    FOR SELECT
+    USING (public.has_permission(auth.uid(), 'view:audit'));
+
+CREATE POLICY impersonation_sessions_active_only ON public.impersonation_sessions
+    AS RESTRICTIVE
+    TO authenticated
+    USING (public.is_active_user())
+    WITH CHECK (public.is_active_user());
+
+-- Admins can't be impersonated, and sessions only ever end
+CREATE OR REPLACE FUNCTION public.enforce_impersonation_rules()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = NEW.target_user_id AND (role = 'admin' OR NOT active)
+        ) THEN
+            RAISE EXCEPTION 'This user cannot be impersonated';
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF NEW.admin_id <> OLD.admin_id
+        OR NEW.target_user_id <> OLD.target_user_id
+        OR NEW.started_at <> OLD.started_at
+        OR NEW.expires_at > OLD.expires_at
+        OR (OLD.ended_at IS NOT NULL AND NEW.ended_at IS DISTINCT FROM OLD.ended_at)
+    THEN
+        RAISE EXCEPTION 'Impersonation sessions can only be ended';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_impersonation_rules ON public.impersonation_sessions;
+CREATE TRIGGER enforce_impersonation_rules
+BEFORE INSERT OR UPDATE ON public.impersonation_sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_impersonation_rules();
@@ -0,0 +1,6 @@
+-- Broadcast changes to a user's own row, grants and memberships so the
+-- browser's AuthProvider can re-render gates as soon as they change.
+-- Realtime applies RLS, so each user only hears about their own rows.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.users;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.temporary_grants;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.project_members;
@@ -0,0 +1,72 @@
+-- Projects: the core entity every membership, document and task hangs off.
+-- Admins and directors see every project; everyone else only the projects
+-- they are a member of (project_members), as has_project_permission decides.
+CREATE TABLE IF NOT EXISTS public.projects (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name TEXT NOT NULL,
+    address TEXT NOT NULL,
+    client_name TEXT NOT NULL,
+    client_email TEXT,
+    scope TEXT NOT NULL DEFAULT '',
+    status TEXT NOT NULL DEFAULT 'active',
+    phase TEXT NOT NULL DEFAULT 'brief',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    -- Keep in step with PROJECT_STATUSES and PROJECT_PHASES in src/lib/projects.ts
+    CONSTRAINT projects_status_known
+        CHECK (status IN ('active', 'on_hold', 'completed', 'cancelled')),
+    CONSTRAINT projects_phase_known
+        CHECK (phase IN ('brief', 'concept', 'developed_design', 'consent', 'tender', 'construction', 'handover')),
+    CONSTRAINT projects_has_name CHECK (length(trim(name)) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS projects_status_idx ON public.projects (status);
+
+-- Memberships now point at real projects. Rows written before this table
+-- existed can't be checked, so the constraint only applies from here on.
+ALTER TABLE public.project_members
+    ADD CONSTRAINT project_members_project_id_fkey
+    FOREIGN KEY (project_id) REFERENCES public.projects(id) ON DELETE CASCADE
+    NOT VALID;
+
+-- Stamp every change
+CREATE OR REPLACE FUNCTION public.stamp_project_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at := NOW();
+    NEW.updated_by := auth.uid();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS stamp_project_update ON public.projects;
+CREATE TRIGGER stamp_project_update
+BEFORE UPDATE ON public.projects
+FOR EACH ROW
+EXECUTE FUNCTION public.stamp_project_update();
+
+ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can read the projects they may view
+CREATE POLICY projects_read ON public.projects
+    FOR SELECT
+    USING (public.has_project_permission(auth.uid(), id, 'view:projects'));
+
+-- Policy: Users who manage projects can create them
+CREATE POLICY projects_create ON public.projects
+    FOR INSERT
+    WITH CHECK (public.has_permission(auth.uid(), 'manage:projects'));
+
+-- Policy: Users who manage a project can edit it
+CREATE POLICY projects_update ON public.projects
+    FOR UPDATE
+    USING (public.has_project_permission(auth.uid(), id, 'manage:projects'))
+    WITH CHECK (public.has_project_permission(auth.uid(), id, 'manage:projects'));
+
+CREATE POLICY projects_active_only ON public.projects
+    AS RESTRICTIVE
+    TO authenticated
+    USING (public.is_active_user())
+    WITH CHECK (public.is_active_user());
@@ -0,0 +1,270 @@
+-- Project templates: blueprints of ordered phases, each with task
+-- blueprints, QA checklist items and fee lines (src/lib/templates.ts).
+-- Every save adds a new immutable version; projects record the version they
+-- were created from, so editing a template never changes existing projects.
+CREATE TABLE IF NOT EXISTS public.project_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name TEXT NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    current_version INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    CONSTRAINT project_templates_has_name CHECK (length(trim(name)) > 0)
+);
+
+CREATE TABLE IF NOT EXISTS public.project_template_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    template_id UUID NOT NULL REFERENCES public.project_templates(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    -- { "phases": [{ "name", "tasks": [{ "title", "description" }],
+    --   "checklist": [{ "label" }], "fees": [{ "description", "amount" }] }] }
+    definition JSONB NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    UNIQUE (template_id, version)
+);
+
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS template_version_id UUID
+    REFERENCES public.project_template_versions(id) ON DELETE SET NULL;
+
+-- What a project is made of once created, in template order
+CREATE TABLE IF NOT EXISTS public.project_phases (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.tasks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    phase_id UUID REFERENCES public.project_phases(id) ON DELETE SET NULL,
+    title TEXT NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.qa_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    phase_id UUID REFERENCES public.project_phases(id) ON DELETE SET NULL,
+    label TEXT NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    checked_at TIMESTAMPTZ,
+    checked_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.fee_lines (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    phase_id UUID REFERENCES public.project_phases(id) ON DELETE SET NULL,
+    description TEXT NOT NULL,
+    amount NUMERIC(12, 2) NOT NULL CHECK (amount >= 0),
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS project_phases_project_id_idx ON public.project_phases (project_id, position);
+CREATE INDEX IF NOT EXISTS tasks_project_id_idx ON public.tasks (project_id);
+CREATE INDEX IF NOT EXISTS qa_items_project_id_idx ON public.qa_items (project_id);
+CREATE INDEX IF NOT EXISTS fee_lines_project_id_idx ON public.fee_lines (project_id);
+
+-- Save a template's name, description and a new version of its definition,
+-- creating the template when p_template_id is null
+CREATE OR REPLACE FUNCTION public.save_project_template(
+    p_template_id UUID,
+    p_name TEXT,
+    p_description TEXT,
+    p_definition JSONB
+)
+RETURNS TABLE (id UUID, version INTEGER) AS $$
+DECLARE
+    template_id UUID := p_template_id;
+    next_version INTEGER;
+BEGIN
+    IF template_id IS NULL THEN
+        INSERT INTO public.project_templates (name, description, created_by)
+        VALUES (p_name, p_description, auth.uid())
+        RETURNING project_templates.id INTO template_id;
+    END IF;
+
+    UPDATE public.project_templates AS t
+    SET name = p_name,
+        description = p_description,
+        current_version = t.current_version + 1
+    WHERE t.id = template_id
+    RETURNING t.current_version INTO next_version;
+
+    IF next_version IS NULL THEN
+        RAISE EXCEPTION 'Template not found';
+    END IF;
+
+    INSERT INTO public.project_template_versions (template_id, version, definition, created_by)
+    VALUES (template_id, next_version, p_definition, auth.uid());
+
+    RETURN QUERY SELECT template_id, next_version;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Create a project from a template version along with its phases, tasks,
+-- QA checklist and fee lines, all or nothing. Runs as the caller, so RLS
+-- decides whether they may create projects.
+CREATE OR REPLACE FUNCTION public.create_project_from_template(
+    p_template_version_id UUID,
+    p_project JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+    definition JSONB;
+    new_project_id UUID;
+    new_phase_id UUID;
+    phase JSONB;
+    phase_position BIGINT;
+BEGIN
+    SELECT v.definition INTO definition
+    FROM public.project_template_versions AS v
+    WHERE v.id = p_template_version_id;
+
+    IF definition IS NULL THEN
+        RAISE EXCEPTION 'Template not found';
+    END IF;
+
+    INSERT INTO public.projects (
+        name, address, client_name, client_email, scope, status, phase,
+        created_by, template_version_id
+    )
+    VALUES (
+        p_project->>'name',
+        p_project->>'address',
+        p_project->>'client_name',
+        p_project->>'client_email',
+        COALESCE(p_project->>'scope', ''),
+        COALESCE(p_project->>'status', 'active'),
+        COALESCE(p_project->>'phase', 'brief'),
+        auth.uid(),
+        p_template_version_id
+    )
+    RETURNING id INTO new_project_id;
+
+    FOR phase, phase_position IN
+        SELECT value, ordinality FROM jsonb_array_elements(definition->'phases') WITH ORDINALITY
+    LOOP
+        INSERT INTO public.project_phases (project_id, name, position)
+        VALUES (new_project_id, phase->>'name', phase_position)
+        RETURNING id INTO new_phase_id;
+
+        INSERT INTO public.tasks (project_id, phase_id, title, description, position, created_by)
+        SELECT new_project_id, new_phase_id, task->>'title', COALESCE(task->>'description', ''), ordinality, auth.uid()
+        FROM jsonb_array_elements(phase->'tasks') WITH ORDINALITY AS t(task, ordinality);
+
+        INSERT INTO public.qa_items (project_id, phase_id, label, position)
+        SELECT new_project_id, new_phase_id, item->>'label', ordinality
+        FROM jsonb_array_elements(phase->'checklist') WITH ORDINALITY AS c(item, ordinality);
+
+        INSERT INTO public.fee_lines (project_id, phase_id, description, amount, position)
+        SELECT new_project_id, new_phase_id, fee->>'description', (fee->>'amount')::NUMERIC, ordinality
+        FROM jsonb_array_elements(phase->'fees') WITH ORDINALITY AS f(fee, ordinality);
+    END LOOP;
+
+    RETURN new_project_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.save_project_template TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_project_from_template TO authenticated;
+
+ALTER TABLE public.project_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.project_template_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.project_phases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.qa_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fee_lines ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users who manage projects can see and edit templates
+CREATE POLICY project_templates_manage ON public.project_templates
+    USING (public.has_permission(auth.uid(), 'manage:projects'))
+    WITH CHECK (public.has_permission(auth.uid(), 'manage:projects'));
+
+-- Policy: Versions are read and added, never changed
+CREATE POLICY project_template_versions_read ON public.project_template_versions
+    FOR SELECT
+    USING (public.has_permission(auth.uid(), 'manage:projects'));
+
+CREATE POLICY project_template_versions_create ON public.project_template_versions
+    FOR INSERT
+    WITH CHECK (public.has_permission(auth.uid(), 'manage:projects'));
+
+-- Policy: A project's phases, tasks, checklist and fees are visible to whoever
+-- can view the project and managed by whoever can manage it
+CREATE POLICY project_phases_read ON public.project_phases
+    FOR SELECT
+    USING (public.has_project_permission(auth.uid(), project_id, 'view:projects'));
+
+CREATE POLICY project_phases_manage ON public.project_phases
+    USING (public.has_project_permission(auth.uid(), project_id, 'manage:projects'))
+    WITH CHECK (public.has_project_permission(auth.uid(), project_id, 'manage:projects'));
+
+CREATE POLICY tasks_read ON public.tasks
+    FOR SELECT
+    USING (public.has_project_permission(auth.uid(), project_id, 'view:projects'));
+
+CREATE POLICY tasks_manage ON public.tasks
+    USING (public.has_project_permission(auth.uid(), project_id, 'manage:projects'))
+    WITH CHECK (public.has_project_permission(auth.uid(), project_id, 'manage:projects'));
+
+CREATE POLICY qa_items_read ON public.qa_items
+    FOR SELECT
+    USING (public.has_project_permission(auth.uid(), project_id, 'view:projects'));
+
+CREATE POLICY qa_items_manage ON public.qa_items
+    USING (public.has_project_permission(auth.uid(), project_id, 'manage:projects'))
+    WITH CHECK (public.has_project_permission(auth.uid(), project_id, 'manage:projects'));
+
+CREATE POLICY fee_lines_read ON public.fee_lines
+    FOR SELECT
+    USING (public.has_project_permission(auth.uid(), project_id, 'view:projects'));
+
+CREATE POLICY fee_lines_manage ON public.fee_lines
+    USING (public.has_project_permission(auth.uid(), project_id, 'manage:projects'))
+    WITH CHECK (public.has_project_permission(auth.uid(), project_id, 'manage:projects'));
+
+CREATE POLICY project_templates_active_only ON public.project_templates
+    AS RESTRICTIVE
+    TO authenticated
+    USING (public.is_active_user())
+    WITH CHECK (public.is_active_user());
+
+CREATE POLICY project_template_versions_active_only ON public.project_template_versions
+    AS RESTRICTIVE
+    TO authenticated
+    USING (public.is_active_user())
+    WITH CHECK (public.is_active_user());
+
+CREATE POLICY project_phases_active_only ON public.project_phases
+    AS RESTRICTIVE
+    TO authenticated
+    USING (public.is_active_user())
+    WITH CHECK (public.is_active_user());
+
+CREATE POLICY tasks_active_only ON public.tasks
+    AS RESTRICTIVE
+    TO authenticated
+    USING (public.is_active_user())
+    WITH CHECK (public.is_active_user());
+
+CREATE POLICY qa_items_active_only ON public.qa_items
+    AS RESTRICTIVE
+    TO authenticated
+    USING (public.is_active_user())
+    WITH CHECK (public.is_active_user());
+
+CREATE POLICY fee_lines_active_only ON public.fee_lines
+    AS RESTRICTIVE
+    TO authenticated
+    USING (public.is_active_user())
+    WITH CHECK (public.is_active_user());
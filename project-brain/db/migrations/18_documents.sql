@@ -0,0 +1,249 @@
+-- Project documents, filed in per-project folders (src/lib/documents.ts).
+-- Every upload is a new version of a document; file bodies live in the
+-- private "documents" storage bucket under projects/<project id>/, and the
+-- browser moves them through short-lived signed links (src/lib/storage.ts).
+CREATE TABLE IF NOT EXISTS public.document_folders (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    parent_id UUID REFERENCES public.document_folders(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    CONSTRAINT document_folders_has_name CHECK (length(trim(name)) > 0)
+);
+
+CREATE TABLE IF NOT EXISTS public.documents (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    folder_id UUID REFERENCES public.document_folders(id) ON DELETE SET NULL,
+    name TEXT NOT NULL,
+    uploaded_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT documents_has_name CHECK (length(trim(name)) > 0)
+);
+
+-- A version exists from the moment its upload link is handed out;
+-- completed_at is set once the file has landed in storage. Uploads by
+-- anyone who can't manage content on the project wait for review.
+CREATE TABLE IF NOT EXISTS public.document_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    storage_path TEXT NOT NULL UNIQUE,
+    file_name TEXT NOT NULL,
+    content_type TEXT NOT NULL,
+    size_bytes BIGINT NOT NULL CHECK (size_bytes >= 0),
+    uploaded_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    uploaded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    review_status TEXT NOT NULL DEFAULT 'pending',
+    reviewed_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMPTZ,
+    UNIQUE (document_id, version),
+    CONSTRAINT document_versions_review_status_check CHECK (review_status IN ('pending', 'approved', 'rejected'))
+);
+
+CREATE INDEX IF NOT EXISTS document_folders_project_id_idx ON public.document_folders (project_id);
+CREATE INDEX IF NOT EXISTS documents_project_id_idx ON public.documents (project_id, folder_id);
+CREATE INDEX IF NOT EXISTS document_versions_document_id_idx ON public.document_versions (document_id, version);
+CREATE INDEX IF NOT EXISTS document_versions_review_idx ON public.document_versions (project_id)
+    WHERE review_status = 'pending' AND completed_at IS NOT NULL;
+
+-- Start an upload: create the document when p_document_id is null, then add
+-- the next version of it, all or nothing. Runs as the caller, so RLS decides
+-- whether they may upload to the project or add a version to the document.
+CREATE OR REPLACE FUNCTION public.start_document_upload(
+    p_project_id UUID,
+    p_folder_id UUID,
+    p_document_id UUID,
+    p_file_name TEXT,
+    p_content_type TEXT,
+    p_size_bytes BIGINT
+)
+RETURNS TABLE (document_id UUID, version_id UUID, version INTEGER, storage_path TEXT) AS $$
+DECLARE
+    target_document_id UUID := p_document_id;
+    next_version INTEGER;
+    new_version_id UUID := uuid_generate_v4();
+    new_storage_path TEXT;
+BEGIN
+    IF target_document_id IS NULL THEN
+        INSERT INTO public.documents (project_id, folder_id, name, uploaded_by)
+        VALUES (p_project_id, p_folder_id, p_file_name, auth.uid())
+        RETURNING id INTO target_document_id;
+    END IF;
+
+    -- Lock the document so concurrent uploads get consecutive versions
+    UPDATE public.documents AS d
+    SET updated_at = NOW()
+    WHERE d.id = target_document_id AND d.project_id = p_project_id
+    RETURNING (
+        SELECT COALESCE(MAX(v.version), 0) + 1
+        FROM public.document_versions AS v
+        WHERE v.document_id = d.id
+    ) INTO next_version;
+
+    IF next_version IS NULL THEN
+        RAISE EXCEPTION 'Document not found';
+    END IF;
+
+    new_storage_path := 'projects/' || p_project_id || '/' || target_document_id || '/' || new_version_id;
+
+    INSERT INTO public.document_versions (
+        id, document_id, project_id, version, storage_path, file_name, content_type, size_bytes, uploaded_by
+    )
+    VALUES (
+        new_version_id, target_document_id, p_project_id, next_version, new_storage_path,
+        p_file_name, p_content_type, p_size_bytes, auth.uid()
+    );
+
+    RETURN QUERY SELECT target_document_id, new_version_id, next_version, new_storage_path;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.start_document_upload TO authenticated;
+
+-- Only content managers on the project decide a version's review status,
+-- whoever else may update the row
+CREATE OR REPLACE FUNCTION public.guard_document_review()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (TG_OP = 'INSERT' AND NEW.review_status <> 'pending')
+        OR (TG_OP = 'UPDATE' AND (
+            NEW.review_status IS DISTINCT FROM OLD.review_status
+            OR NEW.reviewed_by IS DISTINCT FROM OLD.reviewed_by
+        ))
+    THEN
+        IF NOT public.has_project_permission(auth.uid(), NEW.project_id, 'manage:content') THEN
+            RAISE EXCEPTION 'Only content managers can review documents';
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_document_review ON public.document_versions;
+CREATE TRIGGER guard_document_review
+    BEFORE INSERT OR UPDATE ON public.document_versions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_document_review();
+
+ALTER TABLE public.document_folders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.document_versions ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Folders and documents are visible to whoever can view the project
+CREATE POLICY document_folders_read ON public.document_folders
+    FOR SELECT
+    USING (public.has_project_permission(auth.uid(), project_id, 'view:projects'));
+
+-- Policy: Content managers on the project organise its folders
+CREATE POLICY document_folders_manage ON public.document_folders
+    USING (public.has_project_permission(auth.uid(), project_id, 'manage:content'))
+    WITH CHECK (public.has_project_permission(auth.uid(), project_id, 'manage:content'));
+
+CREATE POLICY documents_read ON public.documents
+    FOR SELECT
+    USING (public.has_project_permission(auth.uid(), project_id, 'view:projects'));
+
+-- Policy: Anyone who can submit content to the project can add documents
+CREATE POLICY documents_create ON public.documents
+    FOR INSERT
+    WITH CHECK (
+        uploaded_by = auth.uid()
+        AND public.has_project_permission(auth.uid(), project_id, 'submit:content')
+    );
+
+-- Policy: Documents are changed by whoever added them or content managers
+CREATE POLICY documents_update ON public.documents
+    FOR UPDATE
+    USING (
+        (uploaded_by = auth.uid() AND public.has_project_permission(auth.uid(), project_id, 'submit:content'))
+        OR public.has_project_permission(auth.uid(), project_id, 'manage:content')
+    );
+
+CREATE POLICY documents_delete ON public.documents
+    FOR DELETE
+    USING (
+        (uploaded_by = auth.uid() AND public.has_project_permission(auth.uid(), project_id, 'submit:content'))
+        OR public.has_project_permission(auth.uid(), project_id, 'manage:content')
+    );
+
+-- Policy: Approved versions are visible to whoever can view the project;
+-- pending and rejected ones only to their uploader and content managers
+CREATE POLICY document_versions_read ON public.document_versions
+    FOR SELECT
+    USING (
+        public.has_project_permission(auth.uid(), project_id, 'view:projects')
+        AND (
+            review_status = 'approved'
+            OR uploaded_by = auth.uid()
+            OR public.has_project_permission(auth.uid(), project_id, 'manage:content')
+        )
+    );
+
+CREATE POLICY document_versions_create ON public.document_versions
+    FOR INSERT
+    WITH CHECK (
+        uploaded_by = auth.uid()
+        AND public.has_project_permission(auth.uid(), project_id, 'submit:content')
+    );
+
+-- Policy: Uploaders complete their own uploads; content managers review
+CREATE POLICY document_versions_complete ON public.document_versions
+    FOR UPDATE
+    USING (uploaded_by = auth.uid() AND completed_at IS NULL);
+
+CREATE POLICY document_versions_review ON public.document_versions
+    FOR UPDATE
+    USING (public.has_project_permission(auth.uid(), project_id, 'manage:content'));
+
+CREATE POLICY document_folders_active_only ON public.document_folders
+    AS RESTRICTIVE
+    TO authenticated
+    USING (public.is_active_user())
+    WITH CHECK (public.is_active_user());
+
+CREATE POLICY documents_active_only ON public.documents
+    AS RESTRICTIVE
+    TO authenticated
+    USING (public.is_active_user())
+    WITH CHECK (public.is_active_user());
+
+CREATE POLICY document_versions_active_only ON public.document_versions
+    AS RESTRICTIVE
+    TO authenticated
+    USING (public.is_active_user())
+    WITH CHECK (public.is_active_user());
+
+-- Private bucket for the file bodies; nothing in it is public
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('documents', 'documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Policy: A file can be read by whoever can see its version row, so storage
+-- follows the same membership and review rules as the tables
+CREATE POLICY documents_bucket_read ON storage.objects
+    FOR SELECT
+    TO authenticated
+    USING (
+        bucket_id = 'documents'
+        AND EXISTS (SELECT 1 FROM public.document_versions v WHERE v.storage_path = name)
+    );
+
+-- Policy: A file can only be written by its uploader, until the upload completes
+CREATE POLICY documents_bucket_upload ON storage.objects
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        bucket_id = 'documents'
+        AND EXISTS (
+            SELECT 1 FROM public.document_versions v
+            WHERE v.storage_path = name
+              AND v.uploaded_by = auth.uid()
+              AND v.completed_at IS NULL
+        )
+    );
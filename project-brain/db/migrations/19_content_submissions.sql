@@ -0,0 +1,178 @@
+-- Content submitted for review (src/lib/submissions.ts). Anyone who can
+-- submit content drafts and submits; content managers on the project request
+-- changes, approve or reject. Every move and its comment is kept.
+CREATE TABLE IF NOT EXISTS public.content_submissions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    body TEXT NOT NULL DEFAULT '',
+    status TEXT NOT NULL DEFAULT 'draft',
+    author_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    submitted_at TIMESTAMPTZ,
+    decided_at TIMESTAMPTZ,
+    decided_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    CONSTRAINT content_submissions_has_title CHECK (length(trim(title)) > 0),
+    CONSTRAINT content_submissions_status_check
+        CHECK (status IN ('draft', 'submitted', 'changes_requested', 'approved', 'rejected'))
+);
+
+-- Reviewer and author comments; from_status and to_status are set on the
+-- comment that explained a transition
+CREATE TABLE IF NOT EXISTS public.content_submission_comments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    submission_id UUID NOT NULL REFERENCES public.content_submissions(id) ON DELETE CASCADE,
+    author_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    body TEXT NOT NULL,
+    from_status TEXT,
+    to_status TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT content_submission_comments_has_body CHECK (length(trim(body)) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS content_submissions_project_id_idx ON public.content_submissions (project_id, status);
+CREATE INDEX IF NOT EXISTS content_submissions_author_id_idx ON public.content_submissions (author_id);
+CREATE INDEX IF NOT EXISTS content_submission_comments_submission_id_idx
+    ON public.content_submission_comments (submission_id, created_at);
+
+-- Enforce the review state machine whoever updates a submission, mirroring
+-- SUBMISSION_TRANSITIONS: authors submit from draft or changes requested,
+-- content managers other than the author decide on submitted ones, and only
+-- authors edit the content, while it is theirs to edit
+CREATE OR REPLACE FUNCTION public.guard_submission_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.project_id IS DISTINCT FROM OLD.project_id OR NEW.author_id IS DISTINCT FROM OLD.author_id THEN
+        RAISE EXCEPTION 'A submission cannot be moved or reassigned';
+    END IF;
+
+    IF (NEW.title IS DISTINCT FROM OLD.title OR NEW.body IS DISTINCT FROM OLD.body)
+        AND (OLD.author_id IS DISTINCT FROM auth.uid() OR OLD.status NOT IN ('draft', 'changes_requested'))
+    THEN
+        RAISE EXCEPTION 'Only the author can edit a submission, and only before it is reviewed';
+    END IF;
+
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+        IF OLD.status IN ('draft', 'changes_requested') AND NEW.status = 'submitted' THEN
+            IF OLD.author_id IS DISTINCT FROM auth.uid()
+                OR NOT public.has_project_permission(auth.uid(), OLD.project_id, 'submit:content')
+            THEN
+                RAISE EXCEPTION 'Only the author can submit this for review';
+            END IF;
+
+            NEW.submitted_at := NOW();
+            NEW.decided_at := NULL;
+            NEW.decided_by := NULL;
+        ELSIF OLD.status = 'submitted' AND NEW.status IN ('changes_requested', 'approved', 'rejected') THEN
+            IF OLD.author_id IS NOT DISTINCT FROM auth.uid()
+                OR NOT public.has_project_permission(auth.uid(), OLD.project_id, 'manage:content')
+            THEN
+                RAISE EXCEPTION 'Only content managers other than the author can review this';
+            END IF;
+
+            NEW.decided_at := NOW();
+            NEW.decided_by := auth.uid();
+        ELSE
+            RAISE EXCEPTION 'Cannot move a submission from % to %', OLD.status, NEW.status;
+        END IF;
+    END IF;
+
+    NEW.updated_at := NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_submission_transition ON public.content_submissions;
+CREATE TRIGGER guard_submission_transition
+    BEFORE UPDATE ON public.content_submissions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_submission_transition();
+
+-- Move a submission from one status to another along with the comment
+-- explaining it, all or nothing. Returns false if the submission was no
+-- longer in p_from_status, i.e. someone else moved it first.
+CREATE OR REPLACE FUNCTION public.transition_content_submission(
+    p_submission_id UUID,
+    p_from_status TEXT,
+    p_to_status TEXT,
+    p_comment TEXT
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+    IF p_to_status IN ('changes_requested', 'rejected') AND length(trim(COALESCE(p_comment, ''))) = 0 THEN
+        RAISE EXCEPTION 'Add a comment explaining why';
+    END IF;
+
+    UPDATE public.content_submissions
+    SET status = p_to_status
+    WHERE id = p_submission_id AND status = p_from_status;
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    IF length(trim(COALESCE(p_comment, ''))) > 0 THEN
+        INSERT INTO public.content_submission_comments (submission_id, author_id, body, from_status, to_status)
+        VALUES (p_submission_id, auth.uid(), trim(p_comment), p_from_status, p_to_status);
+    END IF;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.transition_content_submission TO authenticated;
+
+ALTER TABLE public.content_submissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.content_submission_comments ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Authors see their own submissions; content managers see every
+-- submission on their projects
+CREATE POLICY content_submissions_read ON public.content_submissions
+    FOR SELECT
+    USING (
+        (author_id = auth.uid() AND public.has_project_permission(auth.uid(), project_id, 'submit:content'))
+        OR public.has_project_permission(auth.uid(), project_id, 'manage:content')
+    );
+
+-- Policy: Submissions start as the author's draft
+CREATE POLICY content_submissions_create ON public.content_submissions
+    FOR INSERT
+    WITH CHECK (
+        author_id = auth.uid()
+        AND status = 'draft'
+        AND public.has_project_permission(auth.uid(), project_id, 'submit:content')
+    );
+
+-- Policy: Authors and content managers update submissions; which changes
+-- each may make is up to guard_submission_transition()
+CREATE POLICY content_submissions_update ON public.content_submissions
+    FOR UPDATE
+    USING (
+        (author_id = auth.uid() AND public.has_project_permission(auth.uid(), project_id, 'submit:content'))
+        OR public.has_project_permission(auth.uid(), project_id, 'manage:content')
+    );
+
+-- Policy: Comments go with their submission: whoever sees it reads and adds them
+CREATE POLICY content_submission_comments_read ON public.content_submission_comments
+    FOR SELECT
+    USING (EXISTS (SELECT 1 FROM public.content_submissions s WHERE s.id = submission_id));
+
+CREATE POLICY content_submission_comments_create ON public.content_submission_comments
+    FOR INSERT
+    WITH CHECK (
+        author_id = auth.uid()
+        AND EXISTS (SELECT 1 FROM public.content_submissions s WHERE s.id = submission_id)
+    );
+
+CREATE POLICY content_submissions_active_only ON public.content_submissions
+    AS RESTRICTIVE
+    TO authenticated
+    USING (public.is_active_user())
+    WITH CHECK (public.is_active_user());
+
+CREATE POLICY content_submission_comments_active_only ON public.content_submission_comments
+    AS RESTRICTIVE
+    TO authenticated
+    USING (public.is_active_user())
+    WITH CHECK (public.is_active_user());
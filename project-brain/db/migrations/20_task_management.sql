@@ -0,0 +1,199 @@
+-- Task management (src/lib/tasks.ts): the tasks created with a project's
+-- phases gain an assignee, due date, status and a shared flag, plus
+-- dependencies between tasks and comments. Directors (manage:projects)
+-- create and edit tasks; assignees move their own through the board.
+-- Clients and builders only see tasks shared with them.
+ALTER TABLE public.tasks
+ADD COLUMN IF NOT EXISTS assignee_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS due_date DATE,
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'todo',
+ADD COLUMN IF NOT EXISTS shared BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+
+ALTER TABLE public.tasks
+ADD CONSTRAINT tasks_status_check CHECK (status IN ('todo', 'in_progress', 'blocked', 'done'));
+
+CREATE INDEX IF NOT EXISTS tasks_assignee_id_idx ON public.tasks (assignee_id) WHERE status <> 'done';
+CREATE INDEX IF NOT EXISTS tasks_due_date_idx ON public.tasks (due_date) WHERE status <> 'done';
+
+-- A task can't be done before the tasks it depends on
+CREATE TABLE IF NOT EXISTS public.task_dependencies (
+    task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+    depends_on_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (task_id, depends_on_id),
+    CONSTRAINT task_dependencies_not_self CHECK (task_id <> depends_on_id)
+);
+
+CREATE INDEX IF NOT EXISTS task_dependencies_depends_on_id_idx ON public.task_dependencies (depends_on_id);
+
+CREATE TABLE IF NOT EXISTS public.task_comments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+    author_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    body TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT task_comments_has_body CHECK (length(trim(body)) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS task_comments_task_id_idx ON public.task_comments (task_id, created_at);
+
+-- Whoever updates a task: only those who manage the project change anything
+-- but its status, a task can't be done while a dependency isn't, and
+-- completion is stamped
+CREATE OR REPLACE FUNCTION public.guard_task_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT public.has_project_permission(auth.uid(), OLD.project_id, 'manage:projects') AND (
+        NEW.project_id IS DISTINCT FROM OLD.project_id
+        OR NEW.phase_id IS DISTINCT FROM OLD.phase_id
+        OR NEW.title IS DISTINCT FROM OLD.title
+        OR NEW.description IS DISTINCT FROM OLD.description
+        OR NEW.position IS DISTINCT FROM OLD.position
+        OR NEW.assignee_id IS DISTINCT FROM OLD.assignee_id
+        OR NEW.due_date IS DISTINCT FROM OLD.due_date
+        OR NEW.shared IS DISTINCT FROM OLD.shared
+    ) THEN
+        RAISE EXCEPTION 'Only the status of an assigned task can be changed';
+    END IF;
+
+    IF NEW.status = 'done' AND OLD.status <> 'done' THEN
+        IF EXISTS (
+            SELECT 1
+            FROM public.task_dependencies d
+            JOIN public.tasks t ON t.id = d.depends_on_id
+            WHERE d.task_id = NEW.id AND t.status <> 'done'
+        ) THEN
+            RAISE EXCEPTION 'Finish the tasks this depends on first';
+        END IF;
+
+        NEW.completed_at := NOW();
+    ELSIF NEW.status <> 'done' THEN
+        NEW.completed_at := NULL;
+    END IF;
+
+    NEW.updated_at := NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_task_update ON public.tasks;
+CREATE TRIGGER guard_task_update
+    BEFORE UPDATE ON public.tasks
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_task_update();
+
+-- Dependencies stay within a project and never loop
+CREATE OR REPLACE FUNCTION public.guard_task_dependency()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (SELECT project_id FROM public.tasks WHERE id = NEW.task_id)
+        IS DISTINCT FROM (SELECT project_id FROM public.tasks WHERE id = NEW.depends_on_id)
+    THEN
+        RAISE EXCEPTION 'Tasks can only depend on tasks in the same project';
+    END IF;
+
+    IF EXISTS (
+        WITH RECURSIVE upstream AS (
+            SELECT depends_on_id FROM public.task_dependencies WHERE task_id = NEW.depends_on_id
+            UNION
+            SELECT d.depends_on_id
+            FROM public.task_dependencies d
+            JOIN upstream u ON d.task_id = u.depends_on_id
+        )
+        SELECT 1 FROM upstream WHERE depends_on_id = NEW.task_id
+    ) THEN
+        RAISE EXCEPTION 'Tasks cannot depend on each other in a loop';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_task_dependency ON public.task_dependencies;
+CREATE TRIGGER guard_task_dependency
+    BEFORE INSERT OR UPDATE ON public.task_dependencies
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_task_dependency();
+
+-- Replace a task's dependencies in one transaction. Runs as the caller, so
+-- only those who manage the project can, and guard_task_dependency() checks
+-- every new one.
+CREATE OR REPLACE FUNCTION public.set_task_dependencies(p_task_id UUID, p_depends_on UUID[])
+RETURNS VOID AS $$
+BEGIN
+    DELETE FROM public.task_dependencies
+    WHERE task_id = p_task_id AND NOT (depends_on_id = ANY(p_depends_on));
+
+    INSERT INTO public.task_dependencies (task_id, depends_on_id)
+    SELECT p_task_id, depends_on_id
+    FROM unnest(p_depends_on) AS depends_on_id
+    ON CONFLICT DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.set_task_dependencies(UUID, UUID[]) TO authenticated;
+
+ALTER TABLE public.task_dependencies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.task_comments ENABLE ROW LEVEL SECURITY;
+
+-- Policy: The project team (team and above, the roles that manage content)
+-- see every task; anyone else on the project sees shared tasks and their own
+DROP POLICY IF EXISTS tasks_read ON public.tasks;
+CREATE POLICY tasks_read ON public.tasks
+    FOR SELECT
+    USING (
+        public.has_project_permission(auth.uid(), project_id, 'manage:content')
+        OR (
+            (shared OR assignee_id = auth.uid())
+            AND public.has_project_permission(auth.uid(), project_id, 'view:projects')
+        )
+    );
+
+-- Policy: Assignees update their own tasks; guard_task_update() limits them to the status
+CREATE POLICY tasks_update_assigned ON public.tasks
+    FOR UPDATE
+    USING (
+        assignee_id = auth.uid()
+        AND public.has_project_permission(auth.uid(), project_id, 'view:projects')
+    );
+
+-- Policy: Dependencies and comments go with their task: whoever sees the
+-- task sees them, and those who manage the project set dependencies
+CREATE POLICY task_dependencies_read ON public.task_dependencies
+    FOR SELECT
+    USING (EXISTS (SELECT 1 FROM public.tasks t WHERE t.id = task_id));
+
+CREATE POLICY task_dependencies_manage ON public.task_dependencies
+    USING (EXISTS (
+        SELECT 1 FROM public.tasks t
+        WHERE t.id = task_id AND public.has_project_permission(auth.uid(), t.project_id, 'manage:projects')
+    ))
+    WITH CHECK (EXISTS (
+        SELECT 1 FROM public.tasks t
+        WHERE t.id = task_id AND public.has_project_permission(auth.uid(), t.project_id, 'manage:projects')
+    ));
+
+CREATE POLICY task_comments_read ON public.task_comments
+    FOR SELECT
+    USING (EXISTS (SELECT 1 FROM public.tasks t WHERE t.id = task_id));
+
+CREATE POLICY task_comments_create ON public.task_comments
+    FOR INSERT
+    WITH CHECK (
+        author_id = auth.uid()
+        AND EXISTS (SELECT 1 FROM public.tasks t WHERE t.id = task_id)
+    );
+
+CREATE POLICY task_dependencies_active_only ON public.task_dependencies
+    AS RESTRICTIVE
+    TO authenticated
+    USING (public.is_active_user())
+    WITH CHECK (public.is_active_user());
+
+CREATE POLICY task_comments_active_only ON public.task_comments
+    AS RESTRICTIVE
+    TO authenticated
+    USING (public.is_active_user())
+    WITH CHECK (public.is_active_user());
@@ -0,0 +1,105 @@
+-- Role inheritance in the database. A role holds the permissions of every
+-- role it includes: the built-in hierarchy (ROLE_HIERARCHY in
+-- src/lib/auth.ts) plus each custom role's parent_roles, followed all the
+-- way down. has_permission and has_project_permission now resolve it the
+-- same way the app does, so RLS agrees with the checks in code.
+
+-- Every role a role includes: itself and everything it inherits, directly or
+-- further down. UNION stops at roles already reached, so a cycle can't loop.
+CREATE OR REPLACE FUNCTION public.inherited_roles(p_role TEXT)
+RETURNS SETOF TEXT AS $$
+    WITH RECURSIVE role_parents(role, parent_role) AS (
+        VALUES
+            ('admin', 'director'),
+            ('director', 'team'),
+            ('team', 'client'),
+            ('team', 'builder')
+        UNION ALL
+        SELECT cr.key, unnest(cr.parent_roles)
+        FROM public.custom_roles AS cr
+    ),
+    closure(role) AS (
+        SELECT p_role
+        WHERE p_role IS NOT NULL
+        UNION
+        SELECT rp.parent_role
+        FROM role_parents AS rp
+        JOIN closure ON closure.role = rp.role
+    )
+    SELECT role FROM closure;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether a role holds a permission directly or through inheritance
+CREATE OR REPLACE FUNCTION public.role_has_permission(p_role TEXT, required_permission TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.role_permissions AS rp
+        WHERE rp.role IN (SELECT public.inherited_roles(p_role))
+          AND rp.permission = required_permission
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- A granted role brings its inherited permissions too
+CREATE OR REPLACE FUNCTION public.has_active_grant(p_user_id UUID, required_permission TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.temporary_grants AS g
+        WHERE g.user_id = p_user_id
+          AND g.approved_at IS NOT NULL
+          AND g.revoked_at IS NULL
+          AND g.expires_at > NOW()
+          AND (
+              required_permission = ANY (g.permissions)
+              OR public.role_has_permission(g.role, required_permission)
+          )
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.has_permission(user_id UUID, required_permission TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+    user_role TEXT;
+BEGIN
+    -- Get the user's role
+    SELECT role INTO user_role FROM public.users WHERE id = user_id;
+
+    -- Check the role and everything it inherits, then temporary grants
+    RETURN public.role_has_permission(user_role, required_permission)
+        OR public.has_active_grant(has_permission.user_id, required_permission);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.has_project_permission(
+    user_id UUID,
+    project_id UUID,
+    required_permission TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    global_role TEXT;
+    project_role TEXT;
+BEGIN
+    SELECT role INTO global_role FROM public.users WHERE id = has_project_permission.user_id;
+
+    -- Admins and directors act on every project with their global role
+    IF global_role IN ('admin', 'director') THEN
+        RETURN public.has_permission(has_project_permission.user_id, required_permission);
+    END IF;
+
+    SELECT pm.role INTO project_role
+    FROM public.project_members pm
+    WHERE pm.user_id = has_project_permission.user_id
+      AND pm.project_id = has_project_permission.project_id;
+
+    IF project_role IS NULL THEN
+        RETURN FALSE;
+    END IF;
+
+    RETURN public.role_has_permission(project_role, required_permission);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.inherited_roles(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.role_has_permission(TEXT, TEXT) TO authenticated;
@@ -0,0 +1,54 @@
+-- Sign-in lockout for the server only. get_login_lock and record_failed_login
+-- take an email from someone who hasn't signed in, so anon and authenticated
+-- clients must not call them: anyone could lock any account, or probe which
+-- emails have one. Only the server calls them, with the service role key
+-- (src/lib/accountLockout.ts). The thresholds live in the database instead of
+-- being passed in by the caller.
+
+-- The single row of lockout thresholds. RLS with no policies: only the
+-- service role and migrations read or change it.
+CREATE TABLE IF NOT EXISTS public.login_lockout_settings (
+    id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+    -- Lock the account after this many failed sign-ins in a row
+    max_failed_attempts INTEGER NOT NULL DEFAULT 5 CHECK (max_failed_attempts > 0),
+    -- First lockout, doubling with each further failure
+    lockout_seconds INTEGER NOT NULL DEFAULT 60 CHECK (lockout_seconds > 0),
+    -- Never lock for longer than this
+    max_lockout_seconds INTEGER NOT NULL DEFAULT 86400,
+    CONSTRAINT login_lockout_settings_max_at_least_first
+        CHECK (max_lockout_seconds >= lockout_seconds)
+);
+
+INSERT INTO public.login_lockout_settings (id)
+VALUES (TRUE)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.login_lockout_settings ENABLE ROW LEVEL SECURITY;
+
+-- The thresholds are no longer parameters
+DROP FUNCTION IF EXISTS public.record_failed_login(TEXT, INTEGER, INTEGER, INTEGER);
+
+-- Count a failed sign-in. From max_failed_attempts failures in a row the
+-- account is locked for lockout_seconds, doubling with every further failure
+-- up to max_lockout_seconds. Returns no row if no account has the email.
+CREATE OR REPLACE FUNCTION public.record_failed_login(p_email TEXT)
+RETURNS TABLE (user_id UUID, failed_attempts INTEGER, locked_until TIMESTAMPTZ) AS $$
+    UPDATE public.users AS u
+    SET failed_login_attempts = COALESCE(u.failed_login_attempts, 0) + 1,
+        locked_until = CASE
+            WHEN COALESCE(u.failed_login_attempts, 0) + 1 >= s.max_failed_attempts THEN
+                NOW() + LEAST(
+                    s.max_lockout_seconds,
+                    s.lockout_seconds * POWER(2, COALESCE(u.failed_login_attempts, 0) + 1 - s.max_failed_attempts)
+                ) * INTERVAL '1 second'
+            ELSE u.locked_until
+        END
+    FROM public.login_lockout_settings AS s
+    WHERE lower(u.email) = lower(p_email)
+    RETURNING u.id, u.failed_login_attempts, u.locked_until;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_login_lock(TEXT) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.record_failed_login(TEXT) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.get_login_lock(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_failed_login(TEXT) TO service_role;
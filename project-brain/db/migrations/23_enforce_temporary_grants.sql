@@ -0,0 +1,240 @@
+-- Temporary grants, enforced in the database as well as the app
+-- (src/lib/temporaryGrants.ts). Whatever the caller:
+--   * a grant only hands out what its creator may grant (canGrant)
+--   * it lasts no longer than max_duration_seconds
+--   * what was granted, to whom and until when never changes afterwards
+--   * approved grants only change by being revoked or expiring; decisions,
+--     revocations and expiries are final
+-- has_project_permission also honours grants now, including granted roles.
+
+-- The single row of grant limits. RLS with no policies: only the service
+-- role and migrations read or change it. Keep it no shorter than
+-- security.temporaryGrants.maxDurationMs, which the app checks first.
+CREATE TABLE IF NOT EXISTS public.temporary_grant_settings (
+    id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+    -- Longest a grant may last, from when it is made
+    max_duration_seconds INTEGER NOT NULL DEFAULT 604800 CHECK (max_duration_seconds > 0)
+);
+
+INSERT INTO public.temporary_grant_settings (id)
+VALUES (TRUE)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.temporary_grant_settings ENABLE ROW LEVEL SECURITY;
+
+-- Whether a user may hand out a grant (canGrant): admins anything, others
+-- only roles they could assign (ROLE_DELEGATIONS, else every role but admin
+-- with manage:roles) and permissions their role holds
+CREATE OR REPLACE FUNCTION public.can_grant(p_actor_id UUID, p_role TEXT, p_permissions TEXT[])
+RETURNS BOOLEAN AS $$
+DECLARE
+    actor_role TEXT;
+BEGIN
+    SELECT role INTO actor_role FROM public.users WHERE id = p_actor_id;
+
+    IF actor_role IS NULL THEN
+        RETURN FALSE;
+    END IF;
+
+    -- Only registered roles can be granted
+    IF p_role IS NOT NULL
+        AND p_role NOT IN ('admin', 'director', 'team', 'client', 'builder')
+        AND NOT EXISTS (SELECT 1 FROM public.custom_roles WHERE key = p_role) THEN
+        RETURN FALSE;
+    END IF;
+
+    IF actor_role = 'admin' THEN
+        RETURN TRUE;
+    END IF;
+
+    IF p_role IS NOT NULL THEN
+        IF actor_role = 'director' THEN
+            IF p_role NOT IN ('client', 'builder') THEN
+                RETURN FALSE;
+            END IF;
+        ELSIF p_role = 'admin' OR NOT public.role_has_permission(actor_role, 'manage:roles') THEN
+            RETURN FALSE;
+        END IF;
+    END IF;
+
+    RETURN NOT EXISTS (
+        SELECT 1
+        FROM unnest(p_permissions) AS permission
+        WHERE NOT public.role_has_permission(actor_role, permission)
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.enforce_temporary_grant_approval()
+RETURNS TRIGGER AS $$
+DECLARE
+    actor_role TEXT;
+    max_seconds INTEGER;
+BEGIN
+    -- The service role and migrations (no auth.uid()) are trusted
+    IF auth.uid() IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT role INTO actor_role FROM public.users WHERE id = auth.uid();
+
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.created_by IS DISTINCT FROM auth.uid() THEN
+            RAISE EXCEPTION 'Grants must be made in the name of whoever makes them';
+        END IF;
+
+        IF NOT public.can_grant(auth.uid(), NEW.role, NEW.permissions) THEN
+            RAISE EXCEPTION 'You cannot grant this role or these permissions';
+        END IF;
+
+        SELECT s.max_duration_seconds INTO max_seconds FROM public.temporary_grant_settings AS s;
+
+        IF NEW.expires_at > NOW() + max_seconds * INTERVAL '1 second' THEN
+            RAISE EXCEPTION 'Grant lasts longer than allowed';
+        END IF;
+
+        IF NEW.rejected_at IS NOT NULL OR NEW.revoked_at IS NOT NULL OR NEW.expired_at IS NOT NULL THEN
+            RAISE EXCEPTION 'New grants are pending or approved';
+        END IF;
+    ELSE
+        IF (NEW.user_id, NEW.role, NEW.permissions, NEW.reason, NEW.expires_at, NEW.created_by, NEW.created_at)
+            IS DISTINCT FROM
+           (OLD.user_id, OLD.role, OLD.permissions, OLD.reason, OLD.expires_at, OLD.created_by, OLD.created_at) THEN
+            RAISE EXCEPTION 'Grants cannot be edited';
+        END IF;
+
+        IF OLD.approved_at IS NOT NULL AND (
+            (NEW.approved_by, NEW.approved_at) IS DISTINCT FROM (OLD.approved_by, OLD.approved_at)
+            OR (NEW.rejected_by, NEW.rejected_at) IS DISTINCT FROM (OLD.rejected_by, OLD.rejected_at)
+        ) THEN
+            RAISE EXCEPTION 'Grant has already been approved and can only be revoked';
+        END IF;
+
+        IF OLD.rejected_at IS NOT NULL AND (
+            (NEW.approved_by, NEW.approved_at, NEW.rejected_by, NEW.rejected_at, NEW.revoked_by, NEW.revoked_at)
+            IS DISTINCT FROM
+            (OLD.approved_by, OLD.approved_at, OLD.rejected_by, OLD.rejected_at, OLD.revoked_by, OLD.revoked_at)
+        ) THEN
+            RAISE EXCEPTION 'Grant has already been rejected';
+        END IF;
+
+        IF OLD.revoked_at IS NOT NULL AND (
+            (NEW.approved_by, NEW.approved_at, NEW.rejected_by, NEW.rejected_at, NEW.revoked_by, NEW.revoked_at)
+            IS DISTINCT FROM
+            (OLD.approved_by, OLD.approved_at, OLD.rejected_by, OLD.rejected_at, OLD.revoked_by, OLD.revoked_at)
+        ) THEN
+            RAISE EXCEPTION 'Grant has already been revoked';
+        END IF;
+
+        IF OLD.expired_at IS NOT NULL AND NEW.expired_at IS DISTINCT FROM OLD.expired_at THEN
+            RAISE EXCEPTION 'Grant has already expired';
+        END IF;
+
+        -- Only admins reject, never grants made out to them
+        IF NEW.rejected_at IS NOT NULL AND OLD.rejected_at IS NULL THEN
+            IF actor_role IS DISTINCT FROM 'admin' OR NEW.rejected_by IS DISTINCT FROM auth.uid() THEN
+                RAISE EXCEPTION 'Only admins can reject temporary grants';
+            END IF;
+
+            IF NEW.user_id = auth.uid() THEN
+                RAISE EXCEPTION 'Users cannot decide on their own grants';
+            END IF;
+        END IF;
+
+        -- Admins revoke any grant, others only grants they could have made
+        IF NEW.revoked_at IS NOT NULL AND OLD.revoked_at IS NULL THEN
+            IF NEW.revoked_by IS DISTINCT FROM auth.uid()
+                OR NOT public.can_grant(auth.uid(), OLD.role, OLD.permissions) THEN
+                RAISE EXCEPTION 'You cannot revoke this grant';
+            END IF;
+        END IF;
+
+        -- Set by expire_temporary_grants() once the grant has run out
+        IF NEW.expired_at IS NOT NULL AND OLD.expired_at IS NULL AND NEW.expires_at > NOW() THEN
+            RAISE EXCEPTION 'Grant has not expired yet';
+        END IF;
+    END IF;
+
+    -- Only admins approve grants, never their own or one made out to them,
+    -- and only while they are pending
+    IF NEW.approved_at IS NOT NULL AND (TG_OP = 'INSERT' OR OLD.approved_at IS NULL) THEN
+        IF actor_role IS DISTINCT FROM 'admin' OR NEW.approved_by IS DISTINCT FROM auth.uid() THEN
+            RAISE EXCEPTION 'Only admins can approve temporary grants';
+        END IF;
+
+        IF NEW.user_id = auth.uid() THEN
+            RAISE EXCEPTION 'Users cannot approve their own grants';
+        END IF;
+
+        IF NEW.rejected_at IS NOT NULL OR NEW.revoked_at IS NOT NULL THEN
+            RAISE EXCEPTION 'Only pending grants can be approved';
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Check a permission for a user within a specific project, the way
+-- getEffectiveRoles and hasPermission do: admin and director apply on every
+-- project, whether held or granted; any other role, held or granted, only as
+-- the user's role on the project. Permissions granted on their own apply
+-- wherever the user has a role.
+CREATE OR REPLACE FUNCTION public.has_project_permission(
+    user_id UUID,
+    project_id UUID,
+    required_permission TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    global_role TEXT;
+    project_role TEXT;
+    effective_roles TEXT[];
+BEGIN
+    SELECT role INTO global_role FROM public.users WHERE id = has_project_permission.user_id;
+
+    IF global_role IS NULL THEN
+        RETURN FALSE;
+    END IF;
+
+    SELECT pm.role INTO project_role
+    FROM public.project_members pm
+    WHERE pm.user_id = has_project_permission.user_id
+      AND pm.project_id = has_project_permission.project_id;
+
+    SELECT array_agg(DISTINCT effective.role) INTO effective_roles
+    FROM (
+        SELECT CASE WHEN candidate IN ('admin', 'director') THEN candidate ELSE project_role END AS role
+        FROM unnest(ARRAY[global_role] || ARRAY(
+            SELECT g.role
+            FROM public.temporary_grants AS g
+            WHERE g.user_id = has_project_permission.user_id
+              AND g.role IS NOT NULL
+              AND g.approved_at IS NOT NULL
+              AND g.revoked_at IS NULL
+              AND g.expires_at > NOW()
+        )) AS candidate
+    ) AS effective
+    WHERE effective.role IS NOT NULL;
+
+    IF effective_roles IS NULL THEN
+        RETURN FALSE;
+    END IF;
+
+    RETURN EXISTS (
+        SELECT 1
+        FROM unnest(effective_roles) AS role
+        WHERE public.role_has_permission(role, required_permission)
+    ) OR EXISTS (
+        SELECT 1
+        FROM public.temporary_grants AS g
+        WHERE g.user_id = has_project_permission.user_id
+          AND g.approved_at IS NOT NULL
+          AND g.revoked_at IS NULL
+          AND g.expires_at > NOW()
+          AND required_permission = ANY (g.permissions)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.can_grant(UUID, TEXT, TEXT[]) TO authenticated;
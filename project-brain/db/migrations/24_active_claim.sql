@@ -0,0 +1,36 @@
+-- Add whether the account is active as a `user_active` claim next to
+-- `user_role`, so middleware can check routes from the token alone
+-- (src/lib/roleClaims.ts). Deactivated users still get no token at all; the
+-- claim only goes stale until the token is refreshed, and RLS
+-- (is_active_user) and the server's own auth context read the users table
+-- on every request regardless.
+CREATE OR REPLACE FUNCTION public.custom_access_token_hook(event JSONB)
+RETURNS JSONB AS $$
+DECLARE
+    claims JSONB;
+    claimed_role TEXT;
+    is_active BOOLEAN;
+BEGIN
+    SELECT role, active INTO claimed_role, is_active
+    FROM public.users
+    WHERE id = (event->>'user_id')::UUID;
+
+    IF is_active = false THEN
+        RETURN jsonb_build_object(
+            'error', jsonb_build_object('http_code', 403, 'message', 'Account disabled')
+        );
+    END IF;
+
+    claims := event->'claims';
+
+    IF claimed_role IS NOT NULL THEN
+        claims := jsonb_set(claims, '{user_role}', to_jsonb(claimed_role));
+        claims := jsonb_set(claims, '{user_active}', to_jsonb(is_active));
+    ELSE
+        claims := jsonb_set(claims, '{user_role}', 'null');
+        claims := jsonb_set(claims, '{user_active}', 'null');
+    END IF;
+
+    RETURN jsonb_set(event, '{claims}', claims);
+END;
+$$ LANGUAGE plpgsql STABLE;
@@ -0,0 +1,43 @@
+-- Completing an upload only completes it. document_versions_complete lets
+-- uploaders update their own unfinished versions, but had no WITH CHECK and
+-- nothing stopped the same UPDATE from also moving the version to another
+-- document or project, or pointing it at another file.
+
+-- Policy: Uploaders complete their own uploads; what they may change is up
+-- to guard_document_completion()
+ALTER POLICY document_versions_complete ON public.document_versions
+    USING (uploaded_by = auth.uid() AND completed_at IS NULL)
+    WITH CHECK (uploaded_by = auth.uid() AND completed_at IS NOT NULL);
+
+-- Whoever updates a version: only content managers on the project change
+-- anything but completed_at, which is set once
+CREATE OR REPLACE FUNCTION public.guard_document_completion()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF public.has_project_permission(auth.uid(), OLD.project_id, 'manage:content') THEN
+        RETURN NEW;
+    END IF;
+
+    IF (NEW.id, NEW.document_id, NEW.project_id, NEW.version, NEW.storage_path, NEW.file_name,
+        NEW.content_type, NEW.size_bytes, NEW.uploaded_by, NEW.uploaded_at,
+        NEW.review_status, NEW.reviewed_by, NEW.reviewed_at)
+        IS DISTINCT FROM
+       (OLD.id, OLD.document_id, OLD.project_id, OLD.version, OLD.storage_path, OLD.file_name,
+        OLD.content_type, OLD.size_bytes, OLD.uploaded_by, OLD.uploaded_at,
+        OLD.review_status, OLD.reviewed_by, OLD.reviewed_at) THEN
+        RAISE EXCEPTION 'Only the completion of an upload can be recorded';
+    END IF;
+
+    IF OLD.completed_at IS NOT NULL AND NEW.completed_at IS DISTINCT FROM OLD.completed_at THEN
+        RAISE EXCEPTION 'Upload has already been completed';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_document_completion ON public.document_versions;
+CREATE TRIGGER guard_document_completion
+    BEFORE UPDATE ON public.document_versions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_document_completion();
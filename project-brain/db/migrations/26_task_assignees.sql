@@ -0,0 +1,46 @@
+-- Tasks are assigned to the project team only: active members of the
+-- task's project whose role there is team or above (canBeAssignedTasks in
+-- src/lib/tasks.ts). Anyone else couldn't see the whole project's tasks, and
+-- assigning them would show them a task through tasks_update_assigned.
+
+-- Whether a user can be assigned tasks on a project
+CREATE OR REPLACE FUNCTION public.is_task_assignable(p_project_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.project_members AS pm
+        JOIN public.users AS u ON u.id = pm.user_id
+        WHERE pm.project_id = p_project_id
+          AND pm.user_id = p_user_id
+          AND u.active
+          AND 'team' IN (SELECT public.inherited_roles(pm.role))
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Checked whenever the assignee or the task's project changes, so tasks
+-- already assigned to someone who has since left the team can still be edited
+CREATE OR REPLACE FUNCTION public.guard_task_assignee()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.assignee_id IS NOT NULL
+        AND (
+            TG_OP = 'INSERT'
+            OR NEW.assignee_id IS DISTINCT FROM OLD.assignee_id
+            OR NEW.project_id IS DISTINCT FROM OLD.project_id
+        )
+        AND NOT public.is_task_assignable(NEW.project_id, NEW.assignee_id)
+    THEN
+        RAISE EXCEPTION 'Tasks can only be assigned to the project team';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_task_assignee ON public.tasks;
+CREATE TRIGGER guard_task_assignee
+    BEFORE INSERT OR UPDATE ON public.tasks
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_task_assignee();
+
+GRANT EXECUTE ON FUNCTION public.is_task_assignable(UUID, UUID) TO authenticated;
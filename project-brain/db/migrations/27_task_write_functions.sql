@@ -0,0 +1,74 @@
+-- Create and edit a task together with its dependencies in one transaction,
+-- the way create_project_from_template creates a project with its phases.
+-- createTask and updateTask used to write the task and then call
+-- set_task_dependencies separately, so a failure in between left a task
+-- without its dependencies or with only half the edit applied.
+--
+-- p_task holds the columns toTaskColumns (src/lib/tasks.ts) sets. Both run as
+-- the caller, so RLS and the guard triggers apply as if the rows were
+-- written directly.
+
+-- Add a task at the end of the project's board with its dependencies
+CREATE OR REPLACE FUNCTION public.create_task(
+    p_project_id UUID,
+    p_task JSONB,
+    p_depends_on UUID[]
+)
+RETURNS UUID AS $$
+DECLARE
+    new_task_id UUID;
+BEGIN
+    INSERT INTO public.tasks (
+        project_id, phase_id, title, description, position,
+        assignee_id, due_date, status, shared, created_by
+    )
+    VALUES (
+        p_project_id,
+        (p_task->>'phase_id')::UUID,
+        p_task->>'title',
+        COALESCE(p_task->>'description', ''),
+        (SELECT COALESCE(MAX(t.position), -1) + 1 FROM public.tasks AS t WHERE t.project_id = p_project_id),
+        (p_task->>'assignee_id')::UUID,
+        (p_task->>'due_date')::DATE,
+        COALESCE(p_task->>'status', 'todo'),
+        COALESCE((p_task->>'shared')::BOOLEAN, FALSE),
+        auth.uid()
+    )
+    RETURNING id INTO new_task_id;
+
+    PERFORM public.set_task_dependencies(new_task_id, COALESCE(p_depends_on, '{}'));
+
+    RETURN new_task_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Edit a task and replace its dependencies. Dependencies first, so
+-- guard_task_update() checks a task marked done against the new ones.
+CREATE OR REPLACE FUNCTION public.update_task(
+    p_task_id UUID,
+    p_task JSONB,
+    p_depends_on UUID[]
+)
+RETURNS VOID AS $$
+BEGIN
+    PERFORM public.set_task_dependencies(p_task_id, COALESCE(p_depends_on, '{}'));
+
+    UPDATE public.tasks
+    SET phase_id = (p_task->>'phase_id')::UUID,
+        title = p_task->>'title',
+        description = COALESCE(p_task->>'description', ''),
+        assignee_id = (p_task->>'assignee_id')::UUID,
+        due_date = (p_task->>'due_date')::DATE,
+        status = COALESCE(p_task->>'status', 'todo'),
+        shared = COALESCE((p_task->>'shared')::BOOLEAN, FALSE)
+    WHERE id = p_task_id;
+
+    -- Not there, or RLS hid it: undo the dependencies too
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Task not found';
+    END IF;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.create_task(UUID, JSONB, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_task(UUID, JSONB, UUID[]) TO authenticated;
@@ -0,0 +1,85 @@
+-- The project team ticks QA items on its projects (RESOURCE_POLICIES.qa_item
+-- in src/lib/policy.ts). qa_items_manage only let those who manage projects
+-- write to the checklist, so the database refused ticks the app allowed.
+
+-- Whether a user holds a role, or one above it, on a project: their global
+-- role if it is admin or director, their membership otherwise, and any
+-- approved grant's role the same way (getEffectiveRoles in src/lib/auth.ts)
+CREATE OR REPLACE FUNCTION public.has_project_role(
+    p_user_id UUID,
+    p_project_id UUID,
+    p_role TEXT
+)
+RETURNS BOOLEAN AS $$
+    WITH project_role AS (
+        SELECT pm.role
+        FROM public.project_members AS pm
+        WHERE pm.user_id = p_user_id
+          AND pm.project_id = p_project_id
+    ),
+    candidates(role) AS (
+        SELECT u.role FROM public.users AS u WHERE u.id = p_user_id
+        UNION
+        SELECT g.role
+        FROM public.temporary_grants AS g
+        WHERE g.user_id = p_user_id
+          AND g.role IS NOT NULL
+          AND g.approved_at IS NOT NULL
+          AND g.revoked_at IS NULL
+          AND g.expires_at > NOW()
+    )
+    SELECT EXISTS (
+        SELECT 1
+        FROM candidates AS c
+        CROSS JOIN LATERAL (
+            SELECT CASE WHEN c.role IN ('admin', 'director') THEN c.role ELSE (SELECT role FROM project_role) END AS role
+        ) AS effective
+        WHERE effective.role IS NOT NULL
+          AND p_role IN (SELECT public.inherited_roles(effective.role))
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Policy: The project team ticks QA items; guard_qa_item_update() limits them
+-- to the tick
+CREATE POLICY qa_items_check ON public.qa_items
+    FOR UPDATE
+    USING (public.has_project_role(auth.uid(), project_id, 'team'))
+    WITH CHECK (public.has_project_role(auth.uid(), project_id, 'team'));
+
+-- Ticks are stamped with who made them and when; only those who manage the
+-- project change anything else
+CREATE OR REPLACE FUNCTION public.guard_qa_item_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT public.has_project_permission(auth.uid(), OLD.project_id, 'manage:projects') AND (
+        NEW.id IS DISTINCT FROM OLD.id
+        OR NEW.project_id IS DISTINCT FROM OLD.project_id
+        OR NEW.phase_id IS DISTINCT FROM OLD.phase_id
+        OR NEW.label IS DISTINCT FROM OLD.label
+        OR NEW.position IS DISTINCT FROM OLD.position
+        OR NEW.created_at IS DISTINCT FROM OLD.created_at
+    ) THEN
+        RAISE EXCEPTION 'Only QA items can be ticked';
+    END IF;
+
+    IF NEW.checked_at IS NULL THEN
+        NEW.checked_by := NULL;
+    ELSIF OLD.checked_at IS NULL THEN
+        NEW.checked_at := NOW();
+        NEW.checked_by := auth.uid();
+    ELSE
+        NEW.checked_at := OLD.checked_at;
+        NEW.checked_by := OLD.checked_by;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_qa_item_update ON public.qa_items;
+CREATE TRIGGER guard_qa_item_update
+    BEFORE UPDATE ON public.qa_items
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_qa_item_update();
+
+GRANT EXECUTE ON FUNCTION public.has_project_role(UUID, UUID, TEXT) TO authenticated;
@@ -47,4 +47,13 @@ jest.mock('@supabase/supabase-js', () => {
       })),
     })),
   };
-}); 
\ No newline at end of file
+}); 
+
+// Mock Supabase auth helpers (their ESM dependencies can't be loaded by Jest)
+jest.mock('@supabase/auth-helpers-nextjs', () => ({
+  createClientComponentClient: jest.fn(),
+  createServerComponentClient: jest.fn(),
+  createServerActionClient: jest.fn(),
+  createRouteHandlerClient: jest.fn(),
+  createMiddlewareClient: jest.fn(),
+}));
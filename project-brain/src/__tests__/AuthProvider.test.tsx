@@ -0,0 +1,126 @@
+import { act, render, screen } from '@testing-library/react';
+import type { AuthSnapshot } from '@/lib/auth';
+import { ROLE_PERMISSIONS } from '@/lib/auth';
+import { AuthProvider, usePermission } from '@/components/auth/AuthProvider';
+import PermissionGate from '@/components/auth/PermissionGate';
+import { ClientOnly } from '@/components/auth/RoleGuard';
+
+type ChangeHandler = (payload: { new: Record<string, unknown> }) => void;
+
+const handlers: { table: string; filter?: string; handler: ChangeHandler }[] = [];
+
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({ push: jest.fn(), refresh: jest.fn() }),
+}));
+
+jest.mock('@supabase/auth-helpers-nextjs', () => ({
+  createClientComponentClient: () => {
+    const channel = {
+      on: (_type: string, options: { table: string; filter?: string }, handler: ChangeHandler) => {
+        handlers.push({ table: options.table, filter: options.filter, handler });
+        return channel;
+      },
+      subscribe: () => channel,
+    };
+
+    return {
+      // Refreshes never finish, so tests see only what the change itself did
+      auth: {
+        getSession: () => new Promise(() => {}),
+        onAuthStateChange: () => ({ data: { subscription: { unsubscribe: jest.fn() } } }),
+      },
+      channel: () => channel,
+      removeChannel: jest.fn(),
+    };
+  },
+}));
+
+const USER_ID = '00000000-0000-4000-8000-000000000002';
+
+const client = { id: USER_ID, email: 'client@example.com', role: 'client', active: true, grants: [] };
+
+const snapshot: AuthSnapshot = {
+  sessionUserId: USER_ID,
+  account: client,
+  user: client,
+  impersonation: null,
+  memberships: [{ projectId: 'project-1', role: 'team' }],
+  roles: [],
+  rolePermissions: ROLE_PERMISSIONS,
+};
+
+function CanManageContent({ projectId }: { projectId?: string }) {
+  return <p>{usePermission('manage:content', projectId) ? 'can manage' : 'cannot manage'}</p>;
+}
+
+function changeUserRow(row: Record<string, unknown>) {
+  act(() => {
+    handlers
+      .filter(({ table, filter }) => table === 'users' && filter === `id=eq.${USER_ID}`)
+      .forEach(({ handler }) => handler({ new: { id: USER_ID, ...row } }));
+  });
+}
+
+beforeEach(() => {
+  handlers.length = 0;
+});
+
+describe('AuthProvider', () => {
+  it('renders gates from the server snapshot without waiting', () => {
+    render(
+      <AuthProvider initialAuth={snapshot}>
+        <PermissionGate requiredPermission="submit:content">
+          <p>submit form</p>
+        </PermissionGate>
+        <PermissionGate requiredPermission="manage:users" fallback={<p>no admin</p>}>
+          <p>admin tools</p>
+        </PermissionGate>
+      </AuthProvider>
+    );
+
+    expect(screen.queryByText('submit form')).not.toBeNull();
+    expect(screen.queryByText('admin tools')).toBeNull();
+    expect(screen.queryByText('no admin')).not.toBeNull();
+  });
+
+  it('checks permissions against the role on a project', () => {
+    render(
+      <AuthProvider initialAuth={snapshot}>
+        <CanManageContent />
+        <CanManageContent projectId="project-1" />
+      </AuthProvider>
+    );
+
+    expect(screen.queryByText('cannot manage')).not.toBeNull();
+    expect(screen.queryByText('can manage')).not.toBeNull();
+  });
+
+  it('re-renders as soon as the user is promoted or deactivated', () => {
+    render(
+      <AuthProvider initialAuth={snapshot}>
+        <CanManageContent />
+      </AuthProvider>
+    );
+
+    changeUserRow({ role: 'team' });
+    expect(screen.queryByText('can manage')).not.toBeNull();
+
+    changeUserRow({ active: false });
+    expect(screen.queryByText('cannot manage')).not.toBeNull();
+  });
+
+  it('shows "client and above" content to admins but not builders', () => {
+    const as = (role: string): AuthSnapshot => {
+      const user = { ...client, role };
+      return { ...snapshot, account: user, user };
+    };
+    const page = <ClientOnly fallback={<p>hidden</p>}><p>client area</p></ClientOnly>;
+
+    const { unmount } = render(<AuthProvider initialAuth={as('admin')}>{page}</AuthProvider>);
+    expect(screen.queryByText('client area')).not.toBeNull();
+    unmount();
+
+    render(<AuthProvider initialAuth={as('builder')}>{page}</AuthProvider>);
+    expect(screen.queryByText('hidden')).not.toBeNull();
+  });
+});
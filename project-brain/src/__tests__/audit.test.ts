@@ -0,0 +1,93 @@
+/**
+ * @jest-environment node
+ */
+
+import { AuditLogInsert, createAuditWriter, getAuditContext, toAuditLogRow } from '@/lib/audit';
+
+describe('toAuditLogRow', () => {
+  it('stores columns in place and the rest as details', () => {
+    const row = toAuditLogRow(
+      { type: 'role_update', actorId: 'u1', actorRole: 'admin', targetUserId: 'u2', newRole: 'team' },
+      { ipAddress: '203.0.113.7', userAgent: 'Mozilla/5.0', correlationId: 'c1' }
+    );
+
+    expect(row).toMatchObject({
+      action: 'role_update',
+      user_id: 'u1',
+      user_role: 'admin',
+      target_user_id: 'u2',
+      path: null,
+      success: true,
+      details: { newRole: 'team' },
+      ip_address: '203.0.113.7',
+      user_agent: 'Mozilla/5.0',
+      correlation_id: 'c1',
+    });
+  });
+
+  it('marks refusals as failures', () => {
+    const row = toAuditLogRow({ type: 'login_refused_disabled', targetUserId: 'u2' });
+
+    expect(row).toMatchObject({ success: false, user_id: null, details: null, ip_address: null });
+  });
+});
+
+describe('getAuditContext', () => {
+  it('reads the client from request headers', () => {
+    const headers = new Headers({
+      'x-forwarded-for': '203.0.113.7, 10.0.0.1',
+      'user-agent': 'Mozilla/5.0',
+      'x-correlation-id': 'c1',
+    });
+
+    expect(getAuditContext(headers)).toEqual({
+      ipAddress: '10.0.0.1',
+      userAgent: 'Mozilla/5.0',
+      correlationId: 'c1',
+    });
+    expect(getAuditContext(new Headers()).ipAddress).toBeNull();
+  });
+});
+
+describe('createAuditWriter', () => {
+  const event = { type: 'custom_role_deleted', actorId: 'u1', key: 'auditor' } as const;
+
+  it('writes queued events in batches when flushed', async () => {
+    const batches: AuditLogInsert[][] = [];
+    const writer = createAuditWriter({
+      write: async rows => { batches.push(rows); },
+      maxBatchSize: 2,
+      schedule: () => true,
+    });
+
+    writer.record(event);
+    expect(batches).toHaveLength(0);
+
+    writer.record(event);
+    writer.record(event);
+    await writer.flush();
+
+    expect(batches.map(batch => batch.length)).toEqual([2, 1]);
+  });
+
+  it('keeps events when a write fails', async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const write = jest.fn()
+      .mockRejectedValueOnce(new Error('unavailable'))
+      .mockResolvedValue(undefined);
+    const writer = createAuditWriter({ write, schedule: () => true });
+
+    writer.record(event);
+    await writer.flush();
+    expect(write).toHaveBeenCalledTimes(1);
+
+    await writer.flush();
+    expect(write).toHaveBeenCalledTimes(2);
+    expect(write.mock.calls[1][0]).toHaveLength(1);
+
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+});
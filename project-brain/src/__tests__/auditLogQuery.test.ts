@@ -0,0 +1,126 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  AuditLogEntry,
+  auditLogFiltersToQuery,
+  parseAuditLogFilters,
+  selectAuditLogs,
+  toAuditCsvRow,
+  toCsvCell,
+} from '@/lib/auditLogQuery';
+
+describe('parseAuditLogFilters', () => {
+  it('reads filters from search params', () => {
+    const filters = parseAuditLogFilters(
+      new URLSearchParams('actor=jane@example.com&success=false&from=2025-01-01&to=2025-01-31&page=3')
+    );
+
+    expect(filters).toEqual({
+      actor: 'jane@example.com',
+      success: 'false',
+      from: '2025-01-01',
+      to: '2025-01-31',
+      page: 3,
+    });
+  });
+
+  it('ignores blank and malformed values', () => {
+    expect(parseAuditLogFilters({ q: '  ', success: 'maybe', from: 'yesterday', page: '-1' })).toEqual({
+      page: 1,
+    });
+  });
+
+  it('uses the first of repeated params', () => {
+    expect(parseAuditLogFilters({ action: ['role_update', 'user_registration'] }).action).toBe('role_update');
+  });
+
+  it('round-trips through a query string', () => {
+    const filters = parseAuditLogFilters({ action: 'role_update', path: '/api/', page: '2' });
+    expect(parseAuditLogFilters(new URLSearchParams(auditLogFiltersToQuery(filters)))).toEqual(filters);
+    expect(auditLogFiltersToQuery({ ...filters, page: 1 })).toBe('action=role_update&path=%2Fapi%2F');
+  });
+});
+
+describe('CSV export', () => {
+  it('quotes cells containing separators, quotes or newlines', () => {
+    expect(toCsvCell('plain')).toBe('plain');
+    expect(toCsvCell('a,b')).toBe('"a,b"');
+    expect(toCsvCell('say "hi"')).toBe('"say ""hi"""');
+    expect(toCsvCell('two\nlines')).toBe('"two\nlines"');
+    expect(toCsvCell(null)).toBe('');
+    expect(toCsvCell(false)).toBe('false');
+  });
+
+  it('neutralises spreadsheet formulas', () => {
+    expect(toCsvCell('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"');
+    expect(toCsvCell('-1')).toBe("'-1");
+  });
+
+  it('writes entries in column order with emails', () => {
+    const entry: AuditLogEntry = {
+      id: '1',
+      timestamp: '2025-01-01T00:00:00.000Z',
+      action: 'role_update',
+      user_id: 'u1',
+      target_user_id: 'u2',
+      path: null,
+      method: null,
+      user_role: 'admin',
+      success: true,
+      reason: null,
+      details: { new_role: 'team' },
+      ip_address: null,
+      user_agent: null,
+      correlation_id: null,
+    };
+
+    const cells = toAuditCsvRow(entry, { u1: 'admin@example.com' }).trimEnd();
+    expect(cells).toBe(
+      '2025-01-01T00:00:00.000Z,role_update,u1,admin@example.com,u2,,admin,true,,,,,,,"{""new_role"":""team""}"'
+    );
+  });
+});
+
+describe('selectAuditLogs', () => {
+  // Records the filters, order and range applied to audit_logs
+  function fakeSupabase() {
+    const calls: unknown[][] = [];
+    const builder = {
+      select: () => builder,
+      eq: (...args: unknown[]) => (calls.push(['eq', ...args]), builder),
+      or: (...args: unknown[]) => (calls.push(['or', ...args]), builder),
+      order: (...args: unknown[]) => (calls.push(['order', ...args]), builder),
+      range: async (...args: unknown[]) => {
+        calls.push(['range', ...args]);
+        return { data: [], count: null, error: null };
+      },
+    };
+    return { supabase: { from: () => builder } as unknown as SupabaseClient, calls };
+  }
+
+  it('pages by offset', async () => {
+    const { supabase, calls } = fakeSupabase();
+
+    await selectAuditLogs(supabase, parseAuditLogFilters({ page: '3' }), { offset: 100, limit: 50 });
+
+    expect(calls).toEqual([
+      ['order', 'timestamp', { ascending: false }],
+      ['order', 'id', { ascending: false }],
+      ['range', 100, 149],
+    ]);
+  });
+
+  it('continues after a cursor in the same order, so batches never repeat rows', async () => {
+    const { supabase, calls } = fakeSupabase();
+    const after = { timestamp: '2025-01-01T10:00:00.123+00:00', id: 'b5c8a0c2-0000-4000-8000-000000000001' };
+
+    await selectAuditLogs(supabase, parseAuditLogFilters({ action: 'login' }), { after, limit: 500 });
+
+    expect(calls).toEqual([
+      ['eq', 'action', 'login'],
+      ['or', `timestamp.lt."${after.timestamp}",and(timestamp.eq."${after.timestamp}",id.lt.${after.id})`],
+      ['order', 'timestamp', { ascending: false }],
+      ['order', 'id', { ascending: false }],
+      ['range', 0, 499],
+    ]);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * @jest-environment node
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ROLE_PERMISSIONS, SIGNED_OUT_CONTEXT, resolveAuthContext, resolveAuthSnapshot } from '@/lib/auth';
+
+const ADMIN_ID = '00000000-0000-4000-8000-000000000001';
+const USER_ID = '00000000-0000-4000-8000-000000000002';
+const SESSION_ID = '00000000-0000-4000-8000-000000000003';
+const EXPIRES_AT = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+type Row = Record<string, unknown>;
+
+// Just enough of the query builder for resolveAuthContext; only eq() filters
+function fakeSupabase(tables: Record<string, Row[]>) {
+  return {
+    from: jest.fn((table: string) => {
+      const filters: [string, unknown][] = [];
+      const rows = () => (tables[table] ?? []).filter(row => filters.every(([column, value]) => row[column] === value));
+
+      const builder = {
+        select: () => builder,
+        eq: (column: string, value: unknown) => {
+          filters.push([column, value]);
+          return builder;
+        },
+        is: () => builder,
+        not: () => builder,
+        gt: () => builder,
+        single: async () => {
+          const [row] = rows();
+          return row ? { data: row, error: null } : { data: null, error: { message: 'Not found' } };
+        },
+        maybeSingle: async () => ({ data: rows()[0] ?? null, error: null }),
+        then: (resolve: (result: { data: Row[]; error: null }) => unknown) => resolve({ data: rows(), error: null }),
+      };
+      return builder;
+    }),
+  } as unknown as SupabaseClient & { from: jest.Mock };
+}
+
+const tables = (adminActive = true) => ({
+  users: [
+    { id: ADMIN_ID, email: 'admin@example.com', role: 'admin', active: adminActive },
+    { id: USER_ID, email: 'client@example.com', role: 'client', active: true },
+  ],
+  temporary_grants: [
+    { user_id: USER_ID, role: null, permissions: ['view:analytics', 'not:a-permission'], expires_at: EXPIRES_AT },
+  ],
+  impersonation_sessions: [
+    { id: SESSION_ID, admin_id: ADMIN_ID, target_user_id: USER_ID, expires_at: EXPIRES_AT },
+  ],
+});
+
+describe('resolveAuthContext', () => {
+  it('resolves nothing without a session', async () => {
+    const supabase = fakeSupabase(tables());
+
+    await expect(resolveAuthContext(supabase, null)).resolves.toEqual(SIGNED_OUT_CONTEXT);
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+
+  it('checks the signed-in user as themselves, with their grants', async () => {
+    const context = await resolveAuthContext(fakeSupabase(tables()), USER_ID);
+
+    expect(context.impersonation).toBeNull();
+    expect(context.user).toBe(context.account);
+    expect(context.user).toEqual({
+      id: USER_ID,
+      email: 'client@example.com',
+      role: 'client',
+      active: true,
+      grants: [{ role: null, permissions: ['view:analytics'], expiresAt: EXPIRES_AT }],
+    });
+  });
+
+  it('checks an impersonating admin as the impersonated user', async () => {
+    const context = await resolveAuthContext(fakeSupabase(tables()), ADMIN_ID, SESSION_ID);
+
+    expect(context.account).toMatchObject({ id: ADMIN_ID, role: 'admin' });
+    expect(context.user).toMatchObject({ id: USER_ID, role: 'client' });
+    expect(context.impersonation).toMatchObject({ adminId: ADMIN_ID, targetUserId: USER_ID });
+  });
+
+  it("ignores a deactivated admin's impersonation", async () => {
+    const context = await resolveAuthContext(fakeSupabase(tables(false)), ADMIN_ID, SESSION_ID);
+
+    expect(context.impersonation).toBeNull();
+    expect(context.user).toMatchObject({ id: ADMIN_ID, active: false, grants: [] });
+  });
+});
+
+describe('resolveAuthSnapshot', () => {
+  it("doesn't load the role mapping for a deactivated account", async () => {
+    const supabase = fakeSupabase(tables(false));
+    const context = await resolveAuthContext(supabase, ADMIN_ID);
+    supabase.from.mockClear();
+
+    const snapshot = await resolveAuthSnapshot(supabase, context);
+
+    expect(supabase.from).not.toHaveBeenCalled();
+    expect(snapshot).toMatchObject({ memberships: [], roles: [], rolePermissions: ROLE_PERMISSIONS });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * @jest-environment node
+ */
+
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import {
+  ROLE_PERMISSIONS,
+  RoleDefinition,
+  getAllPermissions,
+  getInheritedRoles,
+  getRoleDefinitions,
+  getRoleDisplayName,
+  hasPermission,
+  isUserRole,
+  isRoleAtLeast,
+  setCustomRoles,
+} from '@/lib/auth';
+import { getAuthContext } from '@/lib/authContext';
+import { primeRolePermissions } from '@/lib/permissionResolver';
+import { createCustomRole, updateCustomRole } from '@/lib/actions/role-management';
+
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(),
+}));
+
+jest.mock('@supabase/auth-helpers-nextjs', () => ({
+  createServerComponentClient: jest.fn(),
+}));
+
+jest.mock('@/lib/authContext', () => ({
+  getAuthContext: jest.fn(),
+}));
+
+jest.mock('@/lib/audit', () => ({
+  getRequestAuditContext: jest.fn(async () => ({})),
+  recordAuditEvent: jest.fn(),
+}));
+
+const ADMIN_ID = '00000000-0000-4000-8000-000000000001';
+
+const customRole = (key: string, parentRoles: string[]): RoleDefinition => ({
+  key,
+  displayName: key.charAt(0).toUpperCase() + key.slice(1),
+  color: 'teal',
+  parentRoles,
+  builtIn: false,
+});
+
+// estimator inherits team; surveyor inherits estimator
+const CUSTOM_ROLES = [customRole('estimator', ['team']), customRole('surveyor', ['estimator'])];
+
+const PERMISSIONS = {
+  ...ROLE_PERMISSIONS,
+  estimator: ['view:audit' as const],
+  surveyor: [],
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  primeRolePermissions(CUSTOM_ROLES, PERMISSIONS);
+});
+
+afterAll(() => {
+  primeRolePermissions([], ROLE_PERMISSIONS);
+});
+
+describe('role registry', () => {
+  it('registers custom roles after the built-in ones', () => {
+    expect(getRoleDefinitions().map(role => role.key)).toEqual([
+      'admin', 'director', 'team', 'client', 'builder', 'estimator', 'surveyor',
+    ]);
+    expect(isUserRole('surveyor')).toBe(true);
+    expect(isUserRole('owner')).toBe(false);
+    expect(getRoleDisplayName('estimator')).toBe('Estimator');
+  });
+
+  it('never lets a custom role replace a built-in one', () => {
+    setCustomRoles([customRole('team', []), ...CUSTOM_ROLES]);
+
+    expect(getRoleDefinitions().filter(role => role.key === 'team')).toEqual([
+      expect.objectContaining({ builtIn: true, parentRoles: ['client', 'builder'] }),
+    ]);
+  });
+
+  it('drops custom roles that are no longer registered', () => {
+    setCustomRoles([]);
+
+    expect(isUserRole('estimator')).toBe(false);
+    expect(getInheritedRoles('surveyor')).toEqual([]);
+    expect(hasPermission('surveyor', 'view:projects')).toBe(false);
+  });
+});
+
+describe('custom role inheritance', () => {
+  it('follows parent roles all the way down', () => {
+    expect(getInheritedRoles('surveyor')).toEqual(['estimator', 'team', 'client', 'builder']);
+    expect(isRoleAtLeast('surveyor', 'client')).toBe(true);
+    expect(isRoleAtLeast('surveyor', 'director')).toBe(false);
+  });
+
+  it("gives a custom role its parents' permissions on top of its own", () => {
+    expect(hasPermission('surveyor', 'view:audit')).toBe(true);
+    expect(hasPermission('surveyor', 'manage:content')).toBe(true);
+    expect(hasPermission('surveyor', 'manage:projects')).toBe(false);
+    expect([...getAllPermissions('estimator')].sort()).toEqual(
+      [...ROLE_PERMISSIONS.team, 'view:audit'].sort()
+    );
+  });
+});
+
+describe('custom role validation', () => {
+  let writes: string[];
+
+  beforeEach(() => {
+    writes = [];
+    const builder = {
+      insert: () => {
+        writes.push('insert');
+        return Promise.resolve({ error: null });
+      },
+      update: () => {
+        writes.push('update');
+        return builder;
+      },
+      delete: () => {
+        writes.push('delete');
+        return builder;
+      },
+      eq: () => builder,
+      then: (resolve: (value: { error: null }) => unknown) => resolve({ error: null }),
+    };
+
+    (createServerComponentClient as jest.Mock).mockReturnValue({ from: () => builder });
+    (getAuthContext as jest.Mock).mockResolvedValue({
+      sessionUserId: ADMIN_ID,
+      account: { id: ADMIN_ID, role: 'admin', active: true, grants: [] },
+    });
+  });
+
+  it('refuses a parent that already inherits from the role', async () => {
+    await expect(updateCustomRole('estimator', {
+      displayName: 'Estimator',
+      parentRoles: ['surveyor'],
+    })).resolves.toEqual({ success: false, error: 'A role cannot inherit from itself' });
+
+    await expect(updateCustomRole('estimator', {
+      displayName: 'Estimator',
+      parentRoles: ['estimator'],
+    })).resolves.toEqual({ success: false, error: 'A role cannot inherit from itself' });
+
+    expect(writes).toEqual([]);
+  });
+
+  it('refuses unknown parents and permissions', async () => {
+    await expect(createCustomRole({
+      key: 'inspector',
+      displayName: 'Inspector',
+      parentRoles: ['owner'],
+    })).resolves.toEqual({ success: false, error: 'Unknown parent role: owner' });
+
+    await expect(createCustomRole({
+      key: 'inspector',
+      displayName: 'Inspector',
+      parentRoles: ['builder'],
+      permissions: ['fly:planes'],
+    })).resolves.toEqual({ success: false, error: 'Unknown permission: fly:planes' });
+
+    expect(writes).toEqual([]);
+  });
+
+  it('refuses keys already taken and changes to built-in roles', async () => {
+    await expect(createCustomRole({ key: 'estimator', displayName: 'Estimator' })).resolves.toEqual({
+      success: false,
+      error: 'Role estimator already exists',
+    });
+    await expect(updateCustomRole('team', { displayName: 'Team' })).resolves.toEqual({
+      success: false,
+      error: 'Not a custom role: team',
+    });
+
+    expect(writes).toEqual([]);
+  });
+
+  it('saves a role whose parents are valid', async () => {
+    await expect(updateCustomRole('surveyor', {
+      displayName: 'Surveyor',
+      parentRoles: ['estimator', 'builder'],
+      permissions: ['view:analytics'],
+    })).resolves.toEqual({ success: true, error: null });
+
+    expect(writes).toEqual(['update', 'delete', 'insert']);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  canSeeDocumentVersion,
+  documentUploadSchema,
+  formatFileSize,
+  initialReviewStatus,
+  withFolderPaths,
+} from '@/lib/documents';
+import { PolicyActor } from '@/lib/policy';
+import { findRoutePolicy } from '@/lib/routePolicy';
+import {
+  createLocalStorageAdapter,
+  resolveLocalObjectPath,
+  signLocalStorageToken,
+  verifyLocalStorageToken,
+} from '@/lib/storage';
+
+const PROJECT_ID = '00000000-0000-4000-8000-000000000001';
+const OTHER_PROJECT_ID = '00000000-0000-4000-8000-000000000002';
+const SECRET = 'test-secret';
+const OBJECT_PATH = `projects/${PROJECT_ID}/doc/version`;
+
+const member = (id: string, role: PolicyActor['role']): PolicyActor => ({
+  id,
+  role,
+  memberships: [{ projectId: PROJECT_ID, role }],
+});
+
+const client = member('client-1', 'client');
+const team = member('team-1', 'team');
+
+describe('local storage links', () => {
+  const token = { operation: 'download' as const, objectPath: OBJECT_PATH, fileName: 'plan.pdf', expiresAt: 2000 };
+
+  it('verifies links it signed until they expire', async () => {
+    const params = await signLocalStorageToken(token, SECRET);
+
+    await expect(verifyLocalStorageToken(OBJECT_PATH, 'download', params, 1000, SECRET)).resolves.toEqual(token);
+    await expect(verifyLocalStorageToken(OBJECT_PATH, 'download', params, 2000, SECRET)).resolves.toBeNull();
+  });
+
+  it('refuses links for another file, operation, name or secret', async () => {
+    const params = await signLocalStorageToken(token, SECRET);
+    const renamed = new URLSearchParams(params);
+    renamed.set('name', 'other.pdf');
+
+    await expect(verifyLocalStorageToken(`${OBJECT_PATH}x`, 'download', params, 1000, SECRET)).resolves.toBeNull();
+    await expect(verifyLocalStorageToken(OBJECT_PATH, 'upload', params, 1000, SECRET)).resolves.toBeNull();
+    await expect(verifyLocalStorageToken(OBJECT_PATH, 'download', renamed, 1000, SECRET)).resolves.toBeNull();
+    await expect(verifyLocalStorageToken(OBJECT_PATH, 'download', params, 1000, 'other')).resolves.toBeNull();
+  });
+
+  it('creates links to the local storage route', async () => {
+    const adapter = createLocalStorageAdapter({ localPath: '.storage', signedUrlTtlMs: 60_000 }, SECRET);
+    const url = new URL(await adapter.createUploadUrl(OBJECT_PATH), 'http://localhost');
+
+    expect(url.pathname).toBe(`/api/storage/local/${OBJECT_PATH}`);
+    await expect(verifyLocalStorageToken(OBJECT_PATH, 'upload', url.searchParams, Date.now(), SECRET)).resolves.not.toBeNull();
+  });
+
+  it('keeps files inside the storage root', () => {
+    expect(resolveLocalObjectPath(OBJECT_PATH, '/srv/storage')).toBe(`/srv/storage/${OBJECT_PATH}`);
+    expect(resolveLocalObjectPath('../secrets', '/srv/storage')).toBeNull();
+    expect(resolveLocalObjectPath('projects/../../etc/passwd', '/srv/storage')).toBeNull();
+    expect(resolveLocalObjectPath('', '/srv/storage')).toBeNull();
+  });
+
+  it('is served by a public route', () => {
+    expect(findRoutePolicy(`/api/storage/local/${OBJECT_PATH}`).policy.public).toBe(true);
+  });
+});
+
+describe('documentUploadSchema', () => {
+  const schema = documentUploadSchema(1024 * 1024);
+
+  it('fills in defaults for a new document', () => {
+    expect(schema.parse({ fileName: ' plan.pdf ', contentType: '', sizeBytes: 10 })).toEqual({
+      documentId: null,
+      folderId: null,
+      fileName: 'plan.pdf',
+      contentType: 'application/octet-stream',
+      sizeBytes: 10,
+    });
+  });
+
+  it('caps the file size', () => {
+    expect(schema.safeParse({ fileName: 'big.zip', contentType: 'application/zip', sizeBytes: 1024 * 1024 + 1 })
+      .error?.errors[0].message).toBe('Files must be under 1 MB');
+  });
+});
+
+describe('document review', () => {
+  it('approves uploads by content managers and queues everyone else', () => {
+    expect(initialReviewStatus(team, PROJECT_ID)).toBe('approved');
+    expect(initialReviewStatus(client, PROJECT_ID)).toBe('pending');
+    // Managing content on one project doesn't reach another
+    expect(initialReviewStatus(team, OTHER_PROJECT_ID)).toBe('pending');
+    expect(initialReviewStatus({ id: 'director-1', role: 'director' }, OTHER_PROJECT_ID)).toBe('approved');
+  });
+
+  it('hides unapproved versions from everyone but the uploader and content managers', () => {
+    const pending = { reviewStatus: 'pending' as const, uploadedBy: client.id };
+    const builder = member('builder-1', 'builder');
+
+    expect(canSeeDocumentVersion(client, PROJECT_ID, pending)).toBe(true);
+    expect(canSeeDocumentVersion(team, PROJECT_ID, pending)).toBe(true);
+    expect(canSeeDocumentVersion(builder, PROJECT_ID, pending)).toBe(false);
+    expect(canSeeDocumentVersion(builder, PROJECT_ID, { ...pending, reviewStatus: 'approved' })).toBe(true);
+    expect(canSeeDocumentVersion(null, PROJECT_ID, { ...pending, reviewStatus: 'approved' })).toBe(false);
+  });
+});
+
+describe('document helpers', () => {
+  it('names folders by their full path', () => {
+    const folders = withFolderPaths([
+      { id: 'b', parentId: 'a', name: 'Consent' },
+      { id: 'a', parentId: null, name: 'Drawings' },
+      { id: 'c', parentId: 'missing', name: 'Photos' },
+    ]);
+
+    expect(folders.map(folder => folder.path)).toEqual(['Drawings', 'Drawings / Consent', 'Photos']);
+  });
+
+  it('formats file sizes', () => {
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(1536)).toBe('1.5 KB');
+    expect(formatFileSize(100 * 1024 * 1024)).toBe('100 MB');
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * @jest-environment node
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { toAuditLogRow } from '@/lib/audit';
+import {
+  fetchImpersonation,
+  getImpersonationExpiry,
+  getImpersonationRefusal,
+  isMutatingRequest,
+} from '@/lib/impersonation';
+
+const ADMIN_ID = '00000000-0000-4000-8000-000000000001';
+const USER_ID = '00000000-0000-4000-8000-000000000002';
+
+describe('isMutatingRequest', () => {
+  it('only lets reads through', () => {
+    expect(isMutatingRequest('GET')).toBe(false);
+    expect(isMutatingRequest('head')).toBe(false);
+    expect(isMutatingRequest('POST')).toBe(true);
+    expect(isMutatingRequest('DELETE')).toBe(true);
+  });
+});
+
+describe('getImpersonationRefusal', () => {
+  const client = { id: USER_ID, role: 'client', active: true };
+
+  it('allows active non-admin users', () => {
+    expect(getImpersonationRefusal(ADMIN_ID, client)).toBeNull();
+  });
+
+  it('refuses the admin themselves, other admins and disabled users', () => {
+    expect(getImpersonationRefusal(ADMIN_ID, { ...client, id: ADMIN_ID })).toBe('You cannot impersonate yourself');
+    expect(getImpersonationRefusal(ADMIN_ID, { ...client, role: 'admin' })).toBe('Admins cannot be impersonated');
+    expect(getImpersonationRefusal(ADMIN_ID, { ...client, active: false })).toBe('Disabled users cannot be impersonated');
+  });
+});
+
+describe('impersonation sessions', () => {
+  it('expire after the configured time', () => {
+    const now = new Date('2025-01-08T00:00:00.000Z');
+    expect(getImpersonationExpiry(now, { maxDurationMs: 60 * 1000, allowMutations: false }).toISOString()).toBe(
+      '2025-01-08T00:01:00.000Z'
+    );
+  });
+
+  it('ignores a missing or malformed cookie without a lookup', async () => {
+    const supabase = { from: jest.fn() } as unknown as SupabaseClient;
+
+    await expect(fetchImpersonation(supabase, ADMIN_ID, undefined)).resolves.toBeNull();
+    await expect(fetchImpersonation(supabase, ADMIN_ID, 'not-a-session')).resolves.toBeNull();
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+
+  it('audits impersonated requests with both identities', () => {
+    expect(
+      toAuditLogRow({
+        type: 'impersonated_request',
+        actorId: ADMIN_ID,
+        actorRole: 'admin',
+        targetUserId: USER_ID,
+        effectiveRole: 'client',
+        impersonationId: 'session-1',
+        path: '/projects',
+        method: 'POST',
+        success: false,
+        reason: 'Mutations are blocked while impersonating',
+      })
+    ).toMatchObject({
+      action: 'impersonated_request',
+      user_id: ADMIN_ID,
+      user_role: 'admin',
+      target_user_id: USER_ID,
+      success: false,
+      details: { effectiveRole: 'client', impersonationId: 'session-1' },
+    });
+  });
+});
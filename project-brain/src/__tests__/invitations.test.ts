@@ -0,0 +1,87 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  canInviteWithRole,
+  generateInvitationToken,
+  getInvitationExpiry,
+  getInvitationStatus,
+  hashInvitationToken,
+  invitationSchema,
+  isInvitationToken,
+  parseProjectAssignments,
+} from '@/lib/invitations';
+
+const PROJECT_ID = '00000000-0000-4000-8000-000000000001';
+
+describe('invitation tokens', () => {
+  it('generates unique tokens in the expected format', () => {
+    const token = generateInvitationToken();
+
+    expect(isInvitationToken(token)).toBe(true);
+    expect(generateInvitationToken()).not.toBe(token);
+    expect(isInvitationToken('not-a-token')).toBe(false);
+  });
+
+  it('hashes tokens with SHA-256', async () => {
+    await expect(hashInvitationToken('abc')).resolves.toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    );
+  });
+});
+
+describe('getInvitationStatus', () => {
+  const now = new Date('2025-01-08T00:00:00.000Z');
+  const open = { accepted_at: null, revoked_at: null, expires_at: '2025-01-09T00:00:00.000Z' };
+
+  it('is pending until it expires', () => {
+    expect(getInvitationStatus(open, now)).toBe('pending');
+    expect(getInvitationStatus({ ...open, expires_at: '2025-01-07T00:00:00.000Z' }, now)).toBe('expired');
+  });
+
+  it('reports accepted and revoked invitations regardless of expiry', () => {
+    expect(getInvitationStatus({ ...open, accepted_at: '2025-01-02T00:00:00.000Z' }, now)).toBe('accepted');
+    expect(getInvitationStatus({ ...open, revoked_at: '2025-01-02T00:00:00.000Z' }, now)).toBe('revoked');
+  });
+
+  it('expires after the configured time', () => {
+    expect(getInvitationExpiry(now, { expiresMs: 60 * 1000 }).toISOString()).toBe('2025-01-08T00:01:00.000Z');
+  });
+});
+
+describe('invitation roles', () => {
+  it('lets admins invite with any role and others only clients and builders', () => {
+    expect(canInviteWithRole('admin', 'director')).toBe(true);
+    expect(canInviteWithRole('director', 'builder')).toBe(true);
+    expect(canInviteWithRole('director', 'team')).toBe(false);
+  });
+});
+
+describe('invitationSchema', () => {
+  it('normalises the email and defaults to no projects', () => {
+    expect(invitationSchema.parse({ email: ' Jane@Example.com ', role: 'client' })).toEqual({
+      email: 'jane@example.com',
+      role: 'client',
+      projects: [],
+    });
+  });
+
+  it('rejects unknown roles and duplicate projects', () => {
+    expect(invitationSchema.safeParse({ email: 'jane@example.com', role: 'owner' }).success).toBe(false);
+    expect(
+      invitationSchema.safeParse({
+        email: 'jane@example.com',
+        role: 'client',
+        projects: [{ projectId: PROJECT_ID, role: 'client' }, { projectId: PROJECT_ID, role: 'builder' }],
+      }).success
+    ).toBe(false);
+  });
+
+  it('reads stored project assignments', () => {
+    expect(parseProjectAssignments([{ projectId: PROJECT_ID, role: 'client' }, { bad: true }])).toEqual([
+      { projectId: PROJECT_ID, role: 'client' },
+    ]);
+    expect(parseProjectAssignments(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * @jest-environment node
+ */
+
+import { createServerActionClient } from '@supabase/auth-helpers-nextjs';
+import { recordAuditEvent } from '@/lib/audit';
+import { getServiceClient } from '@/lib/supabase/service';
+import { loginUser } from '@/lib/actions/user-actions';
+
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(),
+  headers: jest.fn(),
+}));
+
+jest.mock('@supabase/auth-helpers-nextjs', () => ({
+  createServerActionClient: jest.fn(),
+  createServerComponentClient: jest.fn(),
+}));
+
+jest.mock('@/lib/supabase/service', () => ({
+  getServiceClient: jest.fn(),
+}));
+
+jest.mock('@/lib/audit', () => ({
+  getRequestAuditContext: jest.fn(async () => ({})),
+  recordAuditEvent: jest.fn(),
+}));
+
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+const CREDENTIALS = { email: 'builder@example.com', password: 'wrong-password' };
+
+const inMinutes = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000).toISOString();
+
+// The caller's session client: signs in when the password is right
+function fakeSessionClient({ passwordOk = false, active = true } = {}) {
+  const users = {
+    select: () => users,
+    eq: () => users,
+    single: async () => ({ data: { active }, error: null }),
+  };
+
+  const client = {
+    auth: {
+      signInWithPassword: jest.fn(async () => passwordOk
+        ? { data: { user: { id: USER_ID } }, error: null }
+        : { data: { user: null }, error: { message: 'Invalid login credentials' } }),
+      signOut: jest.fn(async () => ({ error: null })),
+    },
+    from: () => users,
+    rpc: jest.fn(async () => ({ data: null, error: null })),
+  };
+
+  (createServerActionClient as jest.Mock).mockReturnValue(client);
+  return client;
+}
+
+// The service client the lockout functions are called with
+function fakeServiceClient({ lockedUntil = null, failedLogin = null }: {
+  lockedUntil?: string | null;
+  failedLogin?: { user_id: string; failed_attempts: number; locked_until: string | null } | null;
+}) {
+  const client = {
+    rpc: jest.fn((name: string) => {
+      const result = name === 'get_login_lock'
+        ? { data: lockedUntil, error: null }
+        : { data: failedLogin, error: null };
+      return Object.assign(Promise.resolve(result), { maybeSingle: async () => result });
+    }),
+  };
+
+  (getServiceClient as jest.Mock).mockReturnValue(client);
+  return client;
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('loginUser lockout', () => {
+  it("refuses a locked account without trying the password", async () => {
+    const session = fakeSessionClient({ passwordOk: true });
+    const service = fakeServiceClient({ lockedUntil: inMinutes(10) });
+
+    const result = await loginUser(CREDENTIALS);
+
+    expect(result).toEqual({
+      error: 'Too many failed sign-in attempts. Try again in 10 minutes.',
+      lockedUntil: expect.any(String),
+    });
+    expect(service.rpc).toHaveBeenCalledWith('get_login_lock', { p_email: CREDENTIALS.email });
+    expect(session.auth.signInWithPassword).not.toHaveBeenCalled();
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'login_refused_locked', email: CREDENTIALS.email }),
+      {}
+    );
+  });
+
+  it('counts a wrong password with the service client, never the caller', async () => {
+    const session = fakeSessionClient();
+    const service = fakeServiceClient({
+      failedLogin: { user_id: USER_ID, failed_attempts: 2, locked_until: null },
+    });
+
+    await expect(loginUser(CREDENTIALS)).resolves.toEqual({ error: 'Invalid email or password' });
+    // Only the email is sent; the thresholds are the database's
+    expect(service.rpc).toHaveBeenCalledWith('record_failed_login', { p_email: CREDENTIALS.email });
+    expect(session.rpc).not.toHaveBeenCalled();
+    expect(recordAuditEvent).not.toHaveBeenCalled();
+  });
+
+  it('locks the account once the failure reaches the threshold', async () => {
+    fakeSessionClient();
+    fakeServiceClient({
+      failedLogin: { user_id: USER_ID, failed_attempts: 5, locked_until: inMinutes(1) },
+    });
+
+    const result = await loginUser(CREDENTIALS);
+
+    expect(result).toEqual({
+      error: 'Too many failed sign-in attempts. Try again in 1 minute.',
+      lockedUntil: expect.any(String),
+    });
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'account_locked', targetUserId: USER_ID, failedAttempts: 5 }),
+      {}
+    );
+  });
+
+  it('answers the same for unknown emails', async () => {
+    fakeSessionClient();
+    fakeServiceClient({ failedLogin: null });
+
+    await expect(loginUser(CREDENTIALS)).resolves.toEqual({ error: 'Invalid email or password' });
+  });
+
+  it('clears the failures on a successful sign-in, as the signed-in user', async () => {
+    const session = fakeSessionClient({ passwordOk: true });
+    const service = fakeServiceClient({});
+
+    await expect(loginUser(CREDENTIALS)).resolves.toEqual({ success: true });
+    expect(session.rpc).toHaveBeenCalledWith('record_successful_login');
+    expect(service.rpc).not.toHaveBeenCalledWith('record_failed_login', expect.anything());
+  });
+
+  it('fails closed when the service client is not configured', async () => {
+    const session = fakeSessionClient({ passwordOk: true });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    (getServiceClient as jest.Mock).mockImplementation(() => {
+      throw new Error('SUPABASE_SERVICE_ROLE_KEY is not configured');
+    });
+
+    await expect(loginUser(CREDENTIALS)).resolves.toEqual({ error: 'An unexpected error occurred' });
+    expect(session.auth.signInWithPassword).not.toHaveBeenCalled();
+  });
+});
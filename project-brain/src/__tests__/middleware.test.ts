@@ -0,0 +1,316 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { SignJWT } from 'jose';
+import { createMiddlewareClient } from '@supabase/auth-helpers-nextjs';
+import { recordAuditEvent } from '@/lib/audit';
+import { fetchProjectMemberships, fetchTemporaryGrants, fetchUserAccount } from '@/lib/auth';
+import { IMPERSONATION_COOKIE, fetchImpersonation } from '@/lib/impersonation';
+import { middleware } from '@/middleware';
+
+jest.mock('@supabase/auth-helpers-nextjs', () => ({
+  createMiddlewareClient: jest.fn(),
+}));
+
+jest.mock('@/lib/auth', () => ({
+  ...jest.requireActual('@/lib/auth'),
+  fetchUserAccount: jest.fn(),
+  fetchTemporaryGrants: jest.fn(async () => []),
+  fetchProjectMemberships: jest.fn(async () => []),
+}));
+
+jest.mock('@/lib/impersonation', () => ({
+  ...jest.requireActual('@/lib/impersonation'),
+  fetchImpersonation: jest.fn(async () => null),
+}));
+
+jest.mock('@/lib/audit', () => ({
+  ...jest.requireActual('@/lib/audit'),
+  recordAuditEvent: jest.fn(),
+}));
+
+jest.mock('@/lib/permissionResolver', () => ({
+  loadRolePermissions: jest.fn(async () => ({})),
+}));
+
+const ADMIN_ID = '00000000-0000-4000-8000-000000000001';
+const USER_ID = '00000000-0000-4000-8000-000000000002';
+const SESSION_ID = '00000000-0000-4000-8000-000000000003';
+const PROJECT_ID = '00000000-0000-4000-8000-000000000004';
+const EXPIRES_AT = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+const JWT_SECRET = 'test-jwt-secret-at-least-32-characters';
+
+// A token with the given payload, signed as Supabase signs access tokens
+const token = (claims: Record<string, unknown>, secret = JWT_SECRET) =>
+  new SignJWT(claims)
+    .setProtectedHeader({ alg: 'HS256' })
+    .setAudience('authenticated')
+    .setExpirationTime('1h')
+    .sign(new TextEncoder().encode(secret));
+
+/**
+ * A session for userId whose token carries the given claims, signed with
+ * secret. The users table answers with profile when the claims are missing or
+ * can't be verified; from() counts round trips.
+ */
+function fakeSession(
+  userId: string | null,
+  claims: Record<string, unknown> = { user_role: 'admin', user_active: true },
+  profile: { role: string; active: boolean } | null = null,
+  secret = JWT_SECRET
+) {
+  const users = {
+    select: () => users,
+    eq: () => users,
+    single: async () => (profile ? { data: profile, error: null } : { data: null, error: { message: 'Not found' } }),
+  };
+
+  const supabase = {
+    auth: {
+      getSession: jest.fn(async () => ({
+        data: {
+          session: userId ? { access_token: await token({ sub: userId, ...claims }, secret), user: { id: userId } } : null,
+        },
+      })),
+      signOut: jest.fn(async () => ({ error: null })),
+    },
+    from: jest.fn(() => users),
+  };
+
+  (createMiddlewareClient as jest.Mock).mockReturnValue(supabase);
+  return supabase;
+}
+
+// The admin impersonating the client
+function impersonateClient() {
+  (fetchImpersonation as jest.Mock).mockResolvedValue({
+    id: SESSION_ID,
+    adminId: ADMIN_ID,
+    targetUserId: USER_ID,
+    expiresAt: EXPIRES_AT,
+  });
+  (fetchUserAccount as jest.Mock).mockResolvedValue({
+    id: USER_ID,
+    email: 'client@example.com',
+    role: 'client',
+    active: true,
+  });
+}
+
+// A same-origin request, carrying the impersonation cookie when given one
+function request(path: string, { method = 'GET', impersonation = null as string | null } = {}) {
+  return new NextRequest(`http://localhost${path}`, {
+    method,
+    headers: {
+      host: 'localhost',
+      origin: 'http://localhost',
+      referer: 'http://localhost/projects',
+      ...(impersonation ? { cookie: `${IMPERSONATION_COOKIE}=${impersonation}` } : {}),
+    },
+  });
+}
+
+const auditedRequests = () =>
+  (recordAuditEvent as jest.Mock).mock.calls
+    .map(([event]) => event)
+    .filter(event => event.type === 'impersonated_request');
+
+const redirectPath = (response: Response) => new URL(response.headers.get('location') ?? '').pathname;
+
+beforeAll(() => {
+  process.env.SUPABASE_JWT_SECRET = JWT_SECRET;
+});
+
+afterAll(() => {
+  delete process.env.SUPABASE_JWT_SECRET;
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  (fetchImpersonation as jest.Mock).mockResolvedValue(null);
+  (fetchTemporaryGrants as jest.Mock).mockResolvedValue([]);
+  (fetchProjectMemberships as jest.Mock).mockResolvedValue([]);
+});
+
+describe('middleware route checks', () => {
+  it('allows a route from the token claims without a round trip', async () => {
+    const supabase = fakeSession(ADMIN_ID);
+
+    const response = await middleware(request('/dashboard/users'));
+
+    expect(response.status).toBe(200);
+    expect(supabase.from).not.toHaveBeenCalled();
+    expect(fetchTemporaryGrants).not.toHaveBeenCalled();
+    expect(fetchProjectMemberships).not.toHaveBeenCalled();
+  });
+
+  it('redirects signed-out users to sign in', async () => {
+    fakeSession(null);
+
+    const response = await middleware(request('/dashboard/users'));
+
+    expect(redirectPath(response)).toBe('/login');
+  });
+
+  it('signs out accounts the token says are disabled', async () => {
+    const supabase = fakeSession(USER_ID, { user_role: 'client', user_active: false });
+
+    const response = await middleware(request('/projects'));
+
+    expect(supabase.auth.signOut).toHaveBeenCalled();
+    expect(redirectPath(response)).toBe('/account-disabled');
+  });
+
+  it('refuses the claims of a token with a bad signature', async () => {
+    // The database refuses the forged token too, so there is no profile
+    const supabase = fakeSession(USER_ID, { user_role: 'admin', user_active: true }, null, 'someone-elses-secret-of-32-chars');
+
+    const response = await middleware(request('/dashboard/users'));
+
+    expect(response.status).not.toBe(200);
+    expect(redirectPath(response)).toBe('/api/auth/logout');
+    expect(supabase.from).toHaveBeenCalledWith('users');
+  });
+
+  it('falls back to the users table when the token has no claims', async () => {
+    const supabase = fakeSession(USER_ID, {}, { role: 'admin', active: true });
+
+    const response = await middleware(request('/dashboard/users'));
+
+    expect(response.status).toBe(200);
+    expect(supabase.from).toHaveBeenCalledWith('users');
+  });
+
+  it('looks up grants only when the role is not enough', async () => {
+    fakeSession(USER_ID, { user_role: 'client', user_active: true });
+    (fetchTemporaryGrants as jest.Mock).mockResolvedValue([
+      { role: null, permissions: ['manage:users'], expiresAt: EXPIRES_AT },
+    ]);
+
+    const response = await middleware(request('/dashboard/users'));
+
+    expect(response.status).toBe(200);
+    expect(fetchTemporaryGrants).toHaveBeenCalledWith(expect.anything(), USER_ID);
+  });
+
+  it("checks project routes against the user's role on the project", async () => {
+    fakeSession(USER_ID, { user_role: 'team', user_active: true });
+    (fetchProjectMemberships as jest.Mock).mockResolvedValue([{ projectId: PROJECT_ID, role: 'team' }]);
+
+    const response = await middleware(request(`/projects/${PROJECT_ID}`));
+
+    expect(response.status).toBe(200);
+    expect(fetchProjectMemberships).toHaveBeenCalledWith(expect.anything(), USER_ID, PROJECT_ID);
+  });
+
+  it('redirects and audits users the route refuses', async () => {
+    fakeSession(USER_ID, { user_role: 'client', user_active: true });
+
+    const response = await middleware(request('/dashboard/users'));
+
+    expect(redirectPath(response)).toBe('/unauthorized');
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'unauthorized_access', actorId: USER_ID, actorRole: 'client' }),
+      expect.anything()
+    );
+  });
+});
+
+describe('middleware impersonation audit', () => {
+  it('leaves public routes alone without an impersonation', async () => {
+    const supabase = fakeSession(ADMIN_ID);
+
+    const response = await middleware(request('/login'));
+
+    expect(response.status).toBe(200);
+    expect(supabase.auth.getSession).not.toHaveBeenCalled();
+    expect(recordAuditEvent).not.toHaveBeenCalled();
+  });
+
+  it('audits public routes visited while impersonating', async () => {
+    fakeSession(ADMIN_ID);
+    impersonateClient();
+
+    const response = await middleware(request('/api/auth/logout', { method: 'POST', impersonation: SESSION_ID }));
+
+    expect(response.status).toBe(200);
+    expect(auditedRequests()).toEqual([
+      expect.objectContaining({
+        actorId: ADMIN_ID,
+        actorRole: 'admin',
+        targetUserId: USER_ID,
+        effectiveRole: 'client',
+        impersonationId: SESSION_ID,
+        path: '/api/auth/logout',
+        method: 'POST',
+        success: true,
+      }),
+    ]);
+  });
+
+  it('audits API routes that withAuth does not wrap', async () => {
+    fakeSession(ADMIN_ID);
+    impersonateClient();
+
+    const response = await middleware(request('/api/storage/local/projects/plan.pdf', { impersonation: SESSION_ID }));
+
+    expect(response.status).toBe(200);
+    expect(auditedRequests()).toEqual([
+      expect.objectContaining({ path: '/api/storage/local/projects/plan.pdf', success: true }),
+    ]);
+  });
+
+  it('blocks and audits changes made through the API', async () => {
+    fakeSession(ADMIN_ID);
+    impersonateClient();
+
+    const response = await middleware(request('/api/admin/audit/export', { method: 'POST', impersonation: SESSION_ID }));
+
+    expect(response.status).toBe(403);
+    expect(auditedRequests()).toEqual([
+      expect.objectContaining({ success: false, reason: 'Mutations are blocked while impersonating' }),
+    ]);
+  });
+
+  it('lets routes whose policy allows it change things', async () => {
+    fakeSession(ADMIN_ID);
+    impersonateClient();
+
+    const response = await middleware(request('/api/impersonation', { method: 'DELETE', impersonation: SESSION_ID }));
+
+    expect(response.status).toBe(200);
+    expect(auditedRequests()).toEqual([expect.objectContaining({ method: 'DELETE', success: true })]);
+  });
+
+  it('blocks server actions on pages', async () => {
+    fakeSession(ADMIN_ID);
+    impersonateClient();
+
+    const response = await middleware(request('/projects', { method: 'POST', impersonation: SESSION_ID }));
+
+    expect(response.status).toBe(403);
+    expect(auditedRequests()).toEqual([expect.objectContaining({ path: '/projects', success: false })]);
+  });
+
+  it('checks pages as the impersonated user', async () => {
+    fakeSession(ADMIN_ID);
+    impersonateClient();
+
+    const response = await middleware(request('/dashboard/users', { impersonation: SESSION_ID }));
+
+    expect(redirectPath(response)).toBe('/unauthorized');
+    expect(fetchTemporaryGrants).toHaveBeenCalledWith(expect.anything(), USER_ID);
+  });
+
+  it('audits nothing once the impersonation has ended', async () => {
+    fakeSession(ADMIN_ID);
+
+    const response = await middleware(request('/projects', { impersonation: SESSION_ID }));
+
+    expect(response.status).toBe(200);
+    expect(auditedRequests()).toEqual([]);
+    expect(response.cookies.get(IMPERSONATION_COOKIE)?.value).toBe('');
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * @jest-environment node
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ROLE_PERMISSIONS, getRolePermissions, hasPermission } from '@/lib/auth';
+import {
+  buildRolePermissionMap,
+  checkRolePermissionsConsistency,
+  diffRolePermissions,
+  invalidateRolePermissions,
+  loadRolePermissions,
+  primeRolePermissions,
+} from '@/lib/permissionResolver';
+
+type Row = Record<string, unknown>;
+
+// The default mapping as table rows
+const DEFAULT_ROWS = Object.entries(ROLE_PERMISSIONS).flatMap(([role, permissions]) =>
+  permissions.map(permission => ({ role, permission }))
+);
+
+// role_permissions and custom_roles as the resolver reads them; null fails the read
+function fakeSupabase(tables: { role_permissions?: Row[] | null; custom_roles?: Row[] | null }) {
+  return {
+    from: jest.fn((table: keyof typeof tables) => {
+      const rows = tables[table] === undefined ? [] : tables[table];
+      const builder = {
+        select: () => builder,
+        order: () => builder,
+        then: (resolve: (result: unknown) => unknown) =>
+          resolve(rows ? { data: rows, error: null } : { data: null, error: { message: `Cannot read ${table}` } }),
+      };
+      return builder;
+    }),
+  } as unknown as SupabaseClient & { from: jest.Mock };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  primeRolePermissions([], ROLE_PERMISSIONS);
+  invalidateRolePermissions();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('buildRolePermissionMap', () => {
+  it('groups rows by role, skipping unknown roles, unknown permissions and duplicates', () => {
+    const map = buildRolePermissionMap([
+      { role: 'client', permission: 'view:projects' },
+      { role: 'client', permission: 'view:projects' },
+      { role: 'client', permission: 'fly:planes' },
+      { role: 'owner', permission: 'manage:users' },
+    ]);
+
+    expect(map.client).toEqual(['view:projects']);
+    expect(map.builder).toEqual([]);
+    expect(map).not.toHaveProperty('owner');
+  });
+});
+
+describe('loadRolePermissions', () => {
+  it('makes the table the source of truth for permission checks', async () => {
+    const rows = [...DEFAULT_ROWS, { role: 'builder', permission: 'submit:content' }];
+
+    await loadRolePermissions(fakeSupabase({ role_permissions: rows }));
+
+    expect(getRolePermissions('builder')).toEqual(['view:projects', 'submit:content']);
+    expect(hasPermission('builder', 'submit:content')).toBe(true);
+  });
+
+  it('caches the mapping and shares one load between concurrent callers', async () => {
+    const supabase = fakeSupabase({ role_permissions: DEFAULT_ROWS });
+
+    await Promise.all([loadRolePermissions(supabase), loadRolePermissions(supabase)]);
+    await loadRolePermissions(supabase);
+
+    // One read each of custom_roles and role_permissions
+    expect(supabase.from).toHaveBeenCalledTimes(2);
+
+    await loadRolePermissions(supabase, { force: true });
+    expect(supabase.from).toHaveBeenCalledTimes(4);
+  });
+
+  it('reloads after being invalidated', async () => {
+    const supabase = fakeSupabase({ role_permissions: DEFAULT_ROWS });
+
+    await loadRolePermissions(supabase);
+    invalidateRolePermissions();
+    await loadRolePermissions(supabase);
+
+    expect(supabase.from).toHaveBeenCalledTimes(4);
+  });
+
+  it('falls back to the code defaults when the table cannot be read', async () => {
+    await expect(loadRolePermissions(fakeSupabase({ role_permissions: null }))).resolves.toBe(ROLE_PERMISSIONS);
+    expect(hasPermission('director', 'manage:projects')).toBe(true);
+  });
+
+  it("never caches an empty read, which is all RLS shows a deactivated user", async () => {
+    const hidden = fakeSupabase({ role_permissions: [], custom_roles: [] });
+
+    await expect(loadRolePermissions(hidden)).resolves.toBe(ROLE_PERMISSIONS);
+    expect(hasPermission('admin', 'manage:users')).toBe(true);
+
+    const visible = fakeSupabase({ role_permissions: DEFAULT_ROWS });
+    await loadRolePermissions(visible);
+    expect(visible.from).toHaveBeenCalledWith('role_permissions');
+  });
+
+  it('keeps the last loaded mapping when a later load fails', async () => {
+    const rows = DEFAULT_ROWS.filter(row => !(row.role === 'team' && row.permission === 'manage:content'));
+    const loaded = await loadRolePermissions(fakeSupabase({ role_permissions: rows }));
+
+    await expect(loadRolePermissions(fakeSupabase({ role_permissions: null }), { force: true })).resolves.toBe(loaded);
+    expect(hasPermission('team', 'manage:content')).toBe(false);
+  });
+});
+
+describe('role permission consistency', () => {
+  it('reports permissions missing from either side, role by role', () => {
+    expect(diffRolePermissions(
+      { team: ['view:projects', 'manage:content'], client: ['view:projects'] },
+      { team: ['view:projects', 'view:analytics'], client: ['view:projects'] }
+    )).toEqual([{ role: 'team', missingFromTable: ['manage:content'], missingFromCode: ['view:analytics'] }]);
+  });
+
+  it('compares the table with the code defaults, leaving custom roles out', async () => {
+    const supabase = fakeSupabase({
+      role_permissions: [
+        ...DEFAULT_ROWS.filter(row => row.role !== 'builder'),
+        { role: 'estimator', permission: 'view:analytics' },
+      ],
+      custom_roles: [{ key: 'estimator', display_name: 'Estimator', color: 'teal', parent_roles: [] }],
+    });
+
+    await expect(checkRolePermissionsConsistency(supabase)).resolves.toEqual([
+      { role: 'builder', missingFromTable: ['view:projects'], missingFromCode: [] },
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import { PolicyActor, applyPolicyFilter, can, compilePolicyFilter } from '@/lib/policy';
+
+const PROJECT_ID = 'project-1';
+const OTHER_PROJECT_ID = 'project-2';
+
+const actor = (role: string, projectRole?: string, id = 'user-1'): PolicyActor => ({
+  id,
+  role,
+  memberships: projectRole ? [{ projectId: PROJECT_ID, role: projectRole }] : [],
+  grants: [],
+});
+
+const client = actor('client', 'client');
+const builder = actor('builder', 'builder');
+const team = actor('team', 'team');
+const director = actor('director');
+
+describe('can', () => {
+  it('lets clients upload documents to their own projects only', () => {
+    expect(can(client, 'create', { type: 'document', projectId: PROJECT_ID })).toBe(true);
+    expect(can(client, 'create', { type: 'document', projectId: OTHER_PROJECT_ID })).toBe(false);
+    expect(can(builder, 'create', { type: 'document', projectId: PROJECT_ID })).toBe(false);
+  });
+
+  it('lets clients change their own documents, and staff anyone\'s', () => {
+    const document = { type: 'document' as const, projectId: PROJECT_ID, ownerId: 'user-2' };
+
+    expect(can(client, 'delete', document)).toBe(false);
+    expect(can(client, 'delete', { ...document, ownerId: client.id })).toBe(true);
+    expect(can(team, 'delete', document)).toBe(true);
+  });
+
+  it('lets team tick QA items on assigned projects only', () => {
+    expect(can(team, 'update', { type: 'qa_item', projectId: PROJECT_ID })).toBe(true);
+    expect(can(team, 'update', { type: 'qa_item', projectId: OTHER_PROJECT_ID })).toBe(false);
+    expect(can(client, 'update', { type: 'qa_item', projectId: PROJECT_ID })).toBe(false);
+    expect(can(director, 'update', { type: 'qa_item', projectId: OTHER_PROJECT_ID })).toBe(true);
+  });
+
+  it('uses the role on the project and temporary grants', () => {
+    const promoted = actor('client', 'team');
+    const granted = {
+      ...actor('client'),
+      grants: [{ role: 'director', permissions: [], expiresAt: new Date(Date.now() + 60000).toISOString() }],
+    };
+
+    expect(can(promoted, 'update', { type: 'qa_item', projectId: PROJECT_ID })).toBe(true);
+    expect(can(granted, 'update', { type: 'qa_item', projectId: OTHER_PROJECT_ID })).toBe(true);
+  });
+
+  it('refuses anyone signed out', () => {
+    expect(can(null, 'read', { type: 'document', projectId: PROJECT_ID })).toBe(false);
+  });
+});
+
+describe('compilePolicyFilter', () => {
+  it('scopes lists to the projects the actor is on', () => {
+    expect(compilePolicyFilter(client, 'read', 'document')).toEqual({
+      match: 'some',
+      or: 'project_id.in.("project-1")',
+    });
+  });
+
+  it('combines ownership and status conditions', () => {
+    expect(compilePolicyFilter(client, 'update', 'submission')).toEqual({
+      match: 'some',
+      or: 'and(project_id.in.("project-1"),author_id.eq."user-1",status.in.("draft","changes_requested"))',
+    });
+  });
+
+  it('joins rules with or()', () => {
+    expect(compilePolicyFilter(client, 'update', 'document')).toEqual({
+      match: 'some',
+      or: 'and(project_id.in.("project-1"),uploaded_by.eq."user-1")',
+    });
+    expect(compilePolicyFilter(actor('client', 'team'), 'update', 'document')).toEqual({
+      match: 'some',
+      or: 'and(project_id.in.("project-1"),uploaded_by.eq."user-1"),project_id.in.("project-1")',
+    });
+  });
+
+  it('lets global roles see everything and nobody else anything', () => {
+    expect(compilePolicyFilter(director, 'update', 'qa_item')).toEqual({ match: 'all' });
+    expect(compilePolicyFilter(actor('builder'), 'read', 'document')).toEqual({ match: 'none' });
+    expect(compilePolicyFilter(null, 'read', 'document')).toEqual({ match: 'none' });
+  });
+
+  it('narrows a query, or skips it when nothing is allowed', () => {
+    const query = { or: jest.fn() };
+    query.or.mockReturnValue(query);
+
+    expect(applyPolicyFilter(query, { match: 'all' })).toBe(query);
+    expect(applyPolicyFilter(query, { match: 'none' })).toBeNull();
+    expect(applyPolicyFilter(query, { match: 'some', or: 'project_id.in.("p")' })).toBe(query);
+    expect(query.or).toHaveBeenCalledWith('project_id.in.("p")');
+  });
+});
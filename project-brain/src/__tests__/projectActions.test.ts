@@ -0,0 +1,129 @@
+/**
+ * @jest-environment node
+ */
+
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import { getAuthContext, getCurrentActor } from '@/lib/authContext';
+import { recordAuditEvent } from '@/lib/audit';
+import { setQaItemChecked } from '@/lib/actions/project-actions';
+
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(),
+}));
+
+jest.mock('@supabase/auth-helpers-nextjs', () => ({
+  createServerComponentClient: jest.fn(),
+}));
+
+jest.mock('@/lib/authContext', () => ({
+  getAuthContext: jest.fn(),
+  getCurrentActor: jest.fn(),
+}));
+
+jest.mock('@/lib/actions/user-actions', () => ({
+  requirePermission: jest.fn(),
+}));
+
+jest.mock('@/lib/audit', () => ({
+  getRequestAuditContext: jest.fn(async () => ({})),
+  recordAuditEvent: jest.fn(),
+}));
+
+const TEAM_ID = '00000000-0000-4000-8000-000000000001';
+const PROJECT_ID = '00000000-0000-4000-8000-000000000010';
+const OTHER_PROJECT_ID = '00000000-0000-4000-8000-000000000011';
+const QA_ITEM_ID = '00000000-0000-4000-8000-000000000020';
+
+/**
+ * The qa_items table with one item, unticked unless checkedAt is given;
+ * updates are recorded rather than applied
+ */
+function fakeSupabase(checkedAt: string | null = null) {
+  const updates: unknown[] = [];
+
+  const builder = {
+    select: () => builder,
+    eq: () => builder,
+    update: (values: unknown) => {
+      updates.push(values);
+      return { eq: async () => ({ error: null }) };
+    },
+    maybeSingle: async () => ({
+      data: { id: QA_ITEM_ID, project_id: PROJECT_ID, checked_at: checkedAt },
+      error: null,
+    }),
+  };
+
+  (createServerComponentClient as jest.Mock).mockReturnValue({ from: () => builder });
+  return updates;
+}
+
+// A team member on the given project
+const teamOn = (projectId: string) => ({
+  id: TEAM_ID,
+  role: 'team',
+  memberships: [{ projectId, role: 'team' }],
+  grants: [],
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  (getAuthContext as jest.Mock).mockResolvedValue({
+    account: { id: TEAM_ID, role: 'team', active: true, grants: [] },
+  });
+});
+
+describe('setQaItemChecked', () => {
+  it('lets the project team tick QA items, and audits it', async () => {
+    const updates = fakeSupabase();
+    (getCurrentActor as jest.Mock).mockResolvedValue(teamOn(PROJECT_ID));
+
+    await expect(setQaItemChecked(QA_ITEM_ID, true)).resolves.toEqual({ success: true, error: null });
+    expect(updates).toEqual([{ checked_at: expect.any(String) }]);
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'qa_item_checked', projectId: PROJECT_ID, qaItemId: QA_ITEM_ID, checked: true }),
+      expect.anything()
+    );
+  });
+
+  it('lets them untick QA items', async () => {
+    const updates = fakeSupabase(new Date().toISOString());
+    (getCurrentActor as jest.Mock).mockResolvedValue(teamOn(PROJECT_ID));
+
+    await expect(setQaItemChecked(QA_ITEM_ID, false)).resolves.toEqual({ success: true, error: null });
+    expect(updates).toEqual([{ checked_at: null }]);
+  });
+
+  it('refuses team members from other projects', async () => {
+    const updates = fakeSupabase();
+    (getCurrentActor as jest.Mock).mockResolvedValue(teamOn(OTHER_PROJECT_ID));
+
+    await expect(setQaItemChecked(QA_ITEM_ID, true)).resolves.toEqual({
+      success: false,
+      error: 'Only the project team can tick QA items',
+    });
+    expect(updates).toEqual([]);
+  });
+
+  it('refuses clients on the project', async () => {
+    const updates = fakeSupabase();
+    (getCurrentActor as jest.Mock).mockResolvedValue({
+      id: TEAM_ID,
+      role: 'client',
+      memberships: [{ projectId: PROJECT_ID, role: 'client' }],
+      grants: [],
+    });
+
+    await expect(setQaItemChecked(QA_ITEM_ID, true)).resolves.toMatchObject({ success: false });
+    expect(updates).toEqual([]);
+  });
+
+  it('leaves items already in that state alone', async () => {
+    const updates = fakeSupabase(new Date().toISOString());
+    (getCurrentActor as jest.Mock).mockResolvedValue(teamOn(PROJECT_ID));
+
+    await expect(setQaItemChecked(QA_ITEM_ID, true)).resolves.toEqual({ success: true, error: null });
+    expect(updates).toEqual([]);
+    expect(recordAuditEvent).not.toHaveBeenCalled();
+  });
+});
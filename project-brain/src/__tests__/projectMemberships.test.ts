@@ -0,0 +1,86 @@
+/**
+ * @jest-environment node
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  fetchProjectMemberships,
+  getAllPermissions,
+  getEffectiveRole,
+  hasAllPermissions,
+  hasPermission,
+} from '@/lib/auth';
+
+const PROJECT_ID = '00000000-0000-4000-8000-000000000001';
+const OTHER_PROJECT_ID = '00000000-0000-4000-8000-000000000002';
+const USER_ID = '00000000-0000-4000-8000-000000000003';
+
+const memberships = [{ projectId: PROJECT_ID, role: 'team' }];
+
+describe('getEffectiveRole', () => {
+  it('uses the global role without a project', () => {
+    expect(getEffectiveRole('client', { memberships })).toBe('client');
+    expect(getEffectiveRole(undefined, { projectId: PROJECT_ID, memberships })).toBeUndefined();
+  });
+
+  it("uses the membership's role within a project", () => {
+    expect(getEffectiveRole('client', { projectId: PROJECT_ID, memberships })).toBe('team');
+    expect(getEffectiveRole('client', { projectId: OTHER_PROJECT_ID, memberships })).toBeUndefined();
+  });
+
+  it('keeps global roles on every project', () => {
+    expect(getEffectiveRole('director', { projectId: OTHER_PROJECT_ID, memberships: [] })).toBe('director');
+    expect(getEffectiveRole('admin', { projectId: PROJECT_ID, memberships: [{ projectId: PROJECT_ID, role: 'client' }] }))
+      .toBe('admin');
+  });
+});
+
+describe('project-scoped permission checks', () => {
+  it('checks against the role on the project', () => {
+    expect(hasPermission('client', 'manage:content')).toBe(false);
+    expect(hasPermission('client', 'manage:content', { projectId: PROJECT_ID, memberships })).toBe(true);
+  });
+
+  it('refuses everything on projects the user is not a member of', () => {
+    expect(hasPermission('team', 'view:projects', { projectId: OTHER_PROJECT_ID, memberships })).toBe(false);
+    expect(getAllPermissions('team', { projectId: OTHER_PROJECT_ID, memberships })).toEqual([]);
+  });
+
+  it('lets a lower project role narrow what a user can do there', () => {
+    const context = { projectId: PROJECT_ID, memberships: [{ projectId: PROJECT_ID, role: 'builder' }] };
+
+    expect(hasPermission('team', 'manage:content', context)).toBe(false);
+    expect(hasAllPermissions('team', ['view:projects'], context)).toBe(true);
+  });
+
+  it('lets global roles act on any project', () => {
+    expect(hasPermission('director', 'manage:projects', { projectId: OTHER_PROJECT_ID, memberships: [] })).toBe(true);
+  });
+});
+
+describe('fetchProjectMemberships', () => {
+  function fakeSupabase(rows: Record<string, unknown>[] | null) {
+    const filters: [string, unknown][] = [];
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push([column, value]);
+        return builder;
+      },
+      then: (resolve: (result: unknown) => unknown) =>
+        resolve(rows ? { data: rows, error: null } : { data: null, error: { message: 'Failed' } }),
+    };
+    return { supabase: { from: () => builder } as unknown as SupabaseClient, filters };
+  }
+
+  it("maps a user's membership rows, optionally for one project", async () => {
+    const { supabase, filters } = fakeSupabase([{ project_id: PROJECT_ID, role: 'team' }]);
+
+    await expect(fetchProjectMemberships(supabase, USER_ID, PROJECT_ID)).resolves.toEqual(memberships);
+    expect(filters).toEqual([['user_id', USER_ID], ['project_id', PROJECT_ID]]);
+  });
+
+  it('has no memberships when they cannot be read', async () => {
+    await expect(fetchProjectMemberships(fakeSupabase(null).supabase, USER_ID)).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,72 @@
+import { can, compilePolicyFilter } from '@/lib/policy';
+import { projectSchema, toProjectColumns } from '@/lib/projects';
+
+const project = {
+  name: 'Harbour View House',
+  address: '12 Example Street, Devonport',
+  clientName: 'Jamie Client',
+};
+
+describe('projectSchema', () => {
+  it('fills in defaults for a new project', () => {
+    expect(projectSchema.parse({ ...project, clientEmail: '' })).toEqual({
+      ...project,
+      clientEmail: null,
+      scope: '',
+      status: 'active',
+      phase: 'brief',
+    });
+  });
+
+  it('requires the core details', () => {
+    expect(projectSchema.safeParse({ ...project, address: '  ' }).error?.errors[0].message).toBe(
+      'An address is required'
+    );
+    expect(projectSchema.safeParse({ ...project, clientName: '' }).error?.errors[0].message).toBe(
+      'A client is required'
+    );
+  });
+
+  it('rejects unknown statuses and phases', () => {
+    expect(projectSchema.safeParse({ ...project, status: 'archived' }).error?.errors[0].message).toBe('Unknown status');
+    expect(projectSchema.safeParse({ ...project, phase: 'demolition' }).error?.errors[0].message).toBe('Unknown phase');
+  });
+
+  it('maps to projects columns', () => {
+    expect(toProjectColumns(projectSchema.parse({ ...project, phase: 'consent' }))).toEqual({
+      name: project.name,
+      address: project.address,
+      client_name: project.clientName,
+      client_email: null,
+      scope: '',
+      status: 'active',
+      phase: 'consent',
+    });
+  });
+});
+
+describe('project access', () => {
+  const memberships = [{ projectId: 'project-1', role: 'team' }];
+
+  it('shows directors every project and others only their own', () => {
+    expect(compilePolicyFilter({ id: 'director-1', role: 'director' }, 'read', 'project')).toEqual({ match: 'all' });
+    expect(compilePolicyFilter({ id: 'team-1', role: 'team', memberships }, 'read', 'project')).toEqual({
+      match: 'some',
+      or: 'id.in.("project-1")',
+    });
+    expect(compilePolicyFilter({ id: 'team-2', role: 'team', memberships: [] }, 'read', 'project')).toEqual({
+      match: 'none',
+    });
+  });
+
+  it('lets only those who manage projects create and edit them', () => {
+    const team = { id: 'team-1', role: 'team', memberships };
+    const director = { id: 'director-1', role: 'director' };
+
+    expect(can(director, 'create', { type: 'project' })).toBe(true);
+    expect(can(director, 'update', { type: 'project', projectId: 'project-2' })).toBe(true);
+    expect(can(team, 'create', { type: 'project' })).toBe(false);
+    expect(can(team, 'update', { type: 'project', projectId: 'project-1' })).toBe(false);
+    expect(can(team, 'read', { type: 'project', projectId: 'project-1' })).toBe(true);
+  });
+});
@@ -0,0 +1,199 @@
+import {
+  RateLimitSettings,
+  RateLimitStore,
+  createFallbackRateLimitStore,
+  createMemoryRateLimitStore,
+  getClientIp,
+  getRateLimitHeaders,
+  resolveRateLimitPolicy,
+} from '@/lib/rateLimit';
+
+const MINUTE = 60 * 1000;
+
+const settings: RateLimitSettings = {
+  enabled: true,
+  store: 'memory',
+  algorithm: 'sliding-window',
+  maxRequests: 100,
+  windowMs: MINUTE,
+  roles: { director: { maxRequests: 200, windowMs: MINUTE } },
+  anonymous: { maxRequests: 10, windowMs: MINUTE },
+};
+
+describe('sliding window', () => {
+  const policy = { maxRequests: 3, windowMs: MINUTE, algorithm: 'sliding-window' as const };
+
+  it('allows up to the limit within a window', async () => {
+    const store = createMemoryRateLimitStore();
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push(await store.consume('k', policy, 1000 + i));
+    }
+
+    expect(results.map(r => r.allowed)).toEqual([true, true, true, false]);
+    expect(results.map(r => r.remaining)).toEqual([2, 1, 0, 0]);
+  });
+
+  it('weighs the previous window as it slides out', async () => {
+    const store = createMemoryRateLimitStore();
+    for (let i = 0; i < 3; i++) {
+      await store.consume('k', policy, MINUTE - 10);
+    }
+
+    // Just into the next window nearly all of the old requests still count
+    expect((await store.consume('k', policy, MINUTE + 1000)).allowed).toBe(false);
+    // A third of the way in, only two of them do
+    expect((await store.consume('k', policy, MINUTE + MINUTE / 3)).allowed).toBe(true);
+  });
+
+  it('reports when a denied caller may retry', async () => {
+    const store = createMemoryRateLimitStore();
+    for (let i = 0; i < 3; i++) {
+      await store.consume('k', policy, 0);
+    }
+
+    const denied = await store.consume('k', policy, 0);
+    expect(denied.allowed).toBe(false);
+    expect((await store.consume('k', policy, denied.resetMs - 1)).allowed).toBe(false);
+    expect((await store.consume('k', policy, denied.resetMs)).allowed).toBe(true);
+  });
+
+  it('keeps separate counters per key', async () => {
+    const store = createMemoryRateLimitStore();
+    for (let i = 0; i < 3; i++) {
+      await store.consume('a', policy, 0);
+    }
+
+    expect((await store.consume('a', policy, 0)).allowed).toBe(false);
+    expect((await store.consume('b', policy, 0)).allowed).toBe(true);
+  });
+});
+
+describe('token bucket', () => {
+  const policy = { maxRequests: 2, windowMs: MINUTE, algorithm: 'token-bucket' as const };
+
+  it('refills tokens over the window', async () => {
+    const store = createMemoryRateLimitStore();
+    expect((await store.consume('k', policy, 0)).allowed).toBe(true);
+    expect((await store.consume('k', policy, 0)).allowed).toBe(true);
+
+    const denied = await store.consume('k', policy, 0);
+    expect(denied.allowed).toBe(false);
+    expect(denied.resetMs).toBe(MINUTE / 2);
+
+    expect((await store.consume('k', policy, MINUTE / 2)).allowed).toBe(true);
+  });
+});
+
+describe('memory store eviction', () => {
+  it('evicts the least recently used keys beyond maxKeys', async () => {
+    const store = createMemoryRateLimitStore({ maxKeys: 2 });
+    const policy = { maxRequests: 1, windowMs: MINUTE };
+
+    await store.consume('a', policy, 0);
+    await store.consume('b', policy, 0);
+    await store.consume('c', policy, 0);
+
+    // 'a' was evicted, so it starts over; 'c' is still counted
+    expect((await store.consume('a', policy, 0)).allowed).toBe(true);
+    expect((await store.consume('c', policy, 0)).allowed).toBe(false);
+  });
+});
+
+describe('fallback store', () => {
+  const policy = { maxRequests: 1, windowMs: MINUTE };
+
+  it('keeps limiting in the fallback when the primary store fails', async () => {
+    const failing: RateLimitStore = {
+      consume: jest.fn(async () => {
+        throw new Error('JWT invalid');
+      }),
+    };
+    const store = createFallbackRateLimitStore(failing, createMemoryRateLimitStore());
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect((await store.consume('k', policy, 0)).allowed).toBe(true);
+    expect((await store.consume('k', policy, 0)).allowed).toBe(false);
+    expect(failing.consume).toHaveBeenCalledTimes(2);
+
+    jest.restoreAllMocks();
+  });
+
+  it('leaves the fallback alone while the primary store works', async () => {
+    const fallback = createMemoryRateLimitStore();
+    const store = createFallbackRateLimitStore(createMemoryRateLimitStore(), fallback);
+
+    await store.consume('k', policy, 0);
+
+    expect((await fallback.consume('k', policy, 0)).allowed).toBe(true);
+  });
+});
+
+describe('resolveRateLimitPolicy', () => {
+  it('is off when disabled for the environment or the route', () => {
+    expect(resolveRateLimitPolicy({ ...settings, enabled: false }, undefined, { authenticated: true })).toBeNull();
+    expect(resolveRateLimitPolicy(settings, false, { authenticated: true })).toBeNull();
+  });
+
+  it('uses the environment limits by default', () => {
+    expect(resolveRateLimitPolicy(settings, undefined, { authenticated: true, role: 'team' })).toEqual({
+      maxRequests: 100,
+      windowMs: MINUTE,
+      algorithm: 'sliding-window',
+    });
+    expect(resolveRateLimitPolicy(settings, undefined, { authenticated: true, role: 'director' })?.maxRequests).toBe(200);
+    expect(resolveRateLimitPolicy(settings, undefined, { authenticated: false })?.maxRequests).toBe(10);
+  });
+
+  it('prefers the route role override, then the route limit', () => {
+    const routeLimit = {
+      default: { maxRequests: 5, windowMs: MINUTE },
+      roles: { admin: false as const, client: { maxRequests: 1, windowMs: MINUTE, algorithm: 'token-bucket' as const } },
+    };
+
+    expect(resolveRateLimitPolicy(settings, routeLimit, { authenticated: true, role: 'admin' })).toBeNull();
+    expect(resolveRateLimitPolicy(settings, routeLimit, { authenticated: true, role: 'client' })).toEqual({
+      maxRequests: 1,
+      windowMs: MINUTE,
+      algorithm: 'token-bucket',
+    });
+    expect(resolveRateLimitPolicy(settings, routeLimit, { authenticated: true, role: 'director' })?.maxRequests).toBe(5);
+  });
+});
+
+describe('getRateLimitHeaders', () => {
+  it('sets the standard headers and Retry-After when denied', () => {
+    const policy = { maxRequests: 100, windowMs: 15 * MINUTE };
+
+    expect(getRateLimitHeaders(policy, { allowed: true, remaining: 42, resetMs: 1500 })).toEqual({
+      'RateLimit-Limit': '100',
+      'RateLimit-Remaining': '42',
+      'RateLimit-Reset': '2',
+      'RateLimit-Policy': '100;w=900',
+    });
+    expect(getRateLimitHeaders(policy, { allowed: false, remaining: 0, resetMs: 30000 })['Retry-After']).toBe('30');
+  });
+});
+
+describe('getClientIp', () => {
+  const headers = new Headers({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7, 10.0.0.1' });
+
+  it('takes the hop added by the outermost trusted proxy', () => {
+    expect(getClientIp(headers)).toBe('10.0.0.1');
+    expect(getClientIp(headers, 2)).toBe('203.0.113.7');
+  });
+
+  it('uses the first hop when there are fewer hops than trusted proxies', () => {
+    expect(getClientIp(headers, 5)).toBe('198.51.100.1');
+  });
+
+  it('has no client IP without trusted proxies', () => {
+    expect(getClientIp(headers, 0)).toBe('unknown');
+    expect(getClientIp(new Headers({ 'x-real-ip': '203.0.113.7' }), 0)).toBe('unknown');
+  });
+
+  it('falls back to X-Real-IP without X-Forwarded-For', () => {
+    expect(getClientIp(new Headers({ 'x-real-ip': '203.0.113.7' }))).toBe('203.0.113.7');
+    expect(getClientIp(new Headers())).toBe('unknown');
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * @jest-environment node
+ */
+
+import type { Session, SupabaseClient } from '@supabase/supabase-js';
+import { SignJWT } from 'jose';
+import {
+  decodeJwtClaims,
+  getClaimsFromAccessToken,
+  resolveSessionClaims,
+  resolveSessionRole,
+  verifyAccessToken,
+} from '@/lib/roleClaims';
+
+const JWT_SECRET = 'test-jwt-secret-at-least-32-characters';
+
+// An unsigned token with the given payload, base64url-encoded like Supabase's
+const token = (claims: Record<string, unknown>) =>
+  ['header', Buffer.from(JSON.stringify(claims)).toString('base64url'), 'signature'].join('.');
+
+// A token signed with the given secret, as Supabase signs access tokens
+const signedToken = (claims: Record<string, unknown>, secret = JWT_SECRET) =>
+  new SignJWT(claims)
+    .setProtectedHeader({ alg: 'HS256' })
+    .setAudience('authenticated')
+    .setExpirationTime('1h')
+    .sign(new TextEncoder().encode(secret));
+
+const session = async (userId: string, claims: Record<string, unknown> = {}, secret = JWT_SECRET) =>
+  ({ access_token: await signedToken({ sub: userId, ...claims }, secret), user: { id: userId } }) as unknown as Session;
+
+beforeAll(() => {
+  process.env.SUPABASE_JWT_SECRET = JWT_SECRET;
+});
+
+afterAll(() => {
+  delete process.env.SUPABASE_JWT_SECRET;
+});
+
+// The users table as resolveSessionClaims reads it; a null role fails the read
+function fakeSupabase(role: string | null, active = true) {
+  const builder = {
+    select: () => builder,
+    eq: () => builder,
+    single: async () => (role ? { data: { role, active }, error: null } : { data: null, error: { message: 'Not found' } }),
+  };
+  return { from: jest.fn(() => builder) } as unknown as SupabaseClient & { from: jest.Mock };
+}
+
+describe('decodeJwtClaims', () => {
+  it('decodes the payload, including non-ASCII text', () => {
+    expect(decodeJwtClaims(token({ sub: 'user-1', name: 'Zoë' }))).toEqual({ sub: 'user-1', name: 'Zoë' });
+  });
+
+  it('gives nothing for malformed tokens', () => {
+    expect(decodeJwtClaims('not-a-token')).toBeNull();
+    expect(decodeJwtClaims('header.%%%.signature')).toBeNull();
+    expect(decodeJwtClaims(`header.${Buffer.from('{"sub":').toString('base64url')}.signature`)).toBeNull();
+  });
+});
+
+describe('verifyAccessToken', () => {
+  it('gives the payload of a token signed with the project secret', async () => {
+    await expect(verifyAccessToken(await signedToken({ sub: 'user-1' }))).resolves.toMatchObject({ sub: 'user-1' });
+  });
+
+  it('refuses unsigned, forged and expired tokens', async () => {
+    const expired = await new SignJWT({ sub: 'user-1' })
+      .setProtectedHeader({ alg: 'HS256' })
+      .setAudience('authenticated')
+      .setExpirationTime(Math.floor(Date.now() / 1000) - 60)
+      .sign(new TextEncoder().encode(JWT_SECRET));
+
+    await expect(verifyAccessToken(token({ sub: 'user-1' }))).resolves.toBeNull();
+    await expect(verifyAccessToken(await signedToken({ sub: 'user-1' }, 'someone-elses-secret-of-32-characters'))).resolves.toBeNull();
+    await expect(verifyAccessToken(expired)).resolves.toBeNull();
+  });
+});
+
+describe('getClaimsFromAccessToken', () => {
+  it('reads who the token is for, their role and active claims together', async () => {
+    await expect(
+      getClaimsFromAccessToken(await signedToken({ sub: 'user-1', user_role: 'team', user_active: false }))
+    ).resolves.toEqual({ userId: 'user-1', role: 'team', active: false });
+  });
+
+  it('gives nothing unless the hook added both', async () => {
+    await expect(getClaimsFromAccessToken(await signedToken({ sub: 'user-1', user_role: 'team' }))).resolves.toBeNull();
+    await expect(getClaimsFromAccessToken(await signedToken({ sub: 'user-1', user_active: true }))).resolves.toBeNull();
+    await expect(getClaimsFromAccessToken(await signedToken({ sub: 'user-1', user_role: '', user_active: true }))).resolves.toBeNull();
+  });
+
+  it('trusts nothing in a token that fails verification', async () => {
+    await expect(getClaimsFromAccessToken(token({ sub: 'user-1', user_role: 'admin', user_active: true }))).resolves.toBeNull();
+  });
+});
+
+describe('resolveSessionClaims', () => {
+  it('uses the verified claims without a round trip', async () => {
+    const supabase = fakeSupabase('client');
+
+    await expect(
+      resolveSessionClaims(supabase, await session('claims', { user_role: 'team', user_active: true }))
+    ).resolves.toEqual({ userId: 'claims', role: 'team', active: true });
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+
+  it('asks the database about tokens with a bad signature', async () => {
+    const supabase = fakeSupabase(null);
+    const forged = await session('forged', { user_role: 'admin', user_active: true }, 'someone-elses-secret-of-32-characters');
+
+    await expect(resolveSessionClaims(supabase, forged)).resolves.toBeNull();
+    expect(supabase.from).toHaveBeenCalledWith('users');
+  });
+
+  it("looks up the token's subject, not the user the cookie names", async () => {
+    const supabase = fakeSupabase('client');
+    const mismatched = { ...(await session('token-user')), user: { id: 'cookie-user' } } as Session;
+
+    await expect(resolveSessionClaims(supabase, mismatched)).resolves.toEqual({
+      userId: 'token-user',
+      role: 'client',
+      active: true,
+    });
+  });
+
+  it('reads the active state from the users table when the token has no claim', async () => {
+    const supabase = fakeSupabase('builder', false);
+
+    await expect(resolveSessionClaims(supabase, await session('inactive', { user_role: 'builder' }))).resolves.toEqual({
+      userId: 'inactive',
+      role: 'builder',
+      active: false,
+    });
+    expect(supabase.from).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('resolveSessionRole', () => {
+  it('uses the claims without a round trip', async () => {
+    const supabase = fakeSupabase('client');
+
+    await expect(
+      resolveSessionRole(supabase, await session('claimed', { user_role: 'team', user_active: true }))
+    ).resolves.toBe('team');
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the users table and caches what it finds', async () => {
+    const supabase = fakeSupabase('builder');
+    const unclaimed = await session('unclaimed');
+
+    await expect(resolveSessionRole(supabase, unclaimed)).resolves.toBe('builder');
+    await expect(resolveSessionRole(supabase, unclaimed)).resolves.toBe('builder');
+    expect(supabase.from).toHaveBeenCalledTimes(1);
+  });
+
+  it('caches per token, so another token for the same user is looked up', async () => {
+    const supabase = fakeSupabase('builder');
+
+    await resolveSessionRole(supabase, await session('retokened', { iat: 1 }));
+    await resolveSessionRole(supabase, await session('retokened', { iat: 2 }));
+
+    expect(supabase.from).toHaveBeenCalledTimes(2);
+  });
+
+  it('looks the role up again once the cache has expired', async () => {
+    const now = jest.spyOn(Date, 'now');
+    const supabase = fakeSupabase('client');
+    const expiring = await session('expiring');
+
+    now.mockReturnValue(1_000_000);
+    await resolveSessionRole(supabase, expiring);
+    now.mockReturnValue(1_000_000 + 31 * 1000);
+    await resolveSessionRole(supabase, expiring);
+
+    expect(supabase.from).toHaveBeenCalledTimes(2);
+    now.mockRestore();
+  });
+
+  it('gives nothing, and caches nothing, when the user cannot be read', async () => {
+    const missing = await session('missing');
+    await expect(resolveSessionRole(fakeSupabase(null), missing)).resolves.toBeNull();
+
+    const supabase = fakeSupabase('team');
+    await expect(resolveSessionRole(supabase, missing)).resolves.toBe('team');
+    expect(supabase.from).toHaveBeenCalledTimes(1);
+  });
+});
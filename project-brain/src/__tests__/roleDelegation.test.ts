@@ -0,0 +1,64 @@
+import { USER_ROLES } from '@/lib/auth';
+import { checkRoleAssignment, getAssignableRoles, getAssignableRolesFor } from '@/lib/roleDelegation';
+
+const admin = { actorId: 'admin-1', actorRole: 'admin' };
+const director = { actorId: 'director-1', actorRole: 'director' };
+
+describe('getAssignableRoles', () => {
+  it('lets admins assign every role', () => {
+    expect(getAssignableRoles('admin')).toEqual(USER_ROLES);
+  });
+
+  it('limits directors to their delegated roles', () => {
+    expect(getAssignableRoles('director')).toEqual(['client', 'builder']);
+  });
+
+  it('gives roles without delegation or manage:roles nothing', () => {
+    expect(getAssignableRoles('client')).toEqual([]);
+  });
+});
+
+describe('checkRoleAssignment', () => {
+  it('allows changes within the actor\'s delegation', () => {
+    expect(
+      checkRoleAssignment({ ...director, targetId: 'u1', targetRole: 'client', newRole: 'builder' })
+    ).toEqual({ allowed: true });
+  });
+
+  it('refuses roles outside the actor\'s delegation', () => {
+    expect(
+      checkRoleAssignment({ ...director, targetId: 'u1', targetRole: 'client', newRole: 'team' }).allowed
+    ).toBe(false);
+    expect(
+      checkRoleAssignment({ ...director, targetId: 'u1', targetRole: 'team', newRole: 'client' }).allowed
+    ).toBe(false);
+  });
+
+  it('refuses changes to the actor\'s own role', () => {
+    expect(checkRoleAssignment({ ...admin, targetId: 'admin-1', targetRole: 'admin', newRole: 'team' })).toEqual({
+      allowed: false,
+      reason: 'You cannot change your own role',
+    });
+  });
+
+  it('protects the last active admin', () => {
+    const demotion = { ...admin, targetId: 'admin-2', targetRole: 'admin', newRole: 'team' };
+
+    expect(checkRoleAssignment({ ...demotion, activeAdminCount: 1 }).allowed).toBe(false);
+    expect(checkRoleAssignment({ ...demotion, activeAdminCount: 2 }).allowed).toBe(true);
+  });
+
+  it('refuses unknown roles', () => {
+    expect(
+      checkRoleAssignment({ ...admin, targetId: 'u1', targetRole: 'client', newRole: 'owner' }).allowed
+    ).toBe(false);
+  });
+});
+
+describe('getAssignableRolesFor', () => {
+  it('offers the other roles the actor may assign to that user', () => {
+    expect(getAssignableRolesFor({ ...director, targetId: 'u1', targetRole: 'client' })).toEqual(['builder']);
+    expect(getAssignableRolesFor({ ...director, targetId: 'u1', targetRole: 'admin' })).toEqual([]);
+    expect(getAssignableRolesFor({ ...admin, targetId: 'admin-1', targetRole: 'admin' })).toEqual([]);
+  });
+});
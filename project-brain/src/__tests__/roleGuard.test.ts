@@ -0,0 +1,79 @@
+import { BuiltInRole, USER_ROLES, isRoleAtLeast, setCustomRoles } from '@/lib/auth';
+import { meetsRoleRequirements } from '@/lib/roleGuard';
+
+// Which roles are "X and above", for every built-in X
+const AT_LEAST: Record<BuiltInRole, BuiltInRole[]> = {
+  admin: ['admin'],
+  director: ['admin', 'director'],
+  team: ['admin', 'director', 'team'],
+  client: ['admin', 'director', 'team', 'client'],
+  builder: ['admin', 'director', 'team', 'builder'],
+};
+
+const customRole = (key: string, parentRoles: string[]) => ({
+  key,
+  displayName: key,
+  color: 'gray' as const,
+  parentRoles,
+  builtIn: false,
+});
+
+describe('isRoleAtLeast', () => {
+  afterEach(() => setCustomRoles([]));
+
+  it.each(USER_ROLES)('defines "%s and above" along the role tree', minimum => {
+    expect(USER_ROLES.filter(role => isRoleAtLeast(role, minimum))).toEqual(AT_LEAST[minimum]);
+  });
+
+  it('never counts a missing role', () => {
+    expect(isRoleAtLeast(null, 'builder')).toBe(false);
+    expect(isRoleAtLeast(undefined, 'builder')).toBe(false);
+  });
+
+  it('ranks custom roles with the roles they inherit from', () => {
+    setCustomRoles([customRole('site-lead', ['team']), customRole('site-assistant', ['site-lead'])]);
+
+    expect(isRoleAtLeast('site-lead', 'client')).toBe(true);
+    expect(isRoleAtLeast('site-lead', 'team')).toBe(true);
+    expect(isRoleAtLeast('site-lead', 'director')).toBe(false);
+    expect(isRoleAtLeast('site-assistant', 'site-lead')).toBe(true);
+    expect(isRoleAtLeast('admin', 'site-lead')).toBe(true);
+    expect(isRoleAtLeast('director', 'site-lead')).toBe(false);
+  });
+
+  it('survives custom roles that inherit from each other', () => {
+    setCustomRoles([customRole('a', ['b']), customRole('b', ['a'])]);
+
+    expect(isRoleAtLeast('a', 'team')).toBe(false);
+    expect(isRoleAtLeast('a', 'b')).toBe(true);
+  });
+});
+
+describe('meetsRoleRequirements', () => {
+  it('lets admins past "client and above" but not builders', () => {
+    expect(meetsRoleRequirements('admin', { requiredRole: 'client' })).toBe(true);
+    expect(meetsRoleRequirements('team', { requiredRole: 'client' })).toBe(true);
+    expect(meetsRoleRequirements('builder', { requiredRole: 'client' })).toBe(false);
+    expect(meetsRoleRequirements(null, {})).toBe(false);
+  });
+
+  it('accepts any of several roles, or roles above them', () => {
+    expect(meetsRoleRequirements('director', { anyRole: ['team', 'builder'] })).toBe(true);
+    expect(meetsRoleRequirements('client', { anyRole: ['team', 'builder'] })).toBe(false);
+  });
+
+  it('checks permissions', () => {
+    expect(meetsRoleRequirements('client', { permission: 'submit:content' })).toBe(true);
+    expect(meetsRoleRequirements('client', { anyPermission: ['manage:users', 'view:projects'] })).toBe(true);
+    expect(meetsRoleRequirements('client', { allPermissions: ['view:projects', 'manage:projects'] })).toBe(false);
+  });
+
+  it('uses the role on the project, and temporary grants', () => {
+    const memberships = [{ projectId: 'project-1', role: 'team' }];
+    const grants = [{ role: 'team', permissions: [], expiresAt: new Date(Date.now() + 60000).toISOString() }];
+
+    expect(meetsRoleRequirements('client', { requiredRole: 'team', projectId: 'project-1' }, { memberships })).toBe(true);
+    expect(meetsRoleRequirements('client', { projectId: 'project-2' }, { memberships })).toBe(false);
+    expect(meetsRoleRequirements('client', { requiredRole: 'team' }, { grants })).toBe(true);
+  });
+});
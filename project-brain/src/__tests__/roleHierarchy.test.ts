@@ -0,0 +1,70 @@
+import {
+  BuiltInRole,
+  PERMISSIONS,
+  Permission,
+  ROLE_HIERARCHY,
+  USER_ROLES,
+  getAllPermissions,
+  getInheritedRoles,
+  hasPermission,
+  hasRole,
+  validateRoleHierarchy,
+} from '@/lib/auth';
+
+// Every permission each built-in role ends up with, inherited ones included.
+// Changing ROLE_HIERARCHY or ROLE_PERMISSIONS should mean changing this too.
+const EFFECTIVE_PERMISSIONS: Record<BuiltInRole, Permission[]> = {
+  admin: PERMISSIONS,
+  director: [
+    'view:users', 'manage:projects', 'view:projects', 'manage:content', 'submit:content',
+    'view:analytics', 'view:audit', 'invite:users', 'manage:grants',
+  ],
+  team: ['view:projects', 'manage:content', 'submit:content', 'view:analytics'],
+  client: ['view:projects', 'submit:content'],
+  builder: ['view:projects'],
+};
+
+const MATRIX = USER_ROLES.flatMap(role =>
+  PERMISSIONS.map(permission => [role, permission, EFFECTIVE_PERMISSIONS[role].includes(permission)] as const)
+);
+
+describe('role × permission matrix', () => {
+  it.each(MATRIX)('%s has %s: %s', (role, permission, expected) => {
+    expect(hasPermission(role, permission)).toBe(expected);
+  });
+
+  it.each(USER_ROLES)('%s gets exactly its pinned permissions', role => {
+    expect([...getAllPermissions(role)].sort()).toEqual([...EFFECTIVE_PERMISSIONS[role]].sort());
+  });
+});
+
+describe('ROLE_HIERARCHY', () => {
+  it('has each role include the roles below it', () => {
+    expect(getInheritedRoles('admin')).toEqual(expect.arrayContaining(['director', 'team', 'client', 'builder']));
+    expect(getInheritedRoles('team')).toEqual(expect.arrayContaining(['client', 'builder']));
+    expect(getInheritedRoles('client')).toEqual([]);
+    expect(getInheritedRoles('builder')).toEqual([]);
+  });
+
+  it('never lets a role take on a role above it', () => {
+    expect(hasRole('team', 'director')).toBe(false);
+    expect(hasRole('director', 'admin')).toBe(false);
+    expect(hasRole('builder', 'client')).toBe(false);
+  });
+
+  it('is valid', () => {
+    expect(() => validateRoleHierarchy(ROLE_HIERARCHY)).not.toThrow();
+  });
+
+  it('rejects unknown roles', () => {
+    expect(() => validateRoleHierarchy({ admin: ['owner'] })).toThrow('Unknown role in role hierarchy: owner');
+    expect(() => validateRoleHierarchy({ owner: [] })).toThrow('Unknown role in role hierarchy: owner');
+  });
+
+  it('rejects cycles', () => {
+    expect(() => validateRoleHierarchy({ admin: ['director'], director: ['team'], team: ['admin'] })).toThrow(
+      'Role hierarchy has a cycle: admin → director → team → admin'
+    );
+    expect(() => validateRoleHierarchy({ client: ['client'] })).toThrow('Role hierarchy has a cycle: client → client');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * @jest-environment node
+ */
+
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ROLE_PERMISSIONS, hasPermission } from '@/lib/auth';
+import { getAuthContext } from '@/lib/authContext';
+import { recordAuditEvent } from '@/lib/audit';
+import { loadRolePermissions, primeRolePermissions } from '@/lib/permissionResolver';
+import { updateRolePermissions } from '@/lib/actions/role-management';
+
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(),
+}));
+
+jest.mock('@supabase/auth-helpers-nextjs', () => ({
+  createServerComponentClient: jest.fn(),
+}));
+
+jest.mock('@/lib/authContext', () => ({
+  getAuthContext: jest.fn(),
+}));
+
+jest.mock('@/lib/audit', () => ({
+  getRequestAuditContext: jest.fn(async () => ({})),
+  recordAuditEvent: jest.fn(),
+}));
+
+const ADMIN_ID = '00000000-0000-4000-8000-000000000001';
+
+type Call = [string, ...unknown[]];
+
+// Records upserts and deletes on role_permissions; failWith fails every write
+function fakeSupabase(failWith?: string) {
+  const calls: Call[] = [];
+  const result = { error: failWith ? { message: failWith } : null };
+
+  const builder = {
+    upsert: (...args: unknown[]) => {
+      calls.push(['upsert', ...args]);
+      return Promise.resolve(result);
+    },
+    delete: () => {
+      calls.push(['delete']);
+      return builder;
+    },
+    eq: (column: string, value: unknown) => {
+      calls.push(['eq', column, value]);
+      return builder;
+    },
+    then: (resolve: (value: typeof result) => unknown) => resolve(result),
+  };
+
+  (createServerComponentClient as jest.Mock).mockReturnValue({ from: () => builder });
+  return calls;
+}
+
+function signInAs(role: string, active = true) {
+  (getAuthContext as jest.Mock).mockResolvedValue({
+    sessionUserId: ADMIN_ID,
+    account: { id: ADMIN_ID, role, active, grants: [] },
+  });
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  primeRolePermissions([], ROLE_PERMISSIONS);
+});
+
+describe('updateRolePermissions', () => {
+  it('grants and revokes direct permissions, auditing each change', async () => {
+    signInAs('admin');
+    const calls = fakeSupabase();
+
+    const result = await updateRolePermissions([
+      { role: 'team', permission: 'view:analytics', granted: true },
+      { role: 'client', permission: 'view:projects', granted: false },
+    ]);
+
+    expect(result).toEqual({ success: true, error: null });
+    expect(calls).toEqual([
+      ['upsert', { role: 'team', permission: 'view:analytics', created_by: ADMIN_ID }, { onConflict: 'role,permission' }],
+      ['delete'],
+      ['eq', 'role', 'client'],
+      ['eq', 'permission', 'view:projects'],
+    ]);
+    expect((recordAuditEvent as jest.Mock).mock.calls.map(([event]) => event)).toEqual([
+      { type: 'role_permission_granted', actorId: ADMIN_ID, role: 'team', permission: 'view:analytics' },
+      { type: 'role_permission_revoked', actorId: ADMIN_ID, role: 'client', permission: 'view:projects' },
+    ]);
+  });
+
+  it('needs an active user who can manage roles', async () => {
+    const calls = fakeSupabase();
+    const change = { role: 'team' as const, permission: 'view:analytics' as const, granted: true };
+
+    signInAs('director');
+    await expect(updateRolePermissions([change])).resolves.toEqual({
+      success: false,
+      error: 'Insufficient permissions to manage roles',
+    });
+
+    signInAs('admin', false);
+    await expect(updateRolePermissions([change])).resolves.toEqual({ success: false, error: 'Account disabled' });
+
+    (getAuthContext as jest.Mock).mockResolvedValue({ sessionUserId: null, account: null });
+    await expect(updateRolePermissions([change])).resolves.toEqual({ success: false, error: 'Not authenticated' });
+
+    expect(calls).toEqual([]);
+    expect(recordAuditEvent).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown roles and permissions before writing anything', async () => {
+    signInAs('admin');
+    const calls = fakeSupabase();
+
+    const result = await updateRolePermissions([
+      { role: 'team', permission: 'view:analytics', granted: true },
+      { role: 'team', permission: 'fly:planes', granted: true },
+    ] as Parameters<typeof updateRolePermissions>[0]);
+
+    expect(result).toEqual({ success: false, error: 'Unknown role or permission: team / fly:planes' });
+    expect(calls).toEqual([]);
+  });
+
+  it('stops at the first failed write without auditing it', async () => {
+    signInAs('admin');
+    const calls = fakeSupabase('permission denied for table role_permissions');
+
+    const result = await updateRolePermissions([
+      { role: 'team', permission: 'view:analytics', granted: true },
+      { role: 'team', permission: 'manage:users', granted: true },
+    ]);
+
+    expect(result).toEqual({ success: false, error: 'permission denied for table role_permissions' });
+    expect(calls).toHaveLength(1);
+    expect(recordAuditEvent).not.toHaveBeenCalled();
+  });
+
+  it('drops the cached mapping so the next check reloads it', async () => {
+    signInAs('admin');
+    fakeSupabase();
+
+    await updateRolePermissions([{ role: 'team', permission: 'view:audit', granted: true }]);
+
+    const rows: Record<string, Record<string, unknown>[]> = {
+      custom_roles: [],
+      role_permissions: [{ role: 'team', permission: 'view:audit' }],
+    };
+    const supabase = {
+      from: jest.fn((table: string) => {
+        const reader = {
+          select: () => reader,
+          order: () => reader,
+          then: (resolve: (value: unknown) => unknown) => resolve({ data: rows[table], error: null }),
+        };
+        return reader;
+      }),
+    } as unknown as SupabaseClient;
+
+    await loadRolePermissions(supabase);
+
+    expect(supabase.from).toHaveBeenCalledWith('role_permissions');
+    expect(hasPermission('team', 'view:audit')).toBe(true);
+  });
+});
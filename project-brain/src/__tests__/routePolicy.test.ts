@@ -0,0 +1,146 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  ROUTE_POLICIES,
+  DEFAULT_ROUTE_POLICY,
+  findRoutePolicy,
+  matchRoutePattern,
+  checkRouteAccess,
+  getRouteProjectId,
+} from '@/lib/routePolicy';
+
+const APP_DIR = path.join(__dirname, '..', 'app');
+
+/**
+ * Collect every page and route handler under src/app as a route pattern
+ */
+function collectAppRoutes(dir: string, segments: string[] = []): string[] {
+  const routes: string[] = [];
+
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      // Private folders and parallel routes aren't URL segments
+      if (entry.name.startsWith('_') || entry.name.startsWith('@')) continue;
+
+      // Route groups don't appear in the URL
+      const isGroup = entry.name.startsWith('(') && entry.name.endsWith(')');
+      routes.push(
+        ...collectAppRoutes(path.join(dir, entry.name), isGroup ? segments : [...segments, entry.name])
+      );
+    } else if (/^(page|route)\.(tsx?|jsx?)$/.test(entry.name)) {
+      routes.push(`/${segments.join('/')}`);
+    }
+  }
+
+  return routes;
+}
+
+describe('route policies', () => {
+  const appRoutes = collectAppRoutes(APP_DIR);
+
+  it('finds the app routes', () => {
+    expect(appRoutes).toContain('/');
+    expect(appRoutes).toContain('/users');
+  });
+
+  it.each(appRoutes)('declares a policy for %s', route => {
+    const declared = ROUTE_POLICIES.map(policy => policy.pattern);
+    expect(declared).toContain(route);
+  });
+
+  it('declares each pattern only once', () => {
+    const patterns = ROUTE_POLICIES.map(policy => policy.pattern);
+    expect(new Set(patterns).size).toBe(patterns.length);
+  });
+
+  it('only makes routes public explicitly', () => {
+    for (const policy of ROUTE_POLICIES.filter(p => p.public)) {
+      expect(policy.anyRole ?? []).toHaveLength(0);
+      expect(policy.permissions ?? []).toHaveLength(0);
+    }
+  });
+
+  it('requires project params to be dynamic segments of the pattern', () => {
+    for (const policy of ROUTE_POLICIES.filter(p => p.projectParam)) {
+      expect(policy.pattern).toContain(`[${policy.projectParam}]`);
+    }
+  });
+});
+
+describe('matchRoutePattern', () => {
+  it('matches static patterns exactly', () => {
+    expect(matchRoutePattern('/users', '/users')).toEqual({});
+    expect(matchRoutePattern('/users', '/users/manage')).toBeNull();
+  });
+
+  it('captures dynamic segments', () => {
+    expect(matchRoutePattern('/projects/[id]/edit', '/projects/abc/edit')).toEqual({ id: 'abc' });
+    expect(matchRoutePattern('/projects/[id]/edit', '/projects/abc')).toBeNull();
+  });
+
+  it('captures catch-all segments', () => {
+    expect(matchRoutePattern('/docs/[...slug]', '/docs/a/b')).toEqual({ slug: 'a/b' });
+    expect(matchRoutePattern('/docs/[...slug]', '/docs')).toBeNull();
+  });
+});
+
+describe('findRoutePolicy', () => {
+  it('prefers static segments over dynamic ones', () => {
+    expect(findRoutePolicy('/projects/new').policy.pattern).toBe('/projects/new');
+    expect(findRoutePolicy('/projects/123').policy.pattern).toBe('/projects/[id]');
+  });
+
+  it('resolves the project id for project routes', () => {
+    const match = findRoutePolicy('/projects/123/edit');
+    expect(match.policy.pattern).toBe('/projects/[id]/edit');
+    expect(getRouteProjectId(match)).toBe('123');
+  });
+
+  it('inherits the closest declared ancestor', () => {
+    const match = findRoutePolicy('/users/manage/extra');
+    expect(match.policy.pattern).toBe('/users/manage');
+    expect(match.inherited).toBe(true);
+  });
+
+  it('never inherits the public root policy', () => {
+    expect(findRoutePolicy('/not-declared').policy).toBe(DEFAULT_ROUTE_POLICY);
+  });
+});
+
+describe('checkRouteAccess', () => {
+  it('lets anyone through public routes', () => {
+    expect(checkRouteAccess(findRoutePolicy('/login').policy, null)).toBe('allow');
+  });
+
+  it('requires a session everywhere else', () => {
+    expect(checkRouteAccess(DEFAULT_ROUTE_POLICY, null)).toBe('unauthenticated');
+    expect(checkRouteAccess(DEFAULT_ROUTE_POLICY, 'builder')).toBe('allow');
+  });
+
+  it('checks permissions', () => {
+    const { policy } = findRoutePolicy('/users');
+    expect(checkRouteAccess(policy, 'director')).toBe('allow');
+    expect(checkRouteAccess(policy, 'client')).toBe('forbidden');
+  });
+
+  it('checks roles exactly', () => {
+    const { policy } = findRoutePolicy('/admin');
+    expect(checkRouteAccess(policy, 'admin')).toBe('allow');
+    expect(checkRouteAccess(policy, 'team')).toBe('forbidden');
+  });
+
+  it('checks project routes against the project membership', () => {
+    const match = findRoutePolicy('/projects/p1/edit');
+    const projectId = getRouteProjectId(match);
+
+    expect(checkRouteAccess(match.policy, 'director', { projectId, memberships: [] })).toBe('allow');
+    expect(checkRouteAccess(match.policy, 'client', { projectId, memberships: [] })).toBe('forbidden');
+    expect(
+      checkRouteAccess(match.policy, 'client', {
+        projectId,
+        memberships: [{ projectId: 'p1', role: 'director' }],
+      })
+    ).toBe('allow');
+    expect(checkRouteAccess(match.policy, 'client')).toBe('forbidden');
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * @jest-environment node
+ */
+
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import { createClient } from '@supabase/supabase-js';
+import { jwtVerify } from 'jose';
+import { getAuthContext, getCurrentActor } from '@/lib/authContext';
+import { getProjects } from '@/lib/actions/project-actions';
+import { createServerClient } from '@/lib/supabase/server';
+
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(),
+}));
+
+jest.mock('@supabase/auth-helpers-nextjs', () => ({
+  createServerComponentClient: jest.fn(),
+}));
+
+jest.mock('@supabase/supabase-js', () => ({
+  ...jest.requireActual('@supabase/supabase-js'),
+  createClient: jest.fn(),
+}));
+
+jest.mock('@/lib/authContext', () => ({
+  getAuthContext: jest.fn(),
+  getCurrentActor: jest.fn(),
+}));
+
+jest.mock('@/lib/actions/user-actions', () => ({
+  requirePermission: jest.fn(),
+}));
+
+const JWT_SECRET = 'test-jwt-secret-at-least-32-characters';
+const ADMIN_ID = '00000000-0000-4000-8000-000000000001';
+const CLIENT_ID = '00000000-0000-4000-8000-000000000002';
+const SESSION_ID = '00000000-0000-4000-8000-000000000003';
+const PROJECT_ID = '00000000-0000-4000-8000-000000000010';
+
+const admin = { id: ADMIN_ID, email: 'admin@example.com', role: 'admin', active: true, grants: [] };
+const client = { id: CLIENT_ID, email: 'client@example.com', role: 'client', active: true, grants: [] };
+
+const impersonation = {
+  id: SESSION_ID,
+  adminId: ADMIN_ID,
+  targetUserId: CLIENT_ID,
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+};
+
+/**
+ * A client whose projects table holds the given rows, standing in for what
+ * RLS lets its token read
+ */
+function fakeClient(rows: Record<string, unknown>[]) {
+  const builder = {
+    select: () => builder,
+    order: () => builder,
+    or: () => builder,
+    then: (resolve: (result: { data: unknown[]; error: null }) => unknown) => resolve({ data: rows, error: null }),
+  };
+  return { from: jest.fn(() => builder) };
+}
+
+const project = (id: string, name: string) => ({
+  id,
+  name,
+  address: '1 High Street',
+  client_name: 'Client',
+  client_email: null,
+  scope: '',
+  status: 'active',
+  phase: 'design',
+  template_version_id: null,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+});
+
+beforeAll(() => {
+  process.env.SUPABASE_JWT_SECRET = JWT_SECRET;
+  process.env.NEXT_PUBLIC_SUPABASE_URL = 'http://localhost:54321';
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon-key';
+});
+
+afterAll(() => {
+  delete process.env.SUPABASE_JWT_SECRET;
+  delete process.env.NEXT_PUBLIC_SUPABASE_URL;
+  delete process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('createServerClient', () => {
+  it("uses the session's own client when not impersonating", async () => {
+    const sessionClient = fakeClient([]);
+    (createServerComponentClient as jest.Mock).mockReturnValue(sessionClient);
+    (getAuthContext as jest.Mock).mockResolvedValue({ account: admin, user: admin, impersonation: null });
+
+    await expect(createServerClient()).resolves.toBe(sessionClient);
+    expect(createClient).not.toHaveBeenCalled();
+  });
+
+  it('queries as the impersonated user with a short-lived token minted for them', async () => {
+    (createClient as jest.Mock).mockReturnValue(fakeClient([]));
+    (getAuthContext as jest.Mock).mockResolvedValue({ account: admin, user: client, impersonation });
+
+    await createServerClient();
+
+    const [, , options] = (createClient as jest.Mock).mock.calls[0];
+    const token = options.global.headers.Authorization.replace('Bearer ', '');
+    const { payload } = await jwtVerify(token, new TextEncoder().encode(JWT_SECRET), { audience: 'authenticated' });
+
+    expect(payload).toMatchObject({ sub: CLIENT_ID, role: 'authenticated', user_role: 'client', impersonation_id: SESSION_ID });
+    expect((payload.exp ?? 0) - Math.floor(Date.now() / 1000)).toBeLessThanOrEqual(60);
+    expect(createServerComponentClient).not.toHaveBeenCalled();
+  });
+
+  it("refuses to fall back to the admin's access", async () => {
+    (getAuthContext as jest.Mock).mockResolvedValue({ account: admin, user: null, impersonation });
+
+    await expect(createServerClient()).rejects.toThrow('Cannot read as the impersonated user');
+    expect(createServerComponentClient).not.toHaveBeenCalled();
+  });
+});
+
+describe('impersonated reads', () => {
+  it("shows the admin only the rows the user's token can read", async () => {
+    // The admin's own session would read both projects; the client's only theirs
+    (createServerComponentClient as jest.Mock).mockReturnValue(
+      fakeClient([project(PROJECT_ID, 'Their project'), project(SESSION_ID, 'Another project')])
+    );
+    (createClient as jest.Mock).mockReturnValue(fakeClient([project(PROJECT_ID, 'Their project')]));
+    (getAuthContext as jest.Mock).mockResolvedValue({ account: admin, user: client, impersonation });
+    (getCurrentActor as jest.Mock).mockResolvedValue({
+      id: CLIENT_ID,
+      role: 'client',
+      memberships: [{ projectId: PROJECT_ID, role: 'client' }],
+      grants: [],
+    });
+
+    const { projects } = await getProjects();
+
+    expect(projects.map(p => p.name)).toEqual(['Their project']);
+  });
+});
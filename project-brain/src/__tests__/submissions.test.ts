@@ -0,0 +1,132 @@
+import { PolicyActor, can, compilePolicyFilter } from '@/lib/policy';
+import { findRoutePolicy } from '@/lib/routePolicy';
+import {
+  SubmissionStatus,
+  checkSubmissionTransition,
+  getAvailableSubmissionActions,
+  submissionSchema,
+} from '@/lib/submissions';
+
+const PROJECT_ID = '00000000-0000-4000-8000-000000000001';
+const OTHER_PROJECT_ID = '00000000-0000-4000-8000-000000000002';
+
+const member = (id: string, role: PolicyActor['role']): PolicyActor => ({
+  id,
+  role,
+  memberships: [{ projectId: PROJECT_ID, role }],
+});
+
+const client = member('client-1', 'client');
+const team = member('team-1', 'team');
+const builder = member('builder-1', 'builder');
+const director: PolicyActor = { id: 'director-1', role: 'director' };
+
+const submission = (status: SubmissionStatus, authorId: string = client.id) => ({
+  projectId: PROJECT_ID,
+  authorId,
+  status,
+});
+
+describe('submission review transitions', () => {
+  it('lets authors submit drafts and resubmit after changes are requested', () => {
+    expect(getAvailableSubmissionActions(client, submission('draft'))).toEqual(['submit']);
+    expect(getAvailableSubmissionActions(client, submission('changes_requested'))).toEqual(['submit']);
+    expect(getAvailableSubmissionActions(client, submission('submitted'))).toEqual([]);
+  });
+
+  it('lets content managers on the project decide on submitted items', () => {
+    expect(getAvailableSubmissionActions(team, submission('submitted'))).toEqual(['request_changes', 'approve', 'reject']);
+    expect(getAvailableSubmissionActions(director, submission('submitted'))).toEqual(['request_changes', 'approve', 'reject']);
+    expect(getAvailableSubmissionActions(team, submission('draft'))).toEqual([]);
+  });
+
+  it('never lets reviewers act on their own submissions', () => {
+    expect(getAvailableSubmissionActions(team, submission('draft', team.id))).toEqual(['submit']);
+    expect(checkSubmissionTransition(team, submission('submitted', team.id), 'approve')).toEqual({
+      allowed: false,
+      reason: 'You cannot review your own submission',
+    });
+  });
+
+  it('refuses reviewers without manage:content on the project', () => {
+    expect(getAvailableSubmissionActions(builder, submission('submitted'))).toEqual([]);
+    expect(getAvailableSubmissionActions(team, { ...submission('submitted'), projectId: OTHER_PROJECT_ID })).toEqual([]);
+    expect(checkSubmissionTransition(client, submission('submitted', team.id), 'approve')).toEqual({
+      allowed: false,
+      reason: 'You do not have permission to do this',
+    });
+  });
+
+  it('only submits on behalf of the author', () => {
+    expect(checkSubmissionTransition(director, submission('draft'), 'submit')).toEqual({
+      allowed: false,
+      reason: 'Only the author can do this',
+    });
+  });
+
+  it('has no way out of a decision', () => {
+    for (const status of ['approved', 'rejected'] as const) {
+      for (const actor of [client, team, director]) {
+        expect(getAvailableSubmissionActions(actor, submission(status))).toEqual([]);
+      }
+    }
+    expect(checkSubmissionTransition(team, submission('approved'), 'reject')).toMatchObject({ allowed: false });
+  });
+
+  it('needs a comment to request changes or reject', () => {
+    expect(checkSubmissionTransition(team, submission('submitted'), 'reject', ' ')).toEqual({
+      allowed: false,
+      reason: 'Add a comment explaining why',
+    });
+    expect(checkSubmissionTransition(team, submission('submitted'), 'request_changes', 'Add the site plan')).toEqual({
+      allowed: true,
+    });
+    expect(checkSubmissionTransition(team, submission('submitted'), 'approve', '')).toEqual({ allowed: true });
+  });
+});
+
+describe('submission policy', () => {
+  it('shows authors their own submissions and reviewers all of them', () => {
+    const own = { type: 'submission' as const, projectId: PROJECT_ID, ownerId: client.id, status: 'draft' };
+
+    expect(can(client, 'read', own)).toBe(true);
+    expect(can(client, 'read', { ...own, ownerId: 'client-2' })).toBe(false);
+    expect(can(team, 'read', { ...own, ownerId: 'client-2' })).toBe(true);
+    expect(can(builder, 'read', own)).toBe(false);
+  });
+
+  it('lets authors edit only while the submission is theirs to edit', () => {
+    const own = { type: 'submission' as const, projectId: PROJECT_ID, ownerId: client.id };
+
+    expect(can(client, 'update', { ...own, status: 'changes_requested' })).toBe(true);
+    expect(can(client, 'update', { ...own, status: 'submitted' })).toBe(false);
+    expect(can(team, 'update', { ...own, status: 'draft' })).toBe(false);
+  });
+
+  it('compiles to a filter for lists', () => {
+    expect(compilePolicyFilter(client, 'read', 'submission')).toEqual({
+      match: 'some',
+      or: `and(project_id.in.("${PROJECT_ID}"),author_id.eq."${client.id}")`,
+    });
+    expect(compilePolicyFilter(director, 'read', 'submission')).toEqual({ match: 'all' });
+  });
+});
+
+describe('submissionSchema', () => {
+  it('needs a title and content', () => {
+    expect(submissionSchema.safeParse({ title: ' ', body: 'Text' }).error?.errors[0].message).toBe('A title is required');
+    expect(submissionSchema.safeParse({ title: 'Title', body: '' }).error?.errors[0].message).toBe(
+      'Add some content to review'
+    );
+  });
+});
+
+describe('submission routes', () => {
+  it('scopes submission pages to the project', () => {
+    const route = findRoutePolicy(`/projects/${PROJECT_ID}/submissions/${OTHER_PROJECT_ID}`);
+
+    expect(route.policy).toMatchObject({ permissions: ['submit:content'], projectParam: 'id' });
+    expect(route.params.id).toBe(PROJECT_ID);
+    expect(findRoutePolicy('/projects/review').policy.pattern).toBe('/projects/review');
+  });
+});
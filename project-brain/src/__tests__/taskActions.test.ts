@@ -0,0 +1,221 @@
+/**
+ * @jest-environment node
+ */
+
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import { getAuthContext, getCurrentActor } from '@/lib/authContext';
+import { recordAuditEvent } from '@/lib/audit';
+import { createTask, getAssignableUsers, updateTask } from '@/lib/actions/task-actions';
+
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(),
+}));
+
+jest.mock('@supabase/auth-helpers-nextjs', () => ({
+  createServerComponentClient: jest.fn(),
+}));
+
+jest.mock('@/lib/authContext', () => ({
+  getAuthContext: jest.fn(),
+  getCurrentActor: jest.fn(),
+}));
+
+jest.mock('@/lib/actions/user-actions', () => ({
+  requirePermission: jest.fn(),
+}));
+
+jest.mock('@/lib/audit', () => ({
+  getRequestAuditContext: jest.fn(async () => ({})),
+  recordAuditEvent: jest.fn(),
+}));
+
+const DIRECTOR_ID = '00000000-0000-4000-8000-000000000001';
+const TEAM_ID = '00000000-0000-4000-8000-000000000002';
+const CLIENT_ID = '00000000-0000-4000-8000-000000000003';
+const LEFT_ID = '00000000-0000-4000-8000-000000000004';
+const PROJECT_ID = '00000000-0000-4000-8000-000000000010';
+const TASK_ID = '00000000-0000-4000-8000-000000000020';
+
+type Row = Record<string, unknown>;
+
+/**
+ * Tables the actions read, filtered by eq() and in(); writes and RPCs are
+ * recorded rather than applied, and RPCs fail with rpcError when given one
+ */
+function fakeSupabase(tables: Record<string, Row[]>, rpcError?: string) {
+  const writes: [string, string, unknown][] = [];
+
+  const from = (table: string) => {
+    const filters: ((row: Row) => boolean)[] = [];
+    const rows = () => (tables[table] ?? []).filter(row => filters.every(filter => filter(row)));
+    let written: unknown = null;
+
+    const builder = {
+      select: () => builder,
+      order: () => builder,
+      limit: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push(row => row[column] === value);
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push(row => values.includes(row[column]));
+        return builder;
+      },
+      insert: (values: unknown) => {
+        writes.push(['insert', table, (written = values)]);
+        return builder;
+      },
+      update: (values: unknown) => {
+        writes.push(['update', table, (written = values)]);
+        return builder;
+      },
+      single: async () => ({ data: written ? { id: TASK_ID } : rows()[0] ?? null, error: null }),
+      maybeSingle: async () => ({ data: rows()[0] ?? null, error: null }),
+      then: (resolve: (result: { data: Row[]; error: null }) => unknown) => resolve({ data: rows(), error: null }),
+    };
+    return builder;
+  };
+
+  const rpc = jest.fn(async (name: string, args: unknown) => {
+    writes.push(['rpc', name, args]);
+    return rpcError ? { data: null, error: { message: rpcError } } : { data: TASK_ID, error: null };
+  });
+
+  (createServerComponentClient as jest.Mock).mockReturnValue({ from, rpc });
+  return writes;
+}
+
+const tables = (assigneeId: string | null = null) => ({
+  users: [
+    { id: DIRECTOR_ID, email: 'director@example.com', active: true },
+    { id: TEAM_ID, email: 'team@example.com', active: true },
+    { id: CLIENT_ID, email: 'client@example.com', active: true },
+    { id: LEFT_ID, email: 'left@example.com', active: true },
+  ],
+  project_members: [
+    { project_id: PROJECT_ID, user_id: TEAM_ID, role: 'team' },
+    { project_id: PROJECT_ID, user_id: CLIENT_ID, role: 'client' },
+  ],
+  tasks: [
+    {
+      id: TASK_ID,
+      project_id: PROJECT_ID,
+      phase_id: null,
+      title: 'Site measure',
+      description: '',
+      position: 0,
+      assignee_id: assigneeId,
+      due_date: null,
+      status: 'todo',
+      shared: false,
+    },
+  ],
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  (getAuthContext as jest.Mock).mockResolvedValue({
+    account: { id: DIRECTOR_ID, role: 'director', active: true, grants: [] },
+  });
+  (getCurrentActor as jest.Mock).mockResolvedValue({ id: DIRECTOR_ID, role: 'director' });
+});
+
+describe('task assignees', () => {
+  it('offers only active team members of the project', async () => {
+    fakeSupabase(tables());
+
+    await expect(getAssignableUsers(PROJECT_ID)).resolves.toEqual({
+      users: [expect.objectContaining({ id: TEAM_ID, email: 'team@example.com' })],
+      error: null,
+    });
+  });
+
+  it('refuses to create a task for someone outside the project team', async () => {
+    const writes = fakeSupabase(tables());
+
+    await expect(createTask(PROJECT_ID, { title: 'Survey', assigneeId: CLIENT_ID })).resolves.toEqual({
+      success: false,
+      taskId: null,
+      error: 'Tasks can only be assigned to the project team',
+    });
+    expect(writes).toEqual([]);
+  });
+
+  it('creates tasks for the project team', async () => {
+    fakeSupabase(tables());
+
+    await expect(createTask(PROJECT_ID, { title: 'Survey', assigneeId: TEAM_ID })).resolves.toMatchObject({
+      success: true,
+      taskId: TASK_ID,
+    });
+  });
+
+  it('refuses to reassign a task outside the project team', async () => {
+    const writes = fakeSupabase(tables());
+
+    await expect(updateTask(TASK_ID, { title: 'Site measure', assigneeId: LEFT_ID })).resolves.toEqual({
+      success: false,
+      error: 'Tasks can only be assigned to the project team',
+    });
+    expect(writes).toEqual([]);
+  });
+
+  it('still edits tasks whose assignee has since left the team', async () => {
+    fakeSupabase(tables(LEFT_ID));
+
+    await expect(updateTask(TASK_ID, { title: 'Site measure again', assigneeId: LEFT_ID })).resolves.toEqual({
+      success: true,
+      error: null,
+    });
+  });
+});
+
+describe('task writes', () => {
+  it('creates a task and its dependencies in one call', async () => {
+    const writes = fakeSupabase(tables());
+
+    await createTask(PROJECT_ID, { title: 'Survey', dependsOn: [TASK_ID] });
+
+    expect(writes).toEqual([
+      [
+        'rpc',
+        'create_task',
+        {
+          p_project_id: PROJECT_ID,
+          p_task: expect.objectContaining({ title: 'Survey', status: 'todo' }),
+          p_depends_on: [TASK_ID],
+        },
+      ],
+    ]);
+  });
+
+  it('edits a task and its dependencies in one call', async () => {
+    const writes = fakeSupabase(tables());
+
+    await updateTask(TASK_ID, { title: 'Site measure again' });
+
+    expect(writes).toEqual([
+      [
+        'rpc',
+        'update_task',
+        { p_task_id: TASK_ID, p_task: expect.objectContaining({ title: 'Site measure again' }), p_depends_on: [] },
+      ],
+    ]);
+  });
+
+  it('reports a failed write without auditing it', async () => {
+    fakeSupabase(tables(), 'Tasks cannot depend on each other in a loop');
+
+    await expect(createTask(PROJECT_ID, { title: 'Survey' })).resolves.toEqual({
+      success: false,
+      taskId: null,
+      error: 'Tasks cannot depend on each other in a loop',
+    });
+    await expect(updateTask(TASK_ID, { title: 'Site measure again' })).resolves.toEqual({
+      success: false,
+      error: 'Tasks cannot depend on each other in a loop',
+    });
+    expect(recordAuditEvent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,147 @@
+import { PolicyActor, can, compilePolicyFilter } from '@/lib/policy';
+import { findRoutePolicy } from '@/lib/routePolicy';
+import {
+  canBeAssignedTasks,
+  createsDependencyCycle,
+  getBlockingTasks,
+  groupTasksByStatus,
+  isTaskOverdue,
+  taskSchema,
+  toDateString,
+} from '@/lib/tasks';
+
+const PROJECT_ID = '00000000-0000-4000-8000-000000000001';
+const OTHER_PROJECT_ID = '00000000-0000-4000-8000-000000000002';
+
+const member = (id: string, role: PolicyActor['role']): PolicyActor => ({
+  id,
+  role,
+  memberships: [{ projectId: PROJECT_ID, role }],
+});
+
+const client = member('client-1', 'client');
+const builder = member('builder-1', 'builder');
+const team = member('team-1', 'team');
+const director: PolicyActor = { id: 'director-1', role: 'director' };
+
+const task = (fields: { ownerId?: string | null; shared?: boolean; projectId?: string } = {}) => ({
+  type: 'task' as const,
+  projectId: PROJECT_ID,
+  ownerId: null,
+  shared: false,
+  ...fields,
+});
+
+describe('task policy', () => {
+  it('shows the project team every task', () => {
+    expect(can(team, 'read', task())).toBe(true);
+    expect(can(director, 'read', task())).toBe(true);
+    expect(can(team, 'read', task({ projectId: OTHER_PROJECT_ID }))).toBe(false);
+  });
+
+  it('shows clients and builders only shared tasks and their own', () => {
+    expect(can(client, 'read', task())).toBe(false);
+    expect(can(client, 'read', task({ shared: true }))).toBe(true);
+    expect(can(builder, 'read', task({ shared: true }))).toBe(true);
+    expect(can(builder, 'read', task({ ownerId: builder.id }))).toBe(true);
+    expect(can(client, 'read', task({ shared: true, projectId: OTHER_PROJECT_ID }))).toBe(false);
+  });
+
+  it('lets directors create tasks and assignees update theirs', () => {
+    expect(can(director, 'create', task())).toBe(true);
+    expect(can(team, 'create', task())).toBe(false);
+    expect(can(team, 'update', task({ ownerId: team.id }))).toBe(true);
+    expect(can(team, 'update', task({ ownerId: 'team-2' }))).toBe(false);
+    expect(can(client, 'update', task({ shared: true }))).toBe(false);
+  });
+
+  it('compiles to a filter for lists', () => {
+    expect(compilePolicyFilter(client, 'read', 'task')).toEqual({
+      match: 'some',
+      or: [
+        `and(project_id.in.("${PROJECT_ID}"),shared.is.true)`,
+        `and(project_id.in.("${PROJECT_ID}"),assignee_id.eq."${client.id}")`,
+      ].join(','),
+    });
+    expect(compilePolicyFilter(director, 'read', 'task')).toEqual({ match: 'all' });
+  });
+});
+
+describe('taskSchema', () => {
+  it('needs a title and treats an empty due date as none', () => {
+    expect(taskSchema.safeParse({ title: ' ' }).error?.errors[0].message).toBe('A task title is required');
+    expect(taskSchema.parse({ title: 'Site measure', dueDate: '' })).toMatchObject({ dueDate: null, status: 'todo' });
+    expect(taskSchema.safeParse({ title: 'Site measure', dueDate: '12/03/2026' }).error?.errors[0].message).toBe(
+      'Invalid due date'
+    );
+  });
+});
+
+describe('task dates and dependencies', () => {
+  it('formats dates in local time and finds overdue tasks', () => {
+    expect(toDateString(new Date(2026, 2, 5))).toBe('2026-03-05');
+    expect(isTaskOverdue({ dueDate: '2026-03-04', status: 'todo' }, '2026-03-05')).toBe(true);
+    expect(isTaskOverdue({ dueDate: '2026-03-05', status: 'todo' }, '2026-03-05')).toBe(false);
+    expect(isTaskOverdue({ dueDate: '2026-03-04', status: 'done' }, '2026-03-05')).toBe(false);
+    expect(isTaskOverdue({ dueDate: null, status: 'blocked' }, '2026-03-05')).toBe(false);
+  });
+
+  it('finds the dependencies that are not done', () => {
+    const tasks = [
+      { id: 'a', status: 'done' as const },
+      { id: 'b', status: 'in_progress' as const },
+      { id: 'c', status: 'todo' as const },
+    ];
+
+    expect(getBlockingTasks({ dependsOn: ['a', 'b'] }, tasks)).toEqual([tasks[1]]);
+    expect(getBlockingTasks({ dependsOn: ['a'] }, tasks)).toEqual([]);
+  });
+
+  it('spots dependency loops', () => {
+    const dependencies = { b: ['a'], c: ['b'] };
+
+    expect(createsDependencyCycle('a', ['c'], dependencies)).toBe(true);
+    expect(createsDependencyCycle('a', ['a'], {})).toBe(true);
+    expect(createsDependencyCycle('d', ['c'], dependencies)).toBe(false);
+  });
+});
+
+describe('canBeAssignedTasks', () => {
+  it('takes the project team: team and above', () => {
+    expect(canBeAssignedTasks('team')).toBe(true);
+    expect(canBeAssignedTasks('director')).toBe(true);
+    expect(canBeAssignedTasks('admin')).toBe(true);
+    expect(canBeAssignedTasks('client')).toBe(false);
+    expect(canBeAssignedTasks('builder')).toBe(false);
+  });
+});
+
+describe('groupTasksByStatus', () => {
+  it('puts tasks in board columns in phase then position order', () => {
+    const tasks = [
+      { id: '1', status: 'todo' as const, position: 1, phaseId: 'design' },
+      { id: '2', status: 'todo' as const, position: 0, phaseId: null },
+      { id: '3', status: 'todo' as const, position: 2, phaseId: 'brief' },
+      { id: '4', status: 'done' as const, position: 0, phaseId: 'brief' },
+    ];
+
+    const columns = groupTasksByStatus(tasks, ['brief', 'design']);
+
+    expect(columns.todo.map(task => task.id)).toEqual(['3', '1', '2']);
+    expect(columns.done.map(task => task.id)).toEqual(['4']);
+    expect(columns.in_progress).toEqual([]);
+    expect(columns.blocked).toEqual([]);
+  });
+});
+
+describe('task routes', () => {
+  it('scopes task pages to the project and keeps creation for directors', () => {
+    const route = findRoutePolicy(`/projects/${PROJECT_ID}/tasks/${OTHER_PROJECT_ID}`);
+
+    expect(route.policy).toMatchObject({ permissions: ['view:projects'], projectParam: 'id' });
+    expect(route.params.id).toBe(PROJECT_ID);
+    expect(findRoutePolicy(`/projects/${PROJECT_ID}/tasks/new`).policy.permissions).toEqual(['manage:projects']);
+    expect(findRoutePolicy('/projects/tasks').policy.pattern).toBe('/projects/tasks');
+    expect(findRoutePolicy('/projects/tasks/overdue').policy.pattern).toBe('/projects/tasks/overdue');
+  });
+});
@@ -0,0 +1,68 @@
+import { findRoutePolicy } from '@/lib/routePolicy';
+import { countTemplateItems, parseTemplateDefinition, templateSchema } from '@/lib/templates';
+
+const definition = {
+  phases: [
+    {
+      name: 'Concept design',
+      tasks: [{ title: 'Site visit' }, { title: 'Measured survey', description: 'Existing dwelling' }],
+      checklist: [{ label: 'Brief signed off' }],
+      fees: [{ description: 'Concept fee', amount: 4500 }],
+    },
+    { name: 'Consent', fees: [{ description: 'Consent drawings', amount: 8250.5 }] },
+  ],
+};
+
+describe('templateSchema', () => {
+  it('keeps phases in order and fills in empty lists', () => {
+    const template = templateSchema.parse({ name: 'Residential new build', definition });
+
+    expect(template.description).toBe('');
+    expect(template.definition.phases.map(phase => phase.name)).toEqual(['Concept design', 'Consent']);
+    expect(template.definition.phases[0].tasks[0]).toEqual({ title: 'Site visit', description: '' });
+    expect(template.definition.phases[1]).toMatchObject({ tasks: [], checklist: [] });
+  });
+
+  it('needs at least one named phase', () => {
+    expect(templateSchema.safeParse({ name: 'Empty', definition: { phases: [] } }).error?.errors[0].message).toBe(
+      'Add at least one phase'
+    );
+    expect(
+      templateSchema.safeParse({ name: 'Unnamed', definition: { phases: [{ name: ' ' }] } }).error?.errors[0].message
+    ).toBe('Every phase needs a name');
+  });
+
+  it('rejects negative and fractional-cent fees', () => {
+    const withFee = (amount: number) => ({
+      name: 'Fees',
+      definition: { phases: [{ name: 'Brief', fees: [{ description: 'Fee', amount }] }] },
+    });
+
+    expect(templateSchema.safeParse(withFee(-1)).error?.errors[0].message).toBe('Fees cannot be negative');
+    expect(templateSchema.safeParse(withFee(10.005)).error?.errors[0].message).toBe('Fees are in whole cents');
+    expect(templateSchema.safeParse(withFee(10.05)).success).toBe(true);
+  });
+});
+
+describe('template versions', () => {
+  it('reads stored definitions, dropping ones that no longer parse', () => {
+    expect(parseTemplateDefinition(definition)?.phases).toHaveLength(2);
+    expect(parseTemplateDefinition({ stages: [] })).toBeNull();
+  });
+
+  it('summarises what a version creates', () => {
+    expect(countTemplateItems(templateSchema.parse({ name: 'T', definition }).definition)).toEqual({
+      phases: 2,
+      tasks: 2,
+      checklist: 1,
+      fees: 12750.5,
+    });
+  });
+
+  it('keeps the template editor behind manage:projects', () => {
+    expect(findRoutePolicy('/projects/templates/new').policy.permissions).toEqual(['manage:projects']);
+    expect(findRoutePolicy('/projects/templates/3b1f0c2e-0000-4000-8000-000000000000').policy.pattern).toBe(
+      '/projects/templates/[templateId]'
+    );
+  });
+});
@@ -0,0 +1,102 @@
+import { TemporaryGrant, getAllPermissions, getEffectiveRoles, hasPermission } from '@/lib/auth';
+import { checkRouteAccess } from '@/lib/routePolicy';
+import { canGrant, getGrantStatus, temporaryGrantSchema } from '@/lib/temporaryGrants';
+
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+const PROJECT_ID = '00000000-0000-4000-8000-000000000002';
+const HOUR_MS = 60 * 60 * 1000;
+
+const inAnHour = () => new Date(Date.now() + HOUR_MS).toISOString();
+const anHourAgo = () => new Date(Date.now() - HOUR_MS).toISOString();
+
+describe('permission checks with temporary grants', () => {
+  it('honours permissions granted on their own', () => {
+    const grants: TemporaryGrant[] = [{ role: null, permissions: ['view:analytics'], expiresAt: inAnHour() }];
+
+    expect(hasPermission('builder', 'view:analytics')).toBe(false);
+    expect(hasPermission('builder', 'view:analytics', { grants })).toBe(true);
+    expect(getAllPermissions('builder', { grants })).toContain('view:analytics');
+  });
+
+  it('honours the permissions of a granted role', () => {
+    const grants: TemporaryGrant[] = [{ role: 'team', permissions: [], expiresAt: inAnHour() }];
+
+    expect(hasPermission('client', 'manage:content', { grants })).toBe(true);
+    expect(getEffectiveRoles('client', { grants })).toEqual(['client', 'team']);
+  });
+
+  it('ignores expired grants', () => {
+    const grants: TemporaryGrant[] = [{ role: 'team', permissions: ['view:analytics'], expiresAt: anHourAgo() }];
+
+    expect(hasPermission('client', 'view:analytics', { grants })).toBe(false);
+    expect(getEffectiveRoles('client', { grants })).toEqual(['client']);
+  });
+
+  it('does not make non-members members of a project', () => {
+    const grants: TemporaryGrant[] = [{ role: null, permissions: ['manage:projects'], expiresAt: inAnHour() }];
+    const context = { projectId: PROJECT_ID, memberships: [], grants };
+
+    expect(hasPermission('team', 'manage:projects', context)).toBe(false);
+  });
+
+  it('lets granted roles through route policies', () => {
+    const policy = { pattern: '/director', anyRole: ['admin', 'director'] };
+    const grants: TemporaryGrant[] = [{ role: 'director', permissions: [], expiresAt: inAnHour() }];
+
+    expect(checkRouteAccess(policy, 'team')).toBe('forbidden');
+    expect(checkRouteAccess(policy, 'team', { grants })).toBe('allow');
+  });
+});
+
+describe('getGrantStatus', () => {
+  const now = new Date('2025-01-08T00:00:00.000Z');
+  const grant = {
+    approved_at: '2025-01-07T00:00:00.000Z',
+    rejected_at: null,
+    revoked_at: null,
+    expires_at: '2025-01-09T00:00:00.000Z',
+  };
+
+  it('is pending until approved, then active until it expires', () => {
+    expect(getGrantStatus({ ...grant, approved_at: null }, now)).toBe('pending');
+    expect(getGrantStatus(grant, now)).toBe('active');
+    expect(getGrantStatus({ ...grant, expires_at: '2025-01-07T12:00:00.000Z' }, now)).toBe('expired');
+  });
+
+  it('reports rejected and revoked grants regardless of expiry', () => {
+    expect(getGrantStatus({ ...grant, approved_at: null, rejected_at: '2025-01-07T00:00:00.000Z' }, now)).toBe('rejected');
+    expect(getGrantStatus({ ...grant, revoked_at: '2025-01-07T12:00:00.000Z' }, now)).toBe('revoked');
+  });
+});
+
+describe('canGrant', () => {
+  it('lets admins grant anything', () => {
+    expect(canGrant('admin', { role: 'admin', permissions: ['manage:roles'] })).toBe(true);
+  });
+
+  it('limits others to roles they may assign and permissions they hold', () => {
+    expect(canGrant('director', { role: 'builder', permissions: [] })).toBe(true);
+    expect(canGrant('director', { role: 'team', permissions: [] })).toBe(false);
+    expect(canGrant('client', { role: null, permissions: ['manage:users'] })).toBe(false);
+  });
+});
+
+describe('temporaryGrantSchema', () => {
+  const request = { userId: USER_ID, reason: 'Covering for the project lead', durationMs: HOUR_MS };
+
+  it('requires a role or permissions and a reason', () => {
+    expect(temporaryGrantSchema.safeParse(request).success).toBe(false);
+    expect(temporaryGrantSchema.safeParse({ ...request, role: 'team', reason: ' ' }).success).toBe(false);
+    expect(temporaryGrantSchema.parse({ ...request, permissions: ['view:audit', 'view:audit'] })).toEqual({
+      ...request,
+      role: null,
+      permissions: ['view:audit'],
+    });
+  });
+
+  it('refuses grants longer than the configured maximum', () => {
+    expect(
+      temporaryGrantSchema.safeParse({ ...request, role: 'team', durationMs: 365 * 24 * HOUR_MS }).success
+    ).toBe(false);
+  });
+});
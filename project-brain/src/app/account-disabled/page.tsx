@@ -0,0 +1,35 @@
+import Link from 'next/link';
+
+export default function AccountDisabledPage() {
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 px-4">
+      <div className="p-8 bg-white rounded-lg shadow-md max-w-md w-full">
+        <div className="text-center">
+          <h1 className="text-4xl font-bold text-gray-800 mb-4">Account Disabled</h1>
+          <div className="mb-6">
+            <svg
+              className="w-24 h-24 mx-auto text-gray-500"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+              xmlns="http://www.w3.org/2000/svg"
+            >
+              <circle cx="12" cy="12" r="9" strokeWidth="2" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5.6 5.6l12.8 12.8" />
+            </svg>
+          </div>
+          <p className="text-lg text-gray-700 mb-6">
+            Your account has been deactivated and you have been signed out.
+            Please contact your administrator to have it reactivated.
+          </p>
+          <Link
+            href="/login"
+            className="block w-full px-4 py-2 text-center text-blue-600 bg-transparent border border-blue-600 rounded-md hover:bg-blue-50 transition-colors"
+          >
+            Sign in with another account
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import Link from 'next/link';
+import { requireRouteAccess } from '@/lib/actions/user-actions';
+import { getAuditLogs } from '@/lib/actions/audit-actions';
+import {
+  AUDIT_PAGE_SIZE,
+  AuditLogSearchParams,
+  auditLogFiltersToQuery,
+  parseAuditLogFilters,
+} from '@/lib/auditLogQuery';
+import AuditLogTable from '@/components/admin/AuditLogTable';
+
+const inputClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm';
+
+export default async function AuditLogPage({
+  searchParams,
+}: {
+  searchParams: Promise<AuditLogSearchParams>;
+}) {
+  await requireRouteAccess('/admin/audit');
+
+  const filters = parseAuditLogFilters(await searchParams);
+  const { entries, total, emails, error } = await getAuditLogs(filters);
+  const pageCount = Math.max(1, Math.ceil(total / AUDIT_PAGE_SIZE));
+  const exportQuery = auditLogFiltersToQuery({ ...filters, page: undefined });
+  const exportHref = (format: 'csv' | 'json') =>
+    `/api/admin/audit/export?${[exportQuery, `format=${format}`].filter(Boolean).join('&')}`;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-2">
+        <h1 className="text-2xl font-bold">Audit Log</h1>
+        <div className="space-x-4 text-sm">
+          <a href={exportHref('csv')} className="text-blue-600 hover:underline">
+            Export CSV
+          </a>
+          <a href={exportHref('json')} className="text-blue-600 hover:underline">
+            Export JSON
+          </a>
+        </div>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Sign-ins, access decisions and administrative changes. Exports include every
+        event matching the filters and are themselves recorded here.
+      </p>
+
+      <form method="get" className="bg-white rounded-lg shadow p-4 mb-6 grid grid-cols-1 md:grid-cols-4 gap-4">
+        <label className="block text-sm md:col-span-2">
+          <span className="text-gray-700">Search</span>
+          <input name="q" defaultValue={filters.q} placeholder="Action, path or reason" className={inputClassName} />
+        </label>
+        <label className="block text-sm">
+          <span className="text-gray-700">Actor</span>
+          <input name="actor" defaultValue={filters.actor} placeholder="Email or user id" className={inputClassName} />
+        </label>
+        <label className="block text-sm">
+          <span className="text-gray-700">Target user</span>
+          <input name="target" defaultValue={filters.target} placeholder="Email or user id" className={inputClassName} />
+        </label>
+        <label className="block text-sm">
+          <span className="text-gray-700">Action</span>
+          <input name="action" defaultValue={filters.action} placeholder="role_update" className={inputClassName} />
+        </label>
+        <label className="block text-sm">
+          <span className="text-gray-700">Result</span>
+          <select name="success" defaultValue={filters.success ?? ''} className={inputClassName}>
+            <option value="">Any</option>
+            <option value="true">Success</option>
+            <option value="false">Failed</option>
+          </select>
+        </label>
+        <label className="block text-sm">
+          <span className="text-gray-700">Path</span>
+          <input name="path" defaultValue={filters.path} placeholder="/api/" className={inputClassName} />
+        </label>
+        <div className="grid grid-cols-2 gap-2">
+          <label className="block text-sm">
+            <span className="text-gray-700">From</span>
+            <input type="date" name="from" defaultValue={filters.from} className={inputClassName} />
+          </label>
+          <label className="block text-sm">
+            <span className="text-gray-700">To</span>
+            <input type="date" name="to" defaultValue={filters.to} className={inputClassName} />
+          </label>
+        </div>
+        <div className="md:col-span-4 flex items-center space-x-4">
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+          >
+            Apply filters
+          </button>
+          <Link href="/admin/audit" className="text-sm text-gray-600 hover:underline">
+            Clear
+          </Link>
+        </div>
+      </form>
+
+      {error ? (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-700 mb-6">
+          <p>{error}</p>
+        </div>
+      ) : (
+        <>
+          <AuditLogTable entries={entries} emails={emails} />
+
+          <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+            <p>
+              {total} event{total === 1 ? '' : 's'} · page {filters.page} of {pageCount}
+            </p>
+            <div className="space-x-4">
+              {filters.page > 1 && (
+                <Link
+                  href={`/admin/audit?${auditLogFiltersToQuery({ ...filters, page: filters.page - 1 })}`}
+                  className="text-blue-600 hover:underline"
+                >
+                  Previous
+                </Link>
+              )}
+              {filters.page < pageCount && (
+                <Link
+                  href={`/admin/audit?${auditLogFiltersToQuery({ ...filters, page: filters.page + 1 })}`}
+                  className="text-blue-600 hover:underline"
+                >
+                  Next
+                </Link>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import Link from 'next/link';
+import { requireRouteAccess } from '@/lib/actions/user-actions';
+import { getTemporaryGrants } from '@/lib/actions/grant-actions';
+import { getUsersWithRoles } from '@/lib/actions/role-management';
+import { getRoleDefinitions } from '@/lib/auth';
+import { TemporaryGrantStatus, temporaryGrantSettings } from '@/lib/temporaryGrants';
+import { RoleBadge } from '@/components/auth/RoleBadge';
+import TemporaryGrantForm from '@/components/admin/TemporaryGrantForm';
+import TemporaryGrantActions from '@/components/admin/TemporaryGrantActions';
+
+const STATUS_CLASSES: Record<TemporaryGrantStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  active: 'bg-green-100 text-green-800',
+  expired: 'bg-gray-100 text-gray-700',
+  rejected: 'bg-red-100 text-red-800',
+  revoked: 'bg-red-100 text-red-800',
+};
+
+export default async function TemporaryGrantsPage() {
+  await requireRouteAccess('/admin/grants');
+
+  const { grants, grantableRoles, grantablePermissions, canApprove, currentUserId, error } =
+    await getTemporaryGrants();
+  const { users } = await getUsersWithRoles();
+  const emailsById = new Map(users.map((user) => [user.id, user.email]));
+  const roles = getRoleDefinitions().filter((definition) => grantableRoles.includes(definition.key));
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-2">
+        <h1 className="text-2xl font-bold">Temporary Access</h1>
+        <Link href="/users" className="text-sm text-blue-600 hover:underline">
+          Back to users
+        </Link>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Give someone a role or extra permissions for a limited time. Grants made by an admin apply
+        at once; others wait for an admin to approve them. Every grant and expiry is audited.
+      </p>
+
+      {error ? (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-700 mb-6">
+          <p>{error}</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <TemporaryGrantForm
+            users={users.map((user) => ({ id: user.id, email: user.email }))}
+            roles={roles}
+            permissions={grantablePermissions}
+            maxDurationMs={temporaryGrantSettings.maxDurationMs}
+          />
+
+          <div className="bg-white rounded-lg shadow overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['User', 'Grants', 'Reason', 'Requested', 'Expires', 'Actions'].map((heading) => (
+                    <th
+                      key={heading}
+                      scope="col"
+                      className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {grants.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
+                      No temporary grants
+                    </td>
+                  </tr>
+                ) : (
+                  grants.map((grant) => (
+                    <tr key={grant.id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {emailsById.get(grant.userId) ?? grant.userId}
+                        <span className={`ml-2 px-2 py-0.5 text-xs rounded-full ${STATUS_CLASSES[grant.status]}`}>
+                          {grant.status}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">
+                        {grant.role && <RoleBadge role={grant.role} size="sm" />}
+                        {grant.permissions.map((permission) => (
+                          <p key={permission} className="font-mono text-xs">
+                            {permission}
+                          </p>
+                        ))}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">{grant.reason}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {new Date(grant.createdAt).toLocaleString()}
+                        {grant.createdBy && (
+                          <p className="text-xs">by {emailsById.get(grant.createdBy) ?? 'unknown user'}</p>
+                        )}
+                        {grant.approvedBy && (
+                          <p className="text-xs">approved by {emailsById.get(grant.approvedBy) ?? 'unknown user'}</p>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {new Date(grant.expiresAt).toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">
+                        {(grant.status === 'pending' || grant.status === 'active') && (
+                          <TemporaryGrantActions
+                            grantId={grant.id}
+                            canDecide={grant.status === 'pending' && canApprove && grant.userId !== currentUserId}
+                          />
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
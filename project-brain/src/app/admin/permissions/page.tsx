@@ -0,0 +1,49 @@
+import { requireRouteAccess } from '@/lib/actions/user-actions';
+import { getRolePermissionMatrix } from '@/lib/actions/role-management';
+import { getRoleDefinitions } from '@/lib/auth';
+import { RoleBadge, PermissionList } from '@/components/auth/RoleBadge';
+import RolePermissionMatrix from '@/components/admin/RolePermissionMatrix';
+
+export default async function RolePermissionsPage() {
+  await requireRouteAccess('/admin/permissions');
+
+  const { direct, effective, error } = await getRolePermissionMatrix();
+  const roles = getRoleDefinitions();
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8">
+      <h1 className="text-2xl font-bold mb-2">Role Permissions</h1>
+      <p className="text-sm text-gray-600 mb-8">
+        Toggle the permissions granted directly to each role. Changes are saved to
+        role_permissions and recorded in the audit log.
+      </p>
+
+      {error || !direct || !effective ? (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-700 mb-6">
+          <p>{error || 'Failed to load role permissions'}</p>
+        </div>
+      ) : (
+        <>
+          <RolePermissionMatrix roles={roles} direct={direct} effective={effective} />
+
+          <div className="mt-8">
+            <h2 className="text-xl font-semibold mb-4">Effective Permissions</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Everything each role can do once inherited roles are included.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {roles.map(definition => (
+                <div key={definition.key} className="bg-white p-4 rounded-lg shadow">
+                  <div className="mb-2">
+                    <RoleBadge role={definition.key} definition={definition} />
+                  </div>
+                  <PermissionList permissions={effective[definition.key] || []} />
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
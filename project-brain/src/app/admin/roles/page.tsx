@@ -0,0 +1,58 @@
+import { requireRouteAccess } from '@/lib/actions/user-actions';
+import { getRolePermissionMatrix } from '@/lib/actions/role-management';
+import { getRoleDefinitions, getRoleDisplayName } from '@/lib/auth';
+import { RoleBadge, PermissionList } from '@/components/auth/RoleBadge';
+import CustomRoleForm from '@/components/admin/CustomRoleForm';
+
+export default async function RolesPage() {
+  await requireRouteAccess('/admin/roles');
+
+  const { direct, error } = await getRolePermissionMatrix();
+  const roles = getRoleDefinitions();
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8">
+      <h1 className="text-2xl font-bold mb-8">Roles</h1>
+
+      {error || !direct ? (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-700 mb-6">
+          <p>{error || 'Failed to load roles'}</p>
+        </div>
+      ) : (
+        <>
+          <div className="space-y-4">
+            {roles.map(role => (
+              <div key={role.key} className="bg-white p-4 rounded-lg shadow">
+                <div className="flex items-center space-x-3 mb-2">
+                  <RoleBadge role={role.key} definition={role} />
+                  <span className="text-xs text-gray-500">{role.key}</span>
+                  {role.builtIn && <span className="text-xs text-gray-500">built-in</span>}
+                </div>
+                {role.parentRoles.length > 0 && (
+                  <p className="text-sm text-gray-600 mb-2">
+                    Inherits from {role.parentRoles.map(getRoleDisplayName).join(', ')}
+                  </p>
+                )}
+                <PermissionList permissions={direct[role.key] || []} />
+
+                {!role.builtIn && (
+                  <details className="mt-4">
+                    <summary className="text-sm text-blue-600 cursor-pointer">Edit</summary>
+                    <div className="mt-4">
+                      <CustomRoleForm roles={roles} role={role} permissions={direct[role.key] || []} />
+                    </div>
+                  </details>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-8 bg-white p-4 rounded-lg shadow">
+            <h2 className="text-xl font-semibold mb-4">New Role</h2>
+            <CustomRoleForm roles={roles} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { withPermission } from '@/lib/apiAuth';
+import { getAuditContext, recordAuditEvent } from '@/lib/audit';
+import { getAuthContext } from '@/lib/authContext';
+import {
+  AUDIT_CSV_COLUMNS,
+  AuditLogCursor,
+  fetchUserEmails,
+  parseAuditLogFilters,
+  selectAuditLogs,
+  toAuditCsvRow,
+} from '@/lib/auditLogQuery';
+
+// Entries fetched per round trip while streaming
+const EXPORT_BATCH_SIZE = 500;
+
+/**
+ * Stream every audit log entry matching the filters as CSV or JSON,
+ * e.g. /api/admin/audit/export?format=csv&actor=jane@example.com&from=2025-01-01
+ */
+async function exportAuditLog(req: NextRequest) {
+  const supabase = createRouteHandlerClient({ cookies });
+  const { searchParams } = req.nextUrl;
+  const format = searchParams.get('format') === 'json' ? 'json' : 'csv';
+  const filters = parseAuditLogFilters(searchParams);
+
+  const { sessionUserId } = await getAuthContext();
+
+  // Exports are themselves audited
+  recordAuditEvent({
+    type: 'audit_log_exported',
+    actorId: sessionUserId,
+    format,
+    filters: { ...filters, page: undefined },
+  }, getAuditContext(req.headers));
+
+  const encoder = new TextEncoder();
+  let cursor: AuditLogCursor | null = null;
+  let first = true;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(format === 'csv' ? `${AUDIT_CSV_COLUMNS.join(',')}\r\n` : '['));
+    },
+
+    async pull(controller) {
+      const { entries, error } = await selectAuditLogs(supabase, filters, {
+        after: cursor,
+        limit: EXPORT_BATCH_SIZE,
+      });
+
+      if (error) {
+        controller.error(new Error(error));
+        return;
+      }
+
+      const emails = format === 'csv'
+        ? await fetchUserEmails(supabase, entries.flatMap(entry => [entry.user_id, entry.target_user_id]))
+        : {};
+
+      for (const entry of entries) {
+        if (format === 'csv') {
+          controller.enqueue(encoder.encode(toAuditCsvRow(entry, emails)));
+        } else {
+          controller.enqueue(encoder.encode(`${first ? '' : ','}\n${JSON.stringify(entry)}`));
+          first = false;
+        }
+      }
+
+      if (entries.length > 0) {
+        const { timestamp, id } = entries[entries.length - 1];
+        cursor = { timestamp, id };
+      }
+
+      if (entries.length < EXPORT_BATCH_SIZE) {
+        if (format === 'json') {
+          controller.enqueue(encoder.encode('\n]\n'));
+        }
+        controller.close();
+      }
+    },
+  });
+
+  const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+export const GET = withPermission(exportAuditLog, 'view:audit');
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { withAuth } from '@/lib/apiAuth';
+import { getAuditContext, recordAuditEvent } from '@/lib/audit';
+import { getAuthContext } from '@/lib/authContext';
+import { IMPERSONATION_COOKIE } from '@/lib/impersonation';
+
+/**
+ * Stop impersonating: end the session and clear the cookie. A route handler
+ * rather than a server action, as those are blocked while impersonating.
+ */
+async function endImpersonation(req: NextRequest) {
+  const { impersonation } = await getAuthContext();
+
+  if (impersonation) {
+    const supabase = createRouteHandlerClient({ cookies });
+    const { error } = await supabase
+      .from('impersonation_sessions')
+      .update({ ended_at: new Date().toISOString() })
+      .eq('id', impersonation.id);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    recordAuditEvent({
+      type: 'impersonation_ended',
+      actorId: impersonation.adminId,
+      targetUserId: impersonation.targetUserId,
+      impersonationId: impersonation.id,
+    }, getAuditContext(req.headers));
+  }
+
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(IMPERSONATION_COOKIE);
+  return response;
+}
+
+// Allowed while impersonating by its route policy
+export const DELETE = withAuth(endImpersonation);
@@ -0,0 +1,66 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLocalObjectPath, storageSettings, verifyLocalStorageToken } from '@/lib/storage';
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+// Resolve the file a request is for, if its link is valid for the operation
+async function authorize(req: NextRequest, context: RouteContext, operation: 'upload' | 'download') {
+  const { path: segments } = await context.params;
+  const objectPath = segments.join('/');
+  const token = await verifyLocalStorageToken(objectPath, operation, req.nextUrl.searchParams);
+  const file = resolveLocalObjectPath(objectPath);
+
+  return token && file ? { token, file } : null;
+}
+
+/**
+ * Serve a file from the local storage adapter via a signed download link
+ */
+export async function GET(req: NextRequest, context: RouteContext) {
+  const access = await authorize(req, context, 'download');
+  if (!access) {
+    return NextResponse.json({ error: 'Invalid or expired link' }, { status: 403 });
+  }
+
+  try {
+    const body = await fs.readFile(access.file);
+    const fileName = access.token.fileName ?? path.basename(access.file);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch {
+    return NextResponse.json({ error: 'File not found' }, { status: 404 });
+  }
+}
+
+/**
+ * Store a file for the local storage adapter via a signed upload link.
+ * Links are for a single new file, so existing files are never replaced.
+ */
+export async function PUT(req: NextRequest, context: RouteContext) {
+  const access = await authorize(req, context, 'upload');
+  if (!access) {
+    return NextResponse.json({ error: 'Invalid or expired link' }, { status: 403 });
+  }
+
+  const body = Buffer.from(await req.arrayBuffer());
+  if (body.length > storageSettings.maxFileBytes) {
+    return NextResponse.json({ error: 'File too large' }, { status: 413 });
+  }
+
+  try {
+    await fs.mkdir(path.dirname(access.file), { recursive: true });
+    await fs.writeFile(access.file, body, { flag: 'wx' });
+  } catch {
+    return NextResponse.json({ error: 'File already uploaded' }, { status: 409 });
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,33 @@
+import Link from 'next/link';
+import { getInvitation } from '@/lib/actions/invitation-actions';
+import { RoleBadge } from '@/components/auth/RoleBadge';
+import AcceptInvitationForm from '@/components/auth/AcceptInvitationForm';
+
+export default async function InvitePage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const { invitation, error } = await getInvitation(token);
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 px-4">
+      <div className="p-8 bg-white rounded-lg shadow-md max-w-md w-full">
+        <h1 className="text-2xl font-bold text-gray-800 mb-4">You&apos;re invited</h1>
+        {invitation ? (
+          <>
+            <p className="text-sm text-gray-700 mb-6 flex items-center flex-wrap gap-1">
+              Choose a password to join as <RoleBadge role={invitation.role} size="sm" />.
+              This invitation expires {new Date(invitation.expiresAt).toLocaleString()}.
+            </p>
+            <AcceptInvitationForm token={token} email={invitation.email} />
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-gray-700 mb-6">{error}</p>
+            <Link href="/login" className="text-sm text-blue-600 hover:underline">
+              Go to sign in
+            </Link>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
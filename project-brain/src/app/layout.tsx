@@ -1,6 +1,9 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
+import ImpersonationBanner from "@/components/auth/ImpersonationBanner";
+import { AuthProvider } from "@/components/auth/AuthProvider";
+import { getAuthSnapshot } from "@/lib/authContext";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -17,17 +20,23 @@ export const metadata: Metadata = {
   description: "Generated by create next app",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  // Resolved once here so client-side gates render with the page
+  const initialAuth = await getAuthSnapshot();
+
   return (
     <html lang="en">
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <AuthProvider initialAuth={initialAuth}>
+          <ImpersonationBanner />
+          {children}
+        </AuthProvider>
       </body>
     </html>
   );
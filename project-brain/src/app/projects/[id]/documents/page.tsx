@@ -0,0 +1,125 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { requireRouteAccess } from '@/lib/actions/user-actions';
+import { getProject } from '@/lib/actions/project-actions';
+import { getProjectDocuments } from '@/lib/actions/document-actions';
+import { DOCUMENT_REVIEW_STATUS_LABELS, ProjectDocument, formatFileSize, withFolderPaths } from '@/lib/documents';
+import PermissionGate from '@/components/auth/PermissionGate';
+import DocumentDownloadButton from '@/components/documents/DocumentDownloadButton';
+import DocumentFolderForm from '@/components/documents/DocumentFolderForm';
+import DocumentUploadForm from '@/components/documents/DocumentUploadForm';
+
+function DocumentList({ projectId, documents }: { projectId: string; documents: ProjectDocument[] }) {
+  if (documents.length === 0) {
+    return <p className="text-sm text-gray-500">No documents</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100">
+      {documents.map((document) => {
+        const [latest, ...earlier] = document.versions;
+
+        return (
+          <li key={document.id} className="py-3 text-sm">
+            <div className="flex items-center justify-between">
+              <div>
+                <span className="font-medium">{document.name}</span>
+                <span className="text-gray-500">
+                  {' '}v{latest.version} · {formatFileSize(latest.sizeBytes)} ·{' '}
+                  {new Date(latest.uploadedAt).toLocaleString()}
+                </span>
+                {latest.reviewStatus !== 'approved' && (
+                  <span className="ml-2 text-xs text-amber-700">{DOCUMENT_REVIEW_STATUS_LABELS[latest.reviewStatus]}</span>
+                )}
+              </div>
+              <DocumentDownloadButton versionId={latest.id} />
+            </div>
+
+            {earlier.length > 0 && (
+              <details className="mt-2 text-gray-600">
+                <summary className="cursor-pointer">Version history</summary>
+                <ul className="mt-1 space-y-1">
+                  {earlier.map((version) => (
+                    <li key={version.id} className="flex items-center justify-between">
+                      <span>
+                        v{version.version} · {version.fileName} · {formatFileSize(version.sizeBytes)} ·{' '}
+                        {new Date(version.uploadedAt).toLocaleString()}
+                        {version.reviewStatus !== 'approved' && ` · ${DOCUMENT_REVIEW_STATUS_LABELS[version.reviewStatus]}`}
+                      </span>
+                      <DocumentDownloadButton versionId={version.id} />
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+
+            <PermissionGate
+              action="update"
+              resource={{ type: 'document', id: document.id, projectId, ownerId: document.uploadedBy }}
+            >
+              <div className="mt-2">
+                <DocumentUploadForm projectId={projectId} documentId={document.id} />
+              </div>
+            </PermissionGate>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+export default async function ProjectDocumentsPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  await requireRouteAccess(`/projects/${id}/documents`);
+
+  const { project } = await getProject(id);
+
+  if (!project) {
+    notFound();
+  }
+
+  const { folders, documents, error } = await getProjectDocuments(project.id);
+  // Folders are listed and offered by their full path
+  const folderOptions = withFolderPaths(folders).map((folder) => ({ ...folder, name: folder.path }));
+  const sections = [...folderOptions, { id: null, name: 'Unfiled' }];
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold">{project.name}: Documents</h1>
+        <Link href={`/projects/${project.id}`} className="text-sm text-blue-600 hover:underline">
+          Back to project
+        </Link>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6 mb-6 space-y-4">
+        <PermissionGate action="create" resource={{ type: 'document', projectId: project.id }}>
+          <DocumentUploadForm projectId={project.id} folders={folderOptions} />
+        </PermissionGate>
+        <PermissionGate requiredPermission="manage:content" projectId={project.id}>
+          <DocumentFolderForm projectId={project.id} folders={folderOptions} />
+        </PermissionGate>
+      </div>
+
+      {error ? (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-700 mb-6">
+          <p>{error}</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {sections.map((section) => {
+            const inSection = documents.filter((document) => document.folderId === section.id);
+            if (section.id === null && inSection.length === 0) return null;
+
+            return (
+              <div key={section.id ?? 'unfiled'} className="bg-white rounded-lg shadow p-6">
+                <h2 className="font-semibold mb-2">{section.name}</h2>
+                <DocumentList projectId={project.id} documents={inSection} />
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
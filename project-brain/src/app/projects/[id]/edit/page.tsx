@@ -0,0 +1,28 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { requireRouteAccess } from '@/lib/actions/user-actions';
+import { getProject } from '@/lib/actions/project-actions';
+import ProjectForm from '@/components/projects/ProjectForm';
+
+export default async function EditProjectPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  await requireRouteAccess(`/projects/${id}/edit`);
+
+  const { project } = await getProject(id);
+
+  if (!project) {
+    notFound();
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold">Edit {project.name}</h1>
+        <Link href={`/projects/${project.id}`} className="text-sm text-blue-600 hover:underline">
+          Back to project
+        </Link>
+      </div>
+      <ProjectForm project={project} />
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { requireRouteAccess } from '@/lib/actions/user-actions';
+import { getProject, getProjectPlan } from '@/lib/actions/project-actions';
+import { PROJECT_PHASE_LABELS } from '@/lib/projects';
+import { formatFee } from '@/lib/templates';
+import PermissionGate from '@/components/auth/PermissionGate';
+import ProjectStatusBadge from '@/components/projects/ProjectStatusBadge';
+import QaItemCheckbox from '@/components/projects/QaItemCheckbox';
+
+export default async function ProjectPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  await requireRouteAccess(`/projects/${id}`);
+
+  const { project } = await getProject(id);
+
+  if (!project) {
+    notFound();
+  }
+
+  const { phases } = await getProjectPlan(project.id);
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-2">
+        <h1 className="text-2xl font-bold">{project.name}</h1>
+        <div className="flex items-center space-x-4">
+          <PermissionGate requiredPermission="manage:projects" projectId={project.id}>
+            <Link href={`/projects/${project.id}/edit`} className="text-sm text-blue-600 hover:underline">
+              Edit
+            </Link>
+          </PermissionGate>
+          <Link href={`/projects/${project.id}/tasks`} className="text-sm text-blue-600 hover:underline">
+            Tasks
+          </Link>
+          <Link href={`/projects/${project.id}/documents`} className="text-sm text-blue-600 hover:underline">
+            Documents
+          </Link>
+          <PermissionGate requiredPermission="submit:content" projectId={project.id}>
+            <Link href={`/projects/${project.id}/submissions`} className="text-sm text-blue-600 hover:underline">
+              Submissions
+            </Link>
+          </PermissionGate>
+          <Link href="/projects" className="text-sm text-blue-600 hover:underline">
+            Back to projects
+          </Link>
+        </div>
+      </div>
+      <div className="flex items-center space-x-3 mb-6 text-sm text-gray-600">
+        <ProjectStatusBadge status={project.status} />
+        <span>{PROJECT_PHASE_LABELS[project.phase]}</span>
+      </div>
+
+      <dl className="bg-white rounded-lg shadow p-6 grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+        <div>
+          <dt className="text-gray-500">Address</dt>
+          <dd className="text-gray-900">{project.address}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Client</dt>
+          <dd className="text-gray-900">
+            {project.clientName}
+            {project.clientEmail && <span className="text-gray-500"> ({project.clientEmail})</span>}
+          </dd>
+        </div>
+        <div className="md:col-span-2">
+          <dt className="text-gray-500">Scope</dt>
+          <dd className="text-gray-900 whitespace-pre-line">{project.scope || '—'}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Created</dt>
+          <dd className="text-gray-900">{new Date(project.createdAt).toLocaleDateString()}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Last updated</dt>
+          <dd className="text-gray-900">{new Date(project.updatedAt).toLocaleString()}</dd>
+        </div>
+      </dl>
+
+      {phases.length > 0 && (
+        <div className="mt-8 space-y-4">
+          <h2 className="text-xl font-semibold">Phases</h2>
+          {phases.map((phase) => (
+            <div key={phase.id ?? 'other'} className="bg-white rounded-lg shadow p-6 text-sm">
+              <h3 className="font-semibold mb-3">{phase.name}</h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <p className="text-gray-500 mb-1">Tasks</p>
+                  <ul className="space-y-1">
+                    {phase.tasks.map((task) => <li key={task.id}>{task.title}</li>)}
+                  </ul>
+                </div>
+                <div>
+                  <p className="text-gray-500 mb-1">QA checklist</p>
+                  <ul className="space-y-1">
+                    {phase.checklist.map((item) => (
+                      <li key={item.id}>
+                        <PermissionGate
+                          action="update"
+                          resource={{ type: 'qa_item', id: item.id, projectId: project.id }}
+                          fallback={<>{item.checkedAt ? '☑' : '☐'} {item.label}</>}
+                        >
+                          <QaItemCheckbox qaItemId={item.id} label={item.label} checked={!!item.checkedAt} />
+                        </PermissionGate>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+                <div>
+                  <p className="text-gray-500 mb-1">Fees</p>
+                  <ul className="space-y-1">
+                    {phase.fees.map((fee) => (
+                      <li key={fee.id} className="flex justify-between">
+                        <span>{fee.description}</span>
+                        <span>{formatFee(fee.amount)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
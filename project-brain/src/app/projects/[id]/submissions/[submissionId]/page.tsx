@@ -0,0 +1,70 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { requireRouteAccess } from '@/lib/actions/user-actions';
+import { getSubmission } from '@/lib/actions/submission-actions';
+import { SUBMISSION_STATUS_LABELS } from '@/lib/submissions';
+import SubmissionForm from '@/components/submissions/SubmissionForm';
+import SubmissionReviewPanel from '@/components/submissions/SubmissionReviewPanel';
+import SubmissionStatusBadge from '@/components/submissions/SubmissionStatusBadge';
+
+export default async function SubmissionPage({
+  params,
+}: {
+  params: Promise<{ id: string; submissionId: string }>;
+}) {
+  const { id, submissionId } = await params;
+  await requireRouteAccess(`/projects/${id}/submissions/${submissionId}`);
+
+  const { submission, comments, authorEmail, actions, canEdit } = await getSubmission(submissionId);
+
+  if (!submission || submission.projectId !== id) {
+    notFound();
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h1 className="text-2xl font-bold">{submission.title}</h1>
+          <Link href={`/projects/${id}/submissions`} className="text-sm text-blue-600 hover:underline">
+            Back to submissions
+          </Link>
+        </div>
+        <div className="flex items-center space-x-3 text-sm text-gray-600">
+          <SubmissionStatusBadge status={submission.status} />
+          <span>by {authorEmail ?? 'Unknown user'}</span>
+          {submission.submittedAt && <span>submitted {new Date(submission.submittedAt).toLocaleString()}</span>}
+        </div>
+      </div>
+
+      {canEdit ? (
+        <SubmissionForm projectId={id} submission={submission} />
+      ) : (
+        <div className="bg-white rounded-lg shadow p-6 text-sm whitespace-pre-line">{submission.body}</div>
+      )}
+
+      <div className="space-y-3">
+        <h2 className="text-xl font-semibold">Comments</h2>
+        {comments.length === 0 ? (
+          <p className="text-sm text-gray-500">No comments yet</p>
+        ) : (
+          <ul className="space-y-3">
+            {comments.map((comment) => (
+              <li key={comment.id} className="bg-white rounded-lg shadow p-4 text-sm">
+                <div className="flex items-center justify-between text-gray-500 mb-1">
+                  <span>
+                    {comment.authorEmail ?? 'Unknown user'}
+                    {comment.toStatus && ` · ${SUBMISSION_STATUS_LABELS[comment.toStatus]}`}
+                  </span>
+                  <span>{new Date(comment.createdAt).toLocaleString()}</span>
+                </div>
+                <p className="whitespace-pre-line">{comment.body}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+        <SubmissionReviewPanel submissionId={submission.id} actions={actions} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { requireRouteAccess } from '@/lib/actions/user-actions';
+import { getProject } from '@/lib/actions/project-actions';
+import SubmissionForm from '@/components/submissions/SubmissionForm';
+
+export default async function NewSubmissionPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  await requireRouteAccess(`/projects/${id}/submissions/new`);
+
+  const { project } = await getProject(id);
+
+  if (!project) {
+    notFound();
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold">New Submission</h1>
+        <Link href={`/projects/${project.id}/submissions`} className="text-sm text-blue-600 hover:underline">
+          Back to submissions
+        </Link>
+      </div>
+      <SubmissionForm projectId={project.id} />
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { requireRouteAccess } from '@/lib/actions/user-actions';
+import { getProject } from '@/lib/actions/project-actions';
+import { getProjectSubmissions } from '@/lib/actions/submission-actions';
+import PermissionGate from '@/components/auth/PermissionGate';
+import SubmissionStatusBadge from '@/components/submissions/SubmissionStatusBadge';
+
+export default async function ProjectSubmissionsPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  await requireRouteAccess(`/projects/${id}/submissions`);
+
+  const { project } = await getProject(id);
+
+  if (!project) {
+    notFound();
+  }
+
+  const { submissions, error } = await getProjectSubmissions(project.id);
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold">{project.name}: Submissions</h1>
+        <div className="flex items-center space-x-4">
+          <Link href={`/projects/${project.id}`} className="text-sm text-blue-600 hover:underline">
+            Back to project
+          </Link>
+          <PermissionGate action="create" resource={{ type: 'submission', projectId: project.id }}>
+            <Link
+              href={`/projects/${project.id}/submissions/new`}
+              className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+            >
+              New submission
+            </Link>
+          </PermissionGate>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-700 mb-6">
+          <p>{error}</p>
+        </div>
+      ) : submissions.length === 0 ? (
+        <p className="text-sm text-gray-500">No submissions yet</p>
+      ) : (
+        <ul className="bg-white rounded-lg shadow divide-y divide-gray-100">
+          {submissions.map((submission) => (
+            <li key={submission.id}>
+              <Link
+                href={`/projects/${project.id}/submissions/${submission.id}`}
+                className="flex items-center justify-between px-4 py-3 text-sm hover:bg-gray-50"
+              >
+                <span className="font-medium">{submission.title}</span>
+                <span className="flex items-center space-x-3 text-gray-500">
+                  <span>{new Date(submission.updatedAt).toLocaleString()}</span>
+                  <SubmissionStatusBadge status={submission.status} />
+                </span>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { requireRouteAccess } from '@/lib/actions/user-actions';
+import { getAssignableUsers, getProjectTasks, getTask } from '@/lib/actions/task-actions';
+import { isTaskOverdue } from '@/lib/tasks';
+import PermissionGate from '@/components/auth/PermissionGate';
+import TaskCommentForm from '@/components/tasks/TaskCommentForm';
+import TaskForm from '@/components/tasks/TaskForm';
+import TaskStatusBadge from '@/components/tasks/TaskStatusBadge';
+import TaskStatusSelect from '@/components/tasks/TaskStatusSelect';
+
+export default async function TaskPage({ params }: { params: Promise<{ id: string; taskId: string }> }) {
+  const { id, taskId } = await params;
+  await requireRouteAccess(`/projects/${id}/tasks/${taskId}`);
+
+  const { task, dependencies, comments, assigneeEmail, canEdit } = await getTask(taskId);
+
+  if (!task || task.projectId !== id) {
+    notFound();
+  }
+
+  // Options for the edit form, only needed by those who can edit the task
+  const [{ tasks, phases }, { users }] = canEdit
+    ? await Promise.all([getProjectTasks(id), getAssignableUsers(id)])
+    : [{ tasks: [], phases: [] }, { users: [] }];
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h1 className="text-2xl font-bold">{task.title}</h1>
+          <Link href={`/projects/${id}/tasks`} className="text-sm text-blue-600 hover:underline">
+            Back to tasks
+          </Link>
+        </div>
+        <div className="flex items-center space-x-3 text-sm text-gray-600">
+          <TaskStatusBadge status={task.status} />
+          <span>{assigneeEmail ?? (task.assigneeId ? 'Unknown user' : 'Unassigned')}</span>
+          {task.dueDate && (
+            <span className={isTaskOverdue(task) ? 'text-red-600' : undefined}>Due {task.dueDate}</span>
+          )}
+          {task.shared && <span>Shared</span>}
+        </div>
+      </div>
+
+      {canEdit ? (
+        <TaskForm projectId={id} task={task} phases={phases} users={users} tasks={tasks} />
+      ) : (
+        <div className="bg-white rounded-lg shadow p-6 text-sm space-y-4">
+          <p className="whitespace-pre-line">{task.description || 'No description'}</p>
+          <PermissionGate
+            action="update"
+            resource={{ type: 'task', id: task.id, projectId: task.projectId, ownerId: task.assigneeId, shared: task.shared }}
+          >
+            <TaskStatusSelect taskId={task.id} status={task.status} />
+          </PermissionGate>
+        </div>
+      )}
+
+      {dependencies.length > 0 && (
+        <div className="space-y-3">
+          <h2 className="text-xl font-semibold">Depends on</h2>
+          <ul className="bg-white rounded-lg shadow divide-y divide-gray-100">
+            {dependencies.map((dependency) => (
+              <li key={dependency.id}>
+                <Link
+                  href={`/projects/${id}/tasks/${dependency.id}`}
+                  className="flex items-center justify-between px-4 py-3 text-sm hover:bg-gray-50"
+                >
+                  <span className="font-medium">{dependency.title}</span>
+                  <TaskStatusBadge status={dependency.status} />
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <h2 className="text-xl font-semibold">Comments</h2>
+        {comments.length === 0 ? (
+          <p className="text-sm text-gray-500">No comments yet</p>
+        ) : (
+          <ul className="space-y-3">
+            {comments.map((comment) => (
+              <li key={comment.id} className="bg-white rounded-lg shadow p-4 text-sm">
+                <div className="flex items-center justify-between text-gray-500 mb-1">
+                  <span>{comment.authorEmail ?? 'Unknown user'}</span>
+                  <span>{new Date(comment.createdAt).toLocaleString()}</span>
+                </div>
+                <p className="whitespace-pre-line">{comment.body}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+        <TaskCommentForm taskId={task.id} />
+      </div>
+    </div>
+  );
+}
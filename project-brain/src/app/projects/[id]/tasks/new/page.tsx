@@ -0,0 +1,31 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { requireRouteAccess } from '@/lib/actions/user-actions';
+import { getProject } from '@/lib/actions/project-actions';
+import { getAssignableUsers, getProjectTasks } from '@/lib/actions/task-actions';
+import TaskForm from '@/components/tasks/TaskForm';
+
+export default async function NewTaskPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  await requireRouteAccess(`/projects/${id}/tasks/new`);
+
+  const { project } = await getProject(id);
+
+  if (!project) {
+    notFound();
+  }
+
+  const [{ tasks, phases }, { users }] = await Promise.all([getProjectTasks(project.id), getAssignableUsers(project.id)]);
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold">New Task</h1>
+        <Link href={`/projects/${project.id}/tasks`} className="text-sm text-blue-600 hover:underline">
+          Back to tasks
+        </Link>
+      </div>
+      <TaskForm projectId={project.id} phases={phases} users={users} tasks={tasks} />
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { requireRouteAccess } from '@/lib/actions/user-actions';
+import { getProject } from '@/lib/actions/project-actions';
+import { getProjectTasks } from '@/lib/actions/task-actions';
+import { TASK_STATUSES, TASK_STATUS_LABELS, groupTasksByStatus, isTaskOverdue } from '@/lib/tasks';
+import PermissionGate from '@/components/auth/PermissionGate';
+import TaskStatusSelect from '@/components/tasks/TaskStatusSelect';
+
+export default async function ProjectTasksPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  await requireRouteAccess(`/projects/${id}/tasks`);
+
+  const { project } = await getProject(id);
+
+  if (!project) {
+    notFound();
+  }
+
+  const { tasks, phases, assigneeEmails, error } = await getProjectTasks(project.id);
+  const columns = groupTasksByStatus(tasks, phases.map((phase) => phase.id));
+  const phaseNames = new Map(phases.map((phase) => [phase.id, phase.name]));
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold">{project.name}: Tasks</h1>
+        <div className="flex items-center space-x-4">
+          <Link href="/projects/tasks" className="text-sm text-blue-600 hover:underline">
+            My tasks
+          </Link>
+          <Link href={`/projects/${project.id}`} className="text-sm text-blue-600 hover:underline">
+            Back to project
+          </Link>
+          <PermissionGate action="create" resource={{ type: 'task', projectId: project.id }}>
+            <Link
+              href={`/projects/${project.id}/tasks/new`}
+              className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+            >
+              New task
+            </Link>
+          </PermissionGate>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-700 mb-6">
+          <p>{error}</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          {TASK_STATUSES.map((status) => (
+            <section key={status} className="bg-gray-50 rounded-lg p-3">
+              <h2 className="text-sm font-semibold text-gray-700 mb-3">
+                {TASK_STATUS_LABELS[status]} ({columns[status].length})
+              </h2>
+              <ul className="space-y-2">
+                {columns[status].map((task) => (
+                  <li key={task.id} className="bg-white rounded-md shadow p-3 text-sm space-y-2">
+                    <Link href={`/projects/${project.id}/tasks/${task.id}`} className="block font-medium hover:underline">
+                      {task.title}
+                    </Link>
+                    <div className="text-xs text-gray-500 space-y-0.5">
+                      {task.phaseId && <p>{phaseNames.get(task.phaseId)}</p>}
+                      <p>{task.assigneeId ? assigneeEmails[task.assigneeId] ?? 'Unknown user' : 'Unassigned'}</p>
+                      {task.dueDate && (
+                        <p className={isTaskOverdue(task) ? 'text-red-600' : undefined}>Due {task.dueDate}</p>
+                      )}
+                      {task.shared && <p>Shared</p>}
+                    </div>
+                    <PermissionGate
+                      action="update"
+                      resource={{ type: 'task', id: task.id, projectId: project.id, ownerId: task.assigneeId, shared: task.shared }}
+                    >
+                      <TaskStatusSelect taskId={task.id} status={task.status} />
+                    </PermissionGate>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
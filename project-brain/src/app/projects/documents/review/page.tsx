@@ -0,0 +1,68 @@
+import Link from 'next/link';
+import { requireRouteAccess } from '@/lib/actions/user-actions';
+import { getDocumentReviewQueue } from '@/lib/actions/document-actions';
+import { formatFileSize } from '@/lib/documents';
+import DocumentDownloadButton from '@/components/documents/DocumentDownloadButton';
+import DocumentReviewActions from '@/components/documents/DocumentReviewActions';
+
+export default async function DocumentReviewPage() {
+  await requireRouteAccess('/projects/documents/review');
+
+  const { items, error } = await getDocumentReviewQueue();
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-2">
+        <h1 className="text-2xl font-bold">Document Review</h1>
+        <Link href="/projects" className="text-sm text-blue-600 hover:underline">
+          Back to projects
+        </Link>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Uploads by clients and others who submit content stay hidden from the rest of the project
+        until they are approved here.
+      </p>
+
+      {error ? (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-700 mb-6">
+          <p>{error}</p>
+        </div>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-gray-500">Nothing awaiting review</p>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Document</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Project</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Uploaded</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {items.map((item) => (
+                <tr key={item.id}>
+                  <td className="px-4 py-2">
+                    {item.documentName}
+                    <span className="text-gray-500"> v{item.version} · {formatFileSize(item.sizeBytes)}</span>
+                  </td>
+                  <td className="px-4 py-2">
+                    <Link href={`/projects/${item.projectId}/documents`} className="text-blue-600 hover:underline">
+                      {item.projectName}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-2 text-gray-600">{new Date(item.uploadedAt).toLocaleString()}</td>
+                  <td className="px-4 py-2 text-right space-x-4">
+                    <DocumentDownloadButton versionId={item.id} />
+                    <DocumentReviewActions versionId={item.id} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import Link from 'next/link';
+import { requireRouteAccess } from '@/lib/actions/user-actions';
+import { getTemplates } from '@/lib/actions/template-actions';
+import ProjectForm from '@/components/projects/ProjectForm';
+
+export default async function NewProjectPage() {
+  await requireRouteAccess('/projects/new');
+
+  const { templates } = await getTemplates();
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold">New Project</h1>
+        <div className="flex items-center space-x-4">
+          <Link href="/projects/templates" className="text-sm text-blue-600 hover:underline">
+            Manage templates
+          </Link>
+          <Link href="/projects" className="text-sm text-blue-600 hover:underline">
+            Back to projects
+          </Link>
+        </div>
+      </div>
+      <ProjectForm templates={templates} />
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import Link from 'next/link';
+import { requireRouteAccess } from '@/lib/actions/user-actions';
+import { getProjects } from '@/lib/actions/project-actions';
+import { PROJECT_PHASE_LABELS } from '@/lib/projects';
+import PermissionGate from '@/components/auth/PermissionGate';
+import ProjectStatusBadge from '@/components/projects/ProjectStatusBadge';
+
+export default async function ProjectsPage() {
+  await requireRouteAccess('/projects');
+
+  const { projects, error } = await getProjects();
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-8">
+        <h1 className="text-2xl font-bold">Projects</h1>
+        <div className="flex items-center space-x-4">
+          <Link href="/projects/tasks" className="text-sm text-blue-600 hover:underline">
+            My tasks
+          </Link>
+          <PermissionGate requiredPermission="submit:content">
+            <Link href="/projects/review" className="text-sm text-blue-600 hover:underline">
+              Review inbox
+            </Link>
+          </PermissionGate>
+          <PermissionGate requiredPermission="manage:projects">
+            <Link href="/projects/templates" className="text-sm text-blue-600 hover:underline">
+              Templates
+            </Link>
+            <Link
+              href="/projects/new"
+              className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+            >
+              New project
+            </Link>
+          </PermissionGate>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-700 mb-6">
+          <p>{error}</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {['Project', 'Address', 'Client', 'Phase', 'Status'].map((heading) => (
+                  <th
+                    key={heading}
+                    scope="col"
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {projects.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No projects found
+                  </td>
+                </tr>
+              ) : (
+                projects.map((project) => (
+                  <tr key={project.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <Link href={`/projects/${project.id}`} className="text-blue-600 hover:underline">
+                        {project.name}
+                      </Link>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">{project.address}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{project.clientName}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {PROJECT_PHASE_LABELS[project.phase]}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      <ProjectStatusBadge status={project.status} />
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
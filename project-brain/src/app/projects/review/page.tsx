@@ -0,0 +1,81 @@
+import Link from 'next/link';
+import { requireRouteAccess } from '@/lib/actions/user-actions';
+import { getReviewInbox } from '@/lib/actions/submission-actions';
+import { SUBMISSION_TRANSITIONS, SubmissionInboxItem } from '@/lib/submissions';
+import PermissionGate from '@/components/auth/PermissionGate';
+import SubmissionStatusBadge from '@/components/submissions/SubmissionStatusBadge';
+
+function InboxList({ items, empty }: { items: SubmissionInboxItem[]; empty: string }) {
+  if (items.length === 0) {
+    return <p className="text-sm text-gray-500">{empty}</p>;
+  }
+
+  return (
+    <ul className="bg-white rounded-lg shadow divide-y divide-gray-100">
+      {items.map((item) => (
+        <li key={item.id}>
+          <Link
+            href={`/projects/${item.projectId}/submissions/${item.id}`}
+            className="flex items-center justify-between px-4 py-3 text-sm hover:bg-gray-50"
+          >
+            <span>
+              <span className="font-medium">{item.title}</span>
+              <span className="text-gray-500"> · {item.projectName}</span>
+            </span>
+            <span className="flex items-center space-x-3 text-gray-500">
+              <span>{item.actions.map((action) => SUBMISSION_TRANSITIONS[action].label).join(', ')}</span>
+              <SubmissionStatusBadge status={item.status} />
+            </span>
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default async function ReviewInboxPage() {
+  await requireRouteAccess('/projects/review');
+
+  const { items, error } = await getReviewInbox();
+
+  // Everything here is actionable; reviews are what isn't the user's own to submit
+  const toReview = items.filter((item) => !item.actions.includes('submit'));
+  const toSubmit = items.filter((item) => item.actions.includes('submit'));
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8 space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Review Inbox</h1>
+        <div className="flex items-center space-x-4">
+          <PermissionGate requiredPermission="manage:content">
+            <Link href="/projects/documents/review" className="text-sm text-blue-600 hover:underline">
+              Document uploads
+            </Link>
+          </PermissionGate>
+          <Link href="/projects" className="text-sm text-blue-600 hover:underline">
+            Back to projects
+          </Link>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-700">
+          <p>{error}</p>
+        </div>
+      ) : (
+        <>
+          <PermissionGate requiredPermission="manage:content">
+            <section className="space-y-3">
+              <h2 className="text-xl font-semibold">Waiting for your review</h2>
+              <InboxList items={toReview} empty="Nothing waiting for review" />
+            </section>
+          </PermissionGate>
+          <section className="space-y-3">
+            <h2 className="text-xl font-semibold">Your drafts and changes requested</h2>
+            <InboxList items={toSubmit} empty="Nothing waiting on you" />
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
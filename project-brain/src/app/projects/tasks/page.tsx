@@ -0,0 +1,34 @@
+import Link from 'next/link';
+import { requireRouteAccess } from '@/lib/actions/user-actions';
+import { getMyTasks } from '@/lib/actions/task-actions';
+import TaskList from '@/components/tasks/TaskList';
+
+export default async function MyTasksPage() {
+  await requireRouteAccess('/projects/tasks');
+
+  const { tasks, error } = await getMyTasks();
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">My Tasks</h1>
+        <div className="flex items-center space-x-4">
+          <Link href="/projects/tasks/overdue" className="text-sm text-blue-600 hover:underline">
+            Overdue
+          </Link>
+          <Link href="/projects" className="text-sm text-blue-600 hover:underline">
+            Back to projects
+          </Link>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-700">
+          <p>{error}</p>
+        </div>
+      ) : (
+        <TaskList tasks={tasks} empty="Nothing assigned to you" />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { requireRouteAccess } from '@/lib/actions/user-actions';
+import { getTemplate } from '@/lib/actions/template-actions';
+import { countTemplateItems, formatFee } from '@/lib/templates';
+import TemplateEditor from '@/components/projects/TemplateEditor';
+
+export default async function TemplatePage({ params }: { params: Promise<{ templateId: string }> }) {
+  const { templateId } = await params;
+  await requireRouteAccess(`/projects/templates/${templateId}`);
+
+  const { template, versions } = await getTemplate(templateId);
+
+  if (!template) {
+    notFound();
+  }
+
+  const current = versions.find((version) => version.version === template.currentVersion);
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold">
+          {template.name} <span className="text-base font-normal text-gray-500">v{template.currentVersion}</span>
+        </h1>
+        <Link href="/projects/templates" className="text-sm text-blue-600 hover:underline">
+          Back to templates
+        </Link>
+      </div>
+
+      <TemplateEditor key={template.currentVersion} template={template} definition={current?.definition} />
+
+      <div className="mt-8">
+        <h2 className="text-xl font-semibold mb-4">Version history</h2>
+        <div className="bg-white rounded-lg shadow divide-y divide-gray-200">
+          {versions.map((version) => {
+            const counts = countTemplateItems(version.definition);
+            return (
+              <div key={version.id} className="px-6 py-3 flex items-center justify-between text-sm">
+                <span className="font-medium">v{version.version}</span>
+                <span className="text-gray-500">
+                  {counts.phases} phases, {counts.tasks} tasks, {counts.checklist} checklist items,{' '}
+                  {formatFee(counts.fees)} fees
+                </span>
+                <span className="text-gray-500">{new Date(version.createdAt).toLocaleString()}</span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
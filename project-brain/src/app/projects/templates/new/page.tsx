@@ -0,0 +1,19 @@
+import Link from 'next/link';
+import { requireRouteAccess } from '@/lib/actions/user-actions';
+import TemplateEditor from '@/components/projects/TemplateEditor';
+
+export default async function NewTemplatePage() {
+  await requireRouteAccess('/projects/templates/new');
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold">New Template</h1>
+        <Link href="/projects/templates" className="text-sm text-blue-600 hover:underline">
+          Back to templates
+        </Link>
+      </div>
+      <TemplateEditor />
+    </div>
+  );
+}
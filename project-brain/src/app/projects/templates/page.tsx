@@ -0,0 +1,56 @@
+import Link from 'next/link';
+import { requireRouteAccess } from '@/lib/actions/user-actions';
+import { getTemplates } from '@/lib/actions/template-actions';
+
+export default async function TemplatesPage() {
+  await requireRouteAccess('/projects/templates');
+
+  const { templates, error } = await getTemplates();
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-2">
+        <h1 className="text-2xl font-bold">Project Templates</h1>
+        <div className="flex items-center space-x-4">
+          <Link href="/projects" className="text-sm text-blue-600 hover:underline">
+            Back to projects
+          </Link>
+          <Link
+            href="/projects/templates/new"
+            className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+          >
+            New template
+          </Link>
+        </div>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Blueprints of phases, tasks, QA checklists and fees for new projects. Every save is a new
+        version; projects keep the version they were created from.
+      </p>
+
+      {error ? (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-700 mb-6">
+          <p>{error}</p>
+        </div>
+      ) : templates.length === 0 ? (
+        <p className="text-sm text-gray-500">No templates yet</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {templates.map((template) => (
+            <Link
+              key={template.id}
+              href={`/projects/templates/${template.id}`}
+              className="block bg-white p-4 rounded-lg shadow hover:shadow-md transition-shadow"
+            >
+              <div className="flex items-center justify-between">
+                <h2 className="font-semibold">{template.name}</h2>
+                <span className="text-xs text-gray-500">v{template.currentVersion}</span>
+              </div>
+              {template.description && <p className="text-sm text-gray-600 mt-1">{template.description}</p>}
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,21 @@
+import Link from 'next/link';
 import { getUsersWithRoles } from '@/lib/actions/role-management';
+import { getAllPermissions, getRoleDefinitions } from '@/lib/auth';
+import { RoleBadge, PermissionList } from '@/components/auth/RoleBadge';
 import PermissionGate from '@/components/auth/PermissionGate';
 import UserRoleSelector from '@/components/users/UserRoleSelector';
+import UnlockAccountButton from '@/components/users/UnlockAccountButton';
+import ImpersonateUserButton from '@/components/users/ImpersonateUserButton';
+import InviteUserForm from '@/components/users/InviteUserForm';
+import InvitationActions from '@/components/users/InvitationActions';
+import { getPendingInvitations } from '@/lib/actions/invitation-actions';
+import { isAccountLocked } from '@/lib/accountLockout';
 
 export default async function UsersPage() {
-  const { users, error } = await getUsersWithRoles();
+  const { users, assignableRoles, error } = await getUsersWithRoles();
+  const { invitations, invitableRoles, error: invitationsError } = await getPendingInvitations();
+  const roles = getRoleDefinitions();
+  const emailsById = new Map(users?.map((user) => [user.id, user.email]));
   
   return (
     <div className="max-w-6xl mx-auto px-4 py-8">
@@ -26,6 +38,9 @@ export default async function UsersPage() {
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Role
                     </th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Status
+                    </th>
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Created
                     </th>
@@ -37,7 +52,7 @@ export default async function UsersPage() {
                 <tbody className="bg-white divide-y divide-gray-200">
                   {users?.length === 0 ? (
                     <tr>
-                      <td colSpan={4} className="px-6 py-4 text-center text-sm text-gray-500">
+                      <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
                         No users found
                       </td>
                     </tr>
@@ -46,25 +61,57 @@ export default async function UsersPage() {
                       <tr key={user.id}>
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                           {user.email}
+                          {isAccountLocked(user.locked_until) && (
+                            <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-amber-100 text-amber-800">
+                              Locked
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          <RoleBadge role={user.role} size="sm" />
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full 
-                            ${user.role === 'admin' ? 'bg-purple-100 text-purple-800' : 
-                            user.role === 'director' ? 'bg-blue-100 text-blue-800' : 
-                            user.role === 'team' ? 'bg-green-100 text-green-800' : 
-                            user.role === 'client' ? 'bg-yellow-100 text-yellow-800' : 
-                            'bg-gray-100 text-gray-800'}`}
-                          >
-                            {user.role}
-                          </span>
+                          {user.active ? (
+                            <span className="text-green-700">Active</span>
+                          ) : (
+                            <div>
+                              <span className="text-red-700">Deactivated</span>
+                              {user.deactivated_at && (
+                                <p className="text-xs">
+                                  {new Date(user.deactivated_at).toLocaleString()}
+                                  {user.deactivated_by && ` by ${emailsById.get(user.deactivated_by) ?? 'unknown user'}`}
+                                </p>
+                              )}
+                            </div>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                           {new Date(user.created_at).toLocaleDateString()}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                          <PermissionGate requiredPermission="manage:roles">
-                            <UserRoleSelector userId={user.id} currentRole={user.role} />
-                          </PermissionGate>
+                          {(assignableRoles?.[user.id]?.length ?? 0) > 0 && (
+                            <UserRoleSelector
+                              userId={user.id}
+                              currentRole={user.role}
+                              roles={roles.filter((definition) =>
+                                definition.key === user.role || assignableRoles?.[user.id]?.includes(definition.key)
+                              )}
+                            />
+                          )}
+                          {isAccountLocked(user.locked_until) && (
+                            <PermissionGate requiredPermission="manage:users">
+                              <div className="mt-2">
+                                <UnlockAccountButton userId={user.id} />
+                              </div>
+                            </PermissionGate>
+                          )}
+                          {user.active && user.role !== 'admin' && (
+                            <PermissionGate requiredPermission="impersonate:users">
+                              <div className="mt-2">
+                                <ImpersonateUserButton userId={user.id} />
+                              </div>
+                            </PermissionGate>
+                          )}
                         </td>
                       </tr>
                     ))
@@ -74,54 +121,126 @@ export default async function UsersPage() {
             </div>
           </div>
           
+          <PermissionGate requiredPermission="invite:users">
+            <div className="mt-8">
+              <h2 className="text-xl font-semibold mb-4">Invitations</h2>
+              {invitationsError ? (
+                <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-700">
+                  <p>{invitationsError}</p>
+                </div>
+              ) : (
+                <div className="space-y-6">
+                  <InviteUserForm roles={roles.filter((definition) => invitableRoles.includes(definition.key))} />
+                  
+                  <div className="bg-white rounded-lg shadow overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          {['Email', 'Role', 'Projects', 'Invited', 'Expires', 'Actions'].map((heading) => (
+                            <th
+                              key={heading}
+                              scope="col"
+                              className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                            >
+                              {heading}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {invitations.length === 0 ? (
+                          <tr>
+                            <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
+                              No pending invitations
+                            </td>
+                          </tr>
+                        ) : (
+                          invitations.map((invitation) => (
+                            <tr key={invitation.id}>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                                {invitation.email}
+                                <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800">
+                                  Pending
+                                </span>
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                <RoleBadge role={invitation.role} size="sm" />
+                              </td>
+                              <td className="px-6 py-4 text-sm text-gray-500">
+                                {invitation.projects.length === 0
+                                  ? '—'
+                                  : invitation.projects.map((project) => (
+                                      <p key={project.projectId} className="font-mono text-xs">
+                                        {project.projectId} ({project.role})
+                                      </p>
+                                    ))}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                {new Date(invitation.lastSentAt).toLocaleDateString()}
+                                {invitation.invitedBy && (
+                                  <p className="text-xs">by {emailsById.get(invitation.invitedBy) ?? 'unknown user'}</p>
+                                )}
+                                {invitation.sendCount > 1 && (
+                                  <p className="text-xs">sent {invitation.sendCount} times</p>
+                                )}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                {invitation.status === 'expired' ? (
+                                  <span className="text-red-700">Expired</span>
+                                ) : (
+                                  new Date(invitation.expiresAt).toLocaleString()
+                                )}
+                              </td>
+                              <td className="px-6 py-4 text-sm text-gray-500">
+                                <InvitationActions invitationId={invitation.id} />
+                              </td>
+                            </tr>
+                          ))
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+            </div>
+          </PermissionGate>
+          
           <div className="mt-8">
-            <h2 className="text-xl font-semibold mb-4">Role Permissions</h2>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              <div className="bg-white p-4 rounded-lg shadow">
-                <h3 className="font-bold text-purple-700 mb-2">Admin</h3>
-                <ul className="space-y-1 text-sm">
-                  <li>• Manage users and roles</li>
-                  <li>• Manage projects</li>
-                  <li>• View analytics</li>
-                  <li>• Manage content</li>
-                  <li>• Manage settings</li>
-                </ul>
-              </div>
-              
-              <div className="bg-white p-4 rounded-lg shadow">
-                <h3 className="font-bold text-blue-700 mb-2">Director</h3>
-                <ul className="space-y-1 text-sm">
-                  <li>• View users</li>
-                  <li>• Manage projects</li>
-                  <li>• View analytics</li>
-                  <li>• Manage content</li>
-                </ul>
-              </div>
-              
-              <div className="bg-white p-4 rounded-lg shadow">
-                <h3 className="font-bold text-green-700 mb-2">Team</h3>
-                <ul className="space-y-1 text-sm">
-                  <li>• View projects</li>
-                  <li>• Manage content</li>
-                  <li>• View analytics</li>
-                </ul>
-              </div>
-              
-              <div className="bg-white p-4 rounded-lg shadow">
-                <h3 className="font-bold text-yellow-700 mb-2">Client</h3>
-                <ul className="space-y-1 text-sm">
-                  <li>• View projects</li>
-                  <li>• Submit content</li>
-                </ul>
-              </div>
-              
-              <div className="bg-white p-4 rounded-lg shadow">
-                <h3 className="font-bold text-gray-700 mb-2">Builder</h3>
-                <ul className="space-y-1 text-sm">
-                  <li>• View projects</li>
-                </ul>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold">Role Permissions</h2>
+              <div className="flex space-x-4">
+                <PermissionGate requiredPermission="manage:roles">
+                  <div className="space-x-4">
+                    <Link href="/admin/roles" className="text-sm text-blue-600 hover:underline">
+                      Manage roles
+                    </Link>
+                    <Link href="/admin/permissions" className="text-sm text-blue-600 hover:underline">
+                      Edit permissions
+                    </Link>
+                  </div>
+                </PermissionGate>
+                <PermissionGate requiredPermission="manage:grants">
+                  <Link href="/admin/grants" className="text-sm text-blue-600 hover:underline">
+                    Temporary access
+                  </Link>
+                </PermissionGate>
+                <PermissionGate requiredPermission="view:audit">
+                  <Link href="/admin/audit" className="text-sm text-blue-600 hover:underline">
+                    Audit log
+                  </Link>
+                </PermissionGate>
               </div>
             </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {roles.map((definition) => (
+                <div key={definition.key} className="bg-white p-4 rounded-lg shadow">
+                  <div className="mb-2">
+                    <RoleBadge role={definition.key} definition={definition} />
+                  </div>
+                  <PermissionList permissions={getAllPermissions(definition.key)} />
+                </div>
+              ))}
+            </div>
           </div>
         </>
       )}
@@ -0,0 +1,153 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { AuditLogEntry } from '@/lib/auditLogQuery';
+
+interface AuditLogTableProps {
+  entries: AuditLogEntry[];
+
+  /**
+   * Emails of the actors and targets, by user id
+   */
+  emails: Record<string, string>;
+}
+
+// Older entries stored details as a JSON string; show it as an object
+function formatDetails(details: AuditLogEntry['details']): string {
+  if (typeof details === 'string') {
+    try {
+      return JSON.stringify(JSON.parse(details), null, 2);
+    } catch {
+      return details;
+    }
+  }
+  return JSON.stringify(details, null, 2);
+}
+
+/**
+ * Audit log entries with a drawer showing everything recorded for the selected one
+ */
+export default function AuditLogTable({ entries, emails }: AuditLogTableProps) {
+  const [selected, setSelected] = useState<AuditLogEntry | null>(null);
+
+  // Close the drawer with Escape
+  useEffect(() => {
+    if (!selected) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setSelected(null);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [selected]);
+
+  const describeUser = (userId: string | null) => (userId ? emails[userId] ?? userId : '—');
+
+  return (
+    <>
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              {['Time', 'Action', 'Actor', 'Target', 'Path', 'Result'].map(heading => (
+                <th
+                  key={heading}
+                  scope="col"
+                  className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                >
+                  {heading}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {entries.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-4 py-4 text-center text-gray-500">
+                  No audit events match these filters
+                </td>
+              </tr>
+            ) : (
+              entries.map(entry => (
+                <tr
+                  key={entry.id}
+                  onClick={() => setSelected(entry)}
+                  className={`cursor-pointer hover:bg-gray-50 ${selected?.id === entry.id ? 'bg-blue-50' : ''}`}
+                >
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-500">
+                    {new Date(entry.timestamp).toLocaleString()}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap font-medium text-gray-900">{entry.action}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-700">{describeUser(entry.user_id)}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-700">{describeUser(entry.target_user_id)}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-500">
+                    {entry.method && <span className="mr-1 font-mono text-xs">{entry.method}</span>}
+                    {entry.path ?? '—'}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap">
+                    {entry.success === null ? (
+                      <span className="text-gray-400">—</span>
+                    ) : entry.success ? (
+                      <span className="text-green-700">Success</span>
+                    ) : (
+                      <span className="text-red-700">Failed</span>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {selected && (
+        <div className="fixed inset-0 z-40 flex justify-end" role="dialog" aria-modal="true">
+          <div className="absolute inset-0 bg-black/30" onClick={() => setSelected(null)} />
+          <aside className="relative z-50 h-full w-full max-w-lg bg-white shadow-xl overflow-y-auto p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold">{selected.action}</h2>
+              <button
+                type="button"
+                onClick={() => setSelected(null)}
+                className="text-sm text-gray-500 hover:text-gray-700"
+              >
+                Close
+              </button>
+            </div>
+
+            <dl className="grid grid-cols-3 gap-x-4 gap-y-2 text-sm mb-6">
+              <dt className="text-gray-500">Time</dt>
+              <dd className="col-span-2">{new Date(selected.timestamp).toLocaleString()}</dd>
+              <dt className="text-gray-500">Actor</dt>
+              <dd className="col-span-2 break-all">{describeUser(selected.user_id)}</dd>
+              <dt className="text-gray-500">Actor role</dt>
+              <dd className="col-span-2">{selected.user_role ?? '—'}</dd>
+              <dt className="text-gray-500">Target</dt>
+              <dd className="col-span-2 break-all">{describeUser(selected.target_user_id)}</dd>
+              <dt className="text-gray-500">Request</dt>
+              <dd className="col-span-2 break-all">
+                {[selected.method, selected.path].filter(Boolean).join(' ') || '—'}
+              </dd>
+              <dt className="text-gray-500">Reason</dt>
+              <dd className="col-span-2">{selected.reason ?? '—'}</dd>
+              <dt className="text-gray-500">IP address</dt>
+              <dd className="col-span-2">{selected.ip_address ?? '—'}</dd>
+              <dt className="text-gray-500">User agent</dt>
+              <dd className="col-span-2 break-all">{selected.user_agent ?? '—'}</dd>
+              <dt className="text-gray-500">Correlation id</dt>
+              <dd className="col-span-2 break-all font-mono text-xs">{selected.correlation_id ?? '—'}</dd>
+            </dl>
+
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Details</h3>
+            {selected.details === null ? (
+              <p className="text-sm text-gray-500">No details recorded</p>
+            ) : (
+              <pre className="text-xs bg-gray-50 border border-gray-200 rounded-md p-3 overflow-x-auto">
+                {formatDetails(selected.details)}
+              </pre>
+            )}
+          </aside>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,200 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { PERMISSIONS, ROLE_COLORS, Permission, RoleColor, RoleDefinition } from '@/lib/auth';
+import { createCustomRole, updateCustomRole, deleteCustomRole } from '@/lib/actions/role-management';
+import { RoleBadge } from '@/components/auth/RoleBadge';
+
+interface CustomRoleFormProps {
+  /**
+   * Every registered role, offered as parent roles
+   */
+  roles: RoleDefinition[];
+
+  /**
+   * Role to edit; a new role is created when omitted
+   */
+  role?: RoleDefinition;
+
+  /**
+   * Direct permissions currently granted to the role being edited
+   */
+  permissions?: Permission[];
+}
+
+/**
+ * Form to create or edit a custom role: key, display name, badge colour,
+ * parent roles to inherit from and directly granted permissions
+ */
+export default function CustomRoleForm({ roles, role, permissions = [] }: CustomRoleFormProps) {
+  const router = useRouter();
+  const [key, setKey] = useState(role?.key ?? '');
+  const [displayName, setDisplayName] = useState(role?.displayName ?? '');
+  const [color, setColor] = useState<RoleColor>(role?.color ?? 'gray');
+  const [parentRoles, setParentRoles] = useState<string[]>(role?.parentRoles ?? []);
+  const [granted, setGranted] = useState<string[]>(permissions);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+  const toggle = (values: string[], value: string) =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setIsSaving(true);
+      setMessage(null);
+
+      const data = { displayName, color, parentRoles, permissions: granted };
+      const result = role
+        ? await updateCustomRole(role.key, data)
+        : await createCustomRole({ ...data, key });
+
+      if (result.success) {
+        setMessage({ text: role ? 'Role updated' : 'Role created', type: 'success' });
+        if (!role) {
+          setKey('');
+          setDisplayName('');
+          setParentRoles([]);
+          setGranted([]);
+        }
+        router.refresh();
+      } else {
+        setMessage({ text: result.error || 'Failed to save role', type: 'error' });
+      }
+    } catch {
+      setMessage({ text: 'An error occurred', type: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!role) return;
+
+    try {
+      setIsSaving(true);
+      setMessage(null);
+
+      const result = await deleteCustomRole(role.key);
+
+      if (result.success) {
+        router.refresh();
+      } else {
+        setMessage({ text: result.error || 'Failed to delete role', type: 'error' });
+      }
+    } catch {
+      setMessage({ text: 'An error occurred', type: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <label className="block text-sm">
+          <span className="text-gray-700">Key</span>
+          <input
+            value={key}
+            onChange={e => setKey(e.target.value)}
+            disabled={!!role || isSaving}
+            placeholder="council_reviewer"
+            required
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm"
+          />
+        </label>
+        <label className="block text-sm">
+          <span className="text-gray-700">Display name</span>
+          <input
+            value={displayName}
+            onChange={e => setDisplayName(e.target.value)}
+            disabled={isSaving}
+            placeholder="Council Reviewer"
+            required
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm"
+          />
+        </label>
+        <label className="block text-sm">
+          <span className="text-gray-700">Colour</span>
+          <select
+            value={color}
+            onChange={e => setColor(e.target.value as RoleColor)}
+            disabled={isSaving}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm"
+          >
+            {ROLE_COLORS.map(option => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <fieldset>
+        <legend className="text-sm text-gray-700 mb-2">Inherits from</legend>
+        <div className="flex flex-wrap gap-3">
+          {roles
+            .filter(definition => definition.key !== role?.key)
+            .map(definition => (
+              <label key={definition.key} className="inline-flex items-center space-x-1 text-sm">
+                <input
+                  type="checkbox"
+                  checked={parentRoles.includes(definition.key)}
+                  onChange={() => setParentRoles(current => toggle(current, definition.key))}
+                  disabled={isSaving}
+                />
+                <RoleBadge role={definition.key} definition={definition} size="sm" />
+              </label>
+            ))}
+        </div>
+      </fieldset>
+
+      <fieldset>
+        <legend className="text-sm text-gray-700 mb-2">Permissions</legend>
+        <div className="flex flex-wrap gap-3">
+          {PERMISSIONS.map(permission => (
+            <label key={permission} className="inline-flex items-center space-x-1 text-sm">
+              <input
+                type="checkbox"
+                checked={granted.includes(permission)}
+                onChange={() => setGranted(current => toggle(current, permission))}
+                disabled={isSaving}
+              />
+              <span>{permission}</span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div className="flex items-center space-x-4">
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {role ? 'Save role' : 'Create role'}
+        </button>
+        {role && (
+          <button
+            type="button"
+            onClick={handleDelete}
+            disabled={isSaving}
+            className="px-4 py-2 text-sm text-red-600 border border-red-600 rounded-md hover:bg-red-50 transition-colors disabled:opacity-50"
+          >
+            Delete role
+          </button>
+        )}
+
+        {message && (
+          <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+            {message.text}
+          </p>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { PERMISSIONS, Permission, RoleDefinition, RolePermissionMap, UserRole } from '@/lib/auth';
+import { updateRolePermissions, RolePermissionChange } from '@/lib/actions/role-management';
+import { RoleBadge } from '@/components/auth/RoleBadge';
+
+interface RolePermissionMatrixProps {
+  /**
+   * Roles to show as columns, from the role registry
+   */
+  roles: RoleDefinition[];
+
+  /**
+   * Permissions granted directly to each role in role_permissions
+   */
+  direct: RolePermissionMap;
+
+  /**
+   * Effective permissions for each role, including inherited ones
+   */
+  effective: RolePermissionMap;
+}
+
+/**
+ * Editable role × permission grid.
+ * Checkboxes toggle direct grants; permissions a role only receives through
+ * inheritance are marked separately and can't be toggled here.
+ */
+export default function RolePermissionMatrix({ roles, direct, effective }: RolePermissionMatrixProps) {
+  const router = useRouter();
+  const [draft, setDraft] = useState<RolePermissionMap>(direct);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+  // Cells whose draft value differs from the saved grants
+  const changes = useMemo<RolePermissionChange[]>(() => {
+    const result: RolePermissionChange[] = [];
+
+    for (const { key: role } of roles) {
+      for (const permission of PERMISSIONS) {
+        const granted = (draft[role] || []).includes(permission);
+        if (granted !== (direct[role] || []).includes(permission)) {
+          result.push({ role, permission, granted });
+        }
+      }
+    }
+
+    return result;
+  }, [roles, draft, direct]);
+
+  const toggle = (role: UserRole, permission: Permission) => {
+    setMessage(null);
+    setDraft(current => ({
+      ...current,
+      [role]: (current[role] || []).includes(permission)
+        ? current[role].filter(p => p !== permission)
+        : [...(current[role] || []), permission],
+    }));
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      setMessage(null);
+
+      const result = await updateRolePermissions(changes);
+
+      if (result.success) {
+        setMessage({ text: `Saved ${changes.length} change(s)`, type: 'success' });
+        router.refresh();
+      } else {
+        setMessage({ text: result.error || 'Failed to save permissions', type: 'error' });
+      }
+    } catch {
+      setMessage({ text: 'An error occurred', type: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Permission
+                </th>
+                {roles.map(definition => (
+                  <th key={definition.key} scope="col" className="px-6 py-3 text-center">
+                    <RoleBadge role={definition.key} definition={definition} size="sm" />
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {PERMISSIONS.map(permission => (
+                <tr key={permission}>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {permission}
+                  </td>
+                  {roles.map(({ key: role }) => {
+                    const granted = (draft[role] || []).includes(permission);
+                    const inherited =
+                      !(direct[role] || []).includes(permission) && (effective[role] || []).includes(permission);
+
+                    return (
+                      <td key={role} className="px-6 py-3 text-center">
+                        <input
+                          type="checkbox"
+                          aria-label={`${role} ${permission}`}
+                          checked={granted}
+                          onChange={() => toggle(role, permission)}
+                          disabled={isSaving}
+                          className="h-4 w-4 rounded border-gray-300"
+                        />
+                        {inherited && (
+                          <span className="block text-xs text-gray-500">inherited</span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-4">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving || changes.length === 0}
+          className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isSaving ? 'Saving…' : `Save ${changes.length} change(s)`}
+        </button>
+        <button
+          type="button"
+          onClick={() => setDraft(direct)}
+          disabled={isSaving || changes.length === 0}
+          className="px-4 py-2 text-sm text-blue-600 border border-blue-600 rounded-md hover:bg-blue-50 transition-colors disabled:opacity-50"
+        >
+          Reset
+        </button>
+
+        {message && (
+          <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+            {message.text}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
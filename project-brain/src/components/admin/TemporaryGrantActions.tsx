@@ -0,0 +1,81 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  approveTemporaryGrant,
+  rejectTemporaryGrant,
+  revokeTemporaryGrant,
+} from '@/lib/actions/grant-actions';
+
+interface TemporaryGrantActionsProps {
+  grantId: string;
+  /**
+   * Show approve and reject (pending grants, for admins who aren't the grantee)
+   */
+  canDecide: boolean;
+}
+
+/**
+ * Approve, reject or revoke a temporary grant
+ */
+export default function TemporaryGrantActions({ grantId, canDecide }: TemporaryGrantActionsProps) {
+  const router = useRouter();
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: (grantId: string) => Promise<{ success: boolean; error: string | null }>) => {
+    try {
+      setIsWorking(true);
+      setError(null);
+
+      const result = await action(grantId);
+
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error || 'Failed to update grant');
+      }
+    } catch {
+      setError('An error occurred');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex space-x-2">
+        {canDecide && (
+          <>
+            <button
+              type="button"
+              onClick={() => run(approveTemporaryGrant)}
+              disabled={isWorking}
+              className="px-3 py-1 text-xs text-green-700 border border-green-600 rounded-md hover:bg-green-50 transition-colors disabled:opacity-50"
+            >
+              Approve
+            </button>
+            <button
+              type="button"
+              onClick={() => run(rejectTemporaryGrant)}
+              disabled={isWorking}
+              className="px-3 py-1 text-xs text-gray-700 border border-gray-400 rounded-md hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              Reject
+            </button>
+          </>
+        )}
+        <button
+          type="button"
+          onClick={() => run(revokeTemporaryGrant)}
+          disabled={isWorking}
+          className="px-3 py-1 text-xs text-red-700 border border-red-600 rounded-md hover:bg-red-50 transition-colors disabled:opacity-50"
+        >
+          Revoke
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { createTemporaryGrant } from '@/lib/actions/grant-actions';
+import type { Permission, RoleDefinition, UserRole } from '@/lib/auth';
+
+interface TemporaryGrantFormProps {
+  /**
+   * Users a grant can be made out to
+   */
+  users: { id: string; email: string }[];
+  /**
+   * Roles and permissions the current user may grant
+   */
+  roles: RoleDefinition[];
+  permissions: Permission[];
+  /**
+   * Longest grant allowed (security.temporaryGrants.maxDurationMs)
+   */
+  maxDurationMs: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const DURATIONS = [
+  { label: '1 hour', ms: HOUR_MS },
+  { label: '4 hours', ms: 4 * HOUR_MS },
+  { label: '1 day', ms: 24 * HOUR_MS },
+  { label: '3 days', ms: 3 * 24 * HOUR_MS },
+  { label: '1 week', ms: 7 * 24 * HOUR_MS },
+];
+
+const inputClassName =
+  'block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-300 focus:ring focus:ring-indigo-200 focus:ring-opacity-50 text-sm';
+
+/**
+ * Form to grant a user a role and/or permissions for a limited time
+ */
+export default function TemporaryGrantForm({ users, roles, permissions, maxDurationMs }: TemporaryGrantFormProps) {
+  const router = useRouter();
+  const durations = DURATIONS.filter((duration) => duration.ms <= maxDurationMs);
+  const [userId, setUserId] = useState(users[0]?.id ?? '');
+  const [role, setRole] = useState<UserRole | ''>('');
+  const [selectedPermissions, setSelectedPermissions] = useState<Permission[]>([]);
+  const [reason, setReason] = useState('');
+  const [durationMs, setDurationMs] = useState(durations[0]?.ms ?? maxDurationMs);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const togglePermission = (permission: Permission) =>
+    setSelectedPermissions(
+      selectedPermissions.includes(permission)
+        ? selectedPermissions.filter((p) => p !== permission)
+        : [...selectedPermissions, permission]
+    );
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      setMessage(null);
+
+      const result = await createTemporaryGrant({
+        userId,
+        role: role || null,
+        permissions: selectedPermissions,
+        reason,
+        durationMs,
+      });
+
+      if (result.success) {
+        setMessage(result.approved ? 'Grant is active' : 'Grant is waiting for an admin to approve it');
+        setRole('');
+        setSelectedPermissions([]);
+        setReason('');
+        router.refresh();
+      } else {
+        setError(result.error || 'Failed to create grant');
+      }
+    } catch {
+      setError('An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-4 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <label className="block text-sm">
+          <span className="text-gray-700">User</span>
+          <select value={userId} onChange={(e) => setUserId(e.target.value)} className={`mt-1 ${inputClassName}`}>
+            {users.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.email}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm">
+          <span className="text-gray-700">Role</span>
+          <select value={role} onChange={(e) => setRole(e.target.value)} className={`mt-1 ${inputClassName}`}>
+            <option value="">No role, permissions only</option>
+            {roles.map((definition) => (
+              <option key={definition.key} value={definition.key}>
+                {definition.displayName}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm">
+          <span className="text-gray-700">For</span>
+          <select
+            value={durationMs}
+            onChange={(e) => setDurationMs(Number(e.target.value))}
+            className={`mt-1 ${inputClassName}`}
+          >
+            {durations.map((duration) => (
+              <option key={duration.ms} value={duration.ms}>
+                {duration.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <fieldset className="text-sm">
+        <legend className="text-gray-700 mb-1">Permissions</legend>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          {permissions.map((permission) => (
+            <label key={permission} className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={selectedPermissions.includes(permission)}
+                onChange={() => togglePermission(permission)}
+              />
+              <span className="font-mono text-xs">{permission}</span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <label className="block text-sm">
+        <span className="text-gray-700">Reason</span>
+        <input
+          required
+          maxLength={500}
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Why is this access needed?"
+          className={`mt-1 ${inputClassName}`}
+        />
+      </label>
+
+      <div className="flex items-center space-x-4">
+        <button
+          type="submit"
+          disabled={isSaving || !userId}
+          className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isSaving ? 'Saving…' : 'Grant access'}
+        </button>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {message && <p className="text-sm text-green-700">{message}</p>}
+      </div>
+    </form>
+  );
+}
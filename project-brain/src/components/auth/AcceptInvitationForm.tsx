@@ -0,0 +1,103 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { acceptInvitation } from '@/lib/actions/invitation-actions';
+
+interface AcceptInvitationFormProps {
+  token: string;
+
+  /**
+   * The invited email; the account is always created for it
+   */
+  email: string;
+}
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-300 focus:ring focus:ring-indigo-200 focus:ring-opacity-50 text-sm';
+
+/**
+ * Lets an invitee choose a password and create their account
+ */
+export default function AcceptInvitationForm({ token, email }: AcceptInvitationFormProps) {
+  const router = useRouter();
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [awaitingConfirmation, setAwaitingConfirmation] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const result = await acceptInvitation(token, { password, confirmPassword });
+
+      if (!result.success) {
+        setError(result.error || 'Failed to accept invitation');
+      } else if (result.signedIn) {
+        router.push('/dashboard');
+      } else {
+        setAwaitingConfirmation(true);
+      }
+    } catch {
+      setError('An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (awaitingConfirmation) {
+    return (
+      <div className="space-y-4 text-sm text-gray-700">
+        <p>Your account has been created. Check {email} for a confirmation link, then sign in.</p>
+        <Link href="/login" className="text-blue-600 hover:underline">
+          Go to sign in
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <label className="block text-sm">
+        <span className="text-gray-700">Email</span>
+        <input type="email" value={email} readOnly className={`${inputClassName} bg-gray-50`} />
+      </label>
+      <label className="block text-sm">
+        <span className="text-gray-700">Password</span>
+        <input
+          type="password"
+          required
+          autoComplete="new-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className={inputClassName}
+        />
+      </label>
+      <label className="block text-sm">
+        <span className="text-gray-700">Confirm password</span>
+        <input
+          type="password"
+          required
+          autoComplete="new-password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          className={inputClassName}
+        />
+      </label>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+      >
+        {isSubmitting ? 'Creating account…' : 'Accept invitation'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { ReactNode, createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
+import {
+  AuthPrincipal,
+  AuthSnapshot,
+  Permission,
+  UserRole,
+  getActiveRole,
+  getClientAuthContext,
+  hasPermission,
+  invalidateClientAuthContext,
+  resolveAuthSnapshot,
+} from '@/lib/auth';
+import { invalidateRolePermissions, primeRolePermissions } from '@/lib/permissionResolver';
+import { PolicyAction, PolicyResource, can, toPolicyActor } from '@/lib/policy';
+
+export type AuthState = AuthSnapshot & {
+  // The role checks are made with: the user's, or null when signed out or
+  // either the user or the impersonating admin is deactivated
+  role: UserRole | null;
+  // Look everything up again
+  refresh: () => Promise<void>;
+};
+
+const AuthStateContext = createContext<AuthState | null>(null);
+
+// Apply a change to a users row to whichever principals it belongs to
+function patchPrincipals(snapshot: AuthSnapshot, row: Partial<AuthPrincipal> & { id?: string }): AuthSnapshot {
+  const patch = (principal: AuthPrincipal | null) =>
+    principal && principal.id === row.id
+      ? {
+          ...principal,
+          role: row.role ?? principal.role,
+          active: row.active ?? principal.active,
+          grants: row.active === false ? [] : principal.grants,
+        }
+      : principal;
+
+  return { ...snapshot, account: patch(snapshot.account), user: patch(snapshot.user) };
+}
+
+interface AuthProviderProps {
+  // Resolved by the server render (see getAuthSnapshot), so nothing is fetched before first paint
+  initialAuth: AuthSnapshot;
+  children: ReactNode;
+}
+
+/**
+ * Makes the current user's role, grants and memberships available to every
+ * client component, and keeps them in step with the database: changes to the
+ * user's row, grants, memberships or the role → permission mapping re-render
+ * everything that depends on them.
+ */
+export function AuthProvider({ initialAuth, children }: AuthProviderProps) {
+  const router = useRouter();
+  const supabase = useMemo(() => createClientComponentClient(), []);
+  const [snapshot, setSnapshot] = useState<AuthSnapshot>(() => {
+    primeRolePermissions(initialAuth.roles, initialAuth.rolePermissions);
+    return initialAuth;
+  });
+
+  const refresh = useCallback(async () => {
+    invalidateClientAuthContext();
+    invalidateRolePermissions();
+
+    try {
+      setSnapshot(await resolveAuthSnapshot(supabase, await getClientAuthContext()));
+    } catch (error) {
+      console.error('Error refreshing auth state:', error);
+    }
+  }, [supabase]);
+
+  // Signing in or out in another tab, or a refreshed token for a changed user
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange(event => {
+      if (event === 'SIGNED_IN' || event === 'SIGNED_OUT' || event === 'USER_UPDATED') {
+        refresh();
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [supabase, refresh]);
+
+  const userId = snapshot.user?.id;
+  const accountId = snapshot.account?.id;
+
+  useEffect(() => {
+    if (!userId || !accountId) return;
+
+    const onUserChange = (payload: { new: Partial<AuthPrincipal> & { id?: string } }) => {
+      // Show the new role or a deactivation at once, then pick up the rest
+      setSnapshot(current => patchPrincipals(current, payload.new));
+      refresh();
+
+      // Let middleware sign a deactivated user out of the server-rendered page too
+      if (payload.new.active === false) {
+        router.refresh();
+      }
+    };
+
+    const channel = supabase
+      .channel(`auth_changes:${userId}`)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'users', filter: `id=eq.${userId}` }, onUserChange)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'temporary_grants', filter: `user_id=eq.${userId}` }, refresh)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'project_members', filter: `user_id=eq.${userId}` }, refresh)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'role_permissions' }, refresh)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'custom_roles' }, refresh);
+
+    // While impersonating, the admin's own account matters too
+    if (accountId !== userId) {
+      channel.on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'users', filter: `id=eq.${accountId}` }, onUserChange);
+    }
+
+    channel.subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [supabase, userId, accountId, refresh, router]);
+
+  const value = useMemo<AuthState>(
+    () => ({ ...snapshot, role: getActiveRole(snapshot), refresh }),
+    [snapshot, refresh]
+  );
+
+  return <AuthStateContext.Provider value={value}>{children}</AuthStateContext.Provider>;
+}
+
+/**
+ * The current user's auth state. While an admin impersonates someone, user
+ * and role are the impersonated user's and account is the admin's.
+ */
+export function useAuth(): AuthState {
+  const state = useContext(AuthStateContext);
+
+  if (!state) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+
+  return state;
+}
+
+/**
+ * Whether the current user has a permission, through their role or a
+ * temporary grant. Pass a projectId to check their role on that project.
+ */
+export function usePermission(permission: Permission, projectId?: string): boolean {
+  const { role, user, memberships } = useAuth();
+  return hasPermission(role ?? undefined, permission, { projectId, memberships, grants: user?.grants });
+}
+
+/**
+ * Whether the current user may take an action on a resource (see policy.ts)
+ */
+export function useCan(action: PolicyAction, resource: PolicyResource): boolean {
+  return can(toPolicyActor(useAuth()), action, resource);
+}
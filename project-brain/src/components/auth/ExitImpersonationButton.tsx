@@ -0,0 +1,46 @@
+'use client';
+
+import { useState } from 'react';
+import { IMPERSONATION_EXIT_PATH } from '@/lib/impersonation';
+
+/**
+ * End the current impersonation and go back to the user list
+ */
+export default function ExitImpersonationButton() {
+  const [isExiting, setIsExiting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExit = async () => {
+    try {
+      setIsExiting(true);
+      setError(null);
+
+      const response = await fetch(IMPERSONATION_EXIT_PATH, { method: 'DELETE' });
+
+      if (response.ok) {
+        // A full load, so every PermissionGate checks again as the admin
+        window.location.assign('/users');
+      } else {
+        setError('Failed to exit');
+        setIsExiting(false);
+      }
+    } catch {
+      setError('An error occurred');
+      setIsExiting(false);
+    }
+  };
+
+  return (
+    <span className="space-x-2">
+      <button
+        type="button"
+        onClick={handleExit}
+        disabled={isExiting}
+        className="px-3 py-1 text-xs font-medium text-amber-900 bg-white rounded-md hover:bg-amber-50 transition-colors disabled:opacity-50"
+      >
+        {isExiting ? 'Exiting…' : 'Exit'}
+      </button>
+      {error && <span className="text-xs">{error}</span>}
+    </span>
+  );
+}
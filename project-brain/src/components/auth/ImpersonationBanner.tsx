@@ -0,0 +1,31 @@
+import { getActiveImpersonation } from '@/lib/actions/impersonation-actions';
+import { getRoleDisplayName } from '@/lib/auth';
+import { impersonationSettings } from '@/lib/impersonation';
+import ExitImpersonationButton from '@/components/auth/ExitImpersonationButton';
+
+/**
+ * Shown on every page while an admin is viewing the app as another user.
+ * Data is still read with the admin's own access (see Impersonation), which
+ * the banner says so nobody takes the pages for exactly what the user sees.
+ */
+export default async function ImpersonationBanner() {
+  const impersonation = await getActiveImpersonation();
+
+  if (!impersonation) {
+    return null;
+  }
+
+  return (
+    <div
+      role="status"
+      className="sticky top-0 z-50 flex items-center justify-center space-x-4 px-4 py-2 text-sm text-amber-900 bg-amber-300"
+    >
+      <span>
+        Viewing as <strong>{impersonation.email}</strong> ({getRoleDisplayName(impersonation.role)}) until{' '}
+        {new Date(impersonation.expiresAt).toLocaleTimeString()}.
+        {!impersonationSettings.allowMutations && ' Changes are disabled.'}
+      </span>
+      <ExitImpersonationButton />
+    </div>
+  );
+}
@@ -1,19 +1,37 @@
-import { ReactNode, useState, useEffect } from 'react';
+'use client';
+
+import { ReactNode, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
-import { hasRole, hasPermission, UserRole, Permission } from '@/lib/auth';
+import {
+  isRoleAtLeast,
+  hasPermission,
+  getEffectiveRoles,
+  ACCOUNT_DISABLED_PATH,
+  UserRole,
+  Permission,
+} from '@/lib/auth';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { PolicyAction, PolicyResource, can, toPolicyActor } from '@/lib/policy';
 
 interface PermissionGateProps {
   children: ReactNode;
   requiredPermission?: Permission;
   requiredRole?: UserRole;
+  projectId?: string;
+  // Object-level check (see policy.ts): what the user wants to do to which resource
+  action?: PolicyAction;
+  resource?: PolicyResource;
   fallback?: ReactNode;
   redirect?: string;
 }
 
 /**
  * A component that conditionally renders its children based on the user's permissions.
- * Can check for a specific permission, a specific role, or both.
+ * Can check for a specific permission, a specific role, or both, and honours
+ * the user's active temporary grants. While an admin impersonates someone, the
+ * checks are made as that user. Renders straight away from the state held by
+ * AuthProvider, and again whenever it changes.
+ * Pass a projectId to evaluate the checks against the user's role on that project.
  * 
  * @example
  * <PermissionGate requiredPermission="manage:users">
@@ -27,86 +45,60 @@ interface PermissionGateProps {
  * >
  *   <SensitiveData />
  * </PermissionGate>
+ * 
+ * @example
+ * <PermissionGate requiredPermission="manage:projects" projectId={project.id}>
+ *   <EditProjectButton />
+ * </PermissionGate>
+ * 
+ * @example
+ * <PermissionGate action="update" resource={{ type: 'submission', projectId, ownerId, status }}>
+ *   <EditSubmissionButton />
+ * </PermissionGate>
  */
 export default function PermissionGate({
   children,
   requiredPermission,
   requiredRole,
+  projectId,
+  action = 'read',
+  resource,
   fallback = null,
   redirect
 }: PermissionGateProps) {
   const router = useRouter();
-  const supabase = createClientComponentClient();
-  const [userRole, setUserRole] = useState<UserRole | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [hasAccess, setHasAccess] = useState(false);
-
-  useEffect(() => {
-    const checkPermission = async () => {
-      try {
-        setLoading(true);
-        
-        // Get current session
-        const { data: { session } } = await supabase.auth.getSession();
-        
-        if (!session) {
-          if (redirect) {
-            router.push(redirect);
-            return;
-          }
-          setHasAccess(false);
-          return;
-        }
-        
-        // Get user's role from the database
-        const { data: userData, error } = await supabase
-          .from('users')
-          .select('role')
-          .eq('id', session.user.id)
-          .single();
-        
-        if (error || !userData) {
-          setHasAccess(false);
-          return;
-        }
-        
-        const role = userData.role as UserRole;
-        setUserRole(role);
-        
-        // Check access based on role and/or permission
-        let accessGranted = true;
-        
-        if (requiredRole) {
-          accessGranted = accessGranted && hasRole(role, requiredRole);
-        }
-        
-        if (requiredPermission) {
-          accessGranted = accessGranted && hasPermission(role, requiredPermission);
-        }
-        
-        setHasAccess(accessGranted);
-        
-        // Redirect if specified and no access
-        if (!accessGranted && redirect) {
-          router.push(redirect);
-        }
-      } finally {
-        setLoading(false);
-      }
-    };
-    
-    checkPermission();
-  }, [supabase, requiredPermission, requiredRole, redirect, router]);
+  const auth = useAuth();
+  const { account, user, role, memberships } = auth;
+  
+  // Roles that apply here, including temporarily granted ones
+  // (none if not a member of the project)
+  const context = { projectId, memberships, grants: user?.grants };
+  const effectiveRoles = getEffectiveRoles(role ?? undefined, context);
   
-  // Display a loading state while checking permissions
-  if (loading) {
-    return (
-      <div className="flex justify-center items-center p-4">
-        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-gray-900"></div>
-      </div>
-    );
+  // Check access based on role and/or permission
+  let hasAccess = !!role && (!projectId || effectiveRoles.length > 0);
+  
+  if (requiredRole) {
+    hasAccess = hasAccess && effectiveRoles.some(effectiveRole => isRoleAtLeast(effectiveRole, requiredRole));
+  }
+  
+  if (requiredPermission) {
+    hasAccess = hasAccess && hasPermission(role ?? undefined, requiredPermission, context);
+  }
+  
+  if (resource) {
+    hasAccess = hasAccess && can(toPolicyActor(auth), action, resource);
   }
   
+  // Deactivated users get nothing, whatever their role
+  const disabled = (!!account && !account.active) || (!!user && !user.active);
+  
+  useEffect(() => {
+    if (redirect && !hasAccess) {
+      router.push(disabled ? ACCOUNT_DISABLED_PATH : redirect);
+    }
+  }, [redirect, hasAccess, disabled, router]);
+  
   // If the user has the required permissions, render the children
   if (hasAccess) {
     return <>{children}</>;
@@ -114,4 +106,4 @@ export default function PermissionGate({
   
   // Otherwise, render the fallback or null
   return <>{fallback}</>;
-} 
\ No newline at end of file
+}
@@ -1,39 +1,70 @@
-import { UserRole } from '@/lib/auth';
+import { UserRole, RoleColor, RoleDefinition, getRoleDefinition, getRoleDisplayName } from '@/lib/auth';
 
 interface RoleBadgeProps {
   role: UserRole;
   size?: 'sm' | 'md' | 'lg';
+  /**
+   * Role definition to render; looked up in the role registry when omitted
+   */
+  definition?: RoleDefinition;
 }
 
-export function RoleBadge({ role, size = 'md' }: RoleBadgeProps) {
-  // Define style configurations for each role
-  const roleConfig = {
-    admin: {
-      bg: 'bg-red-100 dark:bg-red-900/30',
-      text: 'text-red-800 dark:text-red-300',
-      border: 'border-red-200 dark:border-red-800'
-    },
-    director: {
-      bg: 'bg-purple-100 dark:bg-purple-900/30',
-      text: 'text-purple-800 dark:text-purple-300',
-      border: 'border-purple-200 dark:border-purple-800'
-    },
-    team: {
-      bg: 'bg-blue-100 dark:bg-blue-900/30',
-      text: 'text-blue-800 dark:text-blue-300',
-      border: 'border-blue-200 dark:border-blue-800'
-    },
-    client: {
-      bg: 'bg-green-100 dark:bg-green-900/30',
-      text: 'text-green-800 dark:text-green-300',
-      border: 'border-green-200 dark:border-green-800'
-    },
-    builder: {
-      bg: 'bg-amber-100 dark:bg-amber-900/30',
-      text: 'text-amber-800 dark:text-amber-300',
-      border: 'border-amber-200 dark:border-amber-800'
-    }
-  };
+// Define style configurations for each role colour
+const colorConfig: Record<RoleColor, { bg: string; text: string; border: string }> = {
+  red: {
+    bg: 'bg-red-100 dark:bg-red-900/30',
+    text: 'text-red-800 dark:text-red-300',
+    border: 'border-red-200 dark:border-red-800'
+  },
+  purple: {
+    bg: 'bg-purple-100 dark:bg-purple-900/30',
+    text: 'text-purple-800 dark:text-purple-300',
+    border: 'border-purple-200 dark:border-purple-800'
+  },
+  blue: {
+    bg: 'bg-blue-100 dark:bg-blue-900/30',
+    text: 'text-blue-800 dark:text-blue-300',
+    border: 'border-blue-200 dark:border-blue-800'
+  },
+  green: {
+    bg: 'bg-green-100 dark:bg-green-900/30',
+    text: 'text-green-800 dark:text-green-300',
+    border: 'border-green-200 dark:border-green-800'
+  },
+  amber: {
+    bg: 'bg-amber-100 dark:bg-amber-900/30',
+    text: 'text-amber-800 dark:text-amber-300',
+    border: 'border-amber-200 dark:border-amber-800'
+  },
+  teal: {
+    bg: 'bg-teal-100 dark:bg-teal-900/30',
+    text: 'text-teal-800 dark:text-teal-300',
+    border: 'border-teal-200 dark:border-teal-800'
+  },
+  indigo: {
+    bg: 'bg-indigo-100 dark:bg-indigo-900/30',
+    text: 'text-indigo-800 dark:text-indigo-300',
+    border: 'border-indigo-200 dark:border-indigo-800'
+  },
+  pink: {
+    bg: 'bg-pink-100 dark:bg-pink-900/30',
+    text: 'text-pink-800 dark:text-pink-300',
+    border: 'border-pink-200 dark:border-pink-800'
+  },
+  orange: {
+    bg: 'bg-orange-100 dark:bg-orange-900/30',
+    text: 'text-orange-800 dark:text-orange-300',
+    border: 'border-orange-200 dark:border-orange-800'
+  },
+  gray: {
+    bg: 'bg-gray-100 dark:bg-gray-800/30',
+    text: 'text-gray-800 dark:text-gray-300',
+    border: 'border-gray-200 dark:border-gray-700'
+  }
+};
+
+export function RoleBadge({ role, size = 'md', definition }: RoleBadgeProps) {
+  const roleDefinition = definition ?? getRoleDefinition(role);
 
   // Define size styles
   const sizeStyles = {
@@ -42,7 +73,7 @@ export function RoleBadge({ role, size = 'md' }: RoleBadgeProps) {
     lg: 'text-base px-2.5 py-1.5'
   };
 
-  const config = roleConfig[role];
+  const config = colorConfig[roleDefinition?.color ?? 'gray'];
   
   return (
     <span
@@ -52,7 +83,7 @@ export function RoleBadge({ role, size = 'md' }: RoleBadgeProps) {
         ${config.bg} ${config.text} ${config.border} ${sizeStyles[size]}
       `}
     >
-      {role.charAt(0).toUpperCase() + role.slice(1)}
+      {roleDefinition?.displayName ?? getRoleDisplayName(role)}
     </span>
   );
 }
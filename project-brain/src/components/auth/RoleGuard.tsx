@@ -1,118 +1,21 @@
-import { type ReactNode } from 'react';
-import { UserRole, Permission, hasRole, hasPermission } from '@/lib/auth';
-import { getCurrentUserRole } from '@/lib/auth';
-import { useEffect, useState } from 'react';
+'use client';
 
-interface RoleGuardProps {
-  /**
-   * Content to render if user has the required role
-   */
-  children: ReactNode;
-  
-  /**
-   * Role required to view the content
-   */
-  requiredRole?: UserRole;
-  
-  /**
-   * Array of roles where any one is sufficient to view the content
-   */
-  anyRole?: UserRole[];
-  
-  /**
-   * Specific permission required to view the content
-   */
-  permission?: Permission;
-  
-  /**
-   * Array of permissions where any one is sufficient
-   */
-  anyPermission?: Permission[];
-  
-  /**
-   * Array of permissions where all are required
-   */
-  allPermissions?: Permission[];
-  
-  /**
-   * Content to render if user doesn't have the required role/permission
-   */
-  fallback?: ReactNode;
-}
+import { useAuth } from '@/components/auth/AuthProvider';
+import { RoleGuardProps, meetsRoleRequirements } from '@/lib/roleGuard';
+
+export type { RoleGuardProps } from '@/lib/roleGuard';
 
 /**
- * Component to conditionally render content based on user's role and permissions
+ * Component to conditionally render content based on user's role and permissions.
+ * For client components; checks the state held by AuthProvider, so it renders
+ * straight away. Server components should use ServerRoleGuard, which takes
+ * the same props.
  */
-export function RoleGuard({
-  children,
-  requiredRole,
-  anyRole,
-  permission,
-  anyPermission,
-  allPermissions,
-  fallback = null
-}: RoleGuardProps) {
-  const [userRole, setUserRole] = useState<UserRole | null>(null);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    async function fetchUserRole() {
-      try {
-        const role = await getCurrentUserRole();
-        setUserRole(role);
-      } catch (error) {
-        console.error('Error fetching user role:', error);
-        setUserRole(null);
-      } finally {
-        setLoading(false);
-      }
-    }
-
-    fetchUserRole();
-  }, []);
-
-  // Show nothing while loading
-  if (loading) {
-    return null;
-  }
+export function RoleGuard({ children, fallback = null, ...requirements }: RoleGuardProps) {
+  const { role, user, memberships } = useAuth();
 
-  // No user or role found
-  if (!userRole) {
-    return fallback;
-  }
-  
-  // Check specific required role
-  if (requiredRole && !hasRole(userRole, requiredRole)) {
-    return fallback;
-  }
-  
-  // Check if user has any of the specified roles
-  if (anyRole && anyRole.length > 0) {
-    const hasAnyRequiredRole = anyRole.some(role => hasRole(userRole, role));
-    if (!hasAnyRequiredRole) {
-      return fallback;
-    }
-  }
-  
-  // Check specific permission
-  if (permission && !hasPermission(userRole, permission)) {
-    return fallback;
-  }
-  
-  // Check if user has any of the specified permissions
-  if (anyPermission && anyPermission.length > 0) {
-    const hasAnyRequiredPermission = anyPermission.some(perm => hasPermission(userRole, perm));
-    if (!hasAnyRequiredPermission) {
-      return fallback;
-    }
-  }
-  
-  // Check if user has all of the specified permissions
-  if (allPermissions && allPermissions.length > 0) {
-    const hasAllRequiredPermissions = allPermissions.every(perm => hasPermission(userRole, perm));
-    if (!hasAllRequiredPermissions) {
-      return fallback;
-    }
+  if (!meetsRoleRequirements(role, requirements, { memberships, grants: user?.grants })) {
+    return <>{fallback}</>;
   }
   
   // User has the necessary role/permissions, render the children
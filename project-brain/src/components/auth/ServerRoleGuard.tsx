@@ -0,0 +1,24 @@
+import { getActiveRole } from '@/lib/auth';
+import { getAuthSnapshot } from '@/lib/authContext';
+import { RoleGuardProps, meetsRoleRequirements } from '@/lib/roleGuard';
+
+/**
+ * Server component counterpart of RoleGuard, with the same props. Checks the
+ * auth context already resolved for the request, so nothing is fetched in the
+ * browser and gated content never reaches users who can't see it.
+ * 
+ * @example
+ * <ServerRoleGuard requiredRole="director" fallback={<p>Directors only</p>}>
+ *   <ProjectBudget />
+ * </ServerRoleGuard>
+ */
+export default async function ServerRoleGuard({ children, fallback = null, ...requirements }: RoleGuardProps) {
+  const auth = await getAuthSnapshot();
+  const { user, memberships } = auth;
+
+  if (!meetsRoleRequirements(getActiveRole(auth), requirements, { memberships, grants: user?.grants })) {
+    return <>{fallback}</>;
+  }
+
+  return <>{children}</>;
+}
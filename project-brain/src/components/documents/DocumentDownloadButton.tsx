@@ -0,0 +1,45 @@
+'use client';
+
+import { useState } from 'react';
+import { getDocumentDownloadUrl } from '@/lib/actions/document-actions';
+
+interface DocumentDownloadButtonProps {
+  versionId: string;
+  label?: string;
+}
+
+/**
+ * Fetch a short-lived download link for a version and follow it
+ */
+export default function DocumentDownloadButton({ versionId, label = 'Download' }: DocumentDownloadButtonProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClick = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { url, error } = await getDocumentDownloadUrl(versionId);
+
+      if (url) {
+        window.location.assign(url);
+      } else {
+        setError(error || 'Failed to download file');
+      }
+    } catch {
+      setError('An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <span className="inline-flex items-center space-x-2">
+      <button type="button" onClick={handleClick} disabled={isLoading} className="text-sm text-blue-600 hover:underline disabled:opacity-50">
+        {label}
+      </button>
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </span>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { DocumentFolder } from '@/lib/documents';
+import { createDocumentFolder } from '@/lib/actions/document-actions';
+
+interface DocumentFolderFormProps {
+  projectId: string;
+
+  /**
+   * Folders the new one can be placed in
+   */
+  folders?: DocumentFolder[];
+}
+
+/**
+ * Add a folder to a project's documents
+ */
+export default function DocumentFolderForm({ projectId, folders = [] }: DocumentFolderFormProps) {
+  const router = useRouter();
+  const [name, setName] = useState('');
+  const [parentId, setParentId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const result = await createDocumentFolder(projectId, { name, parentId: parentId || null });
+
+      if (result.success) {
+        setName('');
+        setParentId('');
+        router.refresh();
+      } else {
+        setError(result.error || 'Failed to create folder');
+      }
+    } catch {
+      setError('An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-2 text-sm">
+      <input
+        value={name}
+        onChange={e => setName(e.target.value)}
+        disabled={isSaving}
+        placeholder="Folder name"
+        required
+        className="rounded-md border-gray-300 shadow-sm text-sm"
+      />
+      {folders.length > 0 && (
+        <select
+          value={parentId}
+          onChange={e => setParentId(e.target.value)}
+          disabled={isSaving}
+          className="rounded-md border-gray-300 shadow-sm text-sm"
+        >
+          <option value="">Top level</option>
+          {folders.map(folder => (
+            <option key={folder.id} value={folder.id}>{folder.name}</option>
+          ))}
+        </select>
+      )}
+      <button
+        type="submit"
+        disabled={isSaving}
+        className="px-3 py-1 text-sm text-blue-600 border border-blue-600 rounded-md hover:bg-blue-50 transition-colors disabled:opacity-50"
+      >
+        Add folder
+      </button>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { reviewDocumentVersion } from '@/lib/actions/document-actions';
+
+/**
+ * Approve or reject an upload awaiting review
+ */
+export default function DocumentReviewActions({ versionId }: { versionId: string }) {
+  const router = useRouter();
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const review = async (decision: 'approved' | 'rejected') => {
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const result = await reviewDocumentVersion(versionId, decision);
+
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error || 'Failed to review upload');
+      }
+    } catch {
+      setError('An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <span className="inline-flex items-center space-x-3">
+      <button type="button" onClick={() => review('approved')} disabled={isSaving} className="text-sm text-green-600 hover:underline disabled:opacity-50">
+        Approve
+      </button>
+      <button type="button" onClick={() => review('rejected')} disabled={isSaving} className="text-sm text-red-600 hover:underline disabled:opacity-50">
+        Reject
+      </button>
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </span>
+  );
+}
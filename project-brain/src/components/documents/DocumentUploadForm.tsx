@@ -0,0 +1,124 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { DocumentFolder } from '@/lib/documents';
+import { completeDocumentUpload, requestDocumentUpload } from '@/lib/actions/document-actions';
+
+interface DocumentUploadFormProps {
+  projectId: string;
+
+  /**
+   * Folders a new document can be filed in
+   */
+  folders?: DocumentFolder[];
+
+  /**
+   * Document to add a new version to; a new document is created when omitted
+   */
+  documentId?: string;
+}
+
+/**
+ * Upload a file straight to storage through a signed link, as a new document
+ * or a new version of one
+ */
+export default function DocumentUploadForm({ projectId, folders = [], documentId }: DocumentUploadFormProps) {
+  const router = useRouter();
+  const [file, setFile] = useState<File | null>(null);
+  const [folderId, setFolderId] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!file) return;
+
+    const form = event.currentTarget;
+
+    try {
+      setIsUploading(true);
+      setMessage(null);
+
+      const upload = await requestDocumentUpload(projectId, {
+        documentId: documentId ?? null,
+        folderId: folderId || null,
+        fileName: file.name,
+        contentType: file.type,
+        sizeBytes: file.size,
+      });
+
+      if (!upload.success || !upload.uploadUrl || !upload.versionId) {
+        setMessage({ text: upload.error || 'Failed to upload file', type: 'error' });
+        return;
+      }
+
+      const response = await fetch(upload.uploadUrl, {
+        method: 'PUT',
+        headers: { 'Content-Type': file.type || 'application/octet-stream' },
+        body: file,
+      });
+
+      if (!response.ok) {
+        setMessage({ text: 'Failed to upload file', type: 'error' });
+        return;
+      }
+
+      const result = await completeDocumentUpload(upload.versionId);
+
+      if (result.success) {
+        setMessage({
+          text: result.reviewStatus === 'approved' ? 'File uploaded' : 'File uploaded and sent for review',
+          type: 'success',
+        });
+        setFile(null);
+        form.reset();
+        router.refresh();
+      } else {
+        setMessage({ text: result.error || 'Failed to upload file', type: 'error' });
+      }
+    } catch {
+      setMessage({ text: 'An error occurred', type: 'error' });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-2 text-sm">
+      <input
+        type="file"
+        onChange={e => setFile(e.target.files?.[0] ?? null)}
+        disabled={isUploading}
+        required
+        className="text-sm"
+      />
+      {!documentId && folders.length > 0 && (
+        <select
+          value={folderId}
+          onChange={e => setFolderId(e.target.value)}
+          disabled={isUploading}
+          className="rounded-md border-gray-300 shadow-sm text-sm"
+        >
+          <option value="">No folder</option>
+          {folders.map(folder => (
+            <option key={folder.id} value={folder.id}>{folder.name}</option>
+          ))}
+        </select>
+      )}
+      <button
+        type="submit"
+        disabled={isUploading || !file}
+        className="px-3 py-1 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+      >
+        {isUploading ? 'Uploading...' : documentId ? 'Upload new version' : 'Upload'}
+      </button>
+
+      {message && (
+        <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+          {message.text}
+        </p>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,207 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  PROJECT_PHASES,
+  PROJECT_PHASE_LABELS,
+  PROJECT_STATUSES,
+  PROJECT_STATUS_LABELS,
+  Project,
+  ProjectPhase,
+  ProjectStatus,
+} from '@/lib/projects';
+import { TemplateSummary } from '@/lib/templates';
+import { createProject, createProjectFromTemplate, updateProject } from '@/lib/actions/project-actions';
+
+interface ProjectFormProps {
+  /**
+   * Project to edit; a new project is created when omitted
+   */
+  project?: Project;
+
+  /**
+   * Templates a new project can be created from
+   */
+  templates?: TemplateSummary[];
+}
+
+/**
+ * Form to create or edit a project: name, address, client, scope, status and phase
+ */
+export default function ProjectForm({ project, templates = [] }: ProjectFormProps) {
+  const router = useRouter();
+  const [name, setName] = useState(project?.name ?? '');
+  const [address, setAddress] = useState(project?.address ?? '');
+  const [clientName, setClientName] = useState(project?.clientName ?? '');
+  const [clientEmail, setClientEmail] = useState(project?.clientEmail ?? '');
+  const [scope, setScope] = useState(project?.scope ?? '');
+  const [status, setStatus] = useState<ProjectStatus>(project?.status ?? 'active');
+  const [phase, setPhase] = useState<ProjectPhase>(project?.phase ?? 'brief');
+  const [templateId, setTemplateId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const data = { name, address, clientName, clientEmail, scope, status, phase };
+
+      if (project) {
+        const result = await updateProject(project.id, data);
+
+        if (result.success) {
+          router.push(`/projects/${project.id}`);
+          router.refresh();
+        } else {
+          setError(result.error || 'Failed to save project');
+        }
+      } else {
+        const result = templateId
+          ? await createProjectFromTemplate(templateId, data)
+          : await createProject(data);
+
+        if (result.success && result.projectId) {
+          router.push(`/projects/${result.projectId}`);
+        } else {
+          setError(result.error || 'Failed to create project');
+        }
+      }
+    } catch {
+      setError('An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 space-y-4">
+      {!project && templates.length > 0 && (
+        <label className="block text-sm">
+          <span className="text-gray-700">Template</span>
+          <select
+            value={templateId}
+            onChange={e => setTemplateId(e.target.value)}
+            disabled={isSaving}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm"
+          >
+            <option value="">Blank project</option>
+            {templates.map(template => (
+              <option key={template.id} value={template.id}>
+                {template.name} (v{template.currentVersion})
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      <label className="block text-sm">
+        <span className="text-gray-700">Project name</span>
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          disabled={isSaving}
+          required
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm"
+        />
+      </label>
+
+      <label className="block text-sm">
+        <span className="text-gray-700">Address</span>
+        <input
+          value={address}
+          onChange={e => setAddress(e.target.value)}
+          disabled={isSaving}
+          placeholder="12 Example Street, Suburb"
+          required
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm"
+        />
+      </label>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="block text-sm">
+          <span className="text-gray-700">Client</span>
+          <input
+            value={clientName}
+            onChange={e => setClientName(e.target.value)}
+            disabled={isSaving}
+            required
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm"
+          />
+        </label>
+        <label className="block text-sm">
+          <span className="text-gray-700">Client email</span>
+          <input
+            type="email"
+            value={clientEmail}
+            onChange={e => setClientEmail(e.target.value)}
+            disabled={isSaving}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm"
+          />
+        </label>
+      </div>
+
+      <label className="block text-sm">
+        <span className="text-gray-700">Scope</span>
+        <textarea
+          value={scope}
+          onChange={e => setScope(e.target.value)}
+          disabled={isSaving}
+          rows={5}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm"
+        />
+      </label>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="block text-sm">
+          <span className="text-gray-700">Status</span>
+          <select
+            value={status}
+            onChange={e => setStatus(e.target.value as ProjectStatus)}
+            disabled={isSaving}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm"
+          >
+            {PROJECT_STATUSES.map(option => (
+              <option key={option} value={option}>
+                {PROJECT_STATUS_LABELS[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm">
+          <span className="text-gray-700">Phase</span>
+          <select
+            value={phase}
+            onChange={e => setPhase(e.target.value as ProjectPhase)}
+            disabled={isSaving}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm"
+          >
+            {PROJECT_PHASES.map(option => (
+              <option key={option} value={option}>
+                {PROJECT_PHASE_LABELS[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={isSaving}
+        className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+      >
+        {isSaving ? 'Saving...' : project ? 'Save changes' : 'Create project'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,16 @@
+import { PROJECT_STATUS_LABELS, ProjectStatus } from '@/lib/projects';
+
+const STATUS_CLASSES: Record<ProjectStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  on_hold: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-blue-100 text-blue-800',
+  cancelled: 'bg-gray-100 text-gray-700',
+};
+
+export default function ProjectStatusBadge({ status }: { status: ProjectStatus }) {
+  return (
+    <span className={`px-2 py-0.5 text-xs rounded-full ${STATUS_CLASSES[status]}`}>
+      {PROJECT_STATUS_LABELS[status]}
+    </span>
+  );
+}
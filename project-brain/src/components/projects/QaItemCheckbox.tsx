@@ -0,0 +1,49 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { setQaItemChecked } from '@/lib/actions/project-actions';
+
+/**
+ * Tick or untick an item on a project's QA checklist
+ */
+export default function QaItemCheckbox({ qaItemId, label, checked }: { qaItemId: string; label: string; checked: boolean }) {
+  const router = useRouter();
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChange = async (next: boolean) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const result = await setQaItemChecked(qaItemId, next);
+
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error || 'Failed to update QA item');
+      }
+    } catch {
+      setError('An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <span className="inline-flex flex-col">
+      <label className="inline-flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={checked}
+          onChange={e => handleChange(e.target.checked)}
+          disabled={isSaving}
+          className="rounded border-gray-300"
+        />
+        <span>{label}</span>
+      </label>
+      {error && <span className="text-xs text-red-600 mt-1">{error}</span>}
+    </span>
+  );
+}
@@ -0,0 +1,262 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { TemplateDefinition, TemplatePhase } from '@/lib/templates';
+import { saveTemplate } from '@/lib/actions/template-actions';
+
+interface TemplateEditorProps {
+  /**
+   * Template to edit; a new template is created when omitted
+   */
+  template?: { id: string; name: string; description: string };
+
+  /**
+   * Definition to start from, usually the template's current version
+   */
+  definition?: TemplateDefinition;
+}
+
+const EMPTY_PHASE: TemplatePhase = { name: '', tasks: [], checklist: [], fees: [] };
+
+const inputClass = 'block w-full rounded-md border-gray-300 shadow-sm text-sm';
+
+// Move an item up (-1) or down (1) a list
+function move<T>(items: T[], index: number, offset: number): T[] {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) return items;
+
+  const moved = [...items];
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return moved;
+}
+
+function replace<T>(items: T[], index: number, item: T): T[] {
+  return items.map((current, i) => (i === index ? item : current));
+}
+
+function remove<T>(items: T[], index: number): T[] {
+  return items.filter((_, i) => i !== index);
+}
+
+/**
+ * Editor for a project template: ordered phases, each with task blueprints,
+ * QA checklist items and fee lines. Saving always creates a new version.
+ */
+export default function TemplateEditor({ template, definition }: TemplateEditorProps) {
+  const router = useRouter();
+  const [name, setName] = useState(template?.name ?? '');
+  const [description, setDescription] = useState(template?.description ?? '');
+  const [phases, setPhases] = useState<TemplatePhase[]>(definition?.phases ?? [EMPTY_PHASE]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+  const updatePhase = (index: number, patch: Partial<TemplatePhase>) =>
+    setPhases(current => replace(current, index, { ...current[index], ...patch }));
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setIsSaving(true);
+      setMessage(null);
+
+      const result = await saveTemplate(template?.id ?? null, { name, description, definition: { phases } });
+
+      if (result.success && result.templateId) {
+        setMessage({ text: 'Template saved as a new version', type: 'success' });
+        if (template) {
+          router.refresh();
+        } else {
+          router.push(`/projects/templates/${result.templateId}`);
+        }
+      } else {
+        setMessage({ text: result.error || 'Failed to save template', type: 'error' });
+      }
+    } catch {
+      setMessage({ text: 'An error occurred', type: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6 space-y-4">
+        <label className="block text-sm">
+          <span className="text-gray-700">Template name</span>
+          <input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            disabled={isSaving}
+            placeholder="New residential build"
+            required
+            className={`mt-1 ${inputClass}`}
+          />
+        </label>
+        <label className="block text-sm">
+          <span className="text-gray-700">Description</span>
+          <textarea
+            value={description}
+            onChange={e => setDescription(e.target.value)}
+            disabled={isSaving}
+            rows={2}
+            className={`mt-1 ${inputClass}`}
+          />
+        </label>
+      </div>
+
+      {phases.map((phase, phaseIndex) => (
+        <fieldset key={phaseIndex} className="bg-white rounded-lg shadow p-6 space-y-4">
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-gray-500">{phaseIndex + 1}.</span>
+            <input
+              value={phase.name}
+              onChange={e => updatePhase(phaseIndex, { name: e.target.value })}
+              disabled={isSaving}
+              placeholder="Phase name"
+              required
+              className={inputClass}
+            />
+            <button type="button" onClick={() => setPhases(current => move(current, phaseIndex, -1))} disabled={isSaving} className="text-sm text-gray-600">
+              ↑
+            </button>
+            <button type="button" onClick={() => setPhases(current => move(current, phaseIndex, 1))} disabled={isSaving} className="text-sm text-gray-600">
+              ↓
+            </button>
+            <button type="button" onClick={() => setPhases(current => remove(current, phaseIndex))} disabled={isSaving} className="text-sm text-red-600">
+              Remove
+            </button>
+          </div>
+
+          <div>
+            <p className="text-sm text-gray-700 mb-2">Tasks</p>
+            {phase.tasks.map((task, index) => (
+              <div key={index} className="flex items-center space-x-2 mb-2">
+                <input
+                  value={task.title}
+                  onChange={e => updatePhase(phaseIndex, { tasks: replace(phase.tasks, index, { ...task, title: e.target.value }) })}
+                  disabled={isSaving}
+                  placeholder="Title"
+                  required
+                  className={inputClass}
+                />
+                <input
+                  value={task.description}
+                  onChange={e => updatePhase(phaseIndex, { tasks: replace(phase.tasks, index, { ...task, description: e.target.value }) })}
+                  disabled={isSaving}
+                  placeholder="Description"
+                  className={inputClass}
+                />
+                <button type="button" onClick={() => updatePhase(phaseIndex, { tasks: move(phase.tasks, index, -1) })} disabled={isSaving} className="text-sm text-gray-600">
+                  ↑
+                </button>
+                <button type="button" onClick={() => updatePhase(phaseIndex, { tasks: remove(phase.tasks, index) })} disabled={isSaving} className="text-sm text-red-600">
+                  ✕
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => updatePhase(phaseIndex, { tasks: [...phase.tasks, { title: '', description: '' }] })}
+              disabled={isSaving}
+              className="text-sm text-blue-600 hover:underline"
+            >
+              Add task
+            </button>
+          </div>
+
+          <div>
+            <p className="text-sm text-gray-700 mb-2">QA checklist</p>
+            {phase.checklist.map((item, index) => (
+              <div key={index} className="flex items-center space-x-2 mb-2">
+                <input
+                  value={item.label}
+                  onChange={e => updatePhase(phaseIndex, { checklist: replace(phase.checklist, index, { label: e.target.value }) })}
+                  disabled={isSaving}
+                  placeholder="Checklist item"
+                  required
+                  className={inputClass}
+                />
+                <button type="button" onClick={() => updatePhase(phaseIndex, { checklist: move(phase.checklist, index, -1) })} disabled={isSaving} className="text-sm text-gray-600">
+                  ↑
+                </button>
+                <button type="button" onClick={() => updatePhase(phaseIndex, { checklist: remove(phase.checklist, index) })} disabled={isSaving} className="text-sm text-red-600">
+                  ✕
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => updatePhase(phaseIndex, { checklist: [...phase.checklist, { label: '' }] })}
+              disabled={isSaving}
+              className="text-sm text-blue-600 hover:underline"
+            >
+              Add checklist item
+            </button>
+          </div>
+
+          <div>
+            <p className="text-sm text-gray-700 mb-2">Fees</p>
+            {phase.fees.map((fee, index) => (
+              <div key={index} className="flex items-center space-x-2 mb-2">
+                <input
+                  value={fee.description}
+                  onChange={e => updatePhase(phaseIndex, { fees: replace(phase.fees, index, { ...fee, description: e.target.value }) })}
+                  disabled={isSaving}
+                  placeholder="Description"
+                  required
+                  className={inputClass}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  value={fee.amount}
+                  onChange={e => updatePhase(phaseIndex, { fees: replace(phase.fees, index, { ...fee, amount: Number(e.target.value) }) })}
+                  disabled={isSaving}
+                  className={`${inputClass} w-40`}
+                />
+                <button type="button" onClick={() => updatePhase(phaseIndex, { fees: remove(phase.fees, index) })} disabled={isSaving} className="text-sm text-red-600">
+                  ✕
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => updatePhase(phaseIndex, { fees: [...phase.fees, { description: '', amount: 0 }] })}
+              disabled={isSaving}
+              className="text-sm text-blue-600 hover:underline"
+            >
+              Add fee line
+            </button>
+          </div>
+        </fieldset>
+      ))}
+
+      <div className="flex items-center space-x-4">
+        <button
+          type="button"
+          onClick={() => setPhases(current => [...current, EMPTY_PHASE])}
+          disabled={isSaving}
+          className="px-4 py-2 text-sm text-blue-600 border border-blue-600 rounded-md hover:bg-blue-50 transition-colors disabled:opacity-50"
+        >
+          Add phase
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {template ? 'Save new version' : 'Create template'}
+        </button>
+
+        {message && (
+          <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+            {message.text}
+          </p>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Submission } from '@/lib/submissions';
+import { createSubmission, updateSubmission } from '@/lib/actions/submission-actions';
+
+interface SubmissionFormProps {
+  projectId: string;
+
+  /**
+   * Submission to edit; a new draft is created when omitted
+   */
+  submission?: Submission;
+}
+
+const inputClass = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm';
+
+/**
+ * Form to write or revise content for review
+ */
+export default function SubmissionForm({ projectId, submission }: SubmissionFormProps) {
+  const router = useRouter();
+  const [title, setTitle] = useState(submission?.title ?? '');
+  const [body, setBody] = useState(submission?.body ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (submit: boolean) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      if (submission) {
+        const result = await updateSubmission(submission.id, { title, body });
+
+        if (result.success) {
+          router.refresh();
+        } else {
+          setError(result.error || 'Failed to save submission');
+        }
+      } else {
+        const result = await createSubmission(projectId, { title, body }, submit);
+
+        if (result.submissionId) {
+          router.push(`/projects/${projectId}/submissions/${result.submissionId}`);
+        }
+        if (!result.success) {
+          setError(result.error || 'Failed to save submission');
+        }
+      }
+    } catch {
+      setError('An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={(event) => {
+        event.preventDefault();
+        save(false);
+      }}
+      className="bg-white rounded-lg shadow p-6 space-y-4"
+    >
+      <label className="block text-sm">
+        <span className="text-gray-700">Title</span>
+        <input value={title} onChange={e => setTitle(e.target.value)} disabled={isSaving} required className={inputClass} />
+      </label>
+      <label className="block text-sm">
+        <span className="text-gray-700">Content</span>
+        <textarea value={body} onChange={e => setBody(e.target.value)} disabled={isSaving} rows={10} required className={inputClass} />
+      </label>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex items-center space-x-4">
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 text-sm text-blue-600 border border-blue-600 rounded-md hover:bg-blue-50 transition-colors disabled:opacity-50"
+        >
+          {submission ? 'Save changes' : 'Save draft'}
+        </button>
+        {!submission && (
+          <button
+            type="button"
+            onClick={() => save(true)}
+            disabled={isSaving}
+            className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            Submit for review
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { SUBMISSION_TRANSITIONS, SubmissionAction } from '@/lib/submissions';
+import { addSubmissionComment, transitionSubmission } from '@/lib/actions/submission-actions';
+
+interface SubmissionReviewPanelProps {
+  submissionId: string;
+
+  /**
+   * What the current user can do with the submission, worked out on the server
+   */
+  actions: SubmissionAction[];
+}
+
+const ACTION_CLASSES: Record<SubmissionAction, string> = {
+  submit: 'text-white bg-blue-600 hover:bg-blue-700',
+  request_changes: 'text-yellow-800 border border-yellow-600 hover:bg-yellow-50',
+  approve: 'text-white bg-green-600 hover:bg-green-700',
+  reject: 'text-white bg-red-600 hover:bg-red-700',
+};
+
+/**
+ * Comment on a submission and move it through review. Requesting changes and
+ * rejecting need a comment saying why.
+ */
+export default function SubmissionReviewPanel({ submissionId, actions }: SubmissionReviewPanelProps) {
+  const router = useRouter();
+  const [comment, setComment] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: SubmissionAction | 'comment') => {
+    if ((action === 'comment' || SUBMISSION_TRANSITIONS[action].requiresComment) && !comment.trim()) {
+      setError('Add a comment explaining why');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const result = action === 'comment'
+        ? await addSubmissionComment(submissionId, comment)
+        : await transitionSubmission(submissionId, action, comment);
+
+      if (result.success) {
+        setComment('');
+        router.refresh();
+      } else {
+        setError(result.error || 'Failed to update submission');
+      }
+    } catch {
+      setError('An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-3">
+      <textarea
+        value={comment}
+        onChange={e => setComment(e.target.value)}
+        disabled={isSaving}
+        rows={3}
+        placeholder="Comment"
+        className="block w-full rounded-md border-gray-300 shadow-sm text-sm"
+      />
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => run('comment')}
+          disabled={isSaving}
+          className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors disabled:opacity-50"
+        >
+          Comment
+        </button>
+        {actions.map((action) => (
+          <button
+            key={action}
+            type="button"
+            onClick={() => run(action)}
+            disabled={isSaving}
+            className={`px-3 py-1 text-sm rounded-md transition-colors disabled:opacity-50 ${ACTION_CLASSES[action]}`}
+          >
+            {SUBMISSION_TRANSITIONS[action].label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import { SUBMISSION_STATUS_LABELS, SubmissionStatus } from '@/lib/submissions';
+
+const STATUS_CLASSES: Record<SubmissionStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  submitted: 'bg-blue-100 text-blue-800',
+  changes_requested: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+export default function SubmissionStatusBadge({ status }: { status: SubmissionStatus }) {
+  return (
+    <span className={`px-2 py-0.5 text-xs rounded-full ${STATUS_CLASSES[status]}`}>
+      {SUBMISSION_STATUS_LABELS[status]}
+    </span>
+  );
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { addTaskComment } from '@/lib/actions/task-actions';
+
+/**
+ * Comment on a task
+ */
+export default function TaskCommentForm({ taskId }: { taskId: string }) {
+  const router = useRouter();
+  const [body, setBody] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const result = await addTaskComment(taskId, body);
+
+      if (result.success) {
+        setBody('');
+        router.refresh();
+      } else {
+        setError(result.error || 'Failed to add comment');
+      }
+    } catch {
+      setError('An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 space-y-3">
+      <textarea
+        value={body}
+        onChange={e => setBody(e.target.value)}
+        disabled={isSaving}
+        rows={3}
+        placeholder="Comment"
+        required
+        className="block w-full rounded-md border-gray-300 shadow-sm text-sm"
+      />
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={isSaving}
+        className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors disabled:opacity-50"
+      >
+        Comment
+      </button>
+    </form>
+  );
+}
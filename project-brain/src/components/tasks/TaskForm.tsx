@@ -0,0 +1,193 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { TASK_STATUSES, TASK_STATUS_LABELS, Task, TaskStatus } from '@/lib/tasks';
+import { createTask, updateTask } from '@/lib/actions/task-actions';
+
+interface TaskFormProps {
+  projectId: string;
+
+  /**
+   * Task to edit; a new task is created when omitted
+   */
+  task?: Task;
+
+  /**
+   * The project's phases, in order
+   */
+  phases: { id: string; name: string }[];
+
+  /**
+   * Users the task can be assigned to: the project team
+   */
+  users: { id: string; email: string }[];
+
+  /**
+   * Other tasks on the project it can depend on
+   */
+  tasks: Pick<Task, 'id' | 'title'>[];
+}
+
+const inputClass = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm';
+
+/**
+ * Form to create or edit a task: its phase, assignee, due date, status,
+ * whether it is shared with clients and builders, and what it depends on
+ */
+export default function TaskForm({ projectId, task, phases, users, tasks }: TaskFormProps) {
+  const router = useRouter();
+  const [title, setTitle] = useState(task?.title ?? '');
+  const [description, setDescription] = useState(task?.description ?? '');
+  const [phaseId, setPhaseId] = useState(task?.phaseId ?? '');
+  const [assigneeId, setAssigneeId] = useState(task?.assigneeId ?? '');
+  const [dueDate, setDueDate] = useState(task?.dueDate ?? '');
+  const [status, setStatus] = useState<TaskStatus>(task?.status ?? 'todo');
+  const [shared, setShared] = useState(task?.shared ?? false);
+  const [dependsOn, setDependsOn] = useState<string[]>(task?.dependsOn ?? []);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleDependency = (id: string) => {
+    setDependsOn(current => current.includes(id) ? current.filter(other => other !== id) : [...current, id]);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const data = {
+        title,
+        description,
+        phaseId: phaseId || null,
+        assigneeId: assigneeId || null,
+        dueDate,
+        status,
+        shared,
+        dependsOn,
+      };
+
+      if (task) {
+        const result = await updateTask(task.id, data);
+
+        if (result.success) {
+          router.refresh();
+        } else {
+          setError(result.error || 'Failed to save task');
+        }
+      } else {
+        const result = await createTask(projectId, data);
+
+        if (result.taskId) {
+          router.push(`/projects/${projectId}/tasks/${result.taskId}`);
+        }
+        if (!result.success) {
+          setError(result.error || 'Failed to create task');
+        }
+      }
+    } catch {
+      setError('An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const dependencyOptions = tasks.filter(other => other.id !== task?.id);
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 space-y-4">
+      <label className="block text-sm">
+        <span className="text-gray-700">Title</span>
+        <input value={title} onChange={e => setTitle(e.target.value)} disabled={isSaving} required className={inputClass} />
+      </label>
+
+      <label className="block text-sm">
+        <span className="text-gray-700">Description</span>
+        <textarea value={description} onChange={e => setDescription(e.target.value)} disabled={isSaving} rows={4} className={inputClass} />
+      </label>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="block text-sm">
+          <span className="text-gray-700">Phase</span>
+          <select value={phaseId} onChange={e => setPhaseId(e.target.value)} disabled={isSaving} className={inputClass}>
+            <option value="">No phase</option>
+            {phases.map(phase => (
+              <option key={phase.id} value={phase.id}>
+                {phase.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm">
+          <span className="text-gray-700">Assignee</span>
+          <select value={assigneeId} onChange={e => setAssigneeId(e.target.value)} disabled={isSaving} className={inputClass}>
+            <option value="">Unassigned</option>
+            {task?.assigneeId && !users.some(user => user.id === task.assigneeId) && (
+              <option value={task.assigneeId}>Current assignee (no longer on the project team)</option>
+            )}
+            {users.map(user => (
+              <option key={user.id} value={user.id}>
+                {user.email}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm">
+          <span className="text-gray-700">Due date</span>
+          <input type="date" value={dueDate} onChange={e => setDueDate(e.target.value)} disabled={isSaving} className={inputClass} />
+        </label>
+        <label className="block text-sm">
+          <span className="text-gray-700">Status</span>
+          <select value={status} onChange={e => setStatus(e.target.value as TaskStatus)} disabled={isSaving} className={inputClass}>
+            {TASK_STATUSES.map(option => (
+              <option key={option} value={option}>
+                {TASK_STATUS_LABELS[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <label className="flex items-center space-x-2 text-sm">
+        <input type="checkbox" checked={shared} onChange={e => setShared(e.target.checked)} disabled={isSaving} />
+        <span className="text-gray-700">Share with the client and builders on this project</span>
+      </label>
+
+      {dependencyOptions.length > 0 && (
+        <fieldset className="text-sm">
+          <legend className="text-gray-700 mb-1">Depends on</legend>
+          <div className="max-h-40 overflow-y-auto space-y-1">
+            {dependencyOptions.map(other => (
+              <label key={other.id} className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={dependsOn.includes(other.id)}
+                  onChange={() => toggleDependency(other.id)}
+                  disabled={isSaving}
+                />
+                <span>{other.title}</span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={isSaving}
+        className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+      >
+        {isSaving ? 'Saving...' : task ? 'Save task' : 'Create task'}
+      </button>
+    </form>
+  );
+}
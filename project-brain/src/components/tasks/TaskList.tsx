@@ -0,0 +1,39 @@
+import Link from 'next/link';
+import { TaskListItem, isTaskOverdue } from '@/lib/tasks';
+import TaskStatusBadge from './TaskStatusBadge';
+
+/**
+ * Tasks from any number of projects, each linking to its page
+ */
+export default function TaskList({ tasks, empty }: { tasks: TaskListItem[]; empty: string }) {
+  if (tasks.length === 0) {
+    return <p className="text-sm text-gray-500">{empty}</p>;
+  }
+
+  return (
+    <ul className="bg-white rounded-lg shadow divide-y divide-gray-100">
+      {tasks.map((task) => (
+        <li key={task.id}>
+          <Link
+            href={`/projects/${task.projectId}/tasks/${task.id}`}
+            className="flex items-center justify-between px-4 py-3 text-sm hover:bg-gray-50"
+          >
+            <span>
+              <span className="font-medium">{task.title}</span>
+              <span className="text-gray-500">
+                {' · '}{task.projectName}
+                {task.phaseName && ` · ${task.phaseName}`}
+              </span>
+            </span>
+            <span className="flex items-center space-x-3 text-gray-500">
+              {task.dueDate && (
+                <span className={isTaskOverdue(task) ? 'text-red-600' : undefined}>Due {task.dueDate}</span>
+              )}
+              <TaskStatusBadge status={task.status} />
+            </span>
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
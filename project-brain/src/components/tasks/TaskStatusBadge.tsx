@@ -0,0 +1,16 @@
+import { TASK_STATUS_LABELS, TaskStatus } from '@/lib/tasks';
+
+const STATUS_CLASSES: Record<TaskStatus, string> = {
+  todo: 'bg-gray-100 text-gray-700',
+  in_progress: 'bg-blue-100 text-blue-800',
+  blocked: 'bg-red-100 text-red-800',
+  done: 'bg-green-100 text-green-800',
+};
+
+export default function TaskStatusBadge({ status }: { status: TaskStatus }) {
+  return (
+    <span className={`px-2 py-0.5 text-xs rounded-full ${STATUS_CLASSES[status]}`}>
+      {TASK_STATUS_LABELS[status]}
+    </span>
+  );
+}
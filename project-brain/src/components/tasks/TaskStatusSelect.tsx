@@ -0,0 +1,53 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { TASK_STATUSES, TASK_STATUS_LABELS, TaskStatus } from '@/lib/tasks';
+import { updateTaskStatus } from '@/lib/actions/task-actions';
+
+/**
+ * Move a task to another column of the board
+ */
+export default function TaskStatusSelect({ taskId, status }: { taskId: string; status: TaskStatus }) {
+  const router = useRouter();
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChange = async (next: TaskStatus) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const result = await updateTaskStatus(taskId, next);
+
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error || 'Failed to update task');
+      }
+    } catch {
+      setError('An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <span className="inline-flex flex-col">
+      <select
+        value={status}
+        onChange={e => handleChange(e.target.value as TaskStatus)}
+        disabled={isSaving}
+        aria-label="Task status"
+        className="rounded-md border-gray-300 shadow-sm text-xs"
+      >
+        {TASK_STATUSES.map(option => (
+          <option key={option} value={option}>
+            {TASK_STATUS_LABELS[option]}
+          </option>
+        ))}
+      </select>
+      {error && <span className="text-xs text-red-600 mt-1">{error}</span>}
+    </span>
+  );
+}
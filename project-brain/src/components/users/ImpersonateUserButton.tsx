@@ -0,0 +1,82 @@
+'use client';
+
+import { useState } from 'react';
+import { startImpersonation } from '@/lib/actions/impersonation-actions';
+
+interface ImpersonateUserButtonProps {
+  userId: string;
+}
+
+/**
+ * Lets an admin view the app as a user, after saying why
+ */
+export default function ImpersonateUserButton({ userId }: ImpersonateUserButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setIsStarting(true);
+      setError(null);
+
+      const result = await startImpersonation(userId, reason);
+
+      if (result.success) {
+        // A full load, so every PermissionGate checks again as the user
+        window.location.assign('/');
+      } else {
+        setError(result.error || 'Failed to start impersonation');
+        setIsStarting(false);
+      }
+    } catch {
+      setError('An error occurred');
+      setIsStarting(false);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="px-3 py-1 text-xs text-gray-700 border border-gray-400 rounded-md hover:bg-gray-50 transition-colors"
+      >
+        View as user
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-1">
+      <div className="flex space-x-2">
+        <input
+          required
+          maxLength={500}
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason, e.g. support ticket"
+          className="block w-48 rounded-md border-gray-300 shadow-sm text-xs"
+        />
+        <button
+          type="submit"
+          disabled={isStarting}
+          className="px-3 py-1 text-xs text-white bg-gray-700 rounded-md hover:bg-gray-800 transition-colors disabled:opacity-50"
+        >
+          {isStarting ? 'Starting…' : 'Start'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsOpen(false)}
+          className="text-xs text-gray-500 hover:underline"
+        >
+          Cancel
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { resendInvitation, revokeInvitation } from '@/lib/actions/invitation-actions';
+import InvitationLink from '@/components/users/InvitationLink';
+
+interface InvitationActionsProps {
+  invitationId: string;
+}
+
+/**
+ * Resend (with a new link) or revoke a pending invitation
+ */
+export default function InvitationActions({ invitationId }: InvitationActionsProps) {
+  const router = useRouter();
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+
+  const handleResend = async () => {
+    try {
+      setIsWorking(true);
+      setError(null);
+
+      const result = await resendInvitation(invitationId);
+
+      if (result.success) {
+        setInviteUrl(result.inviteUrl ?? null);
+        router.refresh();
+      } else {
+        setError(result.error || 'Failed to resend invitation');
+      }
+    } catch {
+      setError('An error occurred');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    try {
+      setIsWorking(true);
+      setError(null);
+
+      const result = await revokeInvitation(invitationId);
+
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error || 'Failed to revoke invitation');
+      }
+    } catch {
+      setError('An error occurred');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex space-x-2">
+        <button
+          type="button"
+          onClick={handleResend}
+          disabled={isWorking}
+          className="px-3 py-1 text-xs text-blue-700 border border-blue-600 rounded-md hover:bg-blue-50 transition-colors disabled:opacity-50"
+        >
+          Resend
+        </button>
+        <button
+          type="button"
+          onClick={handleRevoke}
+          disabled={isWorking}
+          className="px-3 py-1 text-xs text-red-700 border border-red-600 rounded-md hover:bg-red-50 transition-colors disabled:opacity-50"
+        >
+          Revoke
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {inviteUrl && <InvitationLink url={inviteUrl} />}
+    </div>
+  );
+}
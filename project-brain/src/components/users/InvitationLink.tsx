@@ -0,0 +1,41 @@
+'use client';
+
+import { useState } from 'react';
+
+interface InvitationLinkProps {
+  url: string;
+}
+
+/**
+ * A freshly issued invitation link, shown once for the inviter to send on
+ */
+export default function InvitationLink({ url }: InvitationLinkProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <div className="p-3 bg-green-50 border border-green-200 rounded-md text-sm space-y-2">
+      <p className="text-green-800">
+        Invitation ready. Send this link to the invitee; it won&apos;t be shown again.
+      </p>
+      <div className="flex items-center space-x-2">
+        <input readOnly value={url} className="flex-1 rounded-md border-gray-300 text-xs font-mono" />
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="px-3 py-1 text-xs text-green-700 border border-green-600 rounded-md hover:bg-green-100 transition-colors"
+        >
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { createInvitation } from '@/lib/actions/invitation-actions';
+import type { RoleDefinition, UserRole } from '@/lib/auth';
+import InvitationLink from '@/components/users/InvitationLink';
+
+interface InviteUserFormProps {
+  /**
+   * Roles the current user may invite with, from the role registry
+   */
+  roles: RoleDefinition[];
+}
+
+type ProjectRow = { projectId: string; role: UserRole };
+
+const inputClassName =
+  'block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-300 focus:ring focus:ring-indigo-200 focus:ring-opacity-50 text-sm';
+
+/**
+ * Form to invite someone by email with a role and optional project memberships
+ */
+export default function InviteUserForm({ roles }: InviteUserFormProps) {
+  const router = useRouter();
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<UserRole>(roles[0]?.key ?? 'client');
+  const [projects, setProjects] = useState<ProjectRow[]>([]);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+
+  const updateProject = (index: number, changes: Partial<ProjectRow>) =>
+    setProjects(projects.map((project, i) => (i === index ? { ...project, ...changes } : project)));
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setIsSending(true);
+      setError(null);
+      setInviteUrl(null);
+
+      const result = await createInvitation({ email, role, projects });
+
+      if (result.success) {
+        setInviteUrl(result.inviteUrl ?? null);
+        setEmail('');
+        setProjects([]);
+        router.refresh();
+      } else {
+        setError(result.error || 'Failed to send invitation');
+      }
+    } catch {
+      setError('An error occurred');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-4 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <label className="block text-sm md:col-span-2">
+          <span className="text-gray-700">Email</span>
+          <input
+            type="email"
+            required
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="name@example.com"
+            className={`mt-1 ${inputClassName}`}
+          />
+        </label>
+        <label className="block text-sm">
+          <span className="text-gray-700">Role</span>
+          <select value={role} onChange={(e) => setRole(e.target.value)} className={`mt-1 ${inputClassName}`}>
+            {roles.map((definition) => (
+              <option key={definition.key} value={definition.key}>
+                {definition.displayName}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm text-gray-700">Projects</p>
+        {projects.map((project, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <input
+              required
+              value={project.projectId}
+              onChange={(e) => updateProject(index, { projectId: e.target.value })}
+              placeholder="Project ID"
+              className={`${inputClassName} font-mono`}
+            />
+            <select
+              value={project.role}
+              onChange={(e) => updateProject(index, { role: e.target.value })}
+              className={`${inputClassName} max-w-[10rem]`}
+            >
+              {roles.map((definition) => (
+                <option key={definition.key} value={definition.key}>
+                  {definition.displayName}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => setProjects(projects.filter((_, i) => i !== index))}
+              className="text-xs text-gray-500 hover:text-red-600"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setProjects([...projects, { projectId: '', role }])}
+          className="text-sm text-blue-600 hover:underline"
+        >
+          Add project
+        </button>
+      </div>
+
+      <div className="flex items-center space-x-4">
+        <button
+          type="submit"
+          disabled={isSending}
+          className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isSending ? 'Sending…' : 'Send invitation'}
+        </button>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+
+      {inviteUrl && <InvitationLink url={inviteUrl} />}
+    </form>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { unlockUserAccount } from '@/lib/actions/user-actions';
+
+interface UnlockAccountButtonProps {
+  userId: string;
+}
+
+/**
+ * Lets an admin unlock an account locked by failed sign-in attempts
+ */
+export default function UnlockAccountButton({ userId }: UnlockAccountButtonProps) {
+  const router = useRouter();
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUnlock = async () => {
+    try {
+      setIsUnlocking(true);
+      setError(null);
+
+      const result = await unlockUserAccount(userId);
+
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error || 'Failed to unlock account');
+      }
+    } catch {
+      setError('An error occurred');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <button
+        type="button"
+        onClick={handleUnlock}
+        disabled={isUnlocking}
+        className="px-3 py-1 text-xs text-amber-700 border border-amber-600 rounded-md hover:bg-amber-50 transition-colors disabled:opacity-50"
+      >
+        {isUnlocking ? 'Unlocking…' : 'Unlock account'}
+      </button>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -1,16 +1,22 @@
 'use client';
 
 import { useState } from 'react';
+import { useRouter } from 'next/navigation';
 import { updateUserRole } from '@/lib/actions/role-management';
-
-type UserRole = 'admin' | 'director' | 'team' | 'client' | 'builder';
+import type { RoleDefinition, UserRole } from '@/lib/auth';
 
 interface UserRoleSelectorProps {
   userId: string;
   currentRole: string;
+  /**
+   * Roles to offer, from the role registry: the user's current role and the
+   * roles the current user may assign them (see roleDelegation.ts)
+   */
+  roles: RoleDefinition[];
 }
 
-export default function UserRoleSelector({ userId, currentRole }: UserRoleSelectorProps) {
+export default function UserRoleSelector({ userId, currentRole, roles }: UserRoleSelectorProps) {
+  const router = useRouter();
   const [role, setRole] = useState<UserRole>(currentRole as UserRole);
   const [isUpdating, setIsUpdating] = useState(false);
   const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
@@ -27,6 +33,8 @@ export default function UserRoleSelector({ userId, currentRole }: UserRoleSelect
       if (result.success) {
         setRole(newRole);
         setMessage({ text: 'Role updated successfully', type: 'success' });
+        // The roles on offer depend on the user's role
+        router.refresh();
       } else {
         setMessage({ text: result.error || 'Failed to update role', type: 'error' });
       }
@@ -46,11 +54,11 @@ export default function UserRoleSelector({ userId, currentRole }: UserRoleSelect
           disabled={isUpdating}
           className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-300 focus:ring focus:ring-indigo-200 focus:ring-opacity-50 text-sm"
         >
-          <option value="admin">Admin</option>
-          <option value="director">Director</option>
-          <option value="team">Team</option>
-          <option value="client">Client</option>
-          <option value="builder">Builder</option>
+          {roles.map((definition) => (
+            <option key={definition.key} value={definition.key}>
+              {definition.displayName}
+            </option>
+          ))}
         </select>
         
         {isUpdating && (
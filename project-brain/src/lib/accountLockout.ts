@@ -0,0 +1,65 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type FailedLogin = {
+  userId: string;
+  failedAttempts: number;
+  // Set once the failure locked the account
+  lockedUntil: Date | null;
+};
+
+/**
+ * Whether a users.locked_until value is still in the future
+ */
+export function isAccountLocked(lockedUntil: string | Date | null | undefined, now: Date = new Date()): boolean {
+  return !!lockedUntil && new Date(lockedUntil).getTime() > now.getTime();
+}
+
+/**
+ * Get when the account for an email is locked until, or null if it isn't locked.
+ * Needs the service client: the function isn't open to anon or authenticated callers.
+ */
+export async function getAccountLock(supabase: SupabaseClient, email: string): Promise<Date | null> {
+  const { data, error } = await supabase.rpc('get_login_lock', { p_email: email });
+
+  if (error) {
+    throw new Error(`Failed to check account lock: ${error.message}`);
+  }
+
+  return data ? new Date(data as string) : null;
+}
+
+/**
+ * Count a failed sign-in for an email, locking the account with exponential
+ * backoff once the threshold in login_lockout_settings is reached. Returns
+ * null if no account has the email. Needs the service client, like getAccountLock.
+ */
+export async function recordFailedLogin(supabase: SupabaseClient, email: string): Promise<FailedLogin | null> {
+  const { data, error } = await supabase
+    .rpc('record_failed_login', { p_email: email })
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to record failed login: ${error.message}`);
+  }
+
+  if (!data) return null;
+
+  const row = data as { user_id: string; failed_attempts: number; locked_until: string | null };
+  return {
+    userId: row.user_id,
+    failedAttempts: row.failed_attempts,
+    lockedUntil: isAccountLocked(row.locked_until) ? new Date(row.locked_until as string) : null,
+  };
+}
+
+/**
+ * Record a successful sign-in for the current session, which clears
+ * the failed attempt count and any lock
+ */
+export async function recordSuccessfulLogin(supabase: SupabaseClient): Promise<void> {
+  const { error } = await supabase.rpc('record_successful_login');
+
+  if (error) {
+    console.error('Error recording successful login:', error);
+  }
+}
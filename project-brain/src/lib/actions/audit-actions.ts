@@ -0,0 +1,61 @@
+'use server';
+
+import { hasPermission } from '../auth';
+import { getAuthContext } from '../authContext';
+import {
+  AUDIT_PAGE_SIZE,
+  AuditLogEntry,
+  AuditLogFilters,
+  fetchUserEmails,
+  selectAuditLogs,
+} from '../auditLogQuery';
+import { createServerClient } from '../supabase/server';
+
+/**
+ * Get one page of audit log entries matching the filters, with the emails
+ * of the users involved
+ */
+export async function getAuditLogs(filters: AuditLogFilters): Promise<{
+  entries: AuditLogEntry[];
+  total: number;
+  emails: Record<string, string>;
+  error: string | null;
+}> {
+  const empty = { entries: [], total: 0, emails: {} };
+  const supabase = await createServerClient();
+
+  const { sessionUserId, account } = await getAuthContext();
+
+  if (!sessionUserId) {
+    return { ...empty, error: 'Not authenticated' };
+  }
+
+  if (!account) {
+    return { ...empty, error: 'Failed to fetch user role' };
+  }
+
+  if (!account.active) {
+    return { ...empty, error: 'Account disabled' };
+  }
+
+  if (!hasPermission(account.role, 'view:audit', { grants: account.grants })) {
+    return { ...empty, error: 'Insufficient permissions to view the audit log' };
+  }
+
+  const { entries, total, error } = await selectAuditLogs(supabase, filters, {
+    offset: (filters.page - 1) * AUDIT_PAGE_SIZE,
+    limit: AUDIT_PAGE_SIZE,
+    count: true,
+  });
+
+  if (error) {
+    return { ...empty, error };
+  }
+
+  const emails = await fetchUserEmails(
+    supabase,
+    entries.flatMap(entry => [entry.user_id, entry.target_user_id])
+  );
+
+  return { entries, total: total ?? entries.length, emails, error: null };
+}
@@ -0,0 +1,394 @@
+'use server';
+
+import { z } from 'zod';
+import { getAuthContext, getCurrentActor } from '../authContext';
+import { getRequestAuditContext, recordAuditEvent } from '../audit';
+import { can } from '../policy';
+import {
+  DocumentFolder,
+  DocumentReviewItem,
+  DocumentUploadData,
+  ProjectDocument,
+  canReviewDocuments,
+  canSeeDocumentVersion,
+  documentFolderSchema,
+  documentUploadSchema,
+  initialReviewStatus,
+  toDocumentVersion,
+} from '../documents';
+import { getStorageAdapter, storageSettings } from '../storage';
+import { createServerClient } from '../supabase/server';
+import { requirePermission } from './user-actions';
+
+const projectIdSchema = z.string().uuid('Invalid project ID');
+const versionIdSchema = z.string().uuid('Invalid version ID');
+
+/**
+ * A project's folders and the documents in them, each with the versions the
+ * current user can see, newest first. Documents with nothing visible yet,
+ * e.g. someone else's first upload still awaiting review, are left out.
+ */
+export async function getProjectDocuments(projectId: string): Promise<{
+  folders: DocumentFolder[];
+  documents: ProjectDocument[];
+  error: string | null;
+}> {
+  if (!projectIdSchema.safeParse(projectId).success) {
+    return { folders: [], documents: [], error: 'Project not found' };
+  }
+
+  await requirePermission('view:projects', '/unauthorized', projectId);
+
+  const supabase = await createServerClient();
+  const actor = await getCurrentActor();
+
+  const [folders, documents, versions] = await Promise.all([
+    supabase.from('document_folders').select('id, parent_id, name').eq('project_id', projectId).order('name'),
+    supabase.from('documents').select('*').eq('project_id', projectId).order('name'),
+    supabase
+      .from('document_versions')
+      .select('*')
+      .eq('project_id', projectId)
+      .not('completed_at', 'is', null)
+      .order('version', { ascending: false }),
+  ]);
+
+  const error = folders.error ?? documents.error ?? versions.error;
+  if (error) {
+    return { folders: [], documents: [], error: error.message };
+  }
+
+  const visibleVersions = (versions.data ?? [])
+    .map(row => ({ documentId: row.document_id, version: toDocumentVersion(row) }))
+    .filter(({ version }) => canSeeDocumentVersion(actor, projectId, version));
+
+  return {
+    folders: (folders.data ?? []).map(folder => ({ id: folder.id, parentId: folder.parent_id, name: folder.name })),
+    documents: (documents.data ?? [])
+      .map(document => ({
+        id: document.id,
+        folderId: document.folder_id,
+        name: document.name,
+        uploadedBy: document.uploaded_by,
+        updatedAt: document.updated_at,
+        versions: visibleVersions
+          .filter(({ documentId }) => documentId === document.id)
+          .map(({ version }) => version),
+      }))
+      .filter(document => document.versions.length > 0),
+    error: null,
+  };
+}
+
+/**
+ * Create a folder in a project, optionally inside another folder
+ */
+export async function createDocumentFolder(projectId: string, formData: { name: string; parentId?: string | null }) {
+  if (!projectIdSchema.safeParse(projectId).success) {
+    return { success: false, folderId: null, error: 'Project not found' };
+  }
+
+  await requirePermission('manage:content', '/unauthorized', projectId);
+
+  const parsed = documentFolderSchema.safeParse(formData);
+  if (!parsed.success) {
+    return { success: false, folderId: null, error: parsed.error.errors[0].message };
+  }
+
+  const supabase = await createServerClient();
+  const { account } = await getAuthContext();
+
+  const { data: folder, error } = await supabase
+    .from('document_folders')
+    .insert({
+      project_id: projectId,
+      parent_id: parsed.data.parentId,
+      name: parsed.data.name,
+      created_by: account?.id ?? null,
+    })
+    .select('id')
+    .single();
+
+  if (error || !folder) {
+    return { success: false, folderId: null, error: error?.message ?? 'Failed to create folder' };
+  }
+
+  recordAuditEvent({
+    type: 'document_folder_created',
+    actorId: account?.id ?? null,
+    actorRole: account?.role,
+    projectId,
+    folderId: folder.id,
+    name: parsed.data.name,
+  }, await getRequestAuditContext());
+
+  return { success: true, folderId: folder.id, error: null };
+}
+
+/**
+ * Start uploading a file, as a new document or as a new version of an
+ * existing one. Returns a short-lived link the browser PUTs the file to;
+ * call completeDocumentUpload once it has.
+ */
+export async function requestDocumentUpload(projectId: string, formData: DocumentUploadData) {
+  if (!projectIdSchema.safeParse(projectId).success) {
+    return { success: false, uploadUrl: null, versionId: null, error: 'Project not found' };
+  }
+
+  await requirePermission('submit:content', '/unauthorized', projectId);
+
+  const parsed = documentUploadSchema(storageSettings.maxFileBytes).safeParse(formData);
+  if (!parsed.success) {
+    return { success: false, uploadUrl: null, versionId: null, error: parsed.error.errors[0].message };
+  }
+
+  const supabase = await createServerClient();
+  const actor = await getCurrentActor();
+  const { documentId, folderId, fileName, contentType, sizeBytes } = parsed.data;
+
+  if (documentId) {
+    const { data: document } = await supabase
+      .from('documents')
+      .select('uploaded_by')
+      .eq('id', documentId)
+      .eq('project_id', projectId)
+      .maybeSingle();
+
+    if (!document) {
+      return { success: false, uploadUrl: null, versionId: null, error: 'Document not found' };
+    }
+
+    if (!can(actor, 'update', { type: 'document', id: documentId, projectId, ownerId: document.uploaded_by })) {
+      return { success: false, uploadUrl: null, versionId: null, error: 'You cannot add versions to this document' };
+    }
+  } else if (!can(actor, 'create', { type: 'document', projectId })) {
+    return { success: false, uploadUrl: null, versionId: null, error: 'You cannot upload to this project' };
+  }
+
+  const { data: upload, error } = await supabase
+    .rpc('start_document_upload', {
+      p_project_id: projectId,
+      p_folder_id: documentId ? null : folderId,
+      p_document_id: documentId,
+      p_file_name: fileName,
+      p_content_type: contentType,
+      p_size_bytes: sizeBytes,
+    })
+    .single<{ document_id: string; version_id: string; version: number; storage_path: string }>();
+
+  if (error || !upload) {
+    return { success: false, uploadUrl: null, versionId: null, error: error?.message ?? 'Failed to start upload' };
+  }
+
+  try {
+    const uploadUrl = await getStorageAdapter(supabase).createUploadUrl(upload.storage_path);
+    return { success: true, uploadUrl, versionId: upload.version_id, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      uploadUrl: null,
+      versionId: null,
+      error: error instanceof Error ? error.message : 'Failed to start upload',
+    };
+  }
+}
+
+/**
+ * Mark an upload as landed. Content managers' uploads are approved straight
+ * away; everyone else's go to the review queue.
+ */
+export async function completeDocumentUpload(versionId: string) {
+  if (!versionIdSchema.safeParse(versionId).success) {
+    return { success: false, reviewStatus: null, error: 'Upload not found' };
+  }
+
+  const supabase = await createServerClient();
+  const { account } = await getAuthContext();
+  const actor = await getCurrentActor();
+
+  const { data: version } = await supabase
+    .from('document_versions')
+    .select('*')
+    .eq('id', versionId)
+    .maybeSingle();
+
+  if (!version || !actor || version.uploaded_by !== actor.id || version.completed_at) {
+    return { success: false, reviewStatus: null, error: 'Upload not found' };
+  }
+
+  await requirePermission('submit:content', '/unauthorized', version.project_id);
+
+  if (!(await getStorageAdapter(supabase).exists(version.storage_path))) {
+    return { success: false, reviewStatus: null, error: 'The file has not finished uploading' };
+  }
+
+  const now = new Date().toISOString();
+  const reviewStatus = initialReviewStatus(actor, version.project_id);
+  const { error } = await supabase
+    .from('document_versions')
+    .update(reviewStatus === 'approved'
+      ? { completed_at: now, review_status: reviewStatus, reviewed_by: actor.id, reviewed_at: now }
+      : { completed_at: now })
+    .eq('id', versionId);
+
+  if (error) {
+    return { success: false, reviewStatus: null, error: error.message };
+  }
+
+  recordAuditEvent({
+    type: 'document_uploaded',
+    actorId: account?.id ?? null,
+    actorRole: account?.role,
+    projectId: version.project_id,
+    documentId: version.document_id,
+    versionId,
+    version: version.version,
+    reviewStatus,
+  }, await getRequestAuditContext());
+
+  return { success: true, reviewStatus, error: null };
+}
+
+/**
+ * A short-lived download link for a version, if the current user may see it
+ */
+export async function getDocumentDownloadUrl(versionId: string): Promise<{ url: string | null; error: string | null }> {
+  if (!versionIdSchema.safeParse(versionId).success) {
+    return { url: null, error: 'Document not found' };
+  }
+
+  const supabase = await createServerClient();
+  const { data: version } = await supabase
+    .from('document_versions')
+    .select('*')
+    .eq('id', versionId)
+    .maybeSingle();
+
+  if (!version || !version.completed_at) {
+    return { url: null, error: 'Document not found' };
+  }
+
+  await requirePermission('view:projects', '/unauthorized', version.project_id);
+
+  const { account } = await getAuthContext();
+  const actor = await getCurrentActor();
+
+  if (
+    !can(actor, 'read', { type: 'document', id: version.document_id, projectId: version.project_id }) ||
+    !canSeeDocumentVersion(actor, version.project_id, toDocumentVersion(version))
+  ) {
+    return { url: null, error: 'Document not found' };
+  }
+
+  try {
+    const url = await getStorageAdapter(supabase).createDownloadUrl(version.storage_path, version.file_name);
+
+    recordAuditEvent({
+      type: 'document_downloaded',
+      actorId: account?.id ?? null,
+      actorRole: account?.role,
+      projectId: version.project_id,
+      documentId: version.document_id,
+      versionId,
+    }, await getRequestAuditContext());
+
+    return { url, error: null };
+  } catch (error) {
+    return { url: null, error: error instanceof Error ? error.message : 'Failed to create download link' };
+  }
+}
+
+/**
+ * Completed uploads awaiting review on the projects the current user manages
+ * content for, oldest first
+ */
+export async function getDocumentReviewQueue(): Promise<{ items: DocumentReviewItem[]; error: string | null }> {
+  await requirePermission('manage:content');
+
+  const supabase = await createServerClient();
+  const actor = await getCurrentActor();
+
+  const { data: versions, error } = await supabase
+    .from('document_versions')
+    .select('*')
+    .eq('review_status', 'pending')
+    .not('completed_at', 'is', null)
+    .order('uploaded_at');
+
+  if (error) {
+    return { items: [], error: error.message };
+  }
+
+  const pending = (versions ?? []).filter(version => canReviewDocuments(actor, version.project_id));
+  if (pending.length === 0) {
+    return { items: [], error: null };
+  }
+
+  const [documents, projects] = await Promise.all([
+    supabase.from('documents').select('id, name').in('id', pending.map(version => version.document_id)),
+    supabase.from('projects').select('id, name').in('id', pending.map(version => version.project_id)),
+  ]);
+
+  const documentNames = new Map((documents.data ?? []).map(document => [document.id, document.name]));
+  const projectNames = new Map((projects.data ?? []).map(project => [project.id, project.name]));
+
+  return {
+    items: pending.map(version => ({
+      ...toDocumentVersion(version),
+      documentId: version.document_id,
+      documentName: documentNames.get(version.document_id) ?? version.file_name,
+      projectId: version.project_id,
+      projectName: projectNames.get(version.project_id) ?? 'Unknown project',
+    })),
+    error: null,
+  };
+}
+
+/**
+ * Approve or reject an upload awaiting review
+ */
+export async function reviewDocumentVersion(versionId: string, decision: 'approved' | 'rejected') {
+  if (!versionIdSchema.safeParse(versionId).success || !['approved', 'rejected'].includes(decision)) {
+    return { success: false, error: 'Upload not found' };
+  }
+
+  const supabase = await createServerClient();
+  const { data: version } = await supabase
+    .from('document_versions')
+    .select('*')
+    .eq('id', versionId)
+    .maybeSingle();
+
+  if (!version || !version.completed_at) {
+    return { success: false, error: 'Upload not found' };
+  }
+
+  await requirePermission('manage:content', '/unauthorized', version.project_id);
+
+  if (version.review_status !== 'pending') {
+    return { success: false, error: 'This upload has already been reviewed' };
+  }
+
+  const { account } = await getAuthContext();
+  const { error } = await supabase
+    .from('document_versions')
+    .update({ review_status: decision, reviewed_by: account?.id ?? null, reviewed_at: new Date().toISOString() })
+    .eq('id', versionId)
+    .eq('review_status', 'pending');
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  recordAuditEvent({
+    type: 'document_version_reviewed',
+    actorId: account?.id ?? null,
+    actorRole: account?.role,
+    projectId: version.project_id,
+    documentId: version.document_id,
+    versionId,
+    decision,
+  }, await getRequestAuditContext());
+
+  return { success: true, error: null };
+}
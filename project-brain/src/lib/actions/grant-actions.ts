@@ -0,0 +1,326 @@
+'use server';
+
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import {
+  PERMISSIONS,
+  Permission,
+  UserRole,
+  getRoleKeys,
+  hasPermission,
+  isPermission,
+} from '../auth';
+import { getAuthContext } from '../authContext';
+import { getRequestAuditContext, recordAuditEvent } from '../audit';
+import {
+  TemporaryGrantFormData,
+  TemporaryGrantStatus,
+  canGrant,
+  getGrantExpiry,
+  getGrantStatus,
+  temporaryGrantSchema,
+} from '../temporaryGrants';
+import { createServerClient } from '../supabase/server';
+import { Database } from '@/types/supabase';
+
+export type TemporaryGrantSummary = {
+  id: string;
+  userId: string;
+  role: UserRole | null;
+  permissions: Permission[];
+  reason: string;
+  status: TemporaryGrantStatus;
+  createdBy: string | null;
+  createdAt: string;
+  approvedBy: string | null;
+  expiresAt: string;
+};
+
+/**
+ * Resolve the signed-in user and confirm they may manage grants,
+ * whether through their role or a grant of their own
+ */
+async function authorizeGrants() {
+  const { sessionUserId, account } = await getAuthContext();
+
+  if (!sessionUserId) {
+    return { userId: null, userRole: null, error: 'Not authenticated' };
+  }
+
+  if (!account) {
+    return { userId: null, userRole: null, error: 'Failed to fetch user role' };
+  }
+
+  if (!account.active) {
+    return { userId: null, userRole: null, error: 'Account disabled' };
+  }
+
+  if (!hasPermission(account.role, 'manage:grants', { grants: account.grants })) {
+    return { userId: null, userRole: null, error: 'Insufficient permissions to manage grants' };
+  }
+
+  return { userId: account.id, userRole: account.role, error: null };
+}
+
+/**
+ * Fetch a grant, checking it is in the state the action expects
+ */
+async function fetchGrant(
+  supabase: ReturnType<typeof createServerComponentClient<Database>>,
+  grantId: string,
+  expected: TemporaryGrantStatus[]
+) {
+  const { data: grant, error } = await supabase
+    .from('temporary_grants')
+    .select('id, user_id, role, permissions, created_by, approved_at, rejected_at, revoked_at, expires_at')
+    .eq('id', grantId)
+    .single();
+
+  if (error || !grant) {
+    return { grant: null, error: 'Grant not found' };
+  }
+
+  const status = getGrantStatus(grant);
+  if (!expected.includes(status)) {
+    return { grant: null, error: `This grant is ${status}` };
+  }
+
+  return { grant, error: null };
+}
+
+/**
+ * Grant a user a role and/or permissions for a limited time. Grants made by
+ * an admin for someone else apply at once; others wait for an admin's approval.
+ */
+export async function createTemporaryGrant(formData: TemporaryGrantFormData) {
+  const supabase = await createServerClient();
+  const { userId, userRole, error } = await authorizeGrants();
+
+  if (error || !userId || !userRole) {
+    return { success: false, error };
+  }
+
+  const parsed = temporaryGrantSchema.safeParse(formData);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.errors[0].message };
+  }
+
+  const { userId: targetUserId, role, permissions, reason, durationMs } = parsed.data;
+
+  if (!canGrant(userRole, { role, permissions })) {
+    return { success: false, error: 'You cannot grant this role or these permissions' };
+  }
+
+  const { data: targetUser } = await supabase
+    .from('users')
+    .select('id')
+    .eq('id', targetUserId)
+    .maybeSingle();
+
+  if (!targetUser) {
+    return { success: false, error: 'User not found' };
+  }
+
+  // Nobody approves a grant made out to themselves
+  const approved = userRole === 'admin' && targetUserId !== userId;
+  const now = new Date();
+  const expiresAt = getGrantExpiry(durationMs, now).toISOString();
+
+  const { data: grant, error: insertError } = await supabase
+    .from('temporary_grants')
+    .insert({
+      user_id: targetUserId,
+      role,
+      permissions,
+      reason,
+      expires_at: expiresAt,
+      created_by: userId,
+      approved_by: approved ? userId : null,
+      approved_at: approved ? now.toISOString() : null,
+    })
+    .select('id')
+    .single();
+
+  if (insertError || !grant) {
+    return { success: false, error: insertError?.message ?? 'Failed to create grant' };
+  }
+
+  recordAuditEvent({
+    type: 'temporary_grant_created',
+    actorId: userId,
+    actorRole: userRole,
+    targetUserId,
+    grantId: grant.id,
+    role,
+    permissions,
+    reason,
+    expiresAt,
+    approved,
+  }, await getRequestAuditContext());
+
+  return { success: true, approved, error: null };
+}
+
+/**
+ * Approve or reject a pending grant. Only admins decide, and never on their own grants.
+ */
+async function decideTemporaryGrant(grantId: string, decision: 'approved' | 'rejected') {
+  const supabase = await createServerClient();
+  const { userId, userRole, error } = await authorizeGrants();
+
+  if (error || !userId || !userRole) {
+    return { success: false, error };
+  }
+
+  if (userRole !== 'admin') {
+    return { success: false, error: 'Only admins can approve or reject grants' };
+  }
+
+  const { grant, error: fetchError } = await fetchGrant(supabase, grantId, ['pending']);
+
+  if (fetchError || !grant) {
+    return { success: false, error: fetchError };
+  }
+
+  if (grant.user_id === userId) {
+    return { success: false, error: 'You cannot decide on a grant made out to you' };
+  }
+
+  const now = new Date().toISOString();
+  const { error: updateError } = await supabase
+    .from('temporary_grants')
+    .update(
+      decision === 'approved'
+        ? { approved_by: userId, approved_at: now }
+        : { rejected_by: userId, rejected_at: now }
+    )
+    .eq('id', grantId);
+
+  if (updateError) {
+    return { success: false, error: updateError.message };
+  }
+
+  recordAuditEvent({
+    type: decision === 'approved' ? 'temporary_grant_approved' : 'temporary_grant_rejected',
+    actorId: userId,
+    actorRole: userRole,
+    targetUserId: grant.user_id,
+    grantId,
+  }, await getRequestAuditContext());
+
+  return { success: true, error: null };
+}
+
+/**
+ * Approve a pending grant so it applies until it expires
+ */
+export async function approveTemporaryGrant(grantId: string) {
+  return decideTemporaryGrant(grantId, 'approved');
+}
+
+/**
+ * Reject a pending grant
+ */
+export async function rejectTemporaryGrant(grantId: string) {
+  return decideTemporaryGrant(grantId, 'rejected');
+}
+
+/**
+ * End a pending or active grant early. Admins may revoke any grant, others
+ * only grants they could have made.
+ */
+export async function revokeTemporaryGrant(grantId: string) {
+  const supabase = await createServerClient();
+  const { userId, userRole, error } = await authorizeGrants();
+
+  if (error || !userId || !userRole) {
+    return { success: false, error };
+  }
+
+  const { grant, error: fetchError } = await fetchGrant(supabase, grantId, ['pending', 'active']);
+
+  if (fetchError || !grant) {
+    return { success: false, error: fetchError };
+  }
+
+  if (!canGrant(userRole, { role: grant.role, permissions: grant.permissions.filter(isPermission) })) {
+    return { success: false, error: 'You cannot revoke this grant' };
+  }
+
+  const { error: updateError } = await supabase
+    .from('temporary_grants')
+    .update({ revoked_by: userId, revoked_at: new Date().toISOString() })
+    .eq('id', grantId);
+
+  if (updateError) {
+    return { success: false, error: updateError.message };
+  }
+
+  recordAuditEvent({
+    type: 'temporary_grant_revoked',
+    actorId: userId,
+    actorRole: userRole,
+    targetUserId: grant.user_id,
+    grantId,
+  }, await getRequestAuditContext());
+
+  return { success: true, error: null };
+}
+
+/**
+ * Get recent grants, newest first, with what the current user may grant and
+ * whether they may approve. Expired grants are audited first.
+ */
+export async function getTemporaryGrants(): Promise<{
+  grants: TemporaryGrantSummary[];
+  grantableRoles: UserRole[];
+  grantablePermissions: Permission[];
+  canApprove: boolean;
+  currentUserId: string | null;
+  error: string | null;
+}> {
+  const supabase = await createServerClient();
+  const { userId, userRole, error } = await authorizeGrants();
+  const empty = { grants: [], grantableRoles: [], grantablePermissions: [], canApprove: false, currentUserId: null };
+
+  if (error || !userId || !userRole) {
+    return { ...empty, error };
+  }
+
+  // Best effort: pg_cron does the same where it's installed
+  const { error: expireError } = await supabase.rpc('expire_temporary_grants');
+  if (expireError) {
+    console.error('Error expiring temporary grants:', expireError);
+  }
+
+  const { data, error: grantsError } = await supabase
+    .from('temporary_grants')
+    .select('id, user_id, role, permissions, reason, created_by, created_at, approved_by, approved_at, rejected_at, revoked_at, expires_at')
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (grantsError) {
+    return { ...empty, error: grantsError.message };
+  }
+
+  const grants = (data ?? []).map(grant => ({
+    id: grant.id,
+    userId: grant.user_id,
+    role: grant.role,
+    permissions: grant.permissions.filter(isPermission),
+    reason: grant.reason,
+    status: getGrantStatus(grant),
+    createdBy: grant.created_by,
+    createdAt: grant.created_at,
+    approvedBy: grant.approved_by,
+    expiresAt: grant.expires_at,
+  }));
+
+  return {
+    grants,
+    grantableRoles: getRoleKeys().filter(role => canGrant(userRole, { role, permissions: [] })),
+    grantablePermissions: PERMISSIONS.filter(permission => canGrant(userRole, { role: null, permissions: [permission] })),
+    canApprove: userRole === 'admin',
+    currentUserId: userId,
+    error: null,
+  };
+}
@@ -0,0 +1,134 @@
+'use server';
+
+import { cookies } from 'next/headers';
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import { z } from 'zod';
+import { UserRole, hasPermission } from '../auth';
+import { getAuthContext } from '../authContext';
+import { getRequestAuditContext, recordAuditEvent } from '../audit';
+import {
+  IMPERSONATION_COOKIE,
+  getImpersonationExpiry,
+  getImpersonationRefusal,
+} from '../impersonation';
+import { canImpersonateReads } from '../supabase/server';
+import { Database } from '@/types/supabase';
+
+// Schema for starting an impersonation
+const startImpersonationSchema = z.object({
+  userId: z.string().uuid('Invalid user ID'),
+  reason: z.string().trim().min(1, 'A reason is required').max(500, 'Keep the reason under 500 characters'),
+});
+
+/**
+ * View the app as another user, e.g. to see what a client sees. Access checks
+ * and reads then use their role, memberships and grants until the admin exits
+ * or the impersonation expires; changes are blocked in the meantime.
+ */
+export async function startImpersonation(userId: string, reason: string) {
+  const { sessionUserId, account, impersonation: current } = await getAuthContext();
+
+  if (!sessionUserId) {
+    return { success: false, error: 'Not authenticated' };
+  }
+
+  if (!account) {
+    return { success: false, error: 'Failed to fetch user role' };
+  }
+
+  if (!account.active) {
+    return { success: false, error: 'Account disabled' };
+  }
+
+  if (!hasPermission(account.role, 'impersonate:users', { grants: account.grants })) {
+    return { success: false, error: 'Insufficient permissions to impersonate users' };
+  }
+
+  const parsed = startImpersonationSchema.safeParse({ userId, reason });
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.errors[0].message };
+  }
+
+  if (current) {
+    return { success: false, error: 'Stop the current impersonation first' };
+  }
+
+  // Reads would otherwise run with the admin's access rather than the user's
+  if (!canImpersonateReads()) {
+    return { success: false, error: 'Impersonation is not configured on this server' };
+  }
+
+  const supabase = createServerComponentClient<Database>({ cookies });
+
+  const { data: target } = await supabase
+    .from('users')
+    .select('id, role, active')
+    .eq('id', parsed.data.userId)
+    .maybeSingle();
+
+  if (!target) {
+    return { success: false, error: 'User not found' };
+  }
+
+  const refusal = getImpersonationRefusal(account.id, {
+    id: target.id,
+    role: target.role,
+    active: target.active === true,
+  });
+  if (refusal) {
+    return { success: false, error: refusal };
+  }
+
+  const expiresAt = getImpersonationExpiry();
+  const { data: impersonation, error: insertError } = await supabase
+    .from('impersonation_sessions')
+    .insert({
+      admin_id: account.id,
+      target_user_id: target.id,
+      reason: parsed.data.reason,
+      expires_at: expiresAt.toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (insertError || !impersonation) {
+    return { success: false, error: insertError?.message ?? 'Failed to start impersonation' };
+  }
+
+  (await cookies()).set(IMPERSONATION_COOKIE, impersonation.id, {
+    path: '/',
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    expires: expiresAt,
+  });
+
+  recordAuditEvent({
+    type: 'impersonation_started',
+    actorId: account.id,
+    actorRole: account.role,
+    targetUserId: target.id,
+    impersonationId: impersonation.id,
+    reason: parsed.data.reason,
+    expiresAt: expiresAt.toISOString(),
+  }, await getRequestAuditContext());
+
+  return { success: true, error: null };
+}
+
+/**
+ * The current admin's impersonation, if any, for the banner
+ */
+export async function getActiveImpersonation(): Promise<{
+  id: string;
+  email: string;
+  role: UserRole;
+  expiresAt: string;
+} | null> {
+  const { user, impersonation } = await getAuthContext();
+
+  if (!impersonation || !user) {
+    return null;
+  }
+
+  return { id: impersonation.id, email: user.email, role: user.role, expiresAt: impersonation.expiresAt };
+}
@@ -0,0 +1,402 @@
+'use server';
+
+import { cookies } from 'next/headers';
+import { createServerActionClient, createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import { z } from 'zod';
+import { UserRole, getRoleKeys, hasPermission } from '../auth';
+import { getAuthContext } from '../authContext';
+import { getRequestAuditContext, recordAuditEvent } from '../audit';
+import { passwordSchema } from '../passwordPolicy';
+import {
+  InvitationFormData,
+  InvitationStatus,
+  ProjectAssignment,
+  canInviteWithRole,
+  generateInvitationToken,
+  getInvitationExpiry,
+  getInvitationStatus,
+  getInvitationUrl,
+  hashInvitationToken,
+  invitationSchema,
+  isInvitationToken,
+  parseProjectAssignments,
+} from '../invitations';
+import { createServerClient } from '../supabase/server';
+import { Database } from '@/types/supabase';
+
+export type PendingInvitation = {
+  id: string;
+  email: string;
+  role: UserRole;
+  projects: ProjectAssignment[];
+  status: InvitationStatus;
+  invitedBy: string | null;
+  createdAt: string;
+  lastSentAt: string;
+  sendCount: number;
+  expiresAt: string;
+};
+
+// Schema for accepting an invitation
+const acceptInvitationSchema = z
+  .object({
+    password: passwordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine(data => data.password === data.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword'],
+  });
+
+/**
+ * Resolve the signed-in user and confirm they may send invitations
+ */
+async function authorizeInvitations() {
+  const { sessionUserId, account } = await getAuthContext();
+
+  if (!sessionUserId) {
+    return { userId: null, userRole: null, error: 'Not authenticated' };
+  }
+
+  if (!account) {
+    return { userId: null, userRole: null, error: 'Failed to fetch user role' };
+  }
+
+  if (!account.active) {
+    return { userId: null, userRole: null, error: 'Account disabled' };
+  }
+
+  if (!hasPermission(account.role, 'invite:users', { grants: account.grants })) {
+    return { userId: null, userRole: null, error: 'Insufficient permissions to invite users' };
+  }
+
+  return { userId: account.id, userRole: account.role, error: null };
+}
+
+/**
+ * Fetch an invitation that can still be resent or revoked by the current user
+ */
+async function fetchOpenInvitation(
+  supabase: ReturnType<typeof createServerComponentClient<Database>>,
+  invitationId: string,
+  userRole: UserRole
+) {
+  const { data: invitation, error } = await supabase
+    .from('invitations')
+    .select('id, email, role, project_assignments, accepted_at, revoked_at, expires_at, send_count')
+    .eq('id', invitationId)
+    .single();
+
+  if (error || !invitation) {
+    return { invitation: null, error: 'Invitation not found' };
+  }
+
+  const status = getInvitationStatus(invitation);
+  if (status === 'accepted' || status === 'revoked') {
+    return { invitation: null, error: `This invitation has already been ${status}` };
+  }
+
+  if (!canInviteWithRole(userRole, invitation.role)) {
+    return { invitation: null, error: 'You do not have permission to manage invitations for this role' };
+  }
+
+  return { invitation, error: null };
+}
+
+/**
+ * Invite someone to sign up with a role and, optionally, project memberships.
+ * Returns the link to send them; it is only available now and on resend.
+ */
+export async function createInvitation(formData: InvitationFormData) {
+  const supabase = await createServerClient();
+  const { userId, userRole, error } = await authorizeInvitations();
+
+  if (error || !userId || !userRole) {
+    return { success: false, error };
+  }
+
+  const parsed = invitationSchema.safeParse(formData);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.errors[0].message };
+  }
+
+  const { email, role, projects } = parsed.data;
+
+  // Directors can only invite clients and builders, on projects too
+  if (!canInviteWithRole(userRole, role) || projects.some(project => !canInviteWithRole(userRole, project.role))) {
+    return { success: false, error: 'You do not have permission to invite users with this role' };
+  }
+
+  const { data: existingUser } = await supabase
+    .from('users')
+    .select('id')
+    .eq('email', email)
+    .maybeSingle();
+
+  if (existingUser) {
+    return { success: false, error: 'A user with this email already exists' };
+  }
+
+  const token = generateInvitationToken();
+  const { data: invitation, error: insertError } = await supabase
+    .from('invitations')
+    .insert({
+      email,
+      role,
+      project_assignments: projects,
+      token_hash: await hashInvitationToken(token),
+      expires_at: getInvitationExpiry().toISOString(),
+      invited_by: userId,
+    })
+    .select('id')
+    .single();
+
+  if (insertError || !invitation) {
+    // invitations_open_email_idx allows one open invitation per email
+    return {
+      success: false,
+      error: insertError?.code === '23505'
+        ? 'This email already has an open invitation; resend it instead'
+        : insertError?.message ?? 'Failed to create invitation',
+    };
+  }
+
+  recordAuditEvent({
+    type: 'invitation_created',
+    actorId: userId,
+    actorRole: userRole,
+    invitationId: invitation.id,
+    email,
+    role,
+    projects,
+  }, await getRequestAuditContext());
+
+  return { success: true, inviteUrl: getInvitationUrl(token), error: null };
+}
+
+/**
+ * Send an open invitation again with a new link and a fresh expiry.
+ * The previous link stops working.
+ */
+export async function resendInvitation(invitationId: string) {
+  const supabase = await createServerClient();
+  const { userId, userRole, error } = await authorizeInvitations();
+
+  if (error || !userId || !userRole) {
+    return { success: false, error };
+  }
+
+  const { invitation, error: fetchError } = await fetchOpenInvitation(supabase, invitationId, userRole);
+
+  if (fetchError || !invitation) {
+    return { success: false, error: fetchError };
+  }
+
+  const token = generateInvitationToken();
+  const { error: updateError } = await supabase
+    .from('invitations')
+    .update({
+      token_hash: await hashInvitationToken(token),
+      expires_at: getInvitationExpiry().toISOString(),
+      last_sent_at: new Date().toISOString(),
+      send_count: invitation.send_count + 1,
+    })
+    .eq('id', invitationId);
+
+  if (updateError) {
+    return { success: false, error: updateError.message };
+  }
+
+  recordAuditEvent({
+    type: 'invitation_resent',
+    actorId: userId,
+    actorRole: userRole,
+    invitationId,
+    email: invitation.email,
+    role: invitation.role,
+    projects: parseProjectAssignments(invitation.project_assignments),
+  }, await getRequestAuditContext());
+
+  return { success: true, inviteUrl: getInvitationUrl(token), error: null };
+}
+
+/**
+ * Revoke an open invitation so its link can no longer be used
+ */
+export async function revokeInvitation(invitationId: string) {
+  const supabase = await createServerClient();
+  const { userId, userRole, error } = await authorizeInvitations();
+
+  if (error || !userId || !userRole) {
+    return { success: false, error };
+  }
+
+  const { invitation, error: fetchError } = await fetchOpenInvitation(supabase, invitationId, userRole);
+
+  if (fetchError || !invitation) {
+    return { success: false, error: fetchError };
+  }
+
+  const { error: updateError } = await supabase
+    .from('invitations')
+    .update({ revoked_at: new Date().toISOString(), revoked_by: userId })
+    .eq('id', invitationId);
+
+  if (updateError) {
+    return { success: false, error: updateError.message };
+  }
+
+  recordAuditEvent({
+    type: 'invitation_revoked',
+    actorId: userId,
+    actorRole: userRole,
+    invitationId,
+    email: invitation.email,
+  }, await getRequestAuditContext());
+
+  return { success: true, error: null };
+}
+
+/**
+ * Get invitations that have been neither accepted nor revoked, including
+ * expired ones that can still be resent, and the roles the current user may invite with
+ */
+export async function getPendingInvitations(): Promise<{
+  invitations: PendingInvitation[];
+  invitableRoles: UserRole[];
+  error: string | null;
+}> {
+  const supabase = await createServerClient();
+  const { userRole, error } = await authorizeInvitations();
+
+  if (error || !userRole) {
+    return { invitations: [], invitableRoles: [], error };
+  }
+
+  const { data, error: invitationsError } = await supabase
+    .from('invitations')
+    .select('id, email, role, project_assignments, invited_by, created_at, last_sent_at, send_count, expires_at, accepted_at, revoked_at')
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: false });
+
+  if (invitationsError) {
+    return { invitations: [], invitableRoles: [], error: invitationsError.message };
+  }
+
+  const invitations = (data ?? []).map(invitation => ({
+    id: invitation.id,
+    email: invitation.email,
+    role: invitation.role,
+    projects: parseProjectAssignments(invitation.project_assignments),
+    status: getInvitationStatus(invitation),
+    invitedBy: invitation.invited_by,
+    createdAt: invitation.created_at,
+    lastSentAt: invitation.last_sent_at,
+    sendCount: invitation.send_count,
+    expiresAt: invitation.expires_at,
+  }));
+
+  return {
+    invitations,
+    invitableRoles: getRoleKeys().filter(role => canInviteWithRole(userRole, role)),
+    error: null,
+  };
+}
+
+/**
+ * Look up the invitation behind a link, for the invitee (no session needed)
+ */
+export async function getInvitation(token: string): Promise<{
+  invitation: { email: string; role: UserRole; expiresAt: string } | null;
+  error: string | null;
+}> {
+  if (!isInvitationToken(token)) {
+    return { invitation: null, error: 'This invitation link is not valid' };
+  }
+
+  const supabase = await createServerClient();
+  const { data, error } = await supabase
+    .rpc('get_invitation', { p_token_hash: await hashInvitationToken(token) })
+    .maybeSingle<{ email: string; role: string; expires_at: string }>();
+
+  if (error || !data) {
+    return { invitation: null, error: 'This invitation link is not valid or has already been used' };
+  }
+
+  if (getInvitationStatus({ accepted_at: null, revoked_at: null, expires_at: data.expires_at }) === 'expired') {
+    return { invitation: null, error: 'This invitation has expired. Ask the person who invited you to send it again.' };
+  }
+
+  return { invitation: { email: data.email, role: data.role, expiresAt: data.expires_at }, error: null };
+}
+
+/**
+ * Accept an invitation: create the invitee's account with the password they
+ * chose, then give them the invited role and project memberships
+ */
+export async function acceptInvitation(token: string, formData: z.input<typeof acceptInvitationSchema>) {
+  try {
+    const supabase = createServerActionClient({ cookies });
+
+    const parsed = acceptInvitationSchema.safeParse(formData);
+    if (!parsed.success) {
+      return { success: false, error: parsed.error.errors[0].message };
+    }
+
+    const { invitation, error } = await getInvitation(token);
+
+    if (error || !invitation) {
+      return { success: false, error };
+    }
+
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (session) {
+      return { success: false, error: 'Sign out before accepting an invitation' };
+    }
+
+    const { data: authData, error: authError } = await supabase.auth.signUp({
+      email: invitation.email,
+      password: parsed.data.password,
+      options: {
+        emailRedirectTo: `${process.env.NEXT_PUBLIC_SITE_URL}/auth/callback`,
+      },
+    });
+
+    if (authError) {
+      return { success: false, error: authError.message };
+    }
+
+    // An existing account comes back without identities when email confirmation is on
+    if (!authData.user || authData.user.identities?.length === 0) {
+      return { success: false, error: 'An account already exists for this email; sign in instead' };
+    }
+
+    // Uses up the token and creates the profile and memberships together
+    const { data: accepted, error: acceptError } = await supabase
+      .rpc('accept_invitation', {
+        p_token_hash: await hashInvitationToken(token),
+        p_user_id: authData.user.id,
+      })
+      .single<{ id: string; invited_by: string | null; role: string }>();
+
+    if (acceptError || !accepted) {
+      return { success: false, error: acceptError?.message ?? 'Failed to accept invitation' };
+    }
+
+    recordAuditEvent({
+      type: 'invitation_accepted',
+      actorId: authData.user.id,
+      invitationId: accepted.id,
+      invitedBy: accepted.invited_by,
+      role: accepted.role,
+    }, await getRequestAuditContext());
+
+    // Without a session the invitee has to confirm their email before signing in
+    return { success: true, signedIn: !!authData.session, error: null };
+  } catch (error) {
+    console.error('Error accepting invitation:', error);
+    return { success: false, error: 'An unexpected error occurred' };
+  }
+}
@@ -0,0 +1,319 @@
+'use server';
+
+import { z } from 'zod';
+import { getAuthContext, getCurrentActor } from '../authContext';
+import { getRequestAuditContext, recordAuditEvent } from '../audit';
+import { applyPolicyFilter, can, compilePolicyFilter } from '../policy';
+import {
+  Project,
+  ProjectFormData,
+  ProjectPlanPhase,
+  projectSchema,
+  toProject,
+  toProjectColumns,
+} from '../projects';
+import { createServerClient } from '../supabase/server';
+import { requirePermission } from './user-actions';
+
+const projectIdSchema = z.string().uuid('Invalid project ID');
+const templateIdSchema = z.string().uuid('Invalid template ID');
+const qaItemIdSchema = z.string().uuid('Invalid QA item ID');
+
+/**
+ * The projects the current user can see: every project for admins and
+ * directors, only the ones they are a member of for everyone else
+ */
+export async function getProjects(): Promise<{ projects: Project[]; error: string | null }> {
+  await requirePermission('view:projects');
+
+  const supabase = await createServerClient();
+  const query = applyPolicyFilter(
+    supabase.from('projects').select('*').order('updated_at', { ascending: false }),
+    compilePolicyFilter(await getCurrentActor(), 'read', 'project')
+  );
+
+  if (!query) {
+    return { projects: [], error: null };
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return { projects: [], error: error.message };
+  }
+
+  return { projects: (data ?? []).map(toProject), error: null };
+}
+
+/**
+ * A single project, if the current user can see it
+ */
+export async function getProject(projectId: string): Promise<{ project: Project | null; error: string | null }> {
+  if (!projectIdSchema.safeParse(projectId).success) {
+    return { project: null, error: 'Project not found' };
+  }
+
+  await requirePermission('view:projects', '/unauthorized', projectId);
+
+  const supabase = await createServerClient();
+  const { data, error } = await supabase
+    .from('projects')
+    .select('*')
+    .eq('id', projectId)
+    .maybeSingle();
+
+  if (error) {
+    return { project: null, error: error.message };
+  }
+
+  return data ? { project: toProject(data), error: null } : { project: null, error: 'Project not found' };
+}
+
+/**
+ * A project's phases in order, each with its tasks, QA checklist and fees
+ */
+export async function getProjectPlan(projectId: string): Promise<{ phases: ProjectPlanPhase[]; error: string | null }> {
+  if (!projectIdSchema.safeParse(projectId).success) {
+    return { phases: [], error: 'Project not found' };
+  }
+
+  await requirePermission('view:projects', '/unauthorized', projectId);
+
+  const supabase = await createServerClient();
+  // Clients and builders only see the tasks shared with them
+  const tasksQuery = applyPolicyFilter(
+    supabase.from('tasks').select('id, phase_id, title').eq('project_id', projectId).order('position'),
+    compilePolicyFilter(await getCurrentActor(), 'read', 'task')
+  );
+  const [phases, tasks, checklist, fees] = await Promise.all([
+    supabase.from('project_phases').select('id, name').eq('project_id', projectId).order('position'),
+    tasksQuery ?? { data: [], error: null },
+    supabase.from('qa_items').select('id, phase_id, label, checked_at').eq('project_id', projectId).order('position'),
+    supabase.from('fee_lines').select('id, phase_id, description, amount').eq('project_id', projectId).order('position'),
+  ]);
+
+  const error = phases.error ?? tasks.error ?? checklist.error ?? fees.error;
+  if (error) {
+    return { phases: [], error: error.message };
+  }
+
+  const plan: ProjectPlanPhase[] = [
+    ...(phases.data ?? []).map(phase => ({ id: phase.id, name: phase.name })),
+    { id: null, name: 'Other' },
+  ].map(({ id, name }) => ({
+    id,
+    name,
+    tasks: (tasks.data ?? [])
+      .filter(task => task.phase_id === id)
+      .map(task => ({ id: task.id, title: task.title })),
+    checklist: (checklist.data ?? [])
+      .filter(item => item.phase_id === id)
+      .map(item => ({ id: item.id, label: item.label, checkedAt: item.checked_at })),
+    fees: (fees.data ?? [])
+      .filter(fee => fee.phase_id === id)
+      .map(fee => ({ id: fee.id, description: fee.description, amount: Number(fee.amount) })),
+  }));
+
+  // Phases from the template always show; "Other" only when it has something
+  return {
+    phases: plan.filter(phase => phase.id || phase.tasks.length + phase.checklist.length + phase.fees.length > 0),
+    error: null,
+  };
+}
+
+/**
+ * Tick or untick an item on a project's QA checklist. The project team can,
+ * on the projects they are on; the database stamps who ticked it and when.
+ */
+export async function setQaItemChecked(qaItemId: string, checked: boolean) {
+  if (!qaItemIdSchema.safeParse(qaItemId).success) {
+    return { success: false, error: 'QA item not found' };
+  }
+
+  const supabase = await createServerClient();
+  const { data: existing } = await supabase
+    .from('qa_items')
+    .select('id, project_id, checked_at')
+    .eq('id', qaItemId)
+    .maybeSingle();
+
+  if (!existing) {
+    return { success: false, error: 'QA item not found' };
+  }
+
+  await requirePermission('view:projects', '/unauthorized', existing.project_id);
+
+  if (!can(await getCurrentActor(), 'update', { type: 'qa_item', id: qaItemId, projectId: existing.project_id })) {
+    return { success: false, error: 'Only the project team can tick QA items' };
+  }
+
+  if (!!existing.checked_at === checked) {
+    return { success: true, error: null };
+  }
+
+  const { error } = await supabase
+    .from('qa_items')
+    .update({ checked_at: checked ? new Date().toISOString() : null })
+    .eq('id', qaItemId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  const { account } = await getAuthContext();
+  recordAuditEvent({
+    type: 'qa_item_checked',
+    actorId: account?.id ?? null,
+    actorRole: account?.role,
+    projectId: existing.project_id,
+    qaItemId,
+    checked,
+  }, await getRequestAuditContext());
+
+  return { success: true, error: null };
+}
+
+/**
+ * Create a project
+ */
+export async function createProject(formData: ProjectFormData) {
+  await requirePermission('manage:projects');
+
+  const parsed = projectSchema.safeParse(formData);
+  if (!parsed.success) {
+    return { success: false, projectId: null, error: parsed.error.errors[0].message };
+  }
+
+  const supabase = await createServerClient();
+  const { account } = await getAuthContext();
+
+  const { data: project, error } = await supabase
+    .from('projects')
+    .insert({ ...toProjectColumns(parsed.data), created_by: account?.id ?? null })
+    .select('id')
+    .single();
+
+  if (error || !project) {
+    return { success: false, projectId: null, error: error?.message ?? 'Failed to create project' };
+  }
+
+  recordAuditEvent({
+    type: 'project_created',
+    actorId: account?.id ?? null,
+    actorRole: account?.role,
+    projectId: project.id,
+    name: parsed.data.name,
+  }, await getRequestAuditContext());
+
+  return { success: true, projectId: project.id, error: null };
+}
+
+/**
+ * Create a project from the current version of a template, along with the
+ * template's phases, tasks, QA checklist and fee lines, in one transaction
+ */
+export async function createProjectFromTemplate(templateId: string, formData: ProjectFormData) {
+  await requirePermission('manage:projects');
+
+  if (!templateIdSchema.safeParse(templateId).success) {
+    return { success: false, projectId: null, error: 'Template not found' };
+  }
+
+  const parsed = projectSchema.safeParse(formData);
+  if (!parsed.success) {
+    return { success: false, projectId: null, error: parsed.error.errors[0].message };
+  }
+
+  const supabase = await createServerClient();
+  const { account } = await getAuthContext();
+
+  const { data: template } = await supabase
+    .from('project_templates')
+    .select('current_version')
+    .eq('id', templateId)
+    .maybeSingle();
+
+  const { data: version } = template
+    ? await supabase
+        .from('project_template_versions')
+        .select('id')
+        .eq('template_id', templateId)
+        .eq('version', template.current_version)
+        .maybeSingle()
+    : { data: null };
+
+  if (!version) {
+    return { success: false, projectId: null, error: 'Template not found' };
+  }
+
+  const { data: projectId, error } = await supabase.rpc('create_project_from_template', {
+    p_template_version_id: version.id,
+    p_project: toProjectColumns(parsed.data),
+  });
+
+  if (error || !projectId) {
+    return { success: false, projectId: null, error: error?.message ?? 'Failed to create project' };
+  }
+
+  recordAuditEvent({
+    type: 'project_created',
+    actorId: account?.id ?? null,
+    actorRole: account?.role,
+    projectId: projectId as string,
+    name: parsed.data.name,
+    templateVersionId: version.id,
+  }, await getRequestAuditContext());
+
+  return { success: true, projectId: projectId as string, error: null };
+}
+
+/**
+ * Edit a project's details, status and phase
+ */
+export async function updateProject(projectId: string, formData: ProjectFormData) {
+  if (!projectIdSchema.safeParse(projectId).success) {
+    return { success: false, error: 'Project not found' };
+  }
+
+  await requirePermission('manage:projects', '/unauthorized', projectId);
+
+  const parsed = projectSchema.safeParse(formData);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.errors[0].message };
+  }
+
+  const supabase = await createServerClient();
+  const { account } = await getAuthContext();
+
+  const { data: existing } = await supabase
+    .from('projects')
+    .select('*')
+    .eq('id', projectId)
+    .maybeSingle();
+
+  if (!existing) {
+    return { success: false, error: 'Project not found' };
+  }
+
+  const columns = toProjectColumns(parsed.data);
+  const { error } = await supabase
+    .from('projects')
+    .update(columns)
+    .eq('id', projectId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  recordAuditEvent({
+    type: 'project_updated',
+    actorId: account?.id ?? null,
+    actorRole: account?.role,
+    projectId,
+    changes: Object.entries(columns)
+      .filter(([column, value]) => existing[column as keyof typeof columns] !== value)
+      .map(([column]) => column),
+  }, await getRequestAuditContext());
+
+  return { success: true, error: null };
+}
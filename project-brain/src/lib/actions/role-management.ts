@@ -1,94 +1,135 @@
 'use server';
 
 import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
-import { cookies } from 'next/headers';
-import { hasPermission } from '../auth';
+import { z } from 'zod';
+import {
+  Permission,
+  RolePermissionMap,
+  UserRole,
+  ROLE_COLORS,
+  hasPermission,
+  getAllPermissions,
+  getInheritedRoles,
+  getRoleKeys,
+  isBuiltInRole,
+  isPermission,
+  isUserRole,
+} from '../auth';
+import { getAuthContext } from '../authContext';
+import {
+  loadRolePermissions,
+  invalidateRolePermissions,
+  checkRolePermissionsConsistency,
+} from '../permissionResolver';
+import { getRequestAuditContext, recordAuditEvent } from '../audit';
+import { checkRoleAssignment, getAssignableRolesFor } from '../roleDelegation';
+import { createServerClient } from '../supabase/server';
 import { Database } from '@/types/supabase';
 
-type UserRole = 'admin' | 'director' | 'team' | 'client' | 'builder';
+export type RolePermissionChange = {
+  role: UserRole;
+  permission: Permission;
+  granted: boolean;
+};
 
+/**
+ * Get every permission the current user holds, including inherited ones and
+ * those from temporary grants (the impersonated user's while impersonating)
+ */
 export async function getCurrentUserPermissions() {
-  const supabase = createServerComponentClient<Database>({ cookies });
+  const { sessionUserId, user } = await getAuthContext();
   
-  // Get current session
-  const { data: { session } } = await supabase.auth.getSession();
-  
-  if (!session?.user) {
+  if (!sessionUserId) {
     return { 
       permissions: [],
       error: 'Not authenticated' 
     };
   }
   
-  // Get user's role from the database
-  const { data: userData, error } = await supabase
-    .from('users')
-    .select('role')
-    .eq('id', session.user.id)
-    .single();
-  
-  if (error || !userData) {
+  if (!user) {
     return { 
       permissions: [],
       error: 'Failed to fetch user role' 
     };
   }
   
-  // Call the edge function to get all permissions
-  const { data: permissionsData, error: permissionsError } = await supabase.functions.invoke('get-user-permissions', {
-    body: { userRole: userData.role }
-  });
-  
-  if (permissionsError) {
+  // Deactivated users have no permissions
+  if (!user.active) {
     return { 
       permissions: [],
-      error: 'Failed to fetch permissions' 
+      error: 'Account disabled' 
     };
   }
   
   return { 
-    permissions: permissionsData.permissions,
+    permissions: getAllPermissions(user.role, { grants: user.grants }),
     error: null 
   };
 }
 
+// Active admins; the last one can't be demoted
+async function countActiveAdmins(supabase: ReturnType<typeof createServerComponentClient<Database>>) {
+  const { count } = await supabase
+    .from('users')
+    .select('id', { count: 'exact', head: true })
+    .eq('role', 'admin')
+    .eq('active', true);
+  
+  return count ?? 0;
+}
+
+/**
+ * Change a user's role, if the delegation rules allow the current user to
+ */
 export async function updateUserRole(userId: string, newRole: UserRole) {
-  const supabase = createServerComponentClient<Database>({ cookies });
+  const supabase = await createServerClient();
   
-  // Get current session
-  const { data: { session } } = await supabase.auth.getSession();
+  const { sessionUserId, account } = await getAuthContext();
   
-  if (!session?.user) {
+  if (!sessionUserId) {
     return { success: false, error: 'Not authenticated' };
   }
   
-  // Get current user's role from the database
-  const { data: currentUserData, error: currentUserError } = await supabase
+  if (!account) {
+    return { success: false, error: 'Failed to fetch user role' };
+  }
+  
+  if (!account.active) {
+    return { success: false, error: 'Account disabled' };
+  }
+  
+  const { data: targetUserData, error: targetUserError } = await supabase
     .from('users')
     .select('role')
-    .eq('id', session.user.id)
+    .eq('id', userId)
     .single();
   
-  if (currentUserError || !currentUserData) {
-    return { success: false, error: 'Failed to fetch user role' };
+  if (targetUserError || !targetUserData) {
+    return { success: false, error: 'User not found' };
   }
   
-  // Check if current user has permission to manage roles
-  const hasManageRolesPermission = await hasPermission(currentUserData.role, 'manage:roles');
+  // Check the change against the delegation rules (see roleDelegation.ts)
+  const decision = checkRoleAssignment({
+    actorId: account.id,
+    actorRole: account.role,
+    targetId: userId,
+    targetRole: targetUserData.role,
+    newRole,
+    activeAdminCount: targetUserData.role === 'admin' ? await countActiveAdmins(supabase) : undefined,
+  });
   
-  if (!hasManageRolesPermission) {
+  if (!decision.allowed) {
     // Log unauthorized role change attempt
-    await supabase.rpc('log_auth_event', {
-      user_id: session.user.id,
-      event_type: 'unauthorized_role_change',
-      event_details: JSON.stringify({
-        target_user_id: userId,
-        attempted_role: newRole,
-        current_user_role: currentUserData.role
-      })
-    });
+    recordAuditEvent({
+      type: 'unauthorized_role_change',
+      actorId: account.id,
+      actorRole: account.role,
+      targetUserId: userId,
+      attemptedRole: newRole,
+      reason: decision.reason
+    }, await getRequestAuditContext());
     
-    return { success: false, error: 'Insufficient permissions to manage roles' };
+    return { success: false, error: decision.reason };
   }
   
   // Perform the role update
@@ -102,55 +143,401 @@ export async function updateUserRole(userId: string, newRole: UserRole) {
   }
   
   // Log successful role change
-  await supabase.rpc('log_auth_event', {
-    user_id: session.user.id,
-    event_type: 'role_change',
-    event_details: JSON.stringify({
-      target_user_id: userId,
-      new_role: newRole
-    })
-  });
+  recordAuditEvent({
+    type: 'role_update',
+    actorId: account.id,
+    actorRole: account.role,
+    targetUserId: userId,
+    newRole
+  }, await getRequestAuditContext());
   
   return { success: true, error: null };
 }
 
 export async function getUsersWithRoles() {
-  const supabase = createServerComponentClient<Database>({ cookies });
+  const supabase = await createServerClient();
   
-  // Get current session
-  const { data: { session } } = await supabase.auth.getSession();
+  const { sessionUserId, account } = await getAuthContext();
   
-  if (!session?.user) {
+  if (!sessionUserId) {
     return { users: [], error: 'Not authenticated' };
   }
   
-  // Get current user's role from the database
-  const { data: currentUserData, error: currentUserError } = await supabase
-    .from('users')
-    .select('role')
-    .eq('id', session.user.id)
-    .single();
-  
-  if (currentUserError || !currentUserData) {
+  if (!account) {
     return { users: [], error: 'Failed to fetch user role' };
   }
   
-  // Check if current user has permission to view users
-  const hasViewUsersPermission = await hasPermission(currentUserData.role, 'view:users');
+  if (!account.active) {
+    return { users: [], error: 'Account disabled' };
+  }
   
-  if (!hasViewUsersPermission) {
+  // Check if current user has permission to view users
+  if (!hasPermission(account.role, 'view:users', { grants: account.grants })) {
     return { users: [], error: 'Insufficient permissions to view users' };
   }
   
   // Fetch all users with their roles
   const { data: users, error: usersError } = await supabase
     .from('users')
-    .select('id, email, role, created_at')
+    .select('id, email, role, created_at, locked_until, active, deactivated_at, deactivated_by')
     .order('created_at', { ascending: false });
   
   if (usersError) {
     return { users: [], error: usersError.message };
   }
   
-  return { users, error: null };
-} 
\ No newline at end of file
+  // Roles the current user could move each user to
+  const activeAdminCount = users.filter(user => user.role === 'admin' && user.active).length;
+  const assignableRoles = Object.fromEntries(users.map(user => [
+    user.id,
+    getAssignableRolesFor({
+      actorId: account.id,
+      actorRole: account.role,
+      targetId: user.id,
+      targetRole: user.role,
+      activeAdminCount,
+    }),
+  ])) as Record<string, UserRole[]>;
+  
+  return { users, assignableRoles, error: null };
+}
+
+/**
+ * Resolve the signed-in user and confirm they may manage roles
+ */
+async function authorizeRoleManagement() {
+  const { sessionUserId, account } = await getAuthContext();
+  
+  if (!sessionUserId) {
+    return { userId: null, error: 'Not authenticated' };
+  }
+  
+  if (!account) {
+    return { userId: null, error: 'Failed to fetch user role' };
+  }
+  
+  if (!account.active) {
+    return { userId: null, error: 'Account disabled' };
+  }
+  
+  if (!hasPermission(account.role, 'manage:roles', { grants: account.grants })) {
+    return { userId: null, error: 'Insufficient permissions to manage roles' };
+  }
+  
+  return { userId: account.id, error: null };
+}
+
+export async function checkPermissionConsistency() {
+  const supabase = await createServerClient();
+  const { error } = await authorizeRoleManagement();
+  
+  if (error) {
+    return { drift: [], error };
+  }
+  
+  // Compare the code defaults with the role_permissions table
+  try {
+    const drift = await checkRolePermissionsConsistency(supabase);
+    return { drift, error: null };
+  } catch (error) {
+    return { drift: [], error: error instanceof Error ? error.message : 'Failed to check permissions' };
+  }
+}
+
+/**
+ * Get the role × permission matrix: direct grants from role_permissions and
+ * the effective permissions each role ends up with through inheritance
+ */
+export async function getRolePermissionMatrix() {
+  const supabase = await createServerClient();
+  const { error } = await authorizeRoleManagement();
+  
+  if (error) {
+    return { direct: null, effective: null, error };
+  }
+  
+  const direct = await loadRolePermissions(supabase, { force: true });
+  const effective = Object.fromEntries(
+    getRoleKeys().map(role => [role, getAllPermissions(role)])
+  ) as RolePermissionMap;
+  
+  return { direct, effective, error: null };
+}
+
+/**
+ * Grant or revoke direct role permissions, recording an audit entry for each change
+ */
+export async function updateRolePermissions(changes: RolePermissionChange[]) {
+  const supabase = await createServerClient();
+  const { userId, error } = await authorizeRoleManagement();
+  
+  if (error || !userId) {
+    return { success: false, error };
+  }
+  
+  const invalid = changes.find(change => !isUserRole(change.role) || !isPermission(change.permission));
+  if (invalid) {
+    return { success: false, error: `Unknown role or permission: ${invalid.role} / ${invalid.permission}` };
+  }
+  
+  for (const { role, permission, granted } of changes) {
+    const { error: changeError } = granted
+      ? await supabase
+          .from('role_permissions')
+          .upsert({ role, permission, created_by: userId }, { onConflict: 'role,permission' })
+      : await supabase
+          .from('role_permissions')
+          .delete()
+          .eq('role', role)
+          .eq('permission', permission);
+    
+    if (changeError) {
+      invalidateRolePermissions();
+      return { success: false, error: changeError.message };
+    }
+    
+    // Log the change for audit purposes
+    recordAuditEvent({
+      type: granted ? 'role_permission_granted' : 'role_permission_revoked',
+      actorId: userId,
+      role,
+      permission,
+    }, await getRequestAuditContext());
+  }
+  
+  invalidateRolePermissions();
+  
+  return { success: true, error: null };
+}
+
+// Schema for custom role definitions
+const customRoleSchema = z.object({
+  displayName: z.string().trim().min(1, 'Display name is required').max(50),
+  color: z.enum(ROLE_COLORS as [string, ...string[]]).default('gray'),
+  parentRoles: z.array(z.string()).default([]),
+  permissions: z.array(z.string()).default([]),
+});
+
+const createCustomRoleSchema = customRoleSchema.extend({
+  key: z
+    .string()
+    .regex(/^[a-z][a-z0-9_]*$/, 'Role key must be lowercase letters, numbers and underscores'),
+});
+
+export type CustomRoleFormData = z.input<typeof createCustomRoleSchema>;
+
+/**
+ * Check a custom role's parents and permissions against the registry
+ */
+function validateCustomRole(key: string, parentRoles: string[], permissions: string[]): string | null {
+  const unknownParent = parentRoles.find(parent => !isUserRole(parent));
+  if (unknownParent) {
+    return `Unknown parent role: ${unknownParent}`;
+  }
+  
+  // A parent that already inherits from this role would create a cycle
+  if (parentRoles.some(parent => parent === key || getInheritedRoles(parent).includes(key))) {
+    return 'A role cannot inherit from itself';
+  }
+  
+  const unknownPermission = permissions.find(permission => !isPermission(permission));
+  if (unknownPermission) {
+    return `Unknown permission: ${unknownPermission}`;
+  }
+  
+  return null;
+}
+
+/**
+ * Replace the direct permissions granted to a role
+ */
+async function replaceRolePermissions(
+  supabase: ReturnType<typeof createServerComponentClient<Database>>,
+  role: UserRole,
+  permissions: string[],
+  userId: string
+) {
+  const { error: deleteError } = await supabase
+    .from('role_permissions')
+    .delete()
+    .eq('role', role);
+  
+  if (deleteError || permissions.length === 0) {
+    return deleteError;
+  }
+  
+  const { error: insertError } = await supabase
+    .from('role_permissions')
+    .insert(permissions.map(permission => ({ role, permission, created_by: userId })));
+  
+  return insertError;
+}
+
+/**
+ * Define a new role with its display name, badge colour, parent roles and permissions
+ */
+export async function createCustomRole(formData: CustomRoleFormData) {
+  const supabase = await createServerClient();
+  const { userId, error } = await authorizeRoleManagement();
+  
+  if (error || !userId) {
+    return { success: false, error };
+  }
+  
+  const parsed = createCustomRoleSchema.safeParse(formData);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.errors[0].message };
+  }
+  
+  const { key, displayName, color, parentRoles, permissions } = parsed.data;
+  
+  if (isUserRole(key)) {
+    return { success: false, error: `Role ${key} already exists` };
+  }
+  
+  const validationError = validateCustomRole(key, parentRoles, permissions);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+  
+  const { error: insertError } = await supabase
+    .from('custom_roles')
+    .insert({ key, display_name: displayName, color, parent_roles: parentRoles, created_by: userId });
+  
+  if (insertError) {
+    return { success: false, error: insertError.message };
+  }
+  
+  const permissionsError = await replaceRolePermissions(supabase, key, permissions, userId);
+  invalidateRolePermissions();
+  
+  if (permissionsError) {
+    return { success: false, error: permissionsError.message };
+  }
+  
+  // Log the action for audit purposes
+  recordAuditEvent({
+    type: 'custom_role_created',
+    actorId: userId,
+    role: { key, displayName, color, parentRoles, permissions },
+  }, await getRequestAuditContext());
+  
+  return { success: true, error: null };
+}
+
+/**
+ * Update a custom role's display name, badge colour, parent roles and permissions
+ */
+export async function updateCustomRole(key: string, formData: z.input<typeof customRoleSchema>) {
+  const supabase = await createServerClient();
+  const { userId, error } = await authorizeRoleManagement();
+  
+  if (error || !userId) {
+    return { success: false, error };
+  }
+  
+  if (isBuiltInRole(key) || !isUserRole(key)) {
+    return { success: false, error: `Not a custom role: ${key}` };
+  }
+  
+  const parsed = customRoleSchema.safeParse(formData);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.errors[0].message };
+  }
+  
+  const { displayName, color, parentRoles, permissions } = parsed.data;
+  
+  const validationError = validateCustomRole(key, parentRoles, permissions);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+  
+  const { error: updateError } = await supabase
+    .from('custom_roles')
+    .update({ display_name: displayName, color, parent_roles: parentRoles })
+    .eq('key', key);
+  
+  if (updateError) {
+    return { success: false, error: updateError.message };
+  }
+  
+  const permissionsError = await replaceRolePermissions(supabase, key, permissions, userId);
+  invalidateRolePermissions();
+  
+  if (permissionsError) {
+    return { success: false, error: permissionsError.message };
+  }
+  
+  // Log the action for audit purposes
+  recordAuditEvent({
+    type: 'custom_role_updated',
+    actorId: userId,
+    role: { key, displayName, color, parentRoles, permissions },
+  }, await getRequestAuditContext());
+  
+  return { success: true, error: null };
+}
+
+/**
+ * Delete a custom role that no user holds and no other role inherits from
+ */
+export async function deleteCustomRole(key: string) {
+  const supabase = await createServerClient();
+  const { userId, error } = await authorizeRoleManagement();
+  
+  if (error || !userId) {
+    return { success: false, error };
+  }
+  
+  if (isBuiltInRole(key) || !isUserRole(key)) {
+    return { success: false, error: `Not a custom role: ${key}` };
+  }
+  
+  const dependant = getRoleKeys().find(role => role !== key && getInheritedRoles(role).includes(key));
+  if (dependant) {
+    return { success: false, error: `Role ${dependant} inherits from ${key}` };
+  }
+  
+  const { count, error: countError } = await supabase
+    .from('users')
+    .select('id', { count: 'exact', head: true })
+    .eq('role', key);
+  
+  if (countError) {
+    return { success: false, error: countError.message };
+  }
+  
+  if (count) {
+    return { success: false, error: `${count} user(s) still have the ${key} role` };
+  }
+  
+  const { count: membershipCount, error: membershipError } = await supabase
+    .from('project_members')
+    .select('id', { count: 'exact', head: true })
+    .eq('role', key);
+  
+  if (membershipError) {
+    return { success: false, error: membershipError.message };
+  }
+  
+  if (membershipCount) {
+    return { success: false, error: `${membershipCount} project membership(s) still use the ${key} role` };
+  }
+  
+  const permissionsError = await replaceRolePermissions(supabase, key, [], userId);
+  const { error: deleteError } = await supabase
+    .from('custom_roles')
+    .delete()
+    .eq('key', key);
+  
+  invalidateRolePermissions();
+  
+  if (permissionsError || deleteError) {
+    return { success: false, error: (permissionsError || deleteError)?.message ?? null };
+  }
+  
+  // Log the action for audit purposes
+  recordAuditEvent({ type: 'custom_role_deleted', actorId: userId, key }, await getRequestAuditContext());
+  
+  return { success: true, error: null };
+}
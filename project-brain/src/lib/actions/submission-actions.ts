@@ -0,0 +1,407 @@
+'use server';
+
+import { z } from 'zod';
+import { getAuthContext, getCurrentActor } from '../authContext';
+import { getRequestAuditContext, recordAuditEvent } from '../audit';
+import { fetchUserEmails } from '../auditLogQuery';
+import { applyPolicyFilter, can, compilePolicyFilter } from '../policy';
+import {
+  SUBMISSION_ACTIONS,
+  SUBMISSION_TRANSITIONS,
+  Submission,
+  SubmissionAction,
+  SubmissionComment,
+  SubmissionFormData,
+  SubmissionInboxItem,
+  checkSubmissionTransition,
+  getAvailableSubmissionActions,
+  submissionCommentSchema,
+  submissionSchema,
+  toSubmission,
+  toSubmissionComment,
+} from '../submissions';
+import { createServerClient } from '../supabase/server';
+import { requirePermission } from './user-actions';
+
+const projectIdSchema = z.string().uuid('Invalid project ID');
+const submissionIdSchema = z.string().uuid('Invalid submission ID');
+
+// Statuses a submission can still be acted on in
+const OPEN_SUBMISSION_STATUSES = ['draft', 'submitted', 'changes_requested'];
+
+/**
+ * The submissions on a project the current user can see: their own, or all
+ * of them for content managers, most recently updated first
+ */
+export async function getProjectSubmissions(projectId: string): Promise<{ submissions: Submission[]; error: string | null }> {
+  if (!projectIdSchema.safeParse(projectId).success) {
+    return { submissions: [], error: 'Project not found' };
+  }
+
+  await requirePermission('submit:content', '/unauthorized', projectId);
+
+  const supabase = await createServerClient();
+  const query = applyPolicyFilter(
+    supabase
+      .from('content_submissions')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('updated_at', { ascending: false }),
+    compilePolicyFilter(await getCurrentActor(), 'read', 'submission')
+  );
+
+  if (!query) {
+    return { submissions: [], error: null };
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return { submissions: [], error: error.message };
+  }
+
+  return { submissions: (data ?? []).map(toSubmission), error: null };
+}
+
+/**
+ * A submission with its comments, oldest first, and what the current user
+ * can do with it
+ */
+export async function getSubmission(submissionId: string): Promise<{
+  submission: Submission | null;
+  comments: (SubmissionComment & { authorEmail: string | null })[];
+  authorEmail: string | null;
+  actions: SubmissionAction[];
+  canEdit: boolean;
+  error: string | null;
+}> {
+  const empty = { submission: null, comments: [], authorEmail: null, actions: [], canEdit: false };
+
+  if (!submissionIdSchema.safeParse(submissionId).success) {
+    return { ...empty, error: 'Submission not found' };
+  }
+
+  const supabase = await createServerClient();
+  const { data } = await supabase
+    .from('content_submissions')
+    .select('*')
+    .eq('id', submissionId)
+    .maybeSingle();
+
+  if (!data) {
+    return { ...empty, error: 'Submission not found' };
+  }
+
+  await requirePermission('submit:content', '/unauthorized', data.project_id);
+
+  const actor = await getCurrentActor();
+  const submission = toSubmission(data);
+  const resource = {
+    type: 'submission' as const,
+    id: submission.id,
+    projectId: submission.projectId,
+    ownerId: submission.authorId,
+    status: submission.status,
+  };
+
+  if (!can(actor, 'read', resource)) {
+    return { ...empty, error: 'Submission not found' };
+  }
+
+  const { data: comments, error } = await supabase
+    .from('content_submission_comments')
+    .select('*')
+    .eq('submission_id', submissionId)
+    .order('created_at');
+
+  if (error) {
+    return { ...empty, error: error.message };
+  }
+
+  const emails = await fetchUserEmails(supabase, [submission.authorId, ...(comments ?? []).map(comment => comment.author_id)]);
+
+  return {
+    submission,
+    comments: (comments ?? []).map(comment => ({
+      ...toSubmissionComment(comment),
+      authorEmail: comment.author_id ? emails[comment.author_id] ?? null : null,
+    })),
+    authorEmail: submission.authorId ? emails[submission.authorId] ?? null : null,
+    actions: getAvailableSubmissionActions(actor, submission),
+    canEdit: can(actor, 'update', resource),
+    error: null,
+  };
+}
+
+/**
+ * Start a submission on a project as a draft, optionally submitting it for
+ * review straight away
+ */
+export async function createSubmission(projectId: string, formData: SubmissionFormData, submit: boolean = false) {
+  if (!projectIdSchema.safeParse(projectId).success) {
+    return { success: false, submissionId: null, error: 'Project not found' };
+  }
+
+  await requirePermission('submit:content', '/unauthorized', projectId);
+
+  const parsed = submissionSchema.safeParse(formData);
+  if (!parsed.success) {
+    return { success: false, submissionId: null, error: parsed.error.errors[0].message };
+  }
+
+  if (!can(await getCurrentActor(), 'create', { type: 'submission', projectId })) {
+    return { success: false, submissionId: null, error: 'You cannot submit content to this project' };
+  }
+
+  const supabase = await createServerClient();
+  const { account } = await getAuthContext();
+
+  const { data: submission, error } = await supabase
+    .from('content_submissions')
+    .insert({ project_id: projectId, title: parsed.data.title, body: parsed.data.body, author_id: account?.id ?? null })
+    .select('id')
+    .single();
+
+  if (error || !submission) {
+    return { success: false, submissionId: null, error: error?.message ?? 'Failed to save submission' };
+  }
+
+  recordAuditEvent({
+    type: 'content_submission_created',
+    actorId: account?.id ?? null,
+    actorRole: account?.role,
+    projectId,
+    submissionId: submission.id,
+  }, await getRequestAuditContext());
+
+  if (submit) {
+    const result = await transitionSubmission(submission.id, 'submit');
+    return { success: result.success, submissionId: submission.id, error: result.error };
+  }
+
+  return { success: true, submissionId: submission.id, error: null };
+}
+
+/**
+ * Edit a submission's title and content; only its author can, while it is a
+ * draft or has changes requested
+ */
+export async function updateSubmission(submissionId: string, formData: SubmissionFormData) {
+  if (!submissionIdSchema.safeParse(submissionId).success) {
+    return { success: false, error: 'Submission not found' };
+  }
+
+  const parsed = submissionSchema.safeParse(formData);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.errors[0].message };
+  }
+
+  const supabase = await createServerClient();
+  const { data: existing } = await supabase
+    .from('content_submissions')
+    .select('*')
+    .eq('id', submissionId)
+    .maybeSingle();
+
+  if (!existing) {
+    return { success: false, error: 'Submission not found' };
+  }
+
+  await requirePermission('submit:content', '/unauthorized', existing.project_id);
+
+  const resource = {
+    type: 'submission' as const,
+    id: existing.id,
+    projectId: existing.project_id,
+    ownerId: existing.author_id,
+    status: existing.status,
+  };
+  if (!can(await getCurrentActor(), 'update', resource)) {
+    return { success: false, error: 'This submission can no longer be edited' };
+  }
+
+  const { account } = await getAuthContext();
+  const { error } = await supabase
+    .from('content_submissions')
+    .update({ title: parsed.data.title, body: parsed.data.body })
+    .eq('id', submissionId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  recordAuditEvent({
+    type: 'content_submission_updated',
+    actorId: account?.id ?? null,
+    actorRole: account?.role,
+    projectId: existing.project_id,
+    submissionId,
+  }, await getRequestAuditContext());
+
+  return { success: true, error: null };
+}
+
+/**
+ * Move a submission through review: submit it, request changes, approve or
+ * reject it. Checked against SUBMISSION_TRANSITIONS here and again by the
+ * database, and recorded in the audit log.
+ */
+export async function transitionSubmission(submissionId: string, action: SubmissionAction, comment: string = '') {
+  if (!submissionIdSchema.safeParse(submissionId).success || !SUBMISSION_ACTIONS.includes(action)) {
+    return { success: false, error: 'Submission not found' };
+  }
+
+  const parsedComment = submissionCommentSchema.safeParse(comment);
+  if (!parsedComment.success) {
+    return { success: false, error: parsedComment.error.errors[0].message };
+  }
+
+  const supabase = await createServerClient();
+  const { data } = await supabase
+    .from('content_submissions')
+    .select('*')
+    .eq('id', submissionId)
+    .maybeSingle();
+
+  if (!data) {
+    return { success: false, error: 'Submission not found' };
+  }
+
+  await requirePermission(SUBMISSION_TRANSITIONS[action].permission, '/unauthorized', data.project_id);
+
+  const submission = toSubmission(data);
+  const check = checkSubmissionTransition(await getCurrentActor(), submission, action, parsedComment.data);
+  if (!check.allowed) {
+    return { success: false, error: check.reason };
+  }
+
+  const { to } = SUBMISSION_TRANSITIONS[action];
+  const { data: moved, error } = await supabase.rpc('transition_content_submission', {
+    p_submission_id: submissionId,
+    p_from_status: submission.status,
+    p_to_status: to,
+    p_comment: parsedComment.data,
+  });
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  if (!moved) {
+    return { success: false, error: 'This submission was changed by someone else; reload and try again' };
+  }
+
+  const { account } = await getAuthContext();
+  recordAuditEvent({
+    type: 'content_submission_transitioned',
+    actorId: account?.id ?? null,
+    actorRole: account?.role,
+    projectId: submission.projectId,
+    submissionId,
+    action,
+    from: submission.status,
+    to,
+    ...(parsedComment.data ? { comment: parsedComment.data } : {}),
+  }, await getRequestAuditContext());
+
+  return { success: true, error: null };
+}
+
+/**
+ * Comment on a submission without moving it
+ */
+export async function addSubmissionComment(submissionId: string, body: string) {
+  if (!submissionIdSchema.safeParse(submissionId).success) {
+    return { success: false, error: 'Submission not found' };
+  }
+
+  const parsed = submissionCommentSchema.min(1, 'Write a comment').safeParse(body);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.errors[0].message };
+  }
+
+  const supabase = await createServerClient();
+  const { data: submission } = await supabase
+    .from('content_submissions')
+    .select('*')
+    .eq('id', submissionId)
+    .maybeSingle();
+
+  if (!submission) {
+    return { success: false, error: 'Submission not found' };
+  }
+
+  await requirePermission('submit:content', '/unauthorized', submission.project_id);
+
+  const resource = {
+    type: 'submission' as const,
+    id: submission.id,
+    projectId: submission.project_id,
+    ownerId: submission.author_id,
+  };
+  if (!can(await getCurrentActor(), 'read', resource)) {
+    return { success: false, error: 'Submission not found' };
+  }
+
+  const { account } = await getAuthContext();
+  const { error } = await supabase
+    .from('content_submission_comments')
+    .insert({ submission_id: submissionId, author_id: account?.id ?? null, body: parsed.data });
+
+  return error ? { success: false, error: error.message } : { success: true, error: null };
+}
+
+/**
+ * Open submissions the current user can act on across their projects:
+ * reviews waiting on them as a content manager, and their own drafts and
+ * submissions sent back for changes. Oldest first.
+ */
+export async function getReviewInbox(): Promise<{ items: SubmissionInboxItem[]; error: string | null }> {
+  await requirePermission('submit:content');
+
+  const supabase = await createServerClient();
+  const actor = await getCurrentActor();
+  const query = applyPolicyFilter(
+    supabase
+      .from('content_submissions')
+      .select('*')
+      .in('status', OPEN_SUBMISSION_STATUSES)
+      .order('updated_at'),
+    compilePolicyFilter(actor, 'read', 'submission')
+  );
+
+  if (!query) {
+    return { items: [], error: null };
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return { items: [], error: error.message };
+  }
+
+  const actionable = (data ?? [])
+    .map(toSubmission)
+    .map(submission => ({ submission, actions: getAvailableSubmissionActions(actor, submission) }))
+    .filter(({ actions }) => actions.length > 0);
+
+  if (actionable.length === 0) {
+    return { items: [], error: null };
+  }
+
+  const { data: projects } = await supabase
+    .from('projects')
+    .select('id, name')
+    .in('id', actionable.map(({ submission }) => submission.projectId));
+
+  const projectNames = new Map((projects ?? []).map(project => [project.id, project.name]));
+
+  return {
+    items: actionable.map(({ submission, actions }) => ({
+      ...submission,
+      projectName: projectNames.get(submission.projectId) ?? 'Unknown project',
+      actions,
+    })),
+    error: null,
+  };
+}
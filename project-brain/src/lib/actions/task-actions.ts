@@ -0,0 +1,627 @@
+'use server';
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { getAuthContext, getCurrentActor } from '../authContext';
+import { getRequestAuditContext, recordAuditEvent } from '../audit';
+import { fetchUserEmails } from '../auditLogQuery';
+import { applyPolicyFilter, can, compilePolicyFilter } from '../policy';
+import {
+  Task,
+  TaskComment,
+  TaskFormData,
+  TaskListItem,
+  TaskRow,
+  TaskStatus,
+  canBeAssignedTasks,
+  createsDependencyCycle,
+  getBlockingTasks,
+  taskSchema,
+  taskStatusSchema,
+  toDateString,
+  toTask,
+  toTaskColumns,
+} from '../tasks';
+import { createServerClient } from '../supabase/server';
+import { requirePermission } from './user-actions';
+import { Database } from '@/types/supabase';
+
+const projectIdSchema = z.string().uuid('Invalid project ID');
+const taskIdSchema = z.string().uuid('Invalid task ID');
+const commentSchema = z.string().trim().min(1, 'Write a comment').max(2000, 'Keep comments under 2000 characters');
+
+const toTaskResource = (task: Pick<TaskRow, 'id' | 'project_id' | 'assignee_id' | 'shared'>) => ({
+  type: 'task' as const,
+  id: task.id,
+  projectId: task.project_id,
+  ownerId: task.assignee_id,
+  shared: task.shared,
+});
+
+/**
+ * The dependencies of the given tasks, by task id
+ */
+async function fetchDependencies(
+  supabase: SupabaseClient<Database>,
+  taskIds: string[]
+): Promise<Record<string, string[]>> {
+  if (taskIds.length === 0) return {};
+
+  const { data } = await supabase
+    .from('task_dependencies')
+    .select('task_id, depends_on_id')
+    .in('task_id', taskIds);
+
+  const dependencies: Record<string, string[]> = {};
+  for (const { task_id, depends_on_id } of data ?? []) {
+    (dependencies[task_id] ??= []).push(depends_on_id);
+  }
+  return dependencies;
+}
+
+/**
+ * Add project and phase names to tasks from any number of projects
+ */
+async function toTaskListItems(supabase: SupabaseClient<Database>, rows: TaskRow[]): Promise<TaskListItem[]> {
+  if (rows.length === 0) return [];
+
+  const [{ data: projects }, { data: phases }] = await Promise.all([
+    supabase.from('projects').select('id, name').in('id', Array.from(new Set(rows.map(row => row.project_id)))),
+    supabase
+      .from('project_phases')
+      .select('id, name')
+      .in('id', Array.from(new Set(rows.map(row => row.phase_id).filter((id): id is string => !!id)))),
+  ]);
+
+  const projectNames = new Map((projects ?? []).map(project => [project.id, project.name]));
+  const phaseNames = new Map((phases ?? []).map(phase => [phase.id, phase.name]));
+
+  return rows.map(row => ({
+    ...toTask(row),
+    projectName: projectNames.get(row.project_id) ?? 'Unknown project',
+    phaseName: row.phase_id ? phaseNames.get(row.phase_id) ?? null : null,
+  }));
+}
+
+/**
+ * Active members of a project who can be assigned its tasks (see
+ * canBeAssignedTasks)
+ */
+async function fetchAssignableUsers(
+  supabase: SupabaseClient<Database>,
+  projectId: string
+): Promise<{ users: { id: string; email: string }[]; error: string | null }> {
+  const { data: members, error: membersError } = await supabase
+    .from('project_members')
+    .select('user_id, role')
+    .eq('project_id', projectId);
+
+  if (membersError) {
+    return { users: [], error: membersError.message };
+  }
+
+  const userIds = (members ?? []).filter(member => canBeAssignedTasks(member.role)).map(member => member.user_id);
+  if (userIds.length === 0) {
+    return { users: [], error: null };
+  }
+
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, email')
+    .in('id', userIds)
+    .eq('active', true)
+    .order('email');
+
+  if (error) {
+    return { users: [], error: error.message };
+  }
+
+  return { users: data ?? [], error: null };
+}
+
+/**
+ * Check a form's phase, assignee and dependencies belong to the project, and
+ * that the dependencies don't loop back to the task. Pass a null assigneeId
+ * to skip the assignee, e.g. when it hasn't changed. Returns an error
+ * message, if any.
+ */
+async function checkTaskReferences(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  taskId: string | null,
+  phaseId: string | null,
+  assigneeId: string | null,
+  dependsOn: string[]
+): Promise<string | null> {
+  if (assigneeId) {
+    const { users, error } = await fetchAssignableUsers(supabase, projectId);
+
+    if (error) {
+      return error;
+    }
+
+    if (!users.some(user => user.id === assigneeId)) {
+      return 'Tasks can only be assigned to the project team';
+    }
+  }
+
+  if (phaseId) {
+    const { data: phase } = await supabase
+      .from('project_phases')
+      .select('id')
+      .eq('id', phaseId)
+      .eq('project_id', projectId)
+      .maybeSingle();
+
+    if (!phase) {
+      return 'Unknown phase';
+    }
+  }
+
+  if (dependsOn.length === 0) {
+    return null;
+  }
+
+  if (taskId && dependsOn.includes(taskId)) {
+    return 'A task cannot depend on itself';
+  }
+
+  const { data: tasks } = await supabase.from('tasks').select('id').eq('project_id', projectId);
+  const projectTaskIds = (tasks ?? []).map(task => task.id);
+
+  if (dependsOn.some(id => !projectTaskIds.includes(id))) {
+    return 'Tasks can only depend on tasks in the same project';
+  }
+
+  // A new task has nothing depending on it yet, so can't close a loop
+  if (taskId && createsDependencyCycle(taskId, dependsOn, await fetchDependencies(supabase, projectTaskIds))) {
+    return 'Tasks cannot depend on each other in a loop';
+  }
+
+  return null;
+}
+
+/**
+ * The tasks on a project the current user can see, with the project's phases
+ * in order and the emails of the assignees
+ */
+export async function getProjectTasks(projectId: string): Promise<{
+  tasks: Task[];
+  phases: { id: string; name: string }[];
+  assigneeEmails: Record<string, string>;
+  error: string | null;
+}> {
+  const empty = { tasks: [], phases: [], assigneeEmails: {} };
+
+  if (!projectIdSchema.safeParse(projectId).success) {
+    return { ...empty, error: 'Project not found' };
+  }
+
+  await requirePermission('view:projects', '/unauthorized', projectId);
+
+  const supabase = await createServerClient();
+  const tasksQuery = applyPolicyFilter(
+    supabase.from('tasks').select('*').eq('project_id', projectId).order('position'),
+    compilePolicyFilter(await getCurrentActor(), 'read', 'task')
+  );
+
+  const [phases, tasks] = await Promise.all([
+    supabase.from('project_phases').select('id, name').eq('project_id', projectId).order('position'),
+    tasksQuery ?? { data: [], error: null },
+  ]);
+
+  const error = phases.error ?? tasks.error;
+  if (error) {
+    return { ...empty, error: error.message };
+  }
+
+  const rows = tasks.data ?? [];
+  const [dependencies, assigneeEmails] = await Promise.all([
+    fetchDependencies(supabase, rows.map(row => row.id)),
+    fetchUserEmails(supabase, rows.map(row => row.assignee_id)),
+  ]);
+
+  return {
+    tasks: rows.map(row => toTask(row, dependencies[row.id])),
+    phases: phases.data ?? [],
+    assigneeEmails,
+    error: null,
+  };
+}
+
+/**
+ * A task with its comments, oldest first, the tasks it depends on, and
+ * whether the current user can edit it (beyond its status)
+ */
+export async function getTask(taskId: string): Promise<{
+  task: Task | null;
+  dependencies: Pick<Task, 'id' | 'title' | 'status'>[];
+  comments: TaskComment[];
+  assigneeEmail: string | null;
+  canEdit: boolean;
+  error: string | null;
+}> {
+  const empty = { task: null, dependencies: [], comments: [], assigneeEmail: null, canEdit: false };
+
+  if (!taskIdSchema.safeParse(taskId).success) {
+    return { ...empty, error: 'Task not found' };
+  }
+
+  const supabase = await createServerClient();
+  const { data } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('id', taskId)
+    .maybeSingle();
+
+  if (!data) {
+    return { ...empty, error: 'Task not found' };
+  }
+
+  await requirePermission('view:projects', '/unauthorized', data.project_id);
+
+  const actor = await getCurrentActor();
+  if (!can(actor, 'read', toTaskResource(data))) {
+    return { ...empty, error: 'Task not found' };
+  }
+
+  const dependsOn = (await fetchDependencies(supabase, [taskId]))[taskId] ?? [];
+  const [dependencies, comments] = await Promise.all([
+    dependsOn.length > 0
+      ? supabase.from('tasks').select('id, title, status').in('id', dependsOn).order('position')
+      : { data: [], error: null },
+    supabase.from('task_comments').select('*').eq('task_id', taskId).order('created_at'),
+  ]);
+
+  const error = dependencies.error ?? comments.error;
+  if (error) {
+    return { ...empty, error: error.message };
+  }
+
+  const emails = await fetchUserEmails(supabase, [data.assignee_id, ...(comments.data ?? []).map(comment => comment.author_id)]);
+
+  return {
+    task: toTask(data, dependsOn),
+    dependencies: (dependencies.data ?? []).map(task => ({ ...task, status: task.status as TaskStatus })),
+    comments: (comments.data ?? []).map(comment => ({
+      id: comment.id,
+      authorId: comment.author_id,
+      authorEmail: comment.author_id ? emails[comment.author_id] ?? null : null,
+      body: comment.body,
+      createdAt: comment.created_at,
+    })),
+    assigneeEmail: data.assignee_id ? emails[data.assignee_id] ?? null : null,
+    canEdit: can(actor, 'update', { ...toTaskResource(data), ownerId: null }),
+    error: null,
+  };
+}
+
+/**
+ * Open tasks assigned to the current user across their projects, soonest
+ * due first
+ */
+export async function getMyTasks(): Promise<{ tasks: TaskListItem[]; error: string | null }> {
+  await requirePermission('view:projects');
+
+  const { account } = await getAuthContext();
+  if (!account) {
+    return { tasks: [], error: null };
+  }
+
+  const supabase = await createServerClient();
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('assignee_id', account.id)
+    .neq('status', 'done')
+    .order('due_date', { nullsFirst: false })
+    .order('position');
+
+  if (error) {
+    return { tasks: [], error: error.message };
+  }
+
+  return { tasks: await toTaskListItems(supabase, data ?? []), error: null };
+}
+
+/**
+ * Tasks the current user can see that are past their due date and not done,
+ * most overdue first
+ */
+export async function getOverdueTasks(): Promise<{ tasks: TaskListItem[]; error: string | null }> {
+  await requirePermission('view:projects');
+
+  const supabase = await createServerClient();
+  const query = applyPolicyFilter(
+    supabase
+      .from('tasks')
+      .select('*')
+      .neq('status', 'done')
+      .lt('due_date', toDateString())
+      .order('due_date'),
+    compilePolicyFilter(await getCurrentActor(), 'read', 'task')
+  );
+
+  if (!query) {
+    return { tasks: [], error: null };
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return { tasks: [], error: error.message };
+  }
+
+  return { tasks: await toTaskListItems(supabase, data ?? []), error: null };
+}
+
+/**
+ * Users a project's tasks can be assigned to: its active members at team
+ * level or above
+ */
+export async function getAssignableUsers(
+  projectId: string
+): Promise<{ users: { id: string; email: string }[]; error: string | null }> {
+  if (!projectIdSchema.safeParse(projectId).success) {
+    return { users: [], error: 'Project not found' };
+  }
+
+  await requirePermission('manage:projects', '/unauthorized', projectId);
+
+  return fetchAssignableUsers(await createServerClient(), projectId);
+}
+
+/**
+ * Add a task to a project, at the end of the board
+ */
+export async function createTask(projectId: string, formData: TaskFormData) {
+  if (!projectIdSchema.safeParse(projectId).success) {
+    return { success: false, taskId: null, error: 'Project not found' };
+  }
+
+  await requirePermission('manage:projects', '/unauthorized', projectId);
+
+  const parsed = taskSchema.safeParse(formData);
+  if (!parsed.success) {
+    return { success: false, taskId: null, error: parsed.error.errors[0].message };
+  }
+
+  if (!can(await getCurrentActor(), 'create', { type: 'task', projectId })) {
+    return { success: false, taskId: null, error: 'You cannot add tasks to this project' };
+  }
+
+  const supabase = await createServerClient();
+  const referenceError = await checkTaskReferences(
+    supabase,
+    projectId,
+    null,
+    parsed.data.phaseId,
+    parsed.data.assigneeId,
+    parsed.data.dependsOn
+  );
+  if (referenceError) {
+    return { success: false, taskId: null, error: referenceError };
+  }
+
+  // The task and its dependencies in one transaction
+  const { data: taskId, error } = await supabase.rpc('create_task', {
+    p_project_id: projectId,
+    p_task: toTaskColumns(parsed.data),
+    p_depends_on: parsed.data.dependsOn,
+  });
+
+  if (error || !taskId) {
+    return { success: false, taskId: null, error: error?.message ?? 'Failed to create task' };
+  }
+
+  const { account } = await getAuthContext();
+  recordAuditEvent({
+    type: 'task_created',
+    actorId: account?.id ?? null,
+    actorRole: account?.role,
+    projectId,
+    taskId,
+    title: parsed.data.title,
+  }, await getRequestAuditContext());
+
+  return { success: true, taskId: taskId as string, error: null };
+}
+
+/**
+ * Edit a task, including its assignee, due date and dependencies
+ */
+export async function updateTask(taskId: string, formData: TaskFormData) {
+  if (!taskIdSchema.safeParse(taskId).success) {
+    return { success: false, error: 'Task not found' };
+  }
+
+  const parsed = taskSchema.safeParse(formData);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.errors[0].message };
+  }
+
+  const supabase = await createServerClient();
+  const { data: existing } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('id', taskId)
+    .maybeSingle();
+
+  if (!existing) {
+    return { success: false, error: 'Task not found' };
+  }
+
+  await requirePermission('manage:projects', '/unauthorized', existing.project_id);
+
+  const actor = await getCurrentActor();
+  // Assignees can update their task too, but only its status (see updateTaskStatus)
+  if (!can(actor, 'update', { ...toTaskResource(existing), ownerId: null })) {
+    return { success: false, error: 'You cannot edit this task' };
+  }
+
+  const referenceError = await checkTaskReferences(
+    supabase,
+    existing.project_id,
+    taskId,
+    parsed.data.phaseId,
+    // Tasks already assigned to someone who has left the team stay editable
+    parsed.data.assigneeId !== existing.assignee_id ? parsed.data.assigneeId : null,
+    parsed.data.dependsOn
+  );
+  if (referenceError) {
+    return { success: false, error: referenceError };
+  }
+
+  const previousDependsOn = (await fetchDependencies(supabase, [taskId]))[taskId] ?? [];
+  const columns = toTaskColumns(parsed.data);
+
+  if (columns.status === 'done' && existing.status !== 'done') {
+    const { data: dependencies } = parsed.data.dependsOn.length > 0
+      ? await supabase.from('tasks').select('id, status').in('id', parsed.data.dependsOn)
+      : { data: [] };
+
+    if (getBlockingTasks(parsed.data, dependencies ?? []).length > 0) {
+      return { success: false, error: 'Finish the tasks this depends on first' };
+    }
+  }
+
+  // The task and its dependencies in one transaction
+  const { error } = await supabase.rpc('update_task', {
+    p_task_id: taskId,
+    p_task: columns,
+    p_depends_on: parsed.data.dependsOn,
+  });
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  const dependenciesChanged =
+    previousDependsOn.length !== parsed.data.dependsOn.length ||
+    previousDependsOn.some(id => !parsed.data.dependsOn.includes(id));
+
+  const { account } = await getAuthContext();
+  recordAuditEvent({
+    type: 'task_updated',
+    actorId: account?.id ?? null,
+    actorRole: account?.role,
+    projectId: existing.project_id,
+    taskId,
+    changes: [
+      ...Object.entries(columns)
+        .filter(([column, value]) => existing[column as keyof typeof columns] !== value)
+        .map(([column]) => column),
+      ...(dependenciesChanged ? ['dependencies'] : []),
+    ],
+  }, await getRequestAuditContext());
+
+  return { success: true, error: null };
+}
+
+/**
+ * Move a task to another status. Those who manage the project can move any
+ * task; anyone else only the ones assigned to them. A task can't be done
+ * while a task it depends on isn't.
+ */
+export async function updateTaskStatus(taskId: string, status: TaskStatus) {
+  if (!taskIdSchema.safeParse(taskId).success) {
+    return { success: false, error: 'Task not found' };
+  }
+
+  const parsedStatus = taskStatusSchema.safeParse(status);
+  if (!parsedStatus.success) {
+    return { success: false, error: parsedStatus.error.errors[0].message };
+  }
+
+  const supabase = await createServerClient();
+  const { data: existing } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('id', taskId)
+    .maybeSingle();
+
+  if (!existing) {
+    return { success: false, error: 'Task not found' };
+  }
+
+  await requirePermission('view:projects', '/unauthorized', existing.project_id);
+
+  if (!can(await getCurrentActor(), 'update', toTaskResource(existing))) {
+    return { success: false, error: 'Only the assignee can update this task' };
+  }
+
+  if (existing.status === parsedStatus.data) {
+    return { success: true, error: null };
+  }
+
+  if (parsedStatus.data === 'done') {
+    const dependsOn = (await fetchDependencies(supabase, [taskId]))[taskId] ?? [];
+    const { data: dependencies } = dependsOn.length > 0
+      ? await supabase.from('tasks').select('id, status').in('id', dependsOn)
+      : { data: [] };
+
+    if (getBlockingTasks({ dependsOn }, dependencies ?? []).length > 0) {
+      return { success: false, error: 'Finish the tasks this depends on first' };
+    }
+  }
+
+  const { error } = await supabase
+    .from('tasks')
+    .update({ status: parsedStatus.data })
+    .eq('id', taskId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  const { account } = await getAuthContext();
+  recordAuditEvent({
+    type: 'task_status_changed',
+    actorId: account?.id ?? null,
+    actorRole: account?.role,
+    projectId: existing.project_id,
+    taskId,
+    from: existing.status,
+    to: parsedStatus.data,
+  }, await getRequestAuditContext());
+
+  return { success: true, error: null };
+}
+
+/**
+ * Comment on a task; anyone who can see it can
+ */
+export async function addTaskComment(taskId: string, body: string) {
+  if (!taskIdSchema.safeParse(taskId).success) {
+    return { success: false, error: 'Task not found' };
+  }
+
+  const parsed = commentSchema.safeParse(body);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.errors[0].message };
+  }
+
+  const supabase = await createServerClient();
+  const { data: task } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('id', taskId)
+    .maybeSingle();
+
+  if (!task) {
+    return { success: false, error: 'Task not found' };
+  }
+
+  await requirePermission('view:projects', '/unauthorized', task.project_id);
+
+  if (!can(await getCurrentActor(), 'read', toTaskResource(task))) {
+    return { success: false, error: 'Task not found' };
+  }
+
+  const { account } = await getAuthContext();
+  const { error } = await supabase
+    .from('task_comments')
+    .insert({ task_id: taskId, author_id: account?.id ?? null, body: parsed.data });
+
+  return error ? { success: false, error: error.message } : { success: true, error: null };
+}
@@ -0,0 +1,149 @@
+'use server';
+
+import { z } from 'zod';
+import { getAuthContext } from '../authContext';
+import { getRequestAuditContext, recordAuditEvent } from '../audit';
+import {
+  TemplateFormData,
+  TemplateSummary,
+  TemplateVersion,
+  parseTemplateDefinition,
+  templateSchema,
+} from '../templates';
+import { createServerClient } from '../supabase/server';
+import { requirePermission } from './user-actions';
+
+const templateIdSchema = z.string().uuid('Invalid template ID');
+
+/**
+ * Every template, newest first
+ */
+export async function getTemplates(): Promise<{ templates: TemplateSummary[]; error: string | null }> {
+  await requirePermission('manage:projects');
+
+  const supabase = await createServerClient();
+  const { data, error } = await supabase
+    .from('project_templates')
+    .select('id, name, description, current_version, created_at')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return { templates: [], error: error.message };
+  }
+
+  const templates = (data ?? []).map(template => ({
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    currentVersion: template.current_version,
+    createdAt: template.created_at,
+  }));
+
+  return { templates, error: null };
+}
+
+/**
+ * A template with its version history, newest version first
+ */
+export async function getTemplate(templateId: string): Promise<{
+  template: TemplateSummary | null;
+  versions: TemplateVersion[];
+  error: string | null;
+}> {
+  await requirePermission('manage:projects');
+
+  if (!templateIdSchema.safeParse(templateId).success) {
+    return { template: null, versions: [], error: 'Template not found' };
+  }
+
+  const supabase = await createServerClient();
+  const [{ data: template }, { data: versions, error }] = await Promise.all([
+    supabase
+      .from('project_templates')
+      .select('id, name, description, current_version, created_at')
+      .eq('id', templateId)
+      .maybeSingle(),
+    supabase
+      .from('project_template_versions')
+      .select('id, version, definition, created_at, created_by')
+      .eq('template_id', templateId)
+      .order('version', { ascending: false }),
+  ]);
+
+  if (!template) {
+    return { template: null, versions: [], error: 'Template not found' };
+  }
+
+  if (error) {
+    return { template: null, versions: [], error: error.message };
+  }
+
+  return {
+    template: {
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      currentVersion: template.current_version,
+      createdAt: template.created_at,
+    },
+    // Versions saved under an older schema are left out rather than misread
+    versions: (versions ?? []).flatMap(version => {
+      const definition = parseTemplateDefinition(version.definition);
+      return definition
+        ? [{
+            id: version.id,
+            version: version.version,
+            definition,
+            createdAt: version.created_at,
+            createdBy: version.created_by,
+          }]
+        : [];
+    }),
+    error: null,
+  };
+}
+
+/**
+ * Save a template as a new version, creating the template when templateId is
+ * null. Projects already created from it keep the version they were made from.
+ */
+export async function saveTemplate(templateId: string | null, formData: TemplateFormData) {
+  await requirePermission('manage:projects');
+
+  if (templateId !== null && !templateIdSchema.safeParse(templateId).success) {
+    return { success: false, templateId: null, error: 'Template not found' };
+  }
+
+  const parsed = templateSchema.safeParse(formData);
+  if (!parsed.success) {
+    return { success: false, templateId: null, error: parsed.error.errors[0].message };
+  }
+
+  const supabase = await createServerClient();
+  const { account } = await getAuthContext();
+  const { name, description, definition } = parsed.data;
+
+  const { data: saved, error } = await supabase
+    .rpc('save_project_template', {
+      p_template_id: templateId,
+      p_name: name,
+      p_description: description,
+      p_definition: definition,
+    })
+    .single<{ id: string; version: number }>();
+
+  if (error || !saved) {
+    return { success: false, templateId: null, error: error?.message ?? 'Failed to save template' };
+  }
+
+  recordAuditEvent({
+    type: 'project_template_saved',
+    actorId: account?.id ?? null,
+    actorRole: account?.role,
+    templateId: saved.id,
+    version: saved.version,
+    name,
+  }, await getRequestAuditContext());
+
+  return { success: true, templateId: saved.id, error: null };
+}
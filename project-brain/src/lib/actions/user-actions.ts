@@ -3,60 +3,74 @@
 import { cookies } from 'next/headers';
 import { createServerActionClient } from '@supabase/auth-helpers-nextjs';
 import { z } from 'zod';
-import { UserRole, Permission, hasPermission } from '../auth';
+import {
+  Permission,
+  ACCOUNT_DISABLED_PATH,
+  hasPermission,
+  isUserActive,
+  isUserRole,
+  fetchProjectMemberships,
+} from '../auth';
+import { getAuthContext } from '../authContext';
+import { checkRouteAccess, findRoutePolicy, getRouteProjectId } from '../routePolicy';
+import { getAccountLock, recordFailedLogin, recordSuccessfulLogin } from '../accountLockout';
+import { getRequestAuditContext, recordAuditEvent } from '../audit';
+import { getServiceClient } from '../supabase/service';
+import { passwordSchema } from '../passwordPolicy';
+import { getAssignableRoles } from '../roleDelegation';
 import { redirect } from 'next/navigation';
 
+// Any role in the registry (built-in or custom); load the registry before parsing
+const roleSchema = z.string().refine(role => isUserRole(role), { message: 'Unknown role' });
+
 // Schema for user registration
 const registerSchema = z.object({
   email: z.string().email('Invalid email address'),
-  password: z
-    .string()
-    .min(8, 'Password must be at least 8 characters')
-    .regex(
-      /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]{8,}$/,
-      'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character'
-    ),
-  role: z.enum(['client', 'builder', 'team', 'director', 'admin'] as const).default('client'),
+  password: passwordSchema,
+  role: roleSchema.default('client'),
 });
 
-// Schema for updating user roles
-const updateRoleSchema = z.object({
-  userId: z.string().uuid('Invalid user ID'),
-  role: z.enum(['client', 'builder', 'team', 'director', 'admin'] as const),
+// Schema for signing in
+const loginSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  password: z.string().min(1, 'Password is required'),
 });
 
 export type RegisterFormData = z.infer<typeof registerSchema>;
+export type LoginFormData = z.infer<typeof loginSchema>;
+
+// Tell a locked-out user roughly how long to wait
+function lockedOutMessage(lockedUntil: Date) {
+  const minutes = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 60000));
+  return `Too many failed sign-in attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+}
 
 /**
  * Register a new user with the specified role
  */
 export async function registerUser(formData: RegisterFormData) {
   try {
-    // Validate form data
-    const validatedData = registerSchema.parse(formData);
-    
     const supabase = createServerActionClient({ cookies });
     
-    // Check if we're already authenticated (admins can create users)
-    const { data: { session } } = await supabase.auth.getSession();
+    // Check if we're already authenticated (admins can create users). This
+    // also loads the role registry the role is validated against.
+    const { sessionUserId, account } = await getAuthContext();
     let adminCreatedUser = false;
     
-    // If an admin is creating another user, they can assign any role
-    if (session) {
-      const { data: userData } = await supabase
-        .from('users')
-        .select('role')
-        .eq('id', session.user.id)
-        .single();
-      
-      if (userData?.role === 'admin') {
-        adminCreatedUser = true;
-      } else if (userData?.role === 'director' && 
-                (validatedData.role === 'client' || validatedData.role === 'builder')) {
-        // Directors can only create clients or builders
+    if (sessionUserId && account && !account.active) {
+      return { error: 'Your account has been disabled' };
+    }
+    
+    // Validate form data
+    const validatedData = registerSchema.parse(formData);
+    
+    // Signed-in staff may create users with another role
+    if (sessionUserId) {
+      // Staff can create users with any role they may assign (see roleDelegation.ts)
+      if (account && getAssignableRoles(account.role).includes(validatedData.role)) {
         adminCreatedUser = true;
       } else if (validatedData.role !== 'client') {
-        // Non-admins/directors can only register users as clients
+        // Everyone else can only register users as clients
         return { error: 'You do not have permission to create users with this role' };
       }
     } else if (validatedData.role !== 'client') {
@@ -96,17 +110,14 @@ export async function registerUser(formData: RegisterFormData) {
     }
     
     // Log the user action for audit purposes
-    await supabase.from('audit_logs').insert({
-      action: 'user_registration',
-      user_id: adminCreatedUser ? session?.user.id : authData.user.id,
-      target_user_id: authData.user.id,
-      details: JSON.stringify({
-        email: validatedData.email,
-        role: validatedData.role,
-        admin_created: adminCreatedUser,
-      }),
-      timestamp: new Date().toISOString(),
-    });
+    recordAuditEvent({
+      type: 'user_registration',
+      actorId: adminCreatedUser && sessionUserId ? sessionUserId : authData.user.id,
+      targetUserId: authData.user.id,
+      email: validatedData.email,
+      role: validatedData.role,
+      adminCreated: adminCreatedUser,
+    }, await getRequestAuditContext());
     
     return { success: true, user: authData.user };
   } catch (error) {
@@ -119,67 +130,70 @@ export async function registerUser(formData: RegisterFormData) {
 }
 
 /**
- * Update a user's role (admin only)
+ * Sign in with email and password. Failed attempts are counted and lock the
+ * account once the configured threshold is reached (see accountLockout.ts).
  */
-export async function updateUserRole(formData: z.infer<typeof updateRoleSchema>) {
+export async function loginUser(formData: LoginFormData) {
   try {
-    // Validate form data
-    const validatedData = updateRoleSchema.parse(formData);
-    
     const supabase = createServerActionClient({ cookies });
     
-    // Check if we're authenticated as admin
-    const { data: { session } } = await supabase.auth.getSession();
-    
-    if (!session) {
-      return { error: 'Authentication required' };
-    }
+    // Validate form data
+    const validatedData = loginSchema.parse(formData);
     
-    // Get the current user's role
-    const { data: currentUserData } = await supabase
-      .from('users')
-      .select('role')
-      .eq('id', session.user.id)
-      .single();
+    const auditContext = await getRequestAuditContext();
     
-    if (!currentUserData) {
-      return { error: 'User profile not found' };
-    }
+    // Lockout state isn't readable with the caller's session
+    const serviceClient = getServiceClient();
     
-    const userRole = currentUserData.role as UserRole;
+    // Don't even try the password while the account is locked
+    const lockedUntil = await getAccountLock(serviceClient, validatedData.email);
     
-    // Check if user has permission to update roles
-    if (!hasPermission(userRole, 'manage:roles')) {
-      return { error: 'You do not have permission to update user roles' };
+    if (lockedUntil) {
+      recordAuditEvent({
+        type: 'login_refused_locked',
+        email: validatedData.email,
+        lockedUntil: lockedUntil.toISOString(),
+      }, auditContext);
+      
+      return { error: lockedOutMessage(lockedUntil), lockedUntil: lockedUntil.toISOString() };
     }
     
-    // Directors can only update to client or builder
-    if (userRole === 'director' && 
-        validatedData.role !== 'client' && 
-        validatedData.role !== 'builder') {
-      return { error: 'Directors can only assign client or builder roles' };
-    }
+    const { data: authData, error: authError } = await supabase.auth.signInWithPassword({
+      email: validatedData.email,
+      password: validatedData.password,
+    });
     
-    // Update the user's role
-    const { error: updateError } = await supabase
-      .from('users')
-      .update({ role: validatedData.role })
-      .eq('id', validatedData.userId);
+    if (authError || !authData.user) {
+      const failedLogin = await recordFailedLogin(serviceClient, validatedData.email);
+      
+      if (failedLogin?.lockedUntil) {
+        recordAuditEvent({
+          type: 'account_locked',
+          targetUserId: failedLogin.userId,
+          failedAttempts: failedLogin.failedAttempts,
+          lockedUntil: failedLogin.lockedUntil.toISOString(),
+        }, auditContext);
+        
+        return {
+          error: lockedOutMessage(failedLogin.lockedUntil),
+          lockedUntil: failedLogin.lockedUntil.toISOString(),
+        };
+      }
+      
+      // Same message whether or not the email exists
+      return { error: 'Invalid email or password' };
+    }
     
-    if (updateError) {
-      return { error: updateError.message };
+    // The password was right, but deactivated accounts may not sign in
+    if (!(await isUserActive(supabase, authData.user.id))) {
+      await supabase.auth.signOut();
+      recordAuditEvent({ type: 'login_refused_disabled', targetUserId: authData.user.id }, auditContext);
+      
+      return { error: 'This account has been disabled', disabled: true };
     }
     
-    // Log the action for audit purposes
-    await supabase.from('audit_logs').insert({
-      action: 'role_update',
-      user_id: session.user.id,
-      target_user_id: validatedData.userId,
-      details: JSON.stringify({
-        new_role: validatedData.role,
-      }),
-      timestamp: new Date().toISOString(),
-    });
+    // Clears the failed attempt count
+    await recordSuccessfulLogin(supabase);
     
     return { success: true };
   } catch (error) {
@@ -187,109 +201,186 @@ export async function updateUserRole(formData: z.infer<typeof updateRoleSchema>)
       return { error: error.errors[0].message };
     }
     
+    console.error('Error signing in:', error);
     return { error: 'An unexpected error occurred' };
   }
 }
 
+// The signed-in user, if they may manage user accounts. Checked as the admin
+// even while they impersonate someone.
+async function authorizeUserManagement() {
+  const { sessionUserId, account } = await getAuthContext();
+  
+  if (!sessionUserId) {
+    return { error: 'Authentication required' };
+  }
+  
+  if (!account) {
+    return { error: 'User profile not found' };
+  }
+  
+  if (!account.active) {
+    return { error: 'Your account has been disabled' };
+  }
+  
+  if (!hasPermission(account.role, 'manage:users', { grants: account.grants })) {
+    return { error: 'You do not have permission to manage user accounts' };
+  }
+  
+  return { account };
+}
+
 /**
  * Deactivate/reactivate a user account (admin only)
  */
 export async function toggleUserActive(userId: string, active: boolean) {
   try {
-    const supabase = createServerActionClient({ cookies });
+    const authorized = await authorizeUserManagement();
+    
+    if ('error' in authorized) {
+      return { error: authorized.error };
+    }
     
-    // Check if we're authenticated as admin
-    const { data: { session } } = await supabase.auth.getSession();
+    const { account } = authorized;
+    const supabase = createServerActionClient({ cookies });
     
-    if (!session) {
-      return { error: 'Authentication required' };
+    if (!active && userId === account.id) {
+      return { error: 'You cannot deactivate your own account' };
     }
     
-    // Get the current user's role
-    const { data: currentUserData } = await supabase
+    // Update the user's active status; deactivating also records when and
+    // by whom, and signs the user out everywhere (see 08_enforce_active_users.sql)
+    const { error: updateError } = await supabase
       .from('users')
-      .select('role')
-      .eq('id', session.user.id)
-      .single();
+      .update({ active })
+      .eq('id', userId);
     
-    if (!currentUserData) {
-      return { error: 'User profile not found' };
+    if (updateError) {
+      return { error: updateError.message };
     }
     
-    const userRole = currentUserData.role as UserRole;
+    // Log the action for audit purposes
+    recordAuditEvent({
+      type: active ? 'user_activated' : 'user_deactivated',
+      actorId: account.id,
+      actorRole: account.role,
+      targetUserId: userId,
+    }, await getRequestAuditContext());
     
-    // Check if user has permission to manage users
-    if (!hasPermission(userRole, 'manage:users')) {
-      return { error: 'You do not have permission to manage user accounts' };
+    return { success: true };
+  } catch (error) {
+    return { error: 'An unexpected error occurred' };
+  }
+}
+
+/**
+ * Unlock an account locked by failed sign-ins (admin only)
+ */
+export async function unlockUserAccount(userId: string) {
+  try {
+    const authorized = await authorizeUserManagement();
+    
+    if ('error' in authorized) {
+      return { error: authorized.error };
     }
     
-    // Update the user's active status
+    const { account } = authorized;
+    const supabase = createServerActionClient({ cookies });
+    
+    // Clear the lock and start counting failures afresh
     const { error: updateError } = await supabase
       .from('users')
-      .update({ active })
+      .update({ failed_login_attempts: 0, locked_until: null })
       .eq('id', userId);
     
     if (updateError) {
       return { error: updateError.message };
     }
     
-    // Log the action for audit purposes
-    await supabase.from('audit_logs').insert({
-      action: active ? 'user_activated' : 'user_deactivated',
-      user_id: session.user.id,
-      target_user_id: userId,
-      timestamp: new Date().toISOString(),
-    });
+    recordAuditEvent({
+      type: 'account_unlocked',
+      actorId: account.id,
+      actorRole: account.role,
+      targetUserId: userId,
+    }, await getRequestAuditContext());
     
     return { success: true };
-  } catch (error) {
+  } catch {
     return { error: 'An unexpected error occurred' };
   }
 }
 
 /**
- * Get the currently authenticated user with their role
+ * Get the currently authenticated user with their role. While an admin
+ * impersonates someone, this is the impersonated user and impersonatedBy
+ * is the admin.
  */
 export async function getCurrentUser() {
-  const supabase = createServerActionClient({ cookies });
+  const { user, impersonation } = await getAuthContext();
   
-  const { data: { session } } = await supabase.auth.getSession();
-  
-  if (!session) {
+  if (!user) {
     return null;
   }
   
-  const { data: userData } = await supabase
-    .from('users')
-    .select('*')
-    .eq('id', session.user.id)
-    .single();
+  return { ...user, impersonatedBy: impersonation?.adminId ?? null };
+}
+
+/**
+ * Verify that the current user has a specific permission, on a project when
+ * projectId is given, and redirect if they don't
+ */
+export async function requirePermission(
+  permission: Permission,
+  redirectTo: string = '/unauthorized',
+  projectId?: string
+) {
+  const user = await getCurrentUser();
   
-  if (!userData) {
-    return null;
+  if (!user) {
+    redirect('/login');
+  }
+  
+  if (!user.active) {
+    redirect(ACCOUNT_DISABLED_PATH);
   }
   
-  return {
-    id: userData.id,
-    email: userData.email,
-    role: userData.role as UserRole,
-    active: userData.active,
-  };
+  const memberships = projectId
+    ? await fetchProjectMemberships(createServerActionClient({ cookies }), user.id, projectId)
+    : [];
+  
+  if (!hasPermission(user.role, permission, { projectId, memberships, grants: user.grants })) {
+    redirect(redirectTo);
+  }
 }
 
 /**
- * Verify that the current user has a specific permission
- * and redirect if they don't
+ * Enforce the route policy declared for a path (see routePolicy.ts)
+ * from a server component or layout, redirecting if it isn't met
  */
-export async function requirePermission(permission: Permission, redirectTo: string = '/unauthorized') {
+export async function requireRouteAccess(path: string) {
+  const route = findRoutePolicy(path);
+  
+  if (route.policy.public) {
+    return;
+  }
+  
   const user = await getCurrentUser();
   
   if (!user) {
-    redirect('/login');
+    redirect(`/login?redirectedFrom=${encodeURIComponent(path)}`);
   }
   
-  if (!hasPermission(user.role, permission)) {
-    redirect(redirectTo);
+  if (!user.active) {
+    redirect(ACCOUNT_DISABLED_PATH);
+  }
+  
+  const projectId = getRouteProjectId(route);
+  const memberships = projectId
+    ? await fetchProjectMemberships(createServerActionClient({ cookies }), user.id, projectId)
+    : [];
+  
+  if (checkRouteAccess(route.policy, user.role, { projectId, memberships, grants: user.grants }) !== 'allow') {
+    redirect('/unauthorized');
   }
 }
 
@@ -303,7 +394,11 @@ export async function getUsers() {
     return { error: 'Authentication required' };
   }
   
-  if (!hasPermission(user.role, 'view:users')) {
+  if (!user.active) {
+    return { error: 'Your account has been disabled' };
+  }
+  
+  if (!hasPermission(user.role, 'view:users', { grants: user.grants })) {
     return { error: 'You do not have permission to view users' };
   }
   
@@ -1,203 +1,341 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
-import { UserRole, Permission, hasPermission, hasRole } from './auth';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  UserRole,
+  Permission,
+  PermissionContext,
+  hasPermission,
+  isRoleAtLeast,
+  getEffectiveRoles,
+  fetchProjectMemberships,
+} from './auth';
+import { getAuditContext, recordAuditEvent } from './audit';
+import { getAuthContext } from './authContext';
+import { PolicyAction, PolicyResource, can } from './policy';
+import { impersonationSettings, isMutatingRequest } from './impersonation';
+import { resolveSessionRole, verifyAccessToken } from './roleClaims';
+import { RouteMatch, checkRouteAccess, findRoutePolicy, getRouteProjectId } from './routePolicy';
+import {
+  RateLimitPolicy,
+  RateLimitResult,
+  RouteRateLimit,
+  getClientIp,
+  getRateLimitHeaders,
+  getRateLimitStore,
+  hasRoleRateLimits,
+  rateLimitSettings,
+  resolveRateLimitPolicy,
+} from './rateLimit';
 
 // Types for route handlers
 type NextRouteHandler = (req: NextRequest) => Promise<NextResponse> | NextResponse;
 type RouteConfig = {
+  // This role or one above it (see isRoleAtLeast)
   requiredRole?: UserRole;
   requiredPermissions?: Permission[];
   anyPermission?: Permission[];
+  // Scope the checks to a project, e.g. req => req.nextUrl.searchParams.get('projectId')
+  getProjectId?: (req: NextRequest) => string | null | undefined;
+  // Limits for this route; false turns rate limiting off for it
+  rateLimit?: RouteRateLimit | false;
+  // Object-level check (see policy.ts) on the resource the request acts on;
+  // getResource resolves to null if it doesn't exist
+  policy?: {
+    action: PolicyAction;
+    getResource: (req: NextRequest, supabase: SupabaseClient) => Promise<PolicyResource | null>;
+  };
 };
 
 /**
- * Audit logging function to record API access attempts
+ * Audit logging function to record API access attempts. Queued, so it never
+ * delays the response.
  */
-async function logApiAccess(
-  path: string, 
-  method: string, 
-  userId: string | null, 
-  userRole: UserRole | null, 
-  success: boolean, 
+function logApiAccess(
+  req: NextRequest,
+  userId: string | null,
+  userRole: UserRole | null,
+  success: boolean,
   reason?: string
 ) {
-  try {
-    const supabase = createRouteHandlerClient({ cookies });
-    
-    await supabase.from('audit_logs').insert({
-      path,
-      method,
-      user_id: userId,
-      user_role: userRole,
-      success,
-      reason,
-      timestamp: new Date().toISOString(),
-      ip_address: 'Captured in middleware', // Actual IP would be captured in middleware
-    });
-  } catch (error) {
-    // Log to console but don't block the request
-    console.error('Error logging API access:', error);
-  }
+  recordAuditEvent({
+    type: 'api_access',
+    actorId: userId,
+    actorRole: userRole,
+    path: req.nextUrl.pathname,
+    method: req.method,
+    success,
+    reason,
+  }, getAuditContext(req.headers));
 }
 
 /**
- * Rate limiting implementation (in-memory for simplicity)
- * In production, use Redis or another distributed cache
+ * Count the request against the caller's rate limit: per user when signed in,
+ * per client IP otherwise. Counts in memory if the shared store is
+ * unavailable (see getRateLimitStore).
  */
-const requestCounts: Record<string, { count: number, resetTime: number }> = {};
-const MAX_REQUESTS_PER_MINUTE = 60;
-const RATE_LIMIT_WINDOW_MS = 60 * 1000;
-
-function isRateLimited(userId: string): boolean {
-  const now = Date.now();
-  const userKey = userId || 'anonymous';
-  
-  // Initialize or reset if window expired
-  if (!requestCounts[userKey] || requestCounts[userKey].resetTime < now) {
-    requestCounts[userKey] = {
-      count: 1,
-      resetTime: now + RATE_LIMIT_WINDOW_MS
-    };
-    return false;
+async function consumeRateLimit(
+  req: NextRequest,
+  supabase: SupabaseClient,
+  route: RouteMatch,
+  rateLimit: RouteRateLimit | false | undefined,
+  userId: string | null,
+  userRole: UserRole | null
+): Promise<{ policy: RateLimitPolicy; result: RateLimitResult } | null> {
+  const policy = resolveRateLimitPolicy(rateLimitSettings, rateLimit, {
+    authenticated: !!userId,
+    role: userRole,
+  });
+  if (!policy) return null;
+
+  // Routes with their own limits get their own counters
+  const scope = rateLimit ? `route:${route.policy.pattern}` : 'api';
+  const subject = userId ? `user:${userId}` : `ip:${getClientIp(req.headers)}`;
+
+  const result = await getRateLimitStore(supabase).consume(`${scope}:${subject}`, policy);
+  return { policy, result };
+}
+
+function tooManyRequests(limit: { policy: RateLimitPolicy; result: RateLimitResult }): NextResponse {
+  return NextResponse.json(
+    { error: 'Too many requests' },
+    { status: 429, headers: getRateLimitHeaders(limit.policy, limit.result) }
+  );
+}
+
+function withRateLimitHeaders(
+  response: NextResponse,
+  limit: { policy: RateLimitPolicy; result: RateLimitResult } | null
+): NextResponse {
+  if (limit) {
+    Object.entries(getRateLimitHeaders(limit.policy, limit.result)).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
   }
-  
-  // Increment count
-  requestCounts[userKey].count++;
-  
-  // Check if limit exceeded
-  return requestCounts[userKey].count > MAX_REQUESTS_PER_MINUTE;
+  return response;
 }
 
 /**
- * Higher-order function to protect API routes with role-based access control
+ * Higher-order function to protect API routes with role-based access control.
+ * The route policy declared for the request path in routePolicy.ts is always
+ * enforced; the config adds requirements on top of it. While an admin
+ * impersonates someone, requests are checked as that user and mutating ones
+ * are refused unless the route policy allows them (middleware has already
+ * audited the request).
  */
 export function withAuth(handler: NextRouteHandler, config: RouteConfig = {}): NextRouteHandler {
   return async (req: NextRequest) => {
-    const { requiredRole, requiredPermissions, anyPermission } = config;
+    const {
+      requiredRole,
+      requiredPermissions,
+      anyPermission,
+      getProjectId,
+      rateLimit,
+      policy: resourcePolicy,
+    } = config;
     const path = req.nextUrl.pathname;
-    const method = req.method;
+    const route = findRoutePolicy(path);
+    const { policy } = route;
     
     try {
       // Initialize Supabase client
       const supabase = createRouteHandlerClient({ cookies });
       
-      // Verify authentication
-      const { data: { session } } = await supabase.auth.getSession();
+      // Verify authentication against the database, once per request
+      const { sessionUserId: userId, account, user, impersonation } = await getAuthContext();
       
-      if (!session) {
+      if (!userId) {
+        // Signed-out callers are limited per client IP
+        const limit = await consumeRateLimit(req, supabase, route, rateLimit, null, null);
+        if (limit && !limit.result.allowed) {
+          logApiAccess(req, null, null, false, 'Rate limited');
+          return tooManyRequests(limit);
+        }
+        
         // Log unauthorized access attempt
-        await logApiAccess(path, method, null, null, false, 'No session');
+        logApiAccess(req, null, null, false, 'No session');
+        
+        return withRateLimitHeaders(
+          NextResponse.json(
+            { error: 'Authentication required' },
+            { status: 401 }
+          ),
+          limit
+        );
+      }
+      
+      // Deactivated users lose access immediately, whatever their session says
+      if (!account?.active) {
+        logApiAccess(req, userId, null, false, 'Account disabled');
+        
+        return NextResponse.json(
+          { error: 'Account disabled' },
+          { status: 403 }
+        );
+      }
+      
+      // Checks are made as the user, who is the impersonated one while an
+      // admin impersonates someone
+      if (!user) {
+        logApiAccess(req, userId, null, false, 'Role not found');
         
         return NextResponse.json(
-          { error: 'Authentication required' },
-          { status: 401 }
+          { error: 'User role not found' },
+          { status: 403 }
         );
       }
       
-      const userId = session.user.id;
+      const userRole: UserRole = user.role;
+      
+      // Changes made while impersonating would be attributed to the wrong person
+      if (
+        impersonation &&
+        !policy.allowWhileImpersonating &&
+        !impersonationSettings.allowMutations &&
+        isMutatingRequest(req.method)
+      ) {
+        logApiAccess(req, userId, userRole, false, 'Mutations are blocked while impersonating');
+        
+        return NextResponse.json(
+          { error: 'Changes are not allowed while impersonating' },
+          { status: 403 }
+        );
+      }
       
       // Check rate limiting
-      if (isRateLimited(userId)) {
-        await logApiAccess(path, method, userId, null, false, 'Rate limited');
+      const limit = await consumeRateLimit(req, supabase, route, rateLimit, userId, userRole);
+      if (limit && !limit.result.allowed) {
+        logApiAccess(req, userId, userRole, false, 'Rate limited');
+        return tooManyRequests(limit);
+      }
+      
+      // Resolve the project scope, if any, and the user's membership on it
+      const projectId = getProjectId?.(req) ?? getRouteProjectId(route);
+      const context: PermissionContext = {
+        ...(projectId
+          ? { projectId, memberships: await fetchProjectMemberships(supabase, user.id, projectId) }
+          : {}),
+        grants: user.grants,
+      };
+      const effectiveRoles = getEffectiveRoles(userRole, context);
+      
+      if (projectId && effectiveRoles.length === 0) {
+        logApiAccess(req, userId, userRole, false, 'Not a project member');
         
         return NextResponse.json(
-          { error: 'Too many requests' },
-          { status: 429, headers: { 'Retry-After': '60' } }
+          { error: 'Insufficient permissions' },
+          { status: 403 }
         );
       }
       
-      // If role checks are needed, fetch the user's role
-      if (requiredRole || requiredPermissions || anyPermission) {
-        const { data: userData, error } = await supabase
-          .from('users')
-          .select('role')
-          .eq('id', userId)
-          .single();
+      // Check the route policy for this path
+      if (checkRouteAccess(policy, userRole, context) !== 'allow') {
+        logApiAccess(req, userId, userRole, false, `Route policy ${policy.pattern}`);
+        
+        return NextResponse.json(
+          { error: 'Insufficient permissions' },
+          { status: 403 }
+        );
+      }
+      
+      // Check required role, or one above it
+      if (requiredRole && !effectiveRoles.some(role => isRoleAtLeast(role, requiredRole))) {
+        logApiAccess(req, userId, userRole, false, 'Insufficient role');
+        
+        return NextResponse.json(
+          { error: 'Insufficient permissions' },
+          { status: 403 }
+        );
+      }
+      
+      // Check all required permissions
+      if (requiredPermissions && requiredPermissions.length > 0) {
+        const hasAllRequired = requiredPermissions.every(
+          permission => hasPermission(userRole, permission, context)
+        );
         
-        if (error || !userData || !userData.role) {
-          await logApiAccess(path, method, userId, null, false, 'Role not found');
+        if (!hasAllRequired) {
+          logApiAccess(
+            req,
+            userId, 
+            userRole, 
+            false, 
+            'Missing required permissions'
+          );
           
           return NextResponse.json(
-            { error: 'User role not found' },
+            { error: 'Insufficient permissions' },
             { status: 403 }
           );
         }
+      }
+      
+      // Check any required permissions
+      if (anyPermission && anyPermission.length > 0) {
+        const hasAnyRequired = anyPermission.some(
+          permission => hasPermission(userRole, permission, context)
+        );
         
-        const userRole = userData.role as UserRole;
-        
-        // Check required role
-        if (requiredRole && !hasRole(userRole, requiredRole)) {
-          await logApiAccess(path, method, userId, userRole, false, 'Insufficient role');
+        if (!hasAnyRequired) {
+          logApiAccess(
+            req,
+            userId, 
+            userRole, 
+            false, 
+            'No matching permissions'
+          );
           
           return NextResponse.json(
             { error: 'Insufficient permissions' },
             { status: 403 }
           );
         }
+      }
+      
+      // Check the action against the resource itself
+      if (resourcePolicy) {
+        const resource = await resourcePolicy.getResource(req, supabase);
         
-        // Check all required permissions
-        if (requiredPermissions && requiredPermissions.length > 0) {
-          const hasAllRequired = requiredPermissions.every(
-            permission => hasPermission(userRole, permission)
-          );
+        if (!resource) {
+          logApiAccess(req, userId, userRole, false, 'Resource not found');
           
-          if (!hasAllRequired) {
-            await logApiAccess(
-              path, 
-              method, 
-              userId, 
-              userRole, 
-              false, 
-              'Missing required permissions'
-            );
-            
-            return NextResponse.json(
-              { error: 'Insufficient permissions' },
-              { status: 403 }
-            );
-          }
+          return NextResponse.json(
+            { error: 'Not found' },
+            { status: 404 }
+          );
         }
         
-        // Check any required permissions
-        if (anyPermission && anyPermission.length > 0) {
-          const hasAnyRequired = anyPermission.some(
-            permission => hasPermission(userRole, permission)
-          );
+        const actor = {
+          id: user.id,
+          role: userRole,
+          grants: user.grants,
+          memberships: resource.projectId
+            ? await fetchProjectMemberships(supabase, user.id, resource.projectId)
+            : [],
+        };
+        
+        if (!can(actor, resourcePolicy.action, resource)) {
+          logApiAccess(req, userId, userRole, false, `Policy ${resourcePolicy.action} ${resource.type}`);
           
-          if (!hasAnyRequired) {
-            await logApiAccess(
-              path, 
-              method, 
-              userId, 
-              userRole, 
-              false, 
-              'No matching permissions'
-            );
-            
-            return NextResponse.json(
-              { error: 'Insufficient permissions' },
-              { status: 403 }
-            );
-          }
+          return NextResponse.json(
+            { error: 'Insufficient permissions' },
+            { status: 403 }
+          );
         }
-        
-        // Log successful access
-        await logApiAccess(path, method, userId, userRole, true);
-      } else {
-        // No role checks required, just log the access
-        await logApiAccess(path, method, userId, null, true);
       }
       
+      // Log successful access
+      logApiAccess(req, userId, userRole, true);
+      
       // All checks passed, call the original handler
-      return handler(req);
+      return withRateLimitHeaders(await handler(req), limit);
     } catch (error) {
       console.error('Error in API auth middleware:', error);
       
       // Log error
-      await logApiAccess(
-        path, 
-        method, 
+      logApiAccess(
+        req,
         null, 
         null, 
         false, 
@@ -233,9 +371,60 @@ export function withPermission(handler: NextRouteHandler, permission: Permission
   return withAuth(handler, { requiredPermissions: [permission] });
 }
 
+/**
+ * Utility to create a protected API route that requires a permission within a project
+ */
+export function withProjectPermission(
+  handler: NextRouteHandler,
+  permission: Permission,
+  getProjectId: (req: NextRequest) => string | null | undefined
+): NextRouteHandler {
+  return withAuth(handler, { requiredPermissions: [permission], getProjectId });
+}
+
+/**
+ * Utility to create a protected API route that checks an action on the
+ * resource the request is about (see policy.ts)
+ */
+export function withPolicy(
+  handler: NextRouteHandler,
+  action: PolicyAction,
+  getResource: (req: NextRequest, supabase: SupabaseClient) => Promise<PolicyResource | null>
+): NextRouteHandler {
+  return withAuth(handler, { policy: { action, getResource } });
+}
+
 /**
  * Utility to create a protected API route that requires any of the specified permissions
  */
 export function withAnyPermission(handler: NextRouteHandler, permissions: Permission[]): NextRouteHandler {
   return withAuth(handler, { anyPermission: permissions });
-} 
\ No newline at end of file
+}
+
+/**
+ * Utility to rate limit a route without requiring a session, e.g. public
+ * auth endpoints. Callers whose access token verifies are limited per user,
+ * everyone else per IP: the session cookie alone could name any user.
+ */
+export function withRateLimit(handler: NextRouteHandler, rateLimit?: RouteRateLimit): NextRouteHandler {
+  return async (req: NextRequest) => {
+    const supabase = createRouteHandlerClient({ cookies });
+    const { data: { session } } = await supabase.auth.getSession();
+    const route = findRoutePolicy(req.nextUrl.pathname);
+
+    const verified = session ? await verifyAccessToken(session.access_token) : null;
+    const userId = verified?.sub ?? null;
+
+    // No need for the full context here; the token's role claim will do
+    const userRole = session && userId && hasRoleRateLimits(rateLimitSettings, rateLimit)
+      ? await resolveSessionRole(supabase, session)
+      : null;
+
+    const limit = await consumeRateLimit(req, supabase, route, rateLimit, userId, userRole);
+    if (limit && !limit.result.allowed) {
+      return tooManyRequests(limit);
+    }
+
+    return withRateLimitHeaders(await handler(req), limit);
+  };
+}
@@ -0,0 +1,338 @@
+import { after } from 'next/server';
+import { headers } from 'next/headers';
+import { createClient } from '@supabase/supabase-js';
+import type { Json, Database } from '@/types/supabase';
+import type { Permission, UserRole } from './auth';
+import { getClientIp } from './rateLimit';
+
+// Header carrying the id that ties together every event of one request (set by middleware)
+export const CORRELATION_ID_HEADER = 'x-correlation-id';
+
+// Where an event came from
+export type AuditContext = {
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  correlationId?: string | null;
+};
+
+type Actor = {
+  // Who did it; null when nobody was signed in
+  actorId: string | null;
+  actorRole?: UserRole | null;
+};
+
+type CustomRoleDetails = {
+  key: string;
+  displayName: string;
+  color: string;
+  parentRoles: UserRole[];
+  permissions: string[];
+};
+
+/**
+ * Everything written to audit_logs, discriminated by type (stored as the action)
+ */
+export type AuditEvent =
+  // Requests
+  | (Actor & { type: 'api_access'; path: string; method: string; success: boolean; reason?: string })
+  | (Actor & {
+      type: 'unauthorized_access';
+      path: string;
+      route: string;
+      requiredRoles?: UserRole[];
+      requiredPermissions?: Permission[];
+      projectId?: string | null;
+    })
+  // Sign-in and account status
+  | { type: 'login_refused_locked'; email: string; lockedUntil: string }
+  | { type: 'account_locked'; targetUserId: string; failedAttempts: number; lockedUntil: string }
+  | { type: 'login_refused_disabled'; targetUserId: string }
+  | (Actor & { type: 'account_unlocked'; targetUserId: string })
+  | (Actor & { type: 'user_activated' | 'user_deactivated'; targetUserId: string })
+  // Users and roles
+  | (Actor & { type: 'user_registration'; targetUserId: string; email: string; role: UserRole; adminCreated: boolean })
+  | (Actor & { type: 'role_update'; targetUserId: string; newRole: UserRole })
+  | (Actor & { type: 'unauthorized_role_change'; targetUserId: string; attemptedRole: UserRole; reason?: string })
+  | (Actor & { type: 'role_permission_granted' | 'role_permission_revoked'; role: UserRole; permission: Permission })
+  | (Actor & { type: 'custom_role_created' | 'custom_role_updated'; role: CustomRoleDetails })
+  | (Actor & { type: 'custom_role_deleted'; key: string })
+  // Invitations
+  | (Actor & {
+      type: 'invitation_created' | 'invitation_resent';
+      invitationId: string;
+      email: string;
+      role: UserRole;
+      projects: { projectId: string; role: UserRole }[];
+    })
+  | (Actor & { type: 'invitation_revoked'; invitationId: string; email: string })
+  | (Actor & { type: 'invitation_accepted'; invitationId: string; invitedBy: string | null; role: UserRole })
+  // Temporary grants (expiries are recorded by expire_temporary_grants())
+  | (Actor & {
+      type: 'temporary_grant_created';
+      targetUserId: string;
+      grantId: string;
+      role: UserRole | null;
+      permissions: Permission[];
+      reason: string;
+      expiresAt: string;
+      approved: boolean;
+    })
+  | (Actor & {
+      type: 'temporary_grant_approved' | 'temporary_grant_rejected' | 'temporary_grant_revoked';
+      targetUserId: string;
+      grantId: string;
+    })
+  // Impersonation: the actor is always the admin, the target the user they appear as
+  | (Actor & { type: 'impersonation_started'; targetUserId: string; impersonationId: string; reason: string; expiresAt: string })
+  | (Actor & { type: 'impersonation_ended'; targetUserId: string; impersonationId: string })
+  | (Actor & {
+      type: 'impersonated_request';
+      targetUserId: string;
+      effectiveRole: UserRole | null;
+      impersonationId: string;
+      path: string;
+      method: string;
+      success: boolean;
+      reason?: string;
+    })
+  // Projects
+  | (Actor & { type: 'project_created'; projectId: string; name: string; templateVersionId?: string })
+  | (Actor & { type: 'project_updated'; projectId: string; changes: string[] })
+  | (Actor & { type: 'project_template_saved'; templateId: string; version: number; name: string })
+  | (Actor & { type: 'qa_item_checked'; projectId: string; qaItemId: string; checked: boolean })
+  // Tasks
+  | (Actor & { type: 'task_created'; projectId: string; taskId: string; title: string })
+  | (Actor & { type: 'task_updated'; projectId: string; taskId: string; changes: string[] })
+  | (Actor & { type: 'task_status_changed'; projectId: string; taskId: string; from: string; to: string })
+  // Documents
+  | (Actor & { type: 'document_folder_created'; projectId: string; folderId: string; name: string })
+  | (Actor & {
+      type: 'document_uploaded';
+      projectId: string;
+      documentId: string;
+      versionId: string;
+      version: number;
+      reviewStatus: 'pending' | 'approved';
+    })
+  | (Actor & { type: 'document_downloaded'; projectId: string; documentId: string; versionId: string })
+  | (Actor & {
+      type: 'document_version_reviewed';
+      projectId: string;
+      documentId: string;
+      versionId: string;
+      decision: 'approved' | 'rejected';
+    })
+  // Content review (see submissions.ts)
+  | (Actor & { type: 'content_submission_created' | 'content_submission_updated'; projectId: string; submissionId: string })
+  | (Actor & {
+      type: 'content_submission_transitioned';
+      projectId: string;
+      submissionId: string;
+      action: string;
+      from: string;
+      to: string;
+      comment?: string;
+    })
+  // The audit log itself
+  | (Actor & { type: 'audit_log_exported'; format: 'csv' | 'json'; filters: Record<string, unknown> });
+
+export type AuditEventType = AuditEvent['type'];
+
+export type AuditLogInsert = Database['public']['Tables']['audit_logs']['Insert'];
+
+// Events recording something that was refused
+const FAILURE_EVENTS: AuditEventType[] = [
+  'unauthorized_access', 'login_refused_locked', 'account_locked',
+  'login_refused_disabled', 'unauthorized_role_change',
+];
+
+/**
+ * Map an event to its audit_logs row. Fields with their own column are
+ * stored there; everything else goes in details.
+ */
+export function toAuditLogRow(event: AuditEvent, context: AuditContext = {}): AuditLogInsert {
+  const { type, ...fields } = event;
+  const {
+    actorId = null,
+    actorRole = null,
+    targetUserId = null,
+    path = null,
+    method = null,
+    success = !FAILURE_EVENTS.includes(type),
+    reason = null,
+    ...details
+  } = fields as Partial<Actor> & {
+    targetUserId?: string;
+    path?: string;
+    method?: string;
+    success?: boolean;
+    reason?: string;
+  } & Record<string, unknown>;
+
+  return {
+    action: type,
+    user_id: actorId,
+    user_role: actorRole,
+    target_user_id: targetUserId,
+    path,
+    method,
+    success,
+    reason,
+    details: Object.keys(details).length > 0 ? (details as Json) : null,
+    ip_address: context.ipAddress ?? null,
+    user_agent: context.userAgent ?? null,
+    correlation_id: context.correlationId ?? null,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Read the client IP, user agent and correlation id from request headers
+ */
+export function getAuditContext(headers: Headers): AuditContext {
+  const ipAddress = getClientIp(headers);
+
+  return {
+    ipAddress: ipAddress === 'unknown' ? null : ipAddress,
+    userAgent: headers.get('user-agent'),
+    correlationId: headers.get(CORRELATION_ID_HEADER),
+  };
+}
+
+/**
+ * Audit context for the current server action or server component
+ */
+export async function getRequestAuditContext(): Promise<AuditContext> {
+  return getAuditContext(await headers());
+}
+
+export type AuditWriter = {
+  // Queue an event; never waits for the database
+  record(event: AuditEvent, context?: AuditContext): void;
+  // Write everything queued so far
+  flush(): Promise<void>;
+};
+
+type AuditWriterOptions = {
+  write: (rows: AuditLogInsert[]) => Promise<void>;
+  // Flush as soon as this many events are queued
+  maxBatchSize?: number;
+  // Otherwise flush this long after the first queued event
+  flushIntervalMs?: number;
+  // Events kept while the database is unreachable; the oldest are dropped beyond this
+  maxQueueSize?: number;
+  // Run a flush once the current response has been sent, if possible
+  schedule?: (flush: () => Promise<void>) => boolean;
+};
+
+/**
+ * Buffer events in memory and write them in batches, off the request path
+ */
+export function createAuditWriter({
+  write,
+  maxBatchSize = 50,
+  flushIntervalMs = 1000,
+  maxQueueSize = 1000,
+  schedule,
+}: AuditWriterOptions): AuditWriter {
+  let queue: AuditLogInsert[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let flushing: Promise<void> | null = null;
+
+  const flush = async (): Promise<void> => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+
+    // One flush at a time keeps batches in order
+    while (flushing) {
+      await flushing;
+    }
+
+    flushing = (async () => {
+      while (queue.length > 0) {
+        const batch = queue.slice(0, maxBatchSize);
+        queue = queue.slice(batch.length);
+
+        try {
+          await write(batch);
+        } catch (error) {
+          console.error('Error writing audit events:', error);
+          // Keep the batch for a later attempt, within the queue limit
+          queue = [...batch, ...queue].slice(-maxQueueSize);
+          if (!timer) {
+            timer = setTimeout(() => void flush(), flushIntervalMs);
+          }
+          return;
+        }
+      }
+    })().finally(() => {
+      flushing = null;
+    });
+
+    await flushing;
+  };
+
+  return {
+    record(event, context) {
+      queue.push(toAuditLogRow(event, context));
+      if (queue.length > maxQueueSize) {
+        queue = queue.slice(-maxQueueSize);
+      }
+
+      if (queue.length >= maxBatchSize) {
+        void flush();
+      } else if (!schedule?.(flush) && !timer) {
+        timer = setTimeout(() => void flush(), flushIntervalMs);
+      }
+    },
+    flush,
+  };
+}
+
+// Writes don't belong to any user's session; the service role key is used when configured
+const auditClient = process.env.NEXT_PUBLIC_SUPABASE_URL
+  ? createClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '',
+      { auth: { persistSession: false, autoRefreshToken: false } }
+    )
+  : null;
+
+const auditWriter = createAuditWriter({
+  async write(rows) {
+    if (!auditClient) {
+      throw new Error('Supabase is not configured');
+    }
+
+    const { error } = await auditClient.from('audit_logs').insert(rows);
+    if (error) {
+      throw new Error(error.message);
+    }
+  },
+  schedule(flush) {
+    try {
+      after(flush);
+      return true;
+    } catch {
+      // Not inside a request
+      return false;
+    }
+  },
+});
+
+/**
+ * Record an audit event. Returns immediately; the event is written in the
+ * background after the response has been sent.
+ */
+export function recordAuditEvent(event: AuditEvent, context?: AuditContext): void {
+  auditWriter.record(event, context);
+}
+
+/**
+ * Write all queued audit events now
+ */
+export function flushAuditEvents(): Promise<void> {
+  return auditWriter.flush();
+}
@@ -0,0 +1,236 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import type { Database } from '@/types/supabase';
+
+export type AuditLogEntry = Database['public']['Tables']['audit_logs']['Row'];
+
+export const AUDIT_PAGE_SIZE = 50;
+
+// Blank and malformed values are ignored rather than rejected
+const text = z.string().trim().optional().catch(undefined).transform(value => value || undefined);
+const date = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .optional()
+  .catch(undefined);
+
+const auditLogFiltersSchema = z.object({
+  // Free-text search over action, path and reason
+  q: text,
+  // Email (or part of one) or user id of whoever acted
+  actor: text,
+  // Email (or part of one) or user id of the user acted upon
+  target: text,
+  action: text,
+  success: z.enum(['true', 'false']).optional().catch(undefined),
+  path: text,
+  // Inclusive dates, YYYY-MM-DD
+  from: date,
+  to: date,
+  page: z.coerce.number().int().min(1).catch(1).default(1),
+});
+
+export type AuditLogFilters = z.infer<typeof auditLogFiltersSchema>;
+
+export type AuditLogSearchParams = Record<string, string | string[] | undefined>;
+
+/**
+ * Read filters from page search params or a request's query string
+ */
+export function parseAuditLogFilters(params: AuditLogSearchParams | URLSearchParams): AuditLogFilters {
+  const values: Record<string, string | undefined> = {};
+
+  if (params instanceof URLSearchParams) {
+    params.forEach((value, key) => {
+      values[key] = value;
+    });
+  } else {
+    for (const [key, value] of Object.entries(params)) {
+      values[key] = Array.isArray(value) ? value[0] : value;
+    }
+  }
+
+  return auditLogFiltersSchema.parse(values);
+}
+
+/**
+ * Turn filters back into a query string, e.g. for paging and export links
+ */
+export function auditLogFiltersToQuery(filters: Partial<AuditLogFilters>): string {
+  const params = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== '' && !(key === 'page' && value === 1)) {
+      params.set(key, String(value));
+    }
+  }
+
+  return params.toString();
+}
+
+// Characters that would break out of a PostgREST filter or act as wildcards
+function sanitizeSearch(value: string): string {
+  return value.replace(/[,()"\\%*]/g, ' ').trim();
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Resolve a user filter (id or partial email) to the matching user ids
+ */
+async function resolveUserIds(supabase: SupabaseClient, value: string): Promise<string[]> {
+  if (UUID_PATTERN.test(value)) {
+    return [value];
+  }
+
+  const { data } = await supabase
+    .from('users')
+    .select('id')
+    .ilike('email', `%${sanitizeSearch(value)}%`)
+    .limit(100);
+
+  return (data ?? []).map(user => user.id as string);
+}
+
+function nextDay(day: string): string {
+  const next = new Date(`${day}T00:00:00.000Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString();
+}
+
+// The last entry of a batch; the next batch starts right after it
+export type AuditLogCursor = Pick<AuditLogEntry, 'timestamp' | 'id'>;
+
+/**
+ * Fetch audit log entries matching the filters, newest first, either a page
+ * at an offset or the entries after a cursor. Walk the whole log with the
+ * cursor: offsets shift as new entries come in, repeating rows across batches.
+ * Row-level security decides which entries the caller may see.
+ */
+export async function selectAuditLogs(
+  supabase: SupabaseClient,
+  filters: AuditLogFilters,
+  { offset = 0, after, limit, count = false }: {
+    offset?: number;
+    after?: AuditLogCursor | null;
+    limit: number;
+    count?: boolean;
+  }
+): Promise<{ entries: AuditLogEntry[]; total: number | null; error: string | null }> {
+  let query = supabase
+    .from('audit_logs')
+    .select('*', count ? { count: 'exact' } : undefined);
+
+  if (filters.actor) {
+    query = query.in('user_id', await resolveUserIds(supabase, filters.actor));
+  }
+
+  if (filters.target) {
+    query = query.in('target_user_id', await resolveUserIds(supabase, filters.target));
+  }
+
+  if (filters.action) {
+    query = query.eq('action', filters.action);
+  }
+
+  if (filters.success) {
+    query = query.eq('success', filters.success === 'true');
+  }
+
+  if (filters.path) {
+    query = query.ilike('path', `%${sanitizeSearch(filters.path)}%`);
+  }
+
+  if (filters.from) {
+    query = query.gte('timestamp', `${filters.from}T00:00:00.000Z`);
+  }
+
+  if (filters.to) {
+    query = query.lt('timestamp', nextDay(filters.to));
+  }
+
+  const search = filters.q && sanitizeSearch(filters.q);
+  if (search) {
+    query = query.or(`action.ilike.%${search}%,path.ilike.%${search}%,reason.ilike.%${search}%`);
+  }
+
+  // Older than the cursor, or as old with a lower id: the same order as below
+  if (after) {
+    query = query.or(
+      `timestamp.lt."${after.timestamp}",and(timestamp.eq."${after.timestamp}",id.lt.${after.id})`
+    );
+  }
+
+  const { data, count: total, error } = await query
+    .order('timestamp', { ascending: false })
+    .order('id', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    return { entries: [], total: null, error: error.message };
+  }
+
+  return { entries: (data ?? []) as AuditLogEntry[], total: total ?? null, error: null };
+}
+
+/**
+ * Look up the emails for a set of user ids
+ */
+export async function fetchUserEmails(
+  supabase: SupabaseClient,
+  userIds: (string | null)[]
+): Promise<Record<string, string>> {
+  const ids = Array.from(new Set(userIds.filter((id): id is string => !!id)));
+  if (ids.length === 0) return {};
+
+  const { data } = await supabase.from('users').select('id, email').in('id', ids);
+
+  return Object.fromEntries((data ?? []).map(user => [user.id as string, user.email as string]));
+}
+
+export const AUDIT_CSV_COLUMNS = [
+  'timestamp', 'action', 'user_id', 'user_email', 'target_user_id', 'target_user_email',
+  'user_role', 'success', 'path', 'method', 'reason', 'ip_address', 'user_agent',
+  'correlation_id', 'details',
+] as const;
+
+/**
+ * Escape a value for a CSV cell. Values that spreadsheets would evaluate as
+ * formulas are prefixed with a quote.
+ */
+export function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format an entry as a CSV line in AUDIT_CSV_COLUMNS order
+ */
+export function toAuditCsvRow(entry: AuditLogEntry, emails: Record<string, string>): string {
+  const row: Record<(typeof AUDIT_CSV_COLUMNS)[number], unknown> = {
+    timestamp: entry.timestamp,
+    action: entry.action,
+    user_id: entry.user_id,
+    user_email: entry.user_id ? emails[entry.user_id] : null,
+    target_user_id: entry.target_user_id,
+    target_user_email: entry.target_user_id ? emails[entry.target_user_id] : null,
+    user_role: entry.user_role,
+    success: entry.success,
+    path: entry.path,
+    method: entry.method,
+    reason: entry.reason,
+    ip_address: entry.ip_address,
+    user_agent: entry.user_agent,
+    correlation_id: entry.correlation_id,
+    details: entry.details,
+  };
+
+  return AUDIT_CSV_COLUMNS.map(column => toCsvCell(row[column])).join(',') + '\r\n';
+}
@@ -1,8 +1,32 @@
 import { redirect } from 'next/navigation';
 import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Impersonation, fetchImpersonation, readImpersonationCookie } from './impersonation';
+import { loadRolePermissions } from './permissionResolver';
 
-// Define user roles with clear hierarchy
-export type UserRole = 'admin' | 'director' | 'team' | 'client' | 'builder';
+// Define built-in user roles with clear hierarchy
+export type BuiltInRole = 'admin' | 'director' | 'team' | 'client' | 'builder';
+
+// Any role key: a built-in role or a custom role defined at runtime in custom_roles
+export type UserRole = BuiltInRole | (string & {});
+
+// Badge colours available to roles
+export type RoleColor =
+  | 'red' | 'purple' | 'blue' | 'green' | 'amber'
+  | 'teal' | 'indigo' | 'pink' | 'orange' | 'gray';
+
+export const ROLE_COLORS: RoleColor[] = [
+  'red', 'purple', 'blue', 'green', 'amber', 'teal', 'indigo', 'pink', 'orange', 'gray'
+];
+
+// A role in the registry, built-in or custom
+export type RoleDefinition = {
+  key: UserRole;
+  displayName: string;
+  color: RoleColor;
+  parentRoles: UserRole[]; // Roles below this one, whose permissions it inherits
+  builtIn: boolean;
+};
 
 // Define permissions based on capabilities
 export type Permission = 
@@ -14,26 +38,84 @@ export type Permission =
   | 'submit:content'   // Submit content for review
   | 'view:analytics'   // View analytics and reports
   | 'manage:settings'  // Manage application settings
-  | 'manage:roles';    // Manage user roles and permissions
-
-// Define role hierarchy and permissions
-export const ROLE_HIERARCHY: Record<UserRole, UserRole[]> = {
-  'admin': [], // Admin is top level, not inheriting from anyone
-  'director': ['admin'], // Director inherits admin permissions
-  'team': ['director', 'admin'], // Team inherits director and admin permissions
-  'client': [], // Client has its own permissions
-  'builder': ['client'], // Builder inherits client permissions
+  | 'manage:roles'     // Manage user roles and permissions
+  | 'view:audit'       // View and export the audit log
+  | 'invite:users'     // Invite people to sign up with a role
+  | 'manage:grants'    // Request and manage temporary role/permission grants
+  | 'impersonate:users'; // View the app as another user, for support
+
+// Every permission, in display order
+export const PERMISSIONS: Permission[] = [
+  'manage:users', 'view:users', 'manage:projects', 'view:projects',
+  'manage:content', 'submit:content', 'view:analytics', 'manage:settings', 'manage:roles',
+  'view:audit', 'invite:users', 'manage:grants', 'impersonate:users'
+];
+
+// Every built-in role, from most to least privileged
+export const USER_ROLES: BuiltInRole[] = ['admin', 'director', 'team', 'client', 'builder'];
+
+// Define role hierarchy: each role includes the roles directly below it, and
+// so everything they can do. Clients and builders are both outside the
+// practice and sit side by side under team. The database resolves the same
+// hierarchy in inherited_roles() (db/migrations/21_role_inheritance.sql).
+export const ROLE_HIERARCHY: Record<BuiltInRole, BuiltInRole[]> = {
+  'admin': ['director'], // Admin is top level and includes every other role
+  'director': ['team'],
+  'team': ['client', 'builder'],
+  'client': [],
+  'builder': [],
 };
 
-// Define permissions for each role
-export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+/**
+ * Check that a role hierarchy only names known roles and has no cycles,
+ * throwing if it doesn't
+ */
+export function validateRoleHierarchy(
+  hierarchy: Record<string, string[]>,
+  knownRoles: string[] = USER_ROLES
+): void {
+  for (const [role, below] of Object.entries(hierarchy)) {
+    const unknown = [role, ...below].find(key => !knownRoles.includes(key));
+    if (unknown) {
+      throw new Error(`Unknown role in role hierarchy: ${unknown}`);
+    }
+  }
+  
+  // Depth-first; meeting a role again on the current path closes a cycle
+  const checked = new Set<string>();
+  const visit = (role: string, path: string[]) => {
+    if (path.includes(role)) {
+      throw new Error(`Role hierarchy has a cycle: ${[...path.slice(path.indexOf(role)), role].join(' → ')}`);
+    }
+    if (checked.has(role)) return;
+    
+    for (const below of hierarchy[role] ?? []) {
+      visit(below, [...path, role]);
+    }
+    checked.add(role);
+  };
+  
+  Object.keys(hierarchy).forEach(role => visit(role, []));
+}
+
+// A broken hierarchy would silently hand out the wrong permissions, so refuse to load
+validateRoleHierarchy(ROLE_HIERARCHY);
+
+export type RolePermissionMap = Record<UserRole, Permission[]>;
+
+// Default permissions for each role.
+// The role_permissions table is the source of truth at runtime; these defaults
+// seed the table and are only used until it has been loaded (or if it can't be).
+export const ROLE_PERMISSIONS: RolePermissionMap = {
   'admin': [
     'manage:users', 'view:users', 'manage:projects', 'view:projects', 
-    'manage:content', 'submit:content', 'view:analytics', 'manage:settings', 'manage:roles'
+    'manage:content', 'submit:content', 'view:analytics', 'manage:settings', 'manage:roles',
+    'view:audit', 'invite:users', 'manage:grants', 'impersonate:users'
   ],
   'director': [
     'view:users', 'manage:projects', 'view:projects', 
-    'manage:content', 'submit:content', 'view:analytics'
+    'manage:content', 'submit:content', 'view:analytics', 'view:audit', 'invite:users',
+    'manage:grants'
   ],
   'team': [
     'view:projects', 'manage:content', 'submit:content', 'view:analytics'
@@ -46,6 +128,164 @@ export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
   ]
 };
 
+const BUILT_IN_ROLE_COLORS: Record<BuiltInRole, RoleColor> = {
+  'admin': 'red',
+  'director': 'purple',
+  'team': 'blue',
+  'client': 'green',
+  'builder': 'amber',
+};
+
+export const BUILT_IN_ROLES: RoleDefinition[] = USER_ROLES.map(key => ({
+  key,
+  displayName: key.charAt(0).toUpperCase() + key.slice(1),
+  color: BUILT_IN_ROLE_COLORS[key],
+  parentRoles: ROLE_HIERARCHY[key],
+  builtIn: true,
+}));
+
+// Roles currently registered, replaced by the resolver once custom_roles is loaded
+let activeRoles: RoleDefinition[] = BUILT_IN_ROLES;
+
+/**
+ * Register the custom roles loaded from the database alongside the built-in ones
+ */
+export function setCustomRoles(roles: RoleDefinition[]): void {
+  const customRoles = roles.filter(role => !isBuiltInRole(role.key));
+  activeRoles = [...BUILT_IN_ROLES, ...customRoles.map(role => ({ ...role, builtIn: false }))];
+}
+
+/**
+ * Get every registered role, built-in roles first
+ */
+export function getRoleDefinitions(): RoleDefinition[] {
+  return activeRoles;
+}
+
+/**
+ * Get a registered role by key
+ */
+export function getRoleDefinition(role: UserRole): RoleDefinition | undefined {
+  return activeRoles.find(definition => definition.key === role);
+}
+
+/**
+ * Get the keys of every registered role
+ */
+export function getRoleKeys(): UserRole[] {
+  return activeRoles.map(definition => definition.key);
+}
+
+/**
+ * Get a role's display name, falling back to the key for unregistered roles
+ */
+export function getRoleDisplayName(role: UserRole): string {
+  return getRoleDefinition(role)?.displayName ?? role.charAt(0).toUpperCase() + role.slice(1);
+}
+
+/**
+ * Check whether a role is one of the built-in roles
+ */
+export function isBuiltInRole(role: string): role is BuiltInRole {
+  return (USER_ROLES as string[]).includes(role);
+}
+
+// Permissions currently in effect, replaced by the resolver once role_permissions is loaded
+let activeRolePermissions: RolePermissionMap = ROLE_PERMISSIONS;
+
+/**
+ * Replace the role → permission mapping used by every check
+ */
+export function setRolePermissions(permissions: RolePermissionMap): void {
+  activeRolePermissions = permissions;
+}
+
+/**
+ * Get the direct (non-inherited) permissions currently granted to a role
+ */
+export function getRolePermissions(role: UserRole): Permission[] {
+  return activeRolePermissions[role] || [];
+}
+
+/**
+ * Check whether a string is a known permission
+ */
+export function isPermission(value: string): value is Permission {
+  return (PERMISSIONS as string[]).includes(value);
+}
+
+/**
+ * Check whether a string is a registered role (built-in or custom)
+ */
+export function isUserRole(value: string): value is UserRole {
+  return activeRoles.some(definition => definition.key === value);
+}
+
+// Roles whose global permissions apply to every project without a membership
+export const GLOBAL_ROLES: UserRole[] = ['admin', 'director'];
+
+// A user's role on a single project
+export type ProjectMembership = {
+  projectId: string;
+  role: UserRole;
+};
+
+// A time-limited grant of a role and/or permissions on top of the user's own
+// role (see temporaryGrants.ts)
+export type TemporaryGrant = {
+  role: UserRole | null;
+  permissions: Permission[];
+  expiresAt: string;
+};
+
+// Optional project scope and temporary grants for permission checks
+export type PermissionContext = {
+  projectId?: string | null;
+  memberships?: ProjectMembership[];
+  // Approved grants of the user; expired ones are ignored
+  grants?: TemporaryGrant[];
+};
+
+/**
+ * Resolve the role that applies to a check.
+ * Without a project id this is the user's global role. Within a project,
+ * global roles keep their role and everyone else gets the role from their
+ * membership on that project (or none if they are not a member).
+ */
+export function getEffectiveRole(
+  userRole: UserRole | undefined,
+  context?: PermissionContext
+): UserRole | undefined {
+  if (!userRole) return undefined;
+  if (!context?.projectId || GLOBAL_ROLES.includes(userRole)) return userRole;
+
+  const membership = context.memberships?.find(m => m.projectId === context.projectId);
+  return membership?.role;
+}
+
+// Grants in the context that haven't expired yet
+function getActiveGrants(context?: PermissionContext): TemporaryGrant[] {
+  const now = Date.now();
+  return (context?.grants ?? []).filter(grant => new Date(grant.expiresAt).getTime() > now);
+}
+
+/**
+ * Resolve every role that applies to a check: the user's effective role and
+ * the effective roles of their active temporary grants
+ */
+export function getEffectiveRoles(
+  userRole: UserRole | undefined,
+  context?: PermissionContext
+): UserRole[] {
+  if (!userRole) return [];
+
+  const roles = [userRole, ...getActiveGrants(context).map(grant => grant.role)]
+    .map(role => (role ? getEffectiveRole(role, context) : undefined))
+    .filter((role): role is UserRole => !!role);
+
+  return Array.from(new Set(roles));
+}
+
 /**
  * Check if a user has a specific role
  */
@@ -69,7 +309,21 @@ export function hasRequiredRole(userRole: UserRole | undefined, requiredRoles: U
 }
 
 /**
- * Get all roles a user inherits from, including ancestor roles
+ * Whether a role is "minimum and above": minimum itself or a role that
+ * includes it through ROLE_HIERARCHY (or, for custom roles, their
+ * parentRoles). So "client and above" is client, team, director and admin,
+ * but not builder, which sits beside client rather than above it. A custom
+ * role inheriting team is "client and above"; admin is above every role,
+ * custom ones included.
+ */
+export function isRoleAtLeast(role: UserRole | undefined | null, minimum: UserRole): boolean {
+  if (!role) return false;
+  return role === minimum || role === 'admin' || getInheritedRoles(role).includes(minimum);
+}
+
+/**
+ * Get all roles a role inherits from: the roles below it in the hierarchy,
+ * directly or further down
  */
 export function getInheritedRoles(role: UserRole): UserRole[] {
   const result: UserRole[] = [];
@@ -79,7 +333,7 @@ export function getInheritedRoles(role: UserRole): UserRole[] {
     if (visited.has(currentRole)) return;
     visited.add(currentRole);
     
-    const parentRoles = ROLE_HIERARCHY[currentRole] || [];
+    const parentRoles = getRoleDefinition(currentRole)?.parentRoles || [];
     for (const parentRole of parentRoles) {
       result.push(parentRole);
       traverse(parentRole);
@@ -90,56 +344,88 @@ export function getInheritedRoles(role: UserRole): UserRole[] {
   return result;
 }
 
+// Whether a role holds a permission directly or through inheritance
+function roleHasPermission(role: UserRole, permission: Permission): boolean {
+  // Check direct permissions
+  if (getRolePermissions(role).includes(permission)) {
+    return true;
+  }
+  
+  // Check inherited permissions
+  const inheritedRoles = getInheritedRoles(role);
+  return inheritedRoles.some(inheritedRole => getRolePermissions(inheritedRole).includes(permission));
+}
+
 /**
- * Check if a user has a specific permission
+ * Check if a user has a specific permission, through their role or an
+ * active temporary grant in the context
  */
-export function hasPermission(userRole: UserRole | undefined, permission: Permission): boolean {
-  if (!userRole) return false;
+export function hasPermission(
+  userRole: UserRole | undefined,
+  permission: Permission,
+  context?: PermissionContext
+): boolean {
+  const roles = getEffectiveRoles(userRole, context);
+  if (roles.length === 0) return false;
   
-  // Check direct permissions
-  if (ROLE_PERMISSIONS[userRole].includes(permission)) {
+  if (roles.some(role => roleHasPermission(role, permission))) {
     return true;
   }
   
-  // Check inherited permissions
-  const inheritedRoles = getInheritedRoles(userRole);
-  return inheritedRoles.some(role => ROLE_PERMISSIONS[role].includes(permission));
+  // Permissions granted on their own apply wherever the user has a role
+  return getActiveGrants(context).some(grant => grant.permissions.includes(permission));
 }
 
 /**
  * Check if a user has all the required permissions
  */
-export function hasAllPermissions(userRole: UserRole | undefined, permissions: Permission[]): boolean {
+export function hasAllPermissions(
+  userRole: UserRole | undefined,
+  permissions: Permission[],
+  context?: PermissionContext
+): boolean {
   if (!userRole || permissions.length === 0) return false;
-  return permissions.every(permission => hasPermission(userRole, permission));
+  return permissions.every(permission => hasPermission(userRole, permission, context));
 }
 
 /**
  * Check if a user has any of the specified permissions
  */
-export function hasAnyPermission(userRole: UserRole | undefined, permissions: Permission[]): boolean {
+export function hasAnyPermission(
+  userRole: UserRole | undefined,
+  permissions: Permission[],
+  context?: PermissionContext
+): boolean {
   if (!userRole || permissions.length === 0) return false;
-  return permissions.some(permission => hasPermission(userRole, permission));
+  return permissions.some(permission => hasPermission(userRole, permission, context));
 }
 
 /**
  * Get all permissions available to a role (including inherited)
  */
-export function getAllPermissions(userRole: UserRole | undefined): Permission[] {
-  if (!userRole) return [];
+export function getAllPermissions(
+  userRole: UserRole | undefined,
+  context?: PermissionContext
+): Permission[] {
+  const effectiveRoles = getEffectiveRoles(userRole, context);
+  if (effectiveRoles.length === 0) return [];
   
-  // Start with direct permissions
-  const permissions = new Set<Permission>(ROLE_PERMISSIONS[userRole] || []);
+  const permissions = new Set<Permission>();
   
-  // Add inherited permissions
-  const inheritedRoles = getInheritedRoles(userRole);
-  for (const role of inheritedRoles) {
-    const rolePermissions = ROLE_PERMISSIONS[role] || [];
-    for (const permission of rolePermissions) {
-      permissions.add(permission);
+  for (const effectiveRole of effectiveRoles) {
+    // Start with direct permissions, then add inherited ones
+    for (const role of [effectiveRole, ...getInheritedRoles(effectiveRole)]) {
+      for (const permission of getRolePermissions(role)) {
+        permissions.add(permission);
+      }
     }
   }
   
+  // Add permissions granted on their own
+  for (const grant of getActiveGrants(context)) {
+    grant.permissions.forEach(permission => permissions.add(permission));
+  }
+  
   return Array.from(permissions);
 }
 
@@ -148,35 +434,223 @@ export type AuthRedirectResult = {
   destination?: string;
 };
 
+// Where deactivated users are sent instead of /unauthorized
+export const ACCOUNT_DISABLED_PATH = '/account-disabled';
+
+export type UserAccount = {
+  id: string;
+  email: string;
+  role: UserRole;
+  active: boolean;
+};
+
 /**
- * Utility to check if the current user has permission to access a route
- * and redirect if they don't
+ * Fetch a user's profile: their role and whether their account is active
  */
-export async function checkPermissionAndRedirect(
-  requiredPermission: Permission,
-  redirectPath: string = '/unauthorized'
-): Promise<AuthRedirectResult> {
+export async function fetchUserAccount(supabase: SupabaseClient, userId: string): Promise<UserAccount | null> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, email, role, active')
+    .eq('id', userId)
+    .single();
+  
+  if (error || !data) {
+    return null;
+  }
+  
+  return { id: data.id, email: data.email, role: data.role as UserRole, active: data.active === true };
+}
+
+// A user's profile with their active temporary grants
+export type AuthPrincipal = UserAccount & {
+  grants: TemporaryGrant[];
+};
+
+// Everything access checks need to know about who is making a request
+export type AuthContext = {
+  // The signed-in user's id; null when signed out
+  sessionUserId: string | null;
+  // The signed-in user; null when signed out or without a profile
+  account: AuthPrincipal | null;
+  // Whose access is checked: the impersonated user while an admin
+  // impersonates someone, otherwise the same as account
+  user: AuthPrincipal | null;
+  impersonation: Impersonation | null;
+};
+
+/**
+ * The role access checks use: the user's, or null when signed out or when
+ * the user or the admin impersonating them is deactivated
+ */
+export function getActiveRole({ account, user }: AuthContext): UserRole | null {
+  return account?.active && user?.active ? user.role : null;
+}
+
+export const SIGNED_OUT_CONTEXT: AuthContext = {
+  sessionUserId: null,
+  account: null,
+  user: null,
+  impersonation: null,
+};
+
+// A profile and its grants; deactivated users get no grants
+async function fetchPrincipal(supabase: SupabaseClient, userId: string): Promise<AuthPrincipal | null> {
+  const account = await fetchUserAccount(supabase, userId);
+  if (!account) return null;
+  
+  return { ...account, grants: account.active ? await fetchTemporaryGrants(supabase, userId) : [] };
+}
+
+/**
+ * Resolve who is making a request: the signed-in user's profile and grants,
+ * and the impersonated user's when impersonationId names a live impersonation
+ * of theirs. Prefer getAuthContext (authContext.ts) on the server and
+ * getClientAuthContext in the browser, which resolve this once and share it.
+ */
+export async function resolveAuthContext(
+  supabase: SupabaseClient,
+  sessionUserId: string | null,
+  impersonationId?: string | null
+): Promise<AuthContext> {
+  if (!sessionUserId) {
+    return SIGNED_OUT_CONTEXT;
+  }
+  
+  const [account, impersonation] = await Promise.all([
+    fetchPrincipal(supabase, sessionUserId),
+    fetchImpersonation(supabase, sessionUserId, impersonationId),
+  ]);
+  
+  // Deactivated admins don't get to look around as anyone else
+  if (!account?.active || !impersonation) {
+    return { sessionUserId, account, user: account, impersonation: null };
+  }
+  
+  return {
+    sessionUserId,
+    account,
+    user: await fetchPrincipal(supabase, impersonation.targetUserId),
+    impersonation,
+  };
+}
+
+// An auth context with what the browser needs to answer permission checks
+// without a round trip (see AuthProvider)
+export type AuthSnapshot = AuthContext & {
+  // The user's memberships on every project
+  memberships: ProjectMembership[];
+  // Custom roles, and the role → permission mapping
+  roles: RoleDefinition[];
+  rolePermissions: RolePermissionMap;
+};
+
+/**
+ * Add the user's memberships and the current role registry and mapping to a
+ * resolved auth context
+ */
+export async function resolveAuthSnapshot(
+  supabase: SupabaseClient,
+  auth: AuthContext
+): Promise<AuthSnapshot> {
+  // Deactivated accounts can read neither (RLS) and have no permissions anyway
+  const active = auth.account?.active !== false;
+  const [rolePermissions, memberships] = await Promise.all([
+    active ? loadRolePermissions(supabase) : Promise.resolve(ROLE_PERMISSIONS),
+    active && auth.user ? fetchProjectMemberships(supabase, auth.user.id) : Promise.resolve([]),
+  ]);
+  
+  return {
+    ...auth,
+    memberships,
+    roles: active ? getRoleDefinitions().filter(role => !role.builtIn) : [],
+    rolePermissions,
+  };
+}
+
+// How long the browser reuses a resolved context: long enough for every gate
+// on a page to share one lookup, short enough that changes show on the next
+// navigation
+const CLIENT_AUTH_CONTEXT_TTL_MS = 5 * 1000;
+
+let clientAuthContext: { key: string; expiresAt: number; promise: Promise<AuthContext> } | null = null;
+
+/**
+ * The current user's auth context in the browser, shared by every client-side
+ * check for the same session and impersonation
+ */
+export async function getClientAuthContext(): Promise<AuthContext> {
   const supabase = createClientComponentClient();
   const { data: { session } } = await supabase.auth.getSession();
   
   if (!session) {
-    return { redirect: true, destination: '/login' };
+    clientAuthContext = null;
+    return SIGNED_OUT_CONTEXT;
   }
   
-  // Fetch user's role from database
-  const { data: userData, error } = await supabase
+  const impersonationId = readImpersonationCookie();
+  const key = `${session.access_token}:${impersonationId ?? ''}`;
+  
+  if (!clientAuthContext || clientAuthContext.key !== key || clientAuthContext.expiresAt <= Date.now()) {
+    const promise = resolveAuthContext(supabase, session.user.id, impersonationId);
+    clientAuthContext = { key, expiresAt: Date.now() + CLIENT_AUTH_CONTEXT_TTL_MS, promise };
+    
+    // Don't hold on to a failed lookup
+    promise.catch(() => {
+      if (clientAuthContext?.promise === promise) clientAuthContext = null;
+    });
+  }
+  
+  return clientAuthContext.promise;
+}
+
+/**
+ * Make the next getClientAuthContext look the user up again, e.g. after
+ * their role changes
+ */
+export function invalidateClientAuthContext(): void {
+  clientAuthContext = null;
+}
+
+/**
+ * Whether a user's account is active. Always read from the database so
+ * deactivation takes effect immediately; users without a profile count as inactive.
+ */
+export async function isUserActive(supabase: SupabaseClient, userId: string): Promise<boolean> {
+  const { data, error } = await supabase
     .from('users')
-    .select('role')
-    .eq('id', session.user.id)
+    .select('active')
+    .eq('id', userId)
     .single();
   
-  if (error || !userData) {
+  return !error && data?.active === true;
+}
+
+/**
+ * Utility to check if the current user has permission to access a route
+ * and redirect if they don't
+ */
+export async function checkPermissionAndRedirect(
+  requiredPermission: Permission,
+  redirectPath: string = '/unauthorized',
+  projectId?: string
+): Promise<AuthRedirectResult> {
+  const supabase = createClientComponentClient();
+  const { account, user } = await getClientAuthContext();
+  
+  if (!account || !user) {
     return { redirect: true, destination: '/login' };
   }
   
-  const userRole = userData.role as UserRole;
+  if (!account.active || !user.active) {
+    return { redirect: true, destination: ACCOUNT_DISABLED_PATH };
+  }
+  
+  await loadRolePermissions(supabase);
+  const memberships = projectId
+    ? await fetchProjectMemberships(supabase, user.id, projectId)
+    : [];
   
-  if (!hasPermission(userRole, requiredPermission)) {
+  if (!hasPermission(user.role, requiredPermission, { projectId, memberships, grants: user.grants })) {
     return { redirect: true, destination: redirectPath };
   }
   
@@ -184,25 +658,87 @@ export async function checkPermissionAndRedirect(
 }
 
 /**
- * Get the current user's role from the session
+ * Get the current user's role from the session (the impersonated user's
+ * while impersonating). Deactivated users have no role.
  */
 export async function getCurrentUserRole(): Promise<UserRole | null> {
-  const supabase = createClientComponentClient();
-  const { data: { session } } = await supabase.auth.getSession();
+  return getActiveRole(await getClientAuthContext());
+}
+
+/**
+ * Fetch a user's project memberships, optionally limited to one project
+ */
+export async function fetchProjectMemberships(
+  supabase: SupabaseClient,
+  userId: string,
+  projectId?: string
+): Promise<ProjectMembership[]> {
+  let query = supabase
+    .from('project_members')
+    .select('project_id, role')
+    .eq('user_id', userId);
   
-  if (!session) {
-    return null;
+  if (projectId) {
+    query = query.eq('project_id', projectId);
   }
   
-  const { data: userData, error } = await supabase
-    .from('users')
-    .select('role')
-    .eq('id', session.user.id)
-    .single();
+  const { data, error } = await query;
   
-  if (error || !userData) {
-    return null;
+  if (error || !data) {
+    return [];
+  }
+  
+  return data.map(row => ({
+    projectId: row.project_id as string,
+    role: row.role as UserRole,
+  }));
+}
+
+/**
+ * Fetch a user's approved temporary grants that haven't expired or been revoked
+ */
+export async function fetchTemporaryGrants(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<TemporaryGrant[]> {
+  const { data, error } = await supabase
+    .from('temporary_grants')
+    .select('role, permissions, expires_at')
+    .eq('user_id', userId)
+    .not('approved_at', 'is', null)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString());
+  
+  if (error || !data) {
+    return [];
+  }
+  
+  return data.map(row => ({
+    role: (row.role as UserRole | null) ?? null,
+    permissions: ((row.permissions as string[] | null) ?? []).filter(isPermission),
+    expiresAt: row.expires_at as string,
+  }));
+}
+
+/**
+ * Get the current user's active temporary grants from the session
+ * (the impersonated user's while impersonating)
+ */
+export async function getCurrentUserGrants(): Promise<TemporaryGrant[]> {
+  const { user } = await getClientAuthContext();
+  return user?.grants ?? [];
+}
+
+/**
+ * Get the current user's project memberships from the session
+ * (the impersonated user's while impersonating)
+ */
+export async function getCurrentUserMemberships(projectId?: string): Promise<ProjectMembership[]> {
+  const { user } = await getClientAuthContext();
+  
+  if (!user) {
+    return [];
   }
   
-  return userData.role as UserRole;
+  return fetchProjectMemberships(createClientComponentClient(), user.id, projectId);
 }
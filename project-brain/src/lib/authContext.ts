@@ -0,0 +1,54 @@
+import { cache } from 'react';
+import { cookies } from 'next/headers';
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { AuthContext, AuthSnapshot, resolveAuthContext, resolveAuthSnapshot } from './auth';
+import { IMPERSONATION_COOKIE } from './impersonation';
+import { PolicyActor, toPolicyActor } from './policy';
+import { loadRolePermissions } from './permissionResolver';
+import type { Database } from '@/types/supabase';
+
+/**
+ * Who is making the current request, resolved once per request from the
+ * database rather than the token, so deactivation, role changes and grants
+ * apply immediately. Middleware only checks routes from the token's claims.
+ * Also makes sure the role → permission mapping is loaded for permission
+ * checks, except for deactivated accounts, which can't read it and have no
+ * permissions.
+ */
+export const getAuthContext = cache(async (): Promise<AuthContext> => {
+  const supabase = createServerComponentClient<Database>({ cookies });
+  const context = await resolveSessionContext(supabase);
+
+  if (context.account?.active !== false) {
+    await loadRolePermissions(supabase);
+  }
+
+  return context;
+});
+
+async function resolveSessionContext(supabase: SupabaseClient<Database>): Promise<AuthContext> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return resolveAuthContext(
+    supabase,
+    session?.user.id ?? null,
+    (await cookies()).get(IMPERSONATION_COOKIE)?.value
+  );
+}
+
+/**
+ * The current request's auth context with what the browser needs to check
+ * permissions itself, for hydrating AuthProvider
+ */
+export const getAuthSnapshot = cache(async (): Promise<AuthSnapshot> => {
+  const auth = await getAuthContext();
+  return resolveAuthSnapshot(createServerComponentClient<Database>({ cookies }), auth);
+});
+
+/**
+ * The current user as an actor for can() and compilePolicyFilter, or null
+ * when signed out or deactivated
+ */
+export const getCurrentActor = cache(async (): Promise<PolicyActor | null> => {
+  return toPolicyActor(await getAuthSnapshot());
+});
@@ -0,0 +1,19 @@
+import development from '../../config/environments/development';
+import staging from '../../config/environments/staging';
+import production from '../../config/environments/production';
+
+const environments = { development, staging, production };
+
+export type Environment = keyof typeof environments;
+
+function isEnvironment(value: string | undefined): value is Environment {
+  return !!value && value in environments;
+}
+
+// Selected by NEXT_PUBLIC_ENVIRONMENT, defaulting to development
+export const environment: Environment = isEnvironment(process.env.NEXT_PUBLIC_ENVIRONMENT)
+  ? process.env.NEXT_PUBLIC_ENVIRONMENT
+  : 'development';
+
+// config/environments/<environment>.js
+export const appConfig = environments[environment];
@@ -0,0 +1,167 @@
+import { z } from 'zod';
+import { hasPermission } from './auth';
+import type { PolicyActor } from './policy';
+import type { Database } from '@/types/supabase';
+
+export type DocumentVersionRow = Database['public']['Tables']['document_versions']['Row'];
+
+// Where an uploaded version stands: content managers' uploads are approved
+// straight away, everyone else's wait in the review queue
+export const DOCUMENT_REVIEW_STATUSES = ['pending', 'approved', 'rejected'] as const;
+
+export type DocumentReviewStatus = typeof DOCUMENT_REVIEW_STATUSES[number];
+
+export const DOCUMENT_REVIEW_STATUS_LABELS: Record<DocumentReviewStatus, string> = {
+  pending: 'Awaiting review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+export type DocumentFolder = {
+  id: string;
+  parentId: string | null;
+  name: string;
+};
+
+export type DocumentVersion = {
+  id: string;
+  version: number;
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  uploadedBy: string | null;
+  uploadedAt: string;
+  reviewStatus: DocumentReviewStatus;
+  reviewedAt: string | null;
+};
+
+export type ProjectDocument = {
+  id: string;
+  folderId: string | null;
+  name: string;
+  uploadedBy: string | null;
+  updatedAt: string;
+  // Completed versions the current user can see, newest first
+  versions: DocumentVersion[];
+};
+
+// A version waiting for a content manager, as listed in the review queue
+export type DocumentReviewItem = DocumentVersion & {
+  documentId: string;
+  documentName: string;
+  projectId: string;
+  projectName: string;
+};
+
+// Schema for creating a folder
+export const documentFolderSchema = z.object({
+  name: z.string().trim().min(1, 'A folder name is required').max(200, 'Keep folder names under 200 characters'),
+  parentId: z.string().uuid('Folder not found').nullable().default(null),
+});
+
+/**
+ * Schema for starting an upload, as a new document or a new version of one,
+ * capped at the configured file size
+ */
+export function documentUploadSchema(maxFileBytes: number) {
+  return z.object({
+    documentId: z.string().uuid('Document not found').nullable().default(null),
+    folderId: z.string().uuid('Folder not found').nullable().default(null),
+    fileName: z.string().trim().min(1, 'Choose a file to upload').max(255, 'Keep file names under 255 characters'),
+    contentType: z.string().trim().max(255).transform(type => type || 'application/octet-stream'),
+    sizeBytes: z
+      .number()
+      .int()
+      .nonnegative()
+      .max(maxFileBytes, `Files must be under ${formatFileSize(maxFileBytes)}`),
+  });
+}
+
+export type DocumentUploadData = z.input<ReturnType<typeof documentUploadSchema>>;
+
+/**
+ * Whether an actor manages content on a project, and so reviews its uploads
+ */
+export function canReviewDocuments(actor: PolicyActor | null, projectId: string): boolean {
+  return !!actor && hasPermission(actor.role, 'manage:content', {
+    projectId,
+    memberships: actor.memberships,
+    grants: actor.grants,
+  });
+}
+
+/**
+ * The review status a completed upload starts in
+ */
+export function initialReviewStatus(actor: PolicyActor | null, projectId: string): 'pending' | 'approved' {
+  return canReviewDocuments(actor, projectId) ? 'approved' : 'pending';
+}
+
+/**
+ * Whether an actor who can read a project's documents may also see a given
+ * version: approved ones are for everyone, the rest for their uploader and
+ * content managers only
+ */
+export function canSeeDocumentVersion(
+  actor: PolicyActor | null,
+  projectId: string,
+  version: Pick<DocumentVersion, 'reviewStatus' | 'uploadedBy'>
+): boolean {
+  if (!actor) return false;
+
+  return version.reviewStatus === 'approved' ||
+    version.uploadedBy === actor.id ||
+    canReviewDocuments(actor, projectId);
+}
+
+/**
+ * Map a document_versions row to a DocumentVersion
+ */
+export function toDocumentVersion(row: DocumentVersionRow): DocumentVersion {
+  return {
+    id: row.id,
+    version: row.version,
+    fileName: row.file_name,
+    contentType: row.content_type,
+    sizeBytes: row.size_bytes,
+    uploadedBy: row.uploaded_by,
+    uploadedAt: row.uploaded_at,
+    reviewStatus: row.review_status as DocumentReviewStatus,
+    reviewedAt: row.reviewed_at,
+  };
+}
+
+/**
+ * Each folder with its full path, e.g. "Drawings / Consent", sorted by path
+ */
+export function withFolderPaths(folders: DocumentFolder[]): (DocumentFolder & { path: string })[] {
+  const byId = new Map(folders.map(folder => [folder.id, folder]));
+
+  const pathOf = (folder: DocumentFolder, seen: Set<string> = new Set()): string => {
+    const parent = folder.parentId ? byId.get(folder.parentId) : undefined;
+    // A missing or looping parent just ends the path
+    if (!parent || seen.has(parent.id)) return folder.name;
+    return `${pathOf(parent, seen.add(folder.id))} / ${folder.name}`;
+  };
+
+  return folders
+    .map(folder => ({ ...folder, path: pathOf(folder) }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+const FILE_SIZE_UNITS = ['B', 'KB', 'MB', 'GB'];
+
+/**
+ * Format a file size for display, e.g. 1.5 MB
+ */
+export function formatFileSize(bytes: number): string {
+  let size = bytes;
+  let unit = 0;
+
+  while (size >= 1024 && unit < FILE_SIZE_UNITS.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+
+  return `${unit === 0 ? size : Number(size.toFixed(1))} ${FILE_SIZE_UNITS[unit]}`;
+}
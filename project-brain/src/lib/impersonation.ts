@@ -0,0 +1,119 @@
+import { z } from 'zod';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { UserRole } from './auth';
+import { appConfig } from './config';
+
+const impersonationSettingsSchema = z.object({
+  maxDurationMs: z.number().int().positive().default(60 * 60 * 1000),
+  allowMutations: z.boolean().default(false),
+});
+
+export type ImpersonationSettings = z.infer<typeof impersonationSettingsSchema>;
+
+// security.impersonation from config/environments/<env>.js
+export const impersonationSettings: ImpersonationSettings = impersonationSettingsSchema.parse(
+  appConfig.security.impersonation
+);
+
+// Holds the id of the admin's impersonation_sessions row. Readable by the
+// browser so PermissionGate and RoleGuard can follow it; it grants nothing on
+// its own, as the row must belong to the signed-in admin.
+export const IMPERSONATION_COOKIE = 'pb-impersonation';
+
+// Ends the impersonation; reachable while impersonating
+export const IMPERSONATION_EXIT_PATH = '/api/impersonation';
+
+/**
+ * An admin's live impersonation of another user. The app's own checks (route
+ * policies, withAuth, PermissionGate, RoleGuard) run as the target, and server
+ * components and actions query with a token minted for them (see
+ * createServerClient), so RLS shows the admin exactly what the user sees.
+ */
+export type Impersonation = {
+  id: string;
+  adminId: string;
+  targetUserId: string;
+  expiresAt: string;
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Methods that only read. Server actions are always POSTs, so they all count
+// as mutating whatever they do.
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Whether a request may change something, and so is blocked while impersonating
+ */
+export function isMutatingRequest(method: string): boolean {
+  return !SAFE_METHODS.includes(method.toUpperCase());
+}
+
+/**
+ * Why an admin can't impersonate a user, or null if they can. Admins can't be
+ * impersonated, so impersonation never hands out more than the admin has.
+ */
+export function getImpersonationRefusal(
+  adminId: string,
+  target: { id: string; role: UserRole; active: boolean }
+): string | null {
+  if (target.id === adminId) return 'You cannot impersonate yourself';
+  if (target.role === 'admin') return 'Admins cannot be impersonated';
+  if (!target.active) return 'Disabled users cannot be impersonated';
+  return null;
+}
+
+/**
+ * When an impersonation started now ends
+ */
+export function getImpersonationExpiry(
+  now: Date = new Date(),
+  settings: ImpersonationSettings = impersonationSettings
+): Date {
+  return new Date(now.getTime() + settings.maxDurationMs);
+}
+
+/**
+ * Look up the impersonation named by the cookie, if it belongs to adminId and
+ * hasn't ended or expired
+ */
+export async function fetchImpersonation(
+  supabase: SupabaseClient,
+  adminId: string,
+  impersonationId: string | null | undefined
+): Promise<Impersonation | null> {
+  if (!impersonationId || !UUID_PATTERN.test(impersonationId)) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('impersonation_sessions')
+    .select('id, admin_id, target_user_id, expires_at')
+    .eq('id', impersonationId)
+    .eq('admin_id', adminId)
+    .is('ended_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return {
+    id: data.id as string,
+    adminId: data.admin_id as string,
+    targetUserId: data.target_user_id as string,
+    expiresAt: data.expires_at as string,
+  };
+}
+
+/**
+ * The impersonation cookie as the browser sees it
+ */
+export function readImpersonationCookie(): string | null {
+  if (typeof document === 'undefined') return null;
+
+  const prefix = `${IMPERSONATION_COOKIE}=`;
+  const entry = document.cookie.split('; ').find(cookie => cookie.startsWith(prefix));
+  return entry ? decodeURIComponent(entry.slice(prefix.length)) : null;
+}
@@ -0,0 +1,124 @@
+import { z } from 'zod';
+import { UserRole, isUserRole } from './auth';
+import { appConfig } from './config';
+import { getAssignableRoles } from './roleDelegation';
+import type { Database, Json } from '@/types/supabase';
+
+const invitationSettingsSchema = z.object({
+  expiresMs: z.number().int().positive().default(7 * 24 * 60 * 60 * 1000),
+});
+
+export type InvitationSettings = z.infer<typeof invitationSettingsSchema>;
+
+// security.invitations from config/environments/<env>.js
+export const invitationSettings: InvitationSettings = invitationSettingsSchema.parse(
+  appConfig.security.invitations
+);
+
+export type InvitationRow = Database['public']['Tables']['invitations']['Row'];
+
+export type InvitationStatus = 'pending' | 'expired' | 'accepted' | 'revoked';
+
+// A project the invitee joins on accepting, and their role on it
+export type ProjectAssignment = {
+  projectId: string;
+  role: UserRole;
+};
+
+// Any role in the registry (built-in or custom); load the registry before parsing
+const roleSchema = z.string().refine(role => isUserRole(role), { message: 'Unknown role' });
+
+const projectAssignmentSchema = z.object({
+  projectId: z.string().uuid('Invalid project ID'),
+  role: roleSchema,
+});
+
+// Schema for sending an invitation
+export const invitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Invalid email address'),
+  role: roleSchema,
+  projects: z
+    .array(projectAssignmentSchema)
+    .default([])
+    .refine(
+      projects => new Set(projects.map(project => project.projectId)).size === projects.length,
+      { message: 'Each project can only be assigned once' }
+    ),
+});
+
+export type InvitationFormData = z.input<typeof invitationSchema>;
+
+/**
+ * Whether a user with inviterRole may invite someone with role: the same
+ * roles they could assign to an existing user
+ */
+export function canInviteWithRole(inviterRole: UserRole, role: UserRole): boolean {
+  return getAssignableRoles(inviterRole).includes(role);
+}
+
+/**
+ * Read invitations.project_assignments, skipping anything malformed
+ */
+export function parseProjectAssignments(value: Json): ProjectAssignment[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap(item => {
+    const parsed = z.object({ projectId: z.string(), role: z.string() }).safeParse(item);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+// 32 random bytes, hex encoded
+const INVITATION_TOKEN_PATTERN = /^[0-9a-f]{64}$/;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Generate the secret sent to the invitee. Only its hash is stored.
+ */
+export function generateInvitationToken(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * Check that a string could be an invitation token before looking it up
+ */
+export function isInvitationToken(value: string): boolean {
+  return INVITATION_TOKEN_PATTERN.test(value);
+}
+
+/**
+ * SHA-256 of a token, as stored in invitations.token_hash
+ */
+export async function hashInvitationToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return toHex(new Uint8Array(digest));
+}
+
+/**
+ * When an invitation sent now stops being valid
+ */
+export function getInvitationExpiry(now: Date = new Date(), settings: InvitationSettings = invitationSettings): Date {
+  return new Date(now.getTime() + settings.expiresMs);
+}
+
+/**
+ * Where an invitation stands
+ */
+export function getInvitationStatus(
+  invitation: Pick<InvitationRow, 'accepted_at' | 'revoked_at' | 'expires_at'>,
+  now: Date = new Date()
+): InvitationStatus {
+  if (invitation.accepted_at) return 'accepted';
+  if (invitation.revoked_at) return 'revoked';
+  return new Date(invitation.expires_at).getTime() > now.getTime() ? 'pending' : 'expired';
+}
+
+/**
+ * The link the invitee follows to accept
+ */
+export function getInvitationUrl(token: string): string {
+  return `${process.env.NEXT_PUBLIC_SITE_URL ?? ''}/invite/${token}`;
+}
@@ -0,0 +1,211 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  Permission,
+  RoleColor,
+  RoleDefinition,
+  RolePermissionMap,
+  ROLE_COLORS,
+  ROLE_PERMISSIONS,
+  getRoleDefinition,
+  getRoleKeys,
+  isPermission,
+  isUserRole,
+  setCustomRoles,
+  setRolePermissions,
+} from './auth';
+
+// How long a loaded mapping is trusted before it is fetched again
+const CACHE_TTL_MS = 60 * 1000;
+
+type RolePermissionRow = {
+  role: string;
+  permission: string;
+};
+
+type CustomRoleRow = {
+  key: string;
+  display_name: string;
+  color: string;
+  parent_roles: string[] | null;
+};
+
+// A difference between the code defaults and the role_permissions table for one role
+export type RolePermissionDrift = {
+  role: string;
+  missingFromTable: string[];
+  missingFromCode: string[];
+};
+
+let cached: { permissions: RolePermissionMap; expiresAt: number } | null = null;
+let pending: Promise<RolePermissionMap> | null = null;
+let watching = false;
+
+async function fetchRolePermissionRows(supabase: SupabaseClient): Promise<RolePermissionRow[]> {
+  const { data, error } = await supabase
+    .from('role_permissions')
+    .select('role, permission');
+
+  if (error || !data) {
+    throw new Error(error?.message || 'Failed to load role permissions');
+  }
+
+  return data as RolePermissionRow[];
+}
+
+async function fetchCustomRoles(supabase: SupabaseClient): Promise<RoleDefinition[]> {
+  const { data, error } = await supabase
+    .from('custom_roles')
+    .select('key, display_name, color, parent_roles')
+    .order('display_name');
+
+  if (error || !data) {
+    throw new Error(error?.message || 'Failed to load custom roles');
+  }
+
+  return (data as CustomRoleRow[]).map(row => ({
+    key: row.key,
+    displayName: row.display_name,
+    color: (ROLE_COLORS as string[]).includes(row.color) ? (row.color as RoleColor) : 'gray',
+    parentRoles: row.parent_roles || [],
+    builtIn: false,
+  }));
+}
+
+/**
+ * Build a role → permission map from table rows, ignoring unregistered roles and unknown permissions
+ */
+export function buildRolePermissionMap(rows: RolePermissionRow[]): RolePermissionMap {
+  const permissions = Object.fromEntries(
+    getRoleKeys().map(role => [role, [] as Permission[]])
+  ) as RolePermissionMap;
+
+  for (const { role, permission } of rows) {
+    if (isUserRole(role) && isPermission(permission) && !permissions[role].includes(permission)) {
+      permissions[role].push(permission);
+    }
+  }
+
+  return permissions;
+}
+
+/**
+ * Load the role registry (custom_roles) and the role → permission mapping
+ * (role_permissions) and make them the ones used by hasPermission and friends.
+ * Results are cached for a minute; concurrent callers share one load. If the
+ * tables can't be read, the last loaded state (or the code defaults) stays in effect.
+ * role_permissions is never empty, so reading no rows counts as a failed read:
+ * RLS hides the table from deactivated users, and the cache is process-wide.
+ */
+export async function loadRolePermissions(
+  supabase: SupabaseClient,
+  { force = false }: { force?: boolean } = {}
+): Promise<RolePermissionMap> {
+  if (!force && cached && cached.expiresAt > Date.now()) {
+    return cached.permissions;
+  }
+
+  if (!pending) {
+    pending = Promise.all([fetchCustomRoles(supabase), fetchRolePermissionRows(supabase)])
+      .then(([customRoles, rows]) => {
+        if (rows.length === 0) {
+          throw new Error('No role permissions visible to this client');
+        }
+
+        setCustomRoles(customRoles);
+        const permissions = buildRolePermissionMap(rows);
+        cached = { permissions, expiresAt: Date.now() + CACHE_TTL_MS };
+        setRolePermissions(permissions);
+        return permissions;
+      })
+      .catch(error => {
+        console.error('Error loading role permissions:', error);
+        return cached?.permissions ?? ROLE_PERMISSIONS;
+      })
+      .finally(() => {
+        pending = null;
+      });
+  }
+
+  return pending;
+}
+
+/**
+ * Use a registry and mapping loaded elsewhere, e.g. by the server render,
+ * as if they had just been loaded here
+ */
+export function primeRolePermissions(roles: RoleDefinition[], permissions: RolePermissionMap): void {
+  setCustomRoles(roles);
+  setRolePermissions(permissions);
+  cached = { permissions, expiresAt: Date.now() + CACHE_TTL_MS };
+}
+
+/**
+ * Drop the cached state so the next check reloads it from the database.
+ * Call this after any change to role_permissions or custom_roles.
+ */
+export function invalidateRolePermissions(): void {
+  cached = null;
+}
+
+/**
+ * Invalidate the cache whenever role_permissions or custom_roles changes (browser clients).
+ * Safe to call repeatedly; only one subscription is opened.
+ */
+export function watchRolePermissions(supabase: SupabaseClient): void {
+  if (watching) return;
+  watching = true;
+
+  supabase
+    .channel('role_permissions_changes')
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'role_permissions' }, () => {
+      invalidateRolePermissions();
+    })
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'custom_roles' }, () => {
+      invalidateRolePermissions();
+    })
+    .subscribe();
+}
+
+/**
+ * Compare two role → permission mappings role by role
+ */
+export function diffRolePermissions(
+  defaults: Record<string, string[]>,
+  table: Record<string, string[]>
+): RolePermissionDrift[] {
+  const roles = Array.from(new Set([...Object.keys(defaults), ...Object.keys(table)]));
+  const drift: RolePermissionDrift[] = [];
+
+  for (const role of roles) {
+    const expected = defaults[role] || [];
+    const actual = table[role] || [];
+    const missingFromTable = expected.filter(permission => !actual.includes(permission));
+    const missingFromCode = actual.filter(permission => !expected.includes(permission));
+
+    if (missingFromTable.length > 0 || missingFromCode.length > 0) {
+      drift.push({ role, missingFromTable, missingFromCode });
+    }
+  }
+
+  return drift;
+}
+
+/**
+ * Report every difference between the ROLE_PERMISSIONS defaults and the role_permissions table.
+ * Custom roles only exist in the database, so their rows are not compared.
+ */
+export async function checkRolePermissionsConsistency(
+  supabase: SupabaseClient
+): Promise<RolePermissionDrift[]> {
+  await loadRolePermissions(supabase);
+  const rows = await fetchRolePermissionRows(supabase);
+  const table: Record<string, string[]> = {};
+
+  for (const { role, permission } of rows) {
+    if (getRoleDefinition(role)?.builtIn === false) continue;
+
+    table[role] = [...(table[role] || []), permission];
+  }
+
+  return diffRolePermissions(ROLE_PERMISSIONS, table);
+}
@@ -0,0 +1,297 @@
+import {
+  AuthSnapshot,
+  Permission,
+  PermissionContext,
+  ProjectMembership,
+  TemporaryGrant,
+  UserRole,
+  getActiveRole,
+  getEffectiveRoles,
+  hasPermission,
+  isRoleAtLeast,
+} from './auth';
+import { EDITABLE_SUBMISSION_STATUSES } from './submissions';
+
+// What can be done to a resource
+export type PolicyAction = 'read' | 'create' | 'update' | 'delete';
+
+// Kinds of resource with object-level rules
+export type ResourceType = 'project' | 'document' | 'qa_item' | 'submission' | 'task';
+
+// The resource a check is about. Leave out what isn't known yet, e.g. the id
+// and owner of something being created.
+export type PolicyResource = {
+  type: ResourceType;
+  id?: string;
+  projectId?: string | null;
+  ownerId?: string | null;
+  status?: string | null;
+  shared?: boolean | null;
+};
+
+// Who is asking: the user's id and role, their project memberships and grants
+export type PolicyActor = {
+  id: string;
+  role: UserRole;
+  memberships?: ProjectMembership[];
+  grants?: TemporaryGrant[];
+};
+
+// A condition on the resource, checked against the actor
+export type PolicyCondition =
+  | { type: 'owner' } // The actor created or owns it
+  | { type: 'member' } // The actor is on its project (global roles always are)
+  | { type: 'status'; in: string[] } // It is in one of these states
+  | { type: 'shared' }; // It has been shared beyond the project team
+
+// Who may take an action: holders of the permission and/or the role (or one
+// above it) on the resource's project, when every condition holds
+export type PolicyRule = {
+  actions: PolicyAction[];
+  permission?: Permission;
+  role?: UserRole;
+  conditions?: PolicyCondition[];
+};
+
+export type ResourcePolicy = {
+  // Columns the conditions map to, for compilePolicyFilter
+  columns: { project: string; owner?: string; status?: string; shared?: string };
+  // Any one matching rule allows the action
+  rules: PolicyRule[];
+};
+
+export const RESOURCE_POLICIES: Record<ResourceType, ResourcePolicy> = {
+  // A project is its own project: members see it, those who manage it edit it
+  project: {
+    columns: { project: 'id' },
+    rules: [
+      { actions: ['read'], permission: 'view:projects', conditions: [{ type: 'member' }] },
+      { actions: ['create'], permission: 'manage:projects' },
+      { actions: ['update'], permission: 'manage:projects', conditions: [{ type: 'member' }] },
+    ],
+  },
+  // Clients can upload files to their own projects; staff manage them all
+  document: {
+    columns: { project: 'project_id', owner: 'uploaded_by' },
+    rules: [
+      { actions: ['read'], permission: 'view:projects', conditions: [{ type: 'member' }] },
+      { actions: ['create'], permission: 'submit:content', conditions: [{ type: 'member' }] },
+      { actions: ['update', 'delete'], permission: 'submit:content', conditions: [{ type: 'owner' }] },
+      { actions: ['create', 'update', 'delete'], permission: 'manage:content' },
+    ],
+  },
+  // Team can tick QA items on projects they are assigned to only
+  qa_item: {
+    columns: { project: 'project_id' },
+    rules: [
+      { actions: ['read'], permission: 'view:projects', conditions: [{ type: 'member' }] },
+      { actions: ['update'], role: 'team', conditions: [{ type: 'member' }] },
+      { actions: ['create', 'delete'], permission: 'manage:projects' },
+    ],
+  },
+  // Authors see and edit their own submissions until a reviewer has them;
+  // reviewers see every submission on their projects but never edit them
+  // (review decisions are transitions, see submissions.ts)
+  submission: {
+    columns: { project: 'project_id', owner: 'author_id', status: 'status' },
+    rules: [
+      { actions: ['read'], permission: 'submit:content', conditions: [{ type: 'owner' }] },
+      { actions: ['read'], permission: 'manage:content', conditions: [{ type: 'member' }] },
+      { actions: ['create'], permission: 'submit:content', conditions: [{ type: 'member' }] },
+      {
+        actions: ['update'],
+        permission: 'submit:content',
+        conditions: [{ type: 'owner' }, { type: 'status', in: EDITABLE_SUBMISSION_STATUSES }],
+      },
+    ],
+  },
+  // Directors create and edit tasks; assignees move their own through the
+  // board. The project team sees every task, clients and builders only the
+  // shared ones and any assigned to them.
+  task: {
+    columns: { project: 'project_id', owner: 'assignee_id', shared: 'shared' },
+    rules: [
+      { actions: ['read'], role: 'team', conditions: [{ type: 'member' }] },
+      { actions: ['read'], permission: 'view:projects', conditions: [{ type: 'member' }, { type: 'shared' }] },
+      { actions: ['read', 'update'], permission: 'view:projects', conditions: [{ type: 'owner' }] },
+      { actions: ['read', 'create', 'update', 'delete'], permission: 'manage:projects', conditions: [{ type: 'member' }] },
+    ],
+  },
+};
+
+/**
+ * The actor for the current user in an auth snapshot, or null when there is
+ * no one whose access can be checked (signed out or deactivated)
+ */
+export function toPolicyActor(auth: AuthSnapshot): PolicyActor | null {
+  const role = getActiveRole(auth);
+
+  if (!role || !auth.user) {
+    return null;
+  }
+
+  return { id: auth.user.id, role, memberships: auth.memberships, grants: auth.user.grants };
+}
+
+// Whether the actor holds the rule's permission and role on a project (or
+// globally when projectId is null)
+function meetsRequirements(actor: PolicyActor, rule: PolicyRule, context: PermissionContext): boolean {
+  const roles = getEffectiveRoles(actor.role, context);
+
+  if (roles.length === 0) {
+    return false;
+  }
+
+  if (rule.permission && !hasPermission(actor.role, rule.permission, context)) {
+    return false;
+  }
+
+  return !rule.role || roles.some(role => isRoleAtLeast(role, rule.role as UserRole));
+}
+
+function meetsCondition(actor: PolicyActor, condition: PolicyCondition, resource: PolicyResource): boolean {
+  switch (condition.type) {
+    case 'owner':
+      return !!resource.ownerId && resource.ownerId === actor.id;
+    case 'member':
+      // Scoping the requirements to the project already left non-members without a role
+      return !!resource.projectId;
+    case 'status':
+      return !!resource.status && condition.in.includes(resource.status);
+    case 'shared':
+      return resource.shared === true;
+  }
+}
+
+/**
+ * Whether an actor may take an action on a resource: some rule for the
+ * resource type allows the action, the actor meets its permission and role on
+ * the resource's project, and every one of its conditions holds.
+ *
+ * @example
+ * can(actor, 'update', { type: 'submission', projectId, ownerId: submission.author_id, status: submission.status })
+ */
+export function can(
+  actor: PolicyActor | null,
+  action: PolicyAction,
+  resource: PolicyResource,
+  policies: Record<ResourceType, ResourcePolicy> = RESOURCE_POLICIES
+): boolean {
+  if (!actor) {
+    return false;
+  }
+
+  const context: PermissionContext = {
+    projectId: resource.projectId,
+    memberships: actor.memberships,
+    grants: actor.grants,
+  };
+
+  return policies[resource.type].rules.some(rule =>
+    rule.actions.includes(action) &&
+    meetsRequirements(actor, rule, context) &&
+    (rule.conditions ?? []).every(condition => meetsCondition(actor, condition, resource))
+  );
+}
+
+// How a list query must be narrowed to the rows an actor may see
+export type PolicyFilter =
+  | { match: 'all' }
+  | { match: 'none' }
+  // A PostgREST or() filter, e.g. 'and(project_id.in.("p1"),created_by.eq."u1")'
+  | { match: 'some'; or: string };
+
+// Quote a value for a PostgREST filter
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Compile the rules for an action on a resource type into the filter that
+ * selects exactly the rows can() would allow, so lists are scoped the same
+ * way as single checks
+ */
+export function compilePolicyFilter(
+  actor: PolicyActor | null,
+  action: PolicyAction,
+  type: ResourceType,
+  policies: Record<ResourceType, ResourcePolicy> = RESOURCE_POLICIES
+): PolicyFilter {
+  if (!actor) {
+    return { match: 'none' };
+  }
+
+  const { columns, rules } = policies[type];
+  const clauses: string[] = [];
+
+  for (const rule of rules.filter(rule => rule.actions.includes(action))) {
+    const filters: string[] = [];
+
+    // Global roles and grants apply to every project, including ones the
+    // actor isn't on; otherwise only their memberships count
+    const anywhere = meetsRequirements(actor, rule, {
+      projectId: '*',
+      memberships: [],
+      grants: actor.grants,
+    });
+
+    if (!anywhere) {
+      const projectIds = (actor.memberships ?? [])
+        .map(membership => membership.projectId)
+        .filter(projectId => meetsRequirements(actor, rule, {
+          projectId,
+          memberships: actor.memberships,
+          grants: actor.grants,
+        }));
+
+      if (projectIds.length === 0) continue;
+      filters.push(`${columns.project}.in.(${projectIds.map(quote).join(',')})`);
+    }
+
+    for (const condition of rule.conditions ?? []) {
+      const column = condition.type === 'member' ? columns.project : columns[condition.type];
+      if (!column) {
+        throw new Error(`No ${condition.type} column configured for ${type}`);
+      }
+
+      if (condition.type === 'owner') {
+        filters.push(`${column}.eq.${quote(actor.id)}`);
+      } else if (condition.type === 'status') {
+        filters.push(`${column}.in.(${condition.in.map(quote).join(',')})`);
+      } else if (condition.type === 'shared') {
+        filters.push(`${column}.is.true`);
+      }
+    }
+
+    // A rule without restrictions lets every row through
+    if (filters.length === 0) {
+      return { match: 'all' };
+    }
+
+    clauses.push(filters.length === 1 ? filters[0] : `and(${filters.join(',')})`);
+  }
+
+  return clauses.length > 0 ? { match: 'some', or: clauses.join(',') } : { match: 'none' };
+}
+
+/**
+ * Narrow a Supabase query with a compiled filter, or return null if no rows
+ * are allowed and the query needn't be run
+ *
+ * @example
+ * const query = applyPolicyFilter(supabase.from('submissions').select('*'), compilePolicyFilter(actor, 'read', 'submission'));
+ * const { data } = query ? await query : { data: [] };
+ */
+export function applyPolicyFilter<Query extends { or(filters: string): Query }>(
+  query: Query,
+  filter: PolicyFilter
+): Query | null {
+  switch (filter.match) {
+    case 'all':
+      return query;
+    case 'none':
+      return null;
+    case 'some':
+      return query.or(filter.or);
+  }
+}
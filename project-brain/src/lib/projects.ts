@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import type { Database } from '@/types/supabase';
+
+export type ProjectRow = Database['public']['Tables']['projects']['Row'];
+
+// Where a project stands overall
+export const PROJECT_STATUSES = ['active', 'on_hold', 'completed', 'cancelled'] as const;
+
+export type ProjectStatus = typeof PROJECT_STATUSES[number];
+
+// The stage of work a project is at, in order
+export const PROJECT_PHASES = [
+  'brief',
+  'concept',
+  'developed_design',
+  'consent',
+  'tender',
+  'construction',
+  'handover',
+] as const;
+
+export type ProjectPhase = typeof PROJECT_PHASES[number];
+
+export const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  active: 'Active',
+  on_hold: 'On hold',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+export const PROJECT_PHASE_LABELS: Record<ProjectPhase, string> = {
+  brief: 'Brief',
+  concept: 'Concept design',
+  developed_design: 'Developed design',
+  consent: 'Consent',
+  tender: 'Tender',
+  construction: 'Construction',
+  handover: 'Handover',
+};
+
+export type Project = {
+  id: string;
+  name: string;
+  address: string;
+  clientName: string;
+  clientEmail: string | null;
+  scope: string;
+  status: ProjectStatus;
+  phase: ProjectPhase;
+  // The template version it was created from, if any
+  templateVersionId: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// A phase of a project with what was set up for it, e.g. from a template
+export type ProjectPlanPhase = {
+  // Null for items not in any phase
+  id: string | null;
+  name: string;
+  tasks: { id: string; title: string }[];
+  checklist: { id: string; label: string; checkedAt: string | null }[];
+  fees: { id: string; description: string; amount: number }[];
+};
+
+// Schema for creating or editing a project
+export const projectSchema = z.object({
+  name: z.string().trim().min(1, 'A project name is required').max(200, 'Keep the name under 200 characters'),
+  address: z.string().trim().min(1, 'An address is required').max(500, 'Keep the address under 500 characters'),
+  clientName: z.string().trim().min(1, 'A client is required').max(200, 'Keep the client name under 200 characters'),
+  clientEmail: z
+    .string()
+    .trim()
+    .email('Invalid client email')
+    .nullable()
+    .or(z.literal('').transform(() => null))
+    .default(null),
+  scope: z.string().trim().max(5000, 'Keep the scope under 5000 characters').default(''),
+  status: z.enum(PROJECT_STATUSES, { errorMap: () => ({ message: 'Unknown status' }) }).default('active'),
+  phase: z.enum(PROJECT_PHASES, { errorMap: () => ({ message: 'Unknown phase' }) }).default('brief'),
+});
+
+export type ProjectFormData = z.input<typeof projectSchema>;
+
+/**
+ * Map a projects row to a Project
+ */
+export function toProject(row: ProjectRow): Project {
+  return {
+    id: row.id,
+    name: row.name,
+    address: row.address,
+    clientName: row.client_name,
+    clientEmail: row.client_email,
+    scope: row.scope,
+    status: row.status as ProjectStatus,
+    phase: row.phase as ProjectPhase,
+    templateVersionId: row.template_version_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * The columns a validated form sets
+ */
+export function toProjectColumns(project: z.output<typeof projectSchema>) {
+  return {
+    name: project.name,
+    address: project.address,
+    client_name: project.clientName,
+    client_email: project.clientEmail,
+    scope: project.scope,
+    status: project.status,
+    phase: project.phase,
+  };
+}
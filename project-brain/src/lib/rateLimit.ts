@@ -0,0 +1,323 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { UserRole } from './auth';
+import { appConfig } from './config';
+
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+// How many requests a caller may make per window
+export type RateLimitPolicy = {
+  maxRequests: number;
+  windowMs: number;
+  algorithm?: RateLimitAlgorithm;
+};
+
+/**
+ * Per-route limits passed through RouteConfig. Anything not set falls back to
+ * the environment's security.rateLimit settings.
+ */
+export type RouteRateLimit = {
+  // Limit for signed-in users of this route
+  default?: RateLimitPolicy;
+  // Per-role overrides; false exempts the role
+  roles?: Partial<Record<UserRole, RateLimitPolicy | false>>;
+  // Limit per client IP for signed-out callers
+  anonymous?: RateLimitPolicy;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  remaining: number;
+  // Milliseconds until the quota frees up again (retry delay when denied)
+  resetMs: number;
+};
+
+/**
+ * Where counters live. The memory store only sees a single instance; use the
+ * Postgres store wherever more than one instance serves requests.
+ */
+export interface RateLimitStore {
+  consume(key: string, policy: RateLimitPolicy, now?: number): Promise<RateLimitResult>;
+}
+
+const policySchema = z.object({
+  maxRequests: z.number().int().positive(),
+  windowMs: z.number().int().positive(),
+  algorithm: z.enum(['sliding-window', 'token-bucket']).optional(),
+});
+
+const rateLimitSettingsSchema = z.object({
+  enabled: z.boolean(),
+  store: z.enum(['memory', 'postgres']).default('memory'),
+  algorithm: z.enum(['sliding-window', 'token-bucket']).default('sliding-window'),
+  maxRequests: z.number().int().positive().default(60),
+  windowMs: z.number().int().positive().default(60 * 1000),
+  roles: z.record(z.union([policySchema, z.literal(false)])).default({}),
+  anonymous: policySchema.optional(),
+});
+
+export type RateLimitSettings = z.infer<typeof rateLimitSettingsSchema>;
+
+// security.rateLimit from config/environments/<env>.js
+export const rateLimitSettings: RateLimitSettings = rateLimitSettingsSchema.parse(
+  appConfig.security.rateLimit
+);
+
+/**
+ * Pick the policy for a caller: the route's role override, then the route's
+ * own limit, then the environment's. Returns null when nothing applies.
+ */
+export function resolveRateLimitPolicy(
+  settings: RateLimitSettings,
+  routeLimit: RouteRateLimit | false | undefined,
+  caller: { authenticated: boolean; role?: UserRole | null }
+): RateLimitPolicy | null {
+  if (!settings.enabled || routeLimit === false) return null;
+
+  const fallback: RateLimitPolicy = {
+    maxRequests: settings.maxRequests,
+    windowMs: settings.windowMs,
+  };
+
+  let policy: RateLimitPolicy | false;
+  if (!caller.authenticated) {
+    policy = routeLimit?.anonymous ?? settings.anonymous ?? fallback;
+  } else {
+    const role = caller.role ?? undefined;
+    policy =
+      (role !== undefined ? routeLimit?.roles?.[role] : undefined) ??
+      routeLimit?.default ??
+      (role !== undefined ? settings.roles[role] : undefined) ??
+      fallback;
+  }
+
+  return policy ? { ...policy, algorithm: policy.algorithm ?? settings.algorithm } : null;
+}
+
+/**
+ * Whether a route or the environment sets limits that depend on the role
+ */
+export function hasRoleRateLimits(settings: RateLimitSettings, routeLimit?: RouteRateLimit | false): boolean {
+  if (!settings.enabled || routeLimit === false) return false;
+  return Object.keys(routeLimit?.roles ?? {}).length > 0 || Object.keys(settings.roles).length > 0;
+}
+
+// Counter state, shared by both algorithms and mirrored by the rate_limits table
+type RateLimitEntry = {
+  windowStart: number;
+  count: number;
+  previousCount: number;
+  tokens: number | null;
+  updatedAt: number;
+  expiresAt: number;
+};
+
+/**
+ * Sliding window counter: the previous window's count, weighted by how much
+ * of it still overlaps the sliding window, plus the current window's count
+ */
+function consumeSlidingWindow(
+  entry: RateLimitEntry | undefined,
+  { maxRequests, windowMs }: RateLimitPolicy,
+  now: number
+): { entry: RateLimitEntry; result: RateLimitResult } {
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  let count = 0;
+  let previousCount = 0;
+
+  if (entry?.windowStart === windowStart) {
+    count = entry.count;
+    previousCount = entry.previousCount;
+  } else if (entry?.windowStart === windowStart - windowMs) {
+    previousCount = entry.count;
+  }
+
+  const estimate = previousCount * (1 - (now - windowStart) / windowMs) + count;
+  const allowed = estimate + 1 <= maxRequests;
+  let resetMs: number;
+
+  if (allowed) {
+    count += 1;
+    resetMs = windowStart + windowMs - now;
+  } else if (count + 1 <= maxRequests) {
+    // Blocked by the previous window; wait for enough of it to slide out
+    resetMs = Math.ceil(windowStart + windowMs * (1 - (maxRequests - count - 1) / previousCount) - now);
+  } else {
+    // This window is full; the next one opens once enough of it has slid out
+    resetMs = Math.ceil(windowStart + windowMs + windowMs * (1 - (maxRequests - 1) / count) - now);
+  }
+
+  return {
+    entry: { windowStart, count, previousCount, tokens: null, updatedAt: now, expiresAt: windowStart + 2 * windowMs },
+    result: {
+      allowed,
+      remaining: allowed ? Math.max(0, Math.floor(maxRequests - estimate - 1)) : 0,
+      resetMs,
+    },
+  };
+}
+
+/**
+ * Token bucket: holds up to maxRequests tokens, refilled evenly over windowMs
+ */
+function consumeTokenBucket(
+  entry: RateLimitEntry | undefined,
+  { maxRequests, windowMs }: RateLimitPolicy,
+  now: number
+): { entry: RateLimitEntry; result: RateLimitResult } {
+  const refillRate = maxRequests / windowMs;
+  let tokens = entry?.tokens != null
+    ? Math.min(maxRequests, entry.tokens + (now - entry.updatedAt) * refillRate)
+    : maxRequests;
+
+  const allowed = tokens >= 1;
+  if (allowed) tokens -= 1;
+
+  return {
+    entry: {
+      windowStart: 0,
+      count: 0,
+      previousCount: 0,
+      tokens,
+      updatedAt: now,
+      expiresAt: now + Math.ceil((maxRequests - tokens) / refillRate),
+    },
+    result: {
+      allowed,
+      remaining: Math.floor(tokens),
+      resetMs: Math.ceil((allowed ? maxRequests - tokens : 1 - tokens) / refillRate),
+    },
+  };
+}
+
+/**
+ * In-process store. Expired counters are swept periodically and the oldest
+ * ones are evicted beyond maxKeys.
+ */
+export function createMemoryRateLimitStore({ maxKeys = 10000 }: { maxKeys?: number } = {}): RateLimitStore {
+  const entries = new Map<string, RateLimitEntry>();
+  let nextSweepAt = 0;
+
+  const sweep = (now: number) => {
+    entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) entries.delete(key);
+    });
+    nextSweepAt = now + 60 * 1000;
+  };
+
+  return {
+    async consume(key, policy, now = Date.now()) {
+      if (now >= nextSweepAt) sweep(now);
+
+      const consumeWith = policy.algorithm === 'token-bucket' ? consumeTokenBucket : consumeSlidingWindow;
+      const { entry, result } = consumeWith(entries.get(key), policy, now);
+
+      // Re-insert so the map stays ordered by last use
+      entries.delete(key);
+      entries.set(key, entry);
+
+      while (entries.size > maxKeys) {
+        entries.delete(entries.keys().next().value as string);
+      }
+
+      return result;
+    },
+  };
+}
+
+/**
+ * Store backed by the rate_limits table through the consume_rate_limit RPC,
+ * shared by every instance. Counters use the database clock.
+ */
+export function createPostgresRateLimitStore(supabase: SupabaseClient): RateLimitStore {
+  return {
+    async consume(key, policy) {
+      const { data, error } = await supabase
+        .rpc('consume_rate_limit', {
+          p_key: key,
+          p_max_requests: policy.maxRequests,
+          p_window_ms: policy.windowMs,
+          p_algorithm: policy.algorithm ?? 'sliding-window',
+        })
+        .single();
+
+      if (error || !data) {
+        throw new Error(`Failed to consume rate limit: ${error?.message ?? 'no result'}`);
+      }
+
+      const row = data as { allowed: boolean; remaining: number; reset_ms: number };
+      return { allowed: row.allowed, remaining: row.remaining, resetMs: row.reset_ms };
+    },
+  };
+}
+
+/**
+ * Store that counts in fallback whenever primary fails, so an outage, or a
+ * caller whose token the database refuses, doesn't turn the limits off
+ */
+export function createFallbackRateLimitStore(primary: RateLimitStore, fallback: RateLimitStore): RateLimitStore {
+  return {
+    async consume(key, policy, now) {
+      try {
+        return await primary.consume(key, policy, now);
+      } catch (error) {
+        console.error('Rate limit store unavailable, counting in memory:', error);
+        return fallback.consume(key, policy, now);
+      }
+    },
+  };
+}
+
+const memoryStore = createMemoryRateLimitStore();
+
+/**
+ * The store configured for this environment. The shared store falls back to
+ * this instance's memory.
+ */
+export function getRateLimitStore(supabase: SupabaseClient): RateLimitStore {
+  return rateLimitSettings.store === 'postgres'
+    ? createFallbackRateLimitStore(createPostgresRateLimitStore(supabase), memoryStore)
+    : memoryStore;
+}
+
+// security.trustedProxies from config/environments/<env>.js
+const trustedProxies = z.number().int().min(0).default(1).parse(appConfig.security.trustedProxies);
+
+/**
+ * Client IP for anonymous limits and audit entries: the X-Forwarded-For hop
+ * added by the outermost trusted proxy. Entries to its left were sent by the
+ * client and can't be trusted. Without trusted proxies there is no reliable IP.
+ */
+export function getClientIp(headers: Headers, proxies: number = trustedProxies): string {
+  if (proxies === 0) return 'unknown';
+
+  const hops = (headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+
+  if (hops.length > 0) {
+    return hops[Math.max(0, hops.length - proxies)];
+  }
+
+  return headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+/**
+ * Standard RateLimit-* response headers, plus Retry-After once denied
+ */
+export function getRateLimitHeaders(policy: RateLimitPolicy, result: RateLimitResult): Record<string, string> {
+  const resetSeconds = String(Math.max(0, Math.ceil(result.resetMs / 1000)));
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(policy.maxRequests),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': resetSeconds,
+    'RateLimit-Policy': `${policy.maxRequests};w=${Math.ceil(policy.windowMs / 1000)}`,
+  };
+
+  if (!result.allowed) {
+    headers['Retry-After'] = resetSeconds;
+  }
+
+  return headers;
+}
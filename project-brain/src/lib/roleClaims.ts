@@ -0,0 +1,147 @@
+import type { Session, SupabaseClient } from '@supabase/supabase-js';
+import { JWTPayload, createRemoteJWKSet, jwtVerify } from 'jose';
+import { UserRole } from './auth';
+
+// How long a role looked up from the database is reused for the same token
+const ROLE_CACHE_TTL_MS = 30 * 1000;
+
+// Claims added to access tokens by public.custom_access_token_hook
+const ROLE_CLAIM = 'user_role';
+const ACTIVE_CLAIM = 'user_active';
+
+// Audience Supabase issues signed-in users' access tokens for
+const TOKEN_AUDIENCE = 'authenticated';
+
+// What middleware checks routes with: who the token was issued to, their role
+// and whether their account is active
+export type SessionClaims = {
+  userId: string;
+  role: UserRole;
+  active: boolean;
+};
+
+// Keyed by access token, so only the token the database accepted finds it
+const claimsCache = new Map<string, SessionClaims & { expiresAt: number }>();
+
+let remoteKeys: ReturnType<typeof createRemoteJWKSet> | null = null;
+
+/**
+ * Decode the payload of a JWT without verifying it. Only trust what it gives
+ * once verifyAccessToken, or the database, has accepted the token.
+ */
+export function decodeJwtClaims(token: string): Record<string, unknown> | null {
+  const [, payload] = token.split('.');
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+    const json = decodeURIComponent(
+      Array.from(atob(padded), char => `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`).join('')
+    );
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify an access token's signature, expiry and audience, with the project's
+ * JWT secret when SUPABASE_JWT_SECRET is set and its published signing keys
+ * otherwise. Gives nothing for tokens that fail, or when neither is available.
+ */
+export async function verifyAccessToken(accessToken: string): Promise<JWTPayload | null> {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+
+  try {
+    if (secret) {
+      const { payload } = await jwtVerify(accessToken, new TextEncoder().encode(secret), {
+        audience: TOKEN_AUDIENCE,
+      });
+      return payload;
+    }
+
+    if (url) {
+      remoteKeys ??= createRemoteJWKSet(new URL('/auth/v1/.well-known/jwks.json', url));
+      const { payload } = await jwtVerify(accessToken, remoteKeys, { audience: TOKEN_AUDIENCE });
+      return payload;
+    }
+  } catch {
+    // Forged, expired or signed with a key we don't have
+  }
+
+  return null;
+}
+
+/**
+ * Read the user's role and active state from the access token claims, once
+ * the token is verified and if the hook added both
+ */
+export async function getClaimsFromAccessToken(accessToken: string): Promise<SessionClaims | null> {
+  const payload = await verifyAccessToken(accessToken);
+  const role = payload?.[ROLE_CLAIM];
+  const active = payload?.[ACTIVE_CLAIM];
+
+  return payload?.sub && typeof role === 'string' && role.length > 0 && typeof active === 'boolean'
+    ? { userId: payload.sub, role, active }
+    : null;
+}
+
+/**
+ * Resolve who a session belongs to, their role and active state without a
+ * round trip where possible: the verified JWT claims first, then a
+ * short-lived in-memory cache, and only then the users table. The session's
+ * user object comes from the cookie unverified, so neither it nor an
+ * unverified token is trusted: the lookup sends the token to the database,
+ * which refuses it unless it is genuine. Both can be out of date by up to a
+ * token's lifetime, so server code that acts on them uses getAuthContext
+ * instead.
+ */
+export async function resolveSessionClaims(
+  supabase: SupabaseClient,
+  session: Session
+): Promise<SessionClaims | null> {
+  const token = session.access_token;
+  const claims = await getClaimsFromAccessToken(token);
+  if (claims) return claims;
+
+  const now = Date.now();
+  const cached = claimsCache.get(token);
+  if (cached && cached.expiresAt > now) {
+    return { userId: cached.userId, role: cached.role, active: cached.active };
+  }
+
+  const userId = decodeJwtClaims(token)?.sub;
+  if (typeof userId !== 'string' || !userId) return null;
+
+  const { data: userData, error } = await supabase
+    .from('users')
+    .select('role, active')
+    .eq('id', userId)
+    .single();
+
+  // Tokens expire and refresh, so drop what no request can find again
+  claimsCache.forEach((entry, key) => {
+    if (entry.expiresAt <= now) claimsCache.delete(key);
+  });
+
+  if (error || !userData?.role) {
+    claimsCache.delete(token);
+    return null;
+  }
+
+  const resolved = { userId, role: userData.role as UserRole, active: userData.active === true };
+  claimsCache.set(token, { ...resolved, expiresAt: now + ROLE_CACHE_TTL_MS });
+  return resolved;
+}
+
+/**
+ * Resolve the role for a session the same way
+ */
+export async function resolveSessionRole(
+  supabase: SupabaseClient,
+  session: Session
+): Promise<UserRole | null> {
+  return (await resolveSessionClaims(supabase, session))?.role ?? null;
+}
@@ -0,0 +1,94 @@
+import {
+  BuiltInRole,
+  UserRole,
+  getRoleDisplayName,
+  getRoleKeys,
+  hasPermission,
+  isUserRole,
+} from './auth';
+
+// Exactly which roles these roles may hand out, whatever their permissions
+export const ROLE_DELEGATIONS: Partial<Record<BuiltInRole, UserRole[]>> = {
+  director: ['client', 'builder'],
+};
+
+// A proposed change of a user's role
+export type RoleAssignment = {
+  actorId: string;
+  actorRole: UserRole;
+  targetId: string;
+  // The target's current role
+  targetRole: UserRole;
+  newRole: UserRole;
+  // Active admins, including the target; needed when the target is an admin
+  activeAdminCount?: number;
+};
+
+export type DelegationDecision =
+  | { allowed: true }
+  | { allowed: false; reason: string };
+
+/**
+ * Roles a user with actorRole may grant to others (and take away from them).
+ * Admins may grant every role and roles in ROLE_DELEGATIONS what it lists;
+ * otherwise holders of manage:roles may grant every role but admin, and
+ * everyone else none. Load the role registry and permissions first.
+ */
+export function getAssignableRoles(actorRole: UserRole): UserRole[] {
+  if (actorRole === 'admin') {
+    return getRoleKeys();
+  }
+
+  const delegated = ROLE_DELEGATIONS[actorRole as BuiltInRole];
+  if (delegated) {
+    return delegated.filter(role => isUserRole(role));
+  }
+
+  if (hasPermission(actorRole, 'manage:roles')) {
+    return getRoleKeys().filter(role => role !== 'admin');
+  }
+
+  return [];
+}
+
+/**
+ * Decide whether an actor may change a user's role. Nobody may change their
+ * own role, only users whose current role the actor could have granted can be
+ * changed, and the last active admin can't be demoted.
+ */
+export function checkRoleAssignment(assignment: RoleAssignment): DelegationDecision {
+  const { actorId, actorRole, targetId, targetRole, newRole, activeAdminCount = 0 } = assignment;
+
+  if (!isUserRole(newRole)) {
+    return { allowed: false, reason: `Unknown role: ${newRole}` };
+  }
+
+  if (actorId === targetId) {
+    return { allowed: false, reason: 'You cannot change your own role' };
+  }
+
+  const assignable = getAssignableRoles(actorRole);
+
+  if (!assignable.includes(targetRole)) {
+    return { allowed: false, reason: `You cannot change the role of a ${getRoleDisplayName(targetRole)} user` };
+  }
+
+  if (!assignable.includes(newRole)) {
+    return { allowed: false, reason: `You cannot assign the ${getRoleDisplayName(newRole)} role` };
+  }
+
+  if (targetRole === 'admin' && newRole !== 'admin' && activeAdminCount <= 1) {
+    return { allowed: false, reason: 'At least one active admin is required' };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Roles the actor could move a particular user to, other than their current one
+ */
+export function getAssignableRolesFor(assignment: Omit<RoleAssignment, 'newRole'>): UserRole[] {
+  return getRoleKeys().filter(
+    role => role !== assignment.targetRole && checkRoleAssignment({ ...assignment, newRole: role }).allowed
+  );
+}
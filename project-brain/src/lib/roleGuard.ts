@@ -0,0 +1,109 @@
+import type { ReactNode } from 'react';
+import {
+  Permission,
+  PermissionContext,
+  UserRole,
+  getEffectiveRoles,
+  hasPermission,
+  isRoleAtLeast,
+} from './auth';
+
+// What RoleGuard and ServerRoleGuard can require; every given requirement must be met
+export type RoleRequirements = {
+  /**
+   * Role required to view the content: this role and above (see isRoleAtLeast)
+   */
+  requiredRole?: UserRole;
+
+  /**
+   * Array of roles where any one, or a role above it, is sufficient
+   */
+  anyRole?: UserRole[];
+
+  /**
+   * Specific permission required to view the content
+   */
+  permission?: Permission;
+
+  /**
+   * Array of permissions where any one is sufficient
+   */
+  anyPermission?: Permission[];
+
+  /**
+   * Array of permissions where all are required
+   */
+  allPermissions?: Permission[];
+
+  /**
+   * Project to evaluate the checks against, using the user's role on that project
+   */
+  projectId?: string;
+};
+
+export type RoleGuardProps = RoleRequirements & {
+  /**
+   * Content to render if user has the required role
+   */
+  children: ReactNode;
+
+  /**
+   * Content to render if user doesn't have the required role/permission
+   */
+  fallback?: ReactNode;
+};
+
+/**
+ * Check a user against a guard's requirements. Roles come from the user's
+ * role on the project, if one is given, and their active temporary grants.
+ */
+export function meetsRoleRequirements(
+  userRole: UserRole | null | undefined,
+  requirements: RoleRequirements,
+  context: Omit<PermissionContext, 'projectId'> = {}
+): boolean {
+  const { requiredRole, anyRole, permission, anyPermission, allPermissions, projectId } = requirements;
+
+  // No user or role found
+  if (!userRole) {
+    return false;
+  }
+
+  // Roles that apply in this scope, including temporarily granted ones
+  // (none if not a member of the project)
+  const scoped: PermissionContext = { ...context, projectId };
+  const effectiveRoles = getEffectiveRoles(userRole, scoped);
+  if (effectiveRoles.length === 0) {
+    return false;
+  }
+
+  // Check specific required role
+  if (requiredRole && !effectiveRoles.some(role => isRoleAtLeast(role, requiredRole))) {
+    return false;
+  }
+
+  // Check if user has any of the specified roles
+  if (anyRole && anyRole.length > 0 &&
+    !anyRole.some(role => effectiveRoles.some(effectiveRole => isRoleAtLeast(effectiveRole, role)))) {
+    return false;
+  }
+
+  // Check specific permission
+  if (permission && !hasPermission(userRole, permission, scoped)) {
+    return false;
+  }
+
+  // Check if user has any of the specified permissions
+  if (anyPermission && anyPermission.length > 0 &&
+    !anyPermission.some(perm => hasPermission(userRole, perm, scoped))) {
+    return false;
+  }
+
+  // Check if user has all of the specified permissions
+  if (allPermissions && allPermissions.length > 0 &&
+    !allPermissions.every(perm => hasPermission(userRole, perm, scoped))) {
+    return false;
+  }
+
+  return true;
+}
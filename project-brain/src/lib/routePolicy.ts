@@ -0,0 +1,238 @@
+import {
+  UserRole,
+  Permission,
+  PermissionContext,
+  getEffectiveRoles,
+  hasAllPermissions,
+} from './auth';
+
+// Access requirements for a route pattern
+export type RoutePolicy = {
+  /**
+   * Route pattern using App Router segment syntax, e.g. '/projects/[id]/edit'
+   * or '/docs/[...slug]'. Nested paths without a policy of their own inherit
+   * the policy of their closest declared ancestor.
+   */
+  pattern: string;
+  // Reachable without signing in
+  public?: boolean;
+  // The user's role, or a temporarily granted one, must be one of these
+  // (exact match, no inheritance)
+  anyRole?: UserRole[];
+  // All of these permissions are required
+  permissions?: Permission[];
+  // Dynamic segment holding a project id; checks use the user's role on that project
+  projectParam?: string;
+  // Mutating requests get through while an admin impersonates someone
+  allowWhileImpersonating?: boolean;
+};
+
+export type RouteMatch = {
+  policy: RoutePolicy;
+  params: Record<string, string>;
+  // True when the policy was declared for an ancestor of the path
+  inherited: boolean;
+};
+
+export type RouteAccess = 'allow' | 'unauthenticated' | 'forbidden';
+
+// Every route in the app and what it requires
+export const ROUTE_POLICIES: RoutePolicy[] = [
+  // Public pages
+  { pattern: '/', public: true },
+  { pattern: '/login', public: true },
+  { pattern: '/register', public: true },
+  { pattern: '/forgot-password', public: true },
+  { pattern: '/reset-password', public: true },
+  { pattern: '/unauthorized', public: true },
+  { pattern: '/account-disabled', public: true },
+  { pattern: '/invite/[token]', public: true },
+  { pattern: '/auth/callback', public: true },
+
+  // Public auth API routes
+  { pattern: '/api/auth/callback', public: true },
+  { pattern: '/api/auth/logout', public: true },
+  { pattern: '/api/auth/reset-password', public: true },
+
+  // Admin API routes
+  { pattern: '/api/admin/audit/export', permissions: ['view:audit'] },
+
+  // Ending an impersonation; signed-in users only
+  { pattern: '/api/impersonation', allowWhileImpersonating: true },
+
+  // Local document storage; every link carries its own signature
+  { pattern: '/api/storage/local/[...path]', public: true },
+
+  // Dashboard
+  { pattern: '/dashboard', permissions: ['view:projects'] },
+  { pattern: '/dashboard/settings' },
+  { pattern: '/dashboard/admin', anyRole: ['admin'] },
+  { pattern: '/dashboard/users', permissions: ['manage:users'] },
+  { pattern: '/dashboard/projects', permissions: ['manage:projects'] },
+  { pattern: '/dashboard/content', permissions: ['manage:content'] },
+
+  // Projects
+  { pattern: '/projects', permissions: ['view:projects'] },
+  { pattern: '/projects/new', permissions: ['manage:projects'] },
+  { pattern: '/projects/[id]', permissions: ['view:projects'], projectParam: 'id' },
+  { pattern: '/projects/[id]/edit', permissions: ['manage:projects'], projectParam: 'id' },
+  { pattern: '/projects/[id]/documents', permissions: ['view:projects'], projectParam: 'id' },
+  { pattern: '/projects/documents/review', permissions: ['manage:content'] },
+  { pattern: '/projects/[id]/submissions', permissions: ['submit:content'], projectParam: 'id' },
+  { pattern: '/projects/[id]/submissions/new', permissions: ['submit:content'], projectParam: 'id' },
+  { pattern: '/projects/[id]/submissions/[submissionId]', permissions: ['submit:content'], projectParam: 'id' },
+  { pattern: '/projects/review', permissions: ['submit:content'] },
+  { pattern: '/projects/[id]/tasks', permissions: ['view:projects'], projectParam: 'id' },
+  { pattern: '/projects/[id]/tasks/new', permissions: ['manage:projects'], projectParam: 'id' },
+  { pattern: '/projects/[id]/tasks/[taskId]', permissions: ['view:projects'], projectParam: 'id' },
+  { pattern: '/projects/tasks', permissions: ['view:projects'] },
+  { pattern: '/projects/tasks/overdue', permissions: ['view:projects'] },
+  { pattern: '/projects/templates', permissions: ['manage:projects'] },
+  { pattern: '/projects/templates/new', permissions: ['manage:projects'] },
+  { pattern: '/projects/templates/[templateId]', permissions: ['manage:projects'] },
+
+  // Users
+  { pattern: '/users', permissions: ['view:users'] },
+  { pattern: '/users/manage', permissions: ['manage:users'] },
+
+  // Settings and analytics
+  { pattern: '/settings', permissions: ['manage:settings'] },
+  { pattern: '/analytics', permissions: ['view:analytics'] },
+
+  // Administration
+  { pattern: '/admin', anyRole: ['admin'] },
+  { pattern: '/admin/permissions', permissions: ['manage:roles'] },
+  { pattern: '/admin/roles', permissions: ['manage:roles'] },
+  { pattern: '/admin/audit', permissions: ['view:audit'] },
+  { pattern: '/admin/grants', permissions: ['manage:grants'] },
+  { pattern: '/director', anyRole: ['admin', 'director'] },
+];
+
+// Applied to paths no policy covers: signed-in users only
+export const DEFAULT_ROUTE_POLICY: RoutePolicy = { pattern: '*' };
+
+function splitPath(path: string): string[] {
+  return path.split('?')[0].split('/').filter(Boolean);
+}
+
+/**
+ * Match a path against a single pattern, returning its dynamic params
+ */
+export function matchRoutePattern(pattern: string, path: string): Record<string, string> | null {
+  const patternSegments = splitPath(pattern);
+  const pathSegments = splitPath(path);
+  const params: Record<string, string> = {};
+
+  for (let i = 0; i < patternSegments.length; i++) {
+    const segment = patternSegments[i];
+
+    // Catch-all segment consumes the rest of the path
+    const catchAll = segment.match(/^\[\.\.\.(\w+)\]$/);
+    if (catchAll) {
+      if (i >= pathSegments.length) return null;
+      params[catchAll[1]] = pathSegments.slice(i).join('/');
+      return params;
+    }
+
+    if (i >= pathSegments.length) return null;
+
+    const dynamic = segment.match(/^\[(\w+)\]$/);
+    if (dynamic) {
+      params[dynamic[1]] = decodeURIComponent(pathSegments[i]);
+    } else if (segment !== pathSegments[i]) {
+      return null;
+    }
+  }
+
+  return patternSegments.length === pathSegments.length ? params : null;
+}
+
+// Static segments are more specific than dynamic ones, which beat catch-alls
+function specificity(pattern: string): number {
+  return splitPath(pattern).reduce((score, segment) => {
+    if (segment.startsWith('[...')) return score;
+    if (segment.startsWith('[')) return score + 1;
+    return score + 2;
+  }, 0);
+}
+
+function findExactPolicy(
+  path: string,
+  policies: RoutePolicy[]
+): { policy: RoutePolicy; params: Record<string, string> } | null {
+  let best: { policy: RoutePolicy; params: Record<string, string> } | null = null;
+
+  for (const policy of policies) {
+    const params = matchRoutePattern(policy.pattern, path);
+    if (params && (!best || specificity(policy.pattern) > specificity(best.policy.pattern))) {
+      best = { policy, params };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Find the policy for a path: the most specific declared pattern, else the
+ * closest declared ancestor, else the default (authenticated users only).
+ * The root '/' policy only ever applies to '/' itself.
+ */
+export function findRoutePolicy(path: string, policies: RoutePolicy[] = ROUTE_POLICIES): RouteMatch {
+  const segments = splitPath(path);
+
+  if (segments.length === 0) {
+    const root = findExactPolicy('/', policies);
+    return root ? { ...root, inherited: false } : { policy: DEFAULT_ROUTE_POLICY, params: {}, inherited: false };
+  }
+
+  for (let length = segments.length; length >= 1; length--) {
+    const match = findExactPolicy(`/${segments.slice(0, length).join('/')}`, policies);
+    if (match) {
+      return { ...match, inherited: length < segments.length };
+    }
+  }
+
+  return { policy: DEFAULT_ROUTE_POLICY, params: {}, inherited: false };
+}
+
+/**
+ * Get the project id a matched route is scoped to, if any
+ */
+export function getRouteProjectId(match: RouteMatch): string | null {
+  const { projectParam } = match.policy;
+  return projectParam ? match.params[projectParam] ?? null : null;
+}
+
+/**
+ * Decide whether a user may access a route.
+ * Pass a null role for signed-out users; pass the project context for
+ * policies with a projectParam.
+ */
+export function checkRouteAccess(
+  policy: RoutePolicy,
+  userRole: UserRole | null,
+  context?: PermissionContext
+): RouteAccess {
+  if (policy.public) return 'allow';
+  if (!userRole) return 'unauthenticated';
+
+  const effectiveRoles = getEffectiveRoles(userRole, context);
+
+  if (policy.projectParam && (!context?.projectId || effectiveRoles.length === 0)) {
+    return 'forbidden';
+  }
+
+  if (policy.anyRole && policy.anyRole.length > 0) {
+    if (!effectiveRoles.some(role => policy.anyRole?.includes(role))) {
+      return 'forbidden';
+    }
+  }
+
+  if (policy.permissions && policy.permissions.length > 0) {
+    if (!hasAllPermissions(userRole, policy.permissions, context)) {
+      return 'forbidden';
+    }
+  }
+
+  return 'allow';
+}
@@ -0,0 +1,206 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { appConfig } from './config';
+
+const storageSettingsSchema = z.object({
+  adapter: z.enum(['local', 'supabase']).default('local'),
+  bucket: z.string().min(1).default('documents'),
+  localPath: z.string().min(1).default('.storage'),
+  signedUrlTtlMs: z.number().int().positive().default(5 * 60 * 1000),
+  maxFileBytes: z.number().int().positive().default(100 * 1024 * 1024),
+});
+
+export type StorageSettings = z.infer<typeof storageSettingsSchema>;
+
+// storage from config/environments/<env>.js
+export const storageSettings: StorageSettings = storageSettingsSchema.parse(appConfig.storage);
+
+// Serves files for the local adapter; the signature in each link is its only check
+export const LOCAL_STORAGE_PATH = '/api/storage/local';
+
+/**
+ * Where document files live. Links are signed and short-lived, so the browser
+ * moves file bodies directly and the app only ever decides who gets a link.
+ */
+export interface StorageAdapter {
+  // A link the browser PUTs the file body to
+  createUploadUrl(objectPath: string): Promise<string>;
+  // A link the browser downloads the file from, saved as fileName
+  createDownloadUrl(objectPath: string, fileName: string): Promise<string>;
+  // Whether an upload has landed
+  exists(objectPath: string): Promise<boolean>;
+}
+
+/**
+ * Adapter for a private Supabase Storage bucket. Links are created with the
+ * caller's client, so the bucket's policies apply on top of the app's checks.
+ */
+export function createSupabaseStorageAdapter(
+  supabase: SupabaseClient,
+  { bucket, signedUrlTtlMs }: Pick<StorageSettings, 'bucket' | 'signedUrlTtlMs'> = storageSettings
+): StorageAdapter {
+  const files = () => supabase.storage.from(bucket);
+
+  return {
+    async createUploadUrl(objectPath) {
+      const { data, error } = await files().createSignedUploadUrl(objectPath);
+
+      if (error || !data) {
+        throw new Error(`Failed to create upload link: ${error?.message ?? 'no link'}`);
+      }
+
+      return data.signedUrl;
+    },
+
+    async createDownloadUrl(objectPath, fileName) {
+      const { data, error } = await files().createSignedUrl(objectPath, Math.ceil(signedUrlTtlMs / 1000), {
+        download: fileName,
+      });
+
+      if (error || !data) {
+        throw new Error(`Failed to create download link: ${error?.message ?? 'no link'}`);
+      }
+
+      return data.signedUrl;
+    },
+
+    async exists(objectPath) {
+      const { data } = await files().exists(objectPath);
+      return data;
+    },
+  };
+}
+
+export type LocalStorageOperation = 'upload' | 'download';
+
+// A signed local storage link, as read back by the route serving it
+export type LocalStorageToken = {
+  operation: LocalStorageOperation;
+  objectPath: string;
+  fileName: string | null;
+  expiresAt: number;
+};
+
+// Signs local links. Without STORAGE_SIGNING_SECRET, links only work until the server restarts.
+const localSigningSecret =
+  process.env.STORAGE_SIGNING_SECRET ?? Buffer.from(crypto.getRandomValues(new Uint8Array(32))).toString('hex');
+
+async function signingKey(secret: string) {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+function tokenPayload({ operation, objectPath, fileName, expiresAt }: LocalStorageToken): string {
+  return [operation, objectPath, fileName ?? '', expiresAt].join('\n');
+}
+
+/**
+ * Sign a local storage link's query string
+ */
+export async function signLocalStorageToken(
+  token: LocalStorageToken,
+  secret: string = localSigningSecret
+): Promise<URLSearchParams> {
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    await signingKey(secret),
+    new TextEncoder().encode(tokenPayload(token))
+  );
+
+  const params = new URLSearchParams({
+    op: token.operation,
+    expires: String(token.expiresAt),
+    sig: Buffer.from(signature).toString('base64url'),
+  });
+  if (token.fileName) params.set('name', token.fileName);
+
+  return params;
+}
+
+/**
+ * Read a local storage link back, or null if it isn't one we signed for this
+ * operation or it has expired
+ */
+export async function verifyLocalStorageToken(
+  objectPath: string,
+  operation: LocalStorageOperation,
+  params: URLSearchParams,
+  now: number = Date.now(),
+  secret: string = localSigningSecret
+): Promise<LocalStorageToken | null> {
+  const expiresAt = Number(params.get('expires'));
+  const signature = params.get('sig');
+
+  if (params.get('op') !== operation || !signature || !Number.isFinite(expiresAt) || expiresAt <= now) {
+    return null;
+  }
+
+  const token = { operation, objectPath, fileName: params.get('name'), expiresAt };
+  const valid = await crypto.subtle.verify(
+    'HMAC',
+    await signingKey(secret),
+    Buffer.from(signature, 'base64url'),
+    new TextEncoder().encode(tokenPayload(token))
+  );
+
+  return valid ? token : null;
+}
+
+/**
+ * Resolve an object path inside the local storage root, refusing anything
+ * that would land outside it
+ */
+export function resolveLocalObjectPath(objectPath: string, root: string = storageSettings.localPath): string | null {
+  const base = path.resolve(root);
+  const resolved = path.resolve(base, objectPath);
+  return resolved.startsWith(base + path.sep) ? resolved : null;
+}
+
+/**
+ * Adapter keeping files on the local filesystem, for development and tests
+ * without a live bucket. Links point at the local storage route.
+ */
+export function createLocalStorageAdapter(
+  { localPath, signedUrlTtlMs }: Pick<StorageSettings, 'localPath' | 'signedUrlTtlMs'> = storageSettings,
+  secret: string = localSigningSecret
+): StorageAdapter {
+  const link = async (operation: LocalStorageOperation, objectPath: string, fileName: string | null = null) => {
+    const params = await signLocalStorageToken(
+      { operation, objectPath, fileName, expiresAt: Date.now() + signedUrlTtlMs },
+      secret
+    );
+    const encodedPath = objectPath.split('/').map(encodeURIComponent).join('/');
+    return `${LOCAL_STORAGE_PATH}/${encodedPath}?${params}`;
+  };
+
+  return {
+    createUploadUrl: objectPath => link('upload', objectPath),
+    createDownloadUrl: (objectPath, fileName) => link('download', objectPath, fileName),
+    async exists(objectPath) {
+      const file = resolveLocalObjectPath(objectPath, localPath);
+      if (!file) return false;
+
+      try {
+        return (await fs.stat(file)).isFile();
+      } catch {
+        return false;
+      }
+    },
+  };
+}
+
+/**
+ * The adapter configured for this environment
+ */
+export function getStorageAdapter(supabase: SupabaseClient): StorageAdapter {
+  return storageSettings.adapter === 'supabase'
+    ? createSupabaseStorageAdapter(supabase)
+    : createLocalStorageAdapter();
+}
@@ -0,0 +1,209 @@
+import { z } from 'zod';
+import { Permission, hasPermission } from './auth';
+import type { PolicyActor } from './policy';
+import type { Database } from '@/types/supabase';
+
+export type SubmissionRow = Database['public']['Tables']['content_submissions']['Row'];
+export type SubmissionCommentRow = Database['public']['Tables']['content_submission_comments']['Row'];
+
+// Where a submission stands in review, from its author's draft to a decision
+export const SUBMISSION_STATUSES = ['draft', 'submitted', 'changes_requested', 'approved', 'rejected'] as const;
+
+export type SubmissionStatus = typeof SUBMISSION_STATUSES[number];
+
+export const SUBMISSION_STATUS_LABELS: Record<SubmissionStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Awaiting review',
+  changes_requested: 'Changes requested',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+// Statuses its author can still edit a submission in
+export const EDITABLE_SUBMISSION_STATUSES: SubmissionStatus[] = ['draft', 'changes_requested'];
+
+export type SubmissionAction = 'submit' | 'request_changes' | 'approve' | 'reject';
+
+// A move between statuses: who may make it, with which permission on the
+// submission's project, and whether they must explain it
+export type SubmissionTransition = {
+  from: SubmissionStatus[];
+  to: SubmissionStatus;
+  by: 'author' | 'reviewer';
+  permission: Permission;
+  requiresComment?: boolean;
+  label: string;
+};
+
+// The whole state machine. Reviewers never act on their own submissions.
+// Mirrored by guard_submission_transition() in 19_content_submissions.sql.
+export const SUBMISSION_TRANSITIONS: Record<SubmissionAction, SubmissionTransition> = {
+  submit: {
+    from: ['draft', 'changes_requested'],
+    to: 'submitted',
+    by: 'author',
+    permission: 'submit:content',
+    label: 'Submit for review',
+  },
+  request_changes: {
+    from: ['submitted'],
+    to: 'changes_requested',
+    by: 'reviewer',
+    permission: 'manage:content',
+    requiresComment: true,
+    label: 'Request changes',
+  },
+  approve: {
+    from: ['submitted'],
+    to: 'approved',
+    by: 'reviewer',
+    permission: 'manage:content',
+    label: 'Approve',
+  },
+  reject: {
+    from: ['submitted'],
+    to: 'rejected',
+    by: 'reviewer',
+    permission: 'manage:content',
+    requiresComment: true,
+    label: 'Reject',
+  },
+};
+
+export const SUBMISSION_ACTIONS = Object.keys(SUBMISSION_TRANSITIONS) as SubmissionAction[];
+
+export type Submission = {
+  id: string;
+  projectId: string;
+  title: string;
+  body: string;
+  status: SubmissionStatus;
+  authorId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  submittedAt: string | null;
+  decidedAt: string | null;
+};
+
+// A comment on a submission; transition comments record the move they explained
+export type SubmissionComment = {
+  id: string;
+  authorId: string | null;
+  body: string;
+  fromStatus: SubmissionStatus | null;
+  toStatus: SubmissionStatus | null;
+  createdAt: string;
+};
+
+// A submission the current user can act on, as listed in the review inbox
+export type SubmissionInboxItem = Submission & {
+  projectName: string;
+  actions: SubmissionAction[];
+};
+
+// Schema for creating or editing a submission
+export const submissionSchema = z.object({
+  title: z.string().trim().min(1, 'A title is required').max(200, 'Keep the title under 200 characters'),
+  body: z.string().trim().min(1, 'Add some content to review').max(20000, 'Keep the content under 20000 characters'),
+});
+
+export type SubmissionFormData = z.input<typeof submissionSchema>;
+
+export const submissionCommentSchema = z
+  .string()
+  .trim()
+  .max(5000, 'Keep comments under 5000 characters');
+
+// The submission fields a transition check needs
+type SubmissionState = Pick<Submission, 'projectId' | 'authorId' | 'status'>;
+
+/**
+ * Whether an actor may move a submission with an action, and if not, why.
+ * Pass the comment to also check transitions that need one.
+ */
+export function checkSubmissionTransition(
+  actor: PolicyActor | null,
+  submission: SubmissionState,
+  action: SubmissionAction,
+  comment?: string
+): { allowed: true } | { allowed: false; reason: string } {
+  const transition = SUBMISSION_TRANSITIONS[action];
+
+  if (!actor) {
+    return { allowed: false, reason: 'Not signed in' };
+  }
+
+  if (!transition.from.includes(submission.status)) {
+    return {
+      allowed: false,
+      reason: `Cannot ${transition.label.toLowerCase()} a submission that is ${SUBMISSION_STATUS_LABELS[submission.status].toLowerCase()}`,
+    };
+  }
+
+  const isAuthor = !!submission.authorId && submission.authorId === actor.id;
+  if (transition.by === 'author' ? !isAuthor : isAuthor) {
+    return {
+      allowed: false,
+      reason: transition.by === 'author'
+        ? 'Only the author can do this'
+        : 'You cannot review your own submission',
+    };
+  }
+
+  const permitted = hasPermission(actor.role, transition.permission, {
+    projectId: submission.projectId,
+    memberships: actor.memberships,
+    grants: actor.grants,
+  });
+  if (!permitted) {
+    return { allowed: false, reason: 'You do not have permission to do this' };
+  }
+
+  if (transition.requiresComment && comment !== undefined && !comment.trim()) {
+    return { allowed: false, reason: 'Add a comment explaining why' };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * The actions an actor can take on a submission right now
+ */
+export function getAvailableSubmissionActions(
+  actor: PolicyActor | null,
+  submission: SubmissionState
+): SubmissionAction[] {
+  return SUBMISSION_ACTIONS.filter(action => checkSubmissionTransition(actor, submission, action).allowed);
+}
+
+/**
+ * Map a content_submissions row to a Submission
+ */
+export function toSubmission(row: SubmissionRow): Submission {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    title: row.title,
+    body: row.body,
+    status: row.status as SubmissionStatus,
+    authorId: row.author_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    submittedAt: row.submitted_at,
+    decidedAt: row.decided_at,
+  };
+}
+
+/**
+ * Map a content_submission_comments row to a SubmissionComment
+ */
+export function toSubmissionComment(row: SubmissionCommentRow): SubmissionComment {
+  return {
+    id: row.id,
+    authorId: row.author_id,
+    body: row.body,
+    fromStatus: row.from_status as SubmissionStatus | null,
+    toStatus: row.to_status as SubmissionStatus | null,
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,81 @@
+import { cookies } from 'next/headers'
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { SignJWT } from 'jose'
+import type { AuthPrincipal } from '../auth'
+import { getAuthContext } from '../authContext'
+import type { Impersonation } from '../impersonation'
+import { Database } from '@/types/supabase'
+
+// Tokens for impersonated users are minted per request, so they needn't last
+const IMPERSONATION_TOKEN_TTL_SECONDS = 60
+
+/**
+ * Whether access tokens can be minted for impersonated users. Without the
+ * project's JWT secret their reads would run with the admin's access.
+ */
+export function canImpersonateReads(): boolean {
+  return !!process.env.SUPABASE_JWT_SECRET
+}
+
+/**
+ * A short-lived access token for the user an admin is impersonating, signed
+ * like the ones Supabase issues, so RLS applies the user's own access. It
+ * never outlives the impersonation.
+ */
+export async function mintImpersonationToken(impersonation: Impersonation, user: AuthPrincipal): Promise<string> {
+  const secret = process.env.SUPABASE_JWT_SECRET
+
+  if (!secret) {
+    throw new Error('SUPABASE_JWT_SECRET is not configured')
+  }
+
+  const now = Math.floor(Date.now() / 1000)
+  const expiresAt = Math.min(
+    now + IMPERSONATION_TOKEN_TTL_SECONDS,
+    Math.floor(new Date(impersonation.expiresAt).getTime() / 1000)
+  )
+
+  return new SignJWT({
+    role: 'authenticated',
+    user_role: user.role,
+    user_active: user.active,
+    impersonation_id: impersonation.id,
+  })
+    .setProtectedHeader({ alg: 'HS256', typ: 'JWT' })
+    .setSubject(user.id)
+    .setAudience('authenticated')
+    .setIssuedAt(now)
+    .setExpirationTime(expiresAt)
+    .sign(new TextEncoder().encode(secret))
+}
+
+/**
+ * Client for server components and actions. While an admin impersonates
+ * someone it queries as that user, with a token minted for them, so pages
+ * show exactly the rows the user can see. Changes are blocked while
+ * impersonating (see middleware) unless impersonation.allowMutations is set,
+ * so in practice it only reads as them.
+ */
+export async function createServerClient(): Promise<SupabaseClient<Database>> {
+  const { impersonation, user } = await getAuthContext()
+
+  if (!impersonation) {
+    return createServerComponentClient<Database>({ cookies })
+  }
+
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+
+  // Never fall back to the admin's access
+  if (!user || !url || !anonKey) {
+    throw new Error('Cannot read as the impersonated user')
+  }
+
+  const token = await mintImpersonationToken(impersonation, user)
+
+  return createClient<Database>(url, anonKey, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
@@ -0,0 +1,24 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { Database } from '@/types/supabase'
+
+let serviceClient: SupabaseClient<Database> | null = null
+
+/**
+ * Client authenticated with the service role key, for the server-side calls
+ * that anon and authenticated callers may not make (e.g. the sign-in lockout
+ * functions). It bypasses RLS: never import it from client components.
+ */
+export function getServiceClient(): SupabaseClient<Database> {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!url || !serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not configured')
+  }
+
+  serviceClient ??= createClient<Database>(url, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+
+  return serviceClient
+}
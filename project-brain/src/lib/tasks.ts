@@ -0,0 +1,190 @@
+import { z } from 'zod';
+import { UserRole, isRoleAtLeast } from './auth';
+import type { Database } from '@/types/supabase';
+
+export type TaskRow = Database['public']['Tables']['tasks']['Row'];
+
+// Where a task stands, in board order
+export const TASK_STATUSES = ['todo', 'in_progress', 'blocked', 'done'] as const;
+
+export type TaskStatus = typeof TASK_STATUSES[number];
+
+export const TASK_STATUS_LABELS: Record<TaskStatus, string> = {
+  todo: 'To do',
+  in_progress: 'In progress',
+  blocked: 'Blocked',
+  done: 'Done',
+};
+
+export type Task = {
+  id: string;
+  projectId: string;
+  phaseId: string | null;
+  title: string;
+  description: string;
+  position: number;
+  assigneeId: string | null;
+  // YYYY-MM-DD
+  dueDate: string | null;
+  status: TaskStatus;
+  // Visible to clients and builders on the project
+  shared: boolean;
+  // Tasks that must be done first
+  dependsOn: string[];
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type TaskComment = {
+  id: string;
+  authorId: string | null;
+  authorEmail: string | null;
+  body: string;
+  createdAt: string;
+};
+
+// A task with where it belongs, for lists spanning projects
+export type TaskListItem = Task & {
+  projectName: string;
+  phaseName: string | null;
+};
+
+// Schema for creating or editing a task
+export const taskSchema = z.object({
+  title: z.string().trim().min(1, 'A task title is required').max(200, 'Keep task titles under 200 characters'),
+  description: z.string().trim().max(2000, 'Keep task descriptions under 2000 characters').default(''),
+  phaseId: z.string().uuid('Unknown phase').nullable().default(null),
+  assigneeId: z.string().uuid('Unknown assignee').nullable().default(null),
+  dueDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid due date')
+    .nullable()
+    .or(z.literal('').transform(() => null))
+    .default(null),
+  status: z.enum(TASK_STATUSES, { errorMap: () => ({ message: 'Unknown status' }) }).default('todo'),
+  shared: z.boolean().default(false),
+  dependsOn: z.array(z.string().uuid('Unknown task')).default([]),
+});
+
+export type TaskFormData = z.input<typeof taskSchema>;
+
+export const taskStatusSchema = z.enum(TASK_STATUSES, { errorMap: () => ({ message: 'Unknown status' }) });
+
+/**
+ * Map a tasks row to a Task
+ */
+export function toTask(row: TaskRow, dependsOn: string[] = []): Task {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    phaseId: row.phase_id,
+    title: row.title,
+    description: row.description,
+    position: row.position,
+    assigneeId: row.assignee_id,
+    dueDate: row.due_date,
+    status: row.status as TaskStatus,
+    shared: row.shared,
+    dependsOn,
+    completedAt: row.completed_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * The columns a validated form sets
+ */
+export function toTaskColumns(task: z.output<typeof taskSchema>) {
+  return {
+    title: task.title,
+    description: task.description,
+    phase_id: task.phaseId,
+    assignee_id: task.assigneeId,
+    due_date: task.dueDate,
+    status: task.status,
+    shared: task.shared,
+  };
+}
+
+/**
+ * Whether a project member with this role on the project can be assigned its
+ * tasks: the project team, team and above (is_task_assignable in the database)
+ */
+export function canBeAssignedTasks(projectRole: UserRole): boolean {
+  return isRoleAtLeast(projectRole, 'team');
+}
+
+/**
+ * A date as YYYY-MM-DD in local time, to compare with due dates
+ */
+export function toDateString(date: Date = new Date()): string {
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-');
+}
+
+/**
+ * Whether a task is past its due date and not done
+ */
+export function isTaskOverdue(task: Pick<Task, 'dueDate' | 'status'>, today: string = toDateString()): boolean {
+  return !!task.dueDate && task.status !== 'done' && task.dueDate < today;
+}
+
+/**
+ * The tasks a task depends on that aren't done yet
+ */
+export function getBlockingTasks<T extends Pick<Task, 'id' | 'status'>>(
+  task: Pick<Task, 'dependsOn'>,
+  tasks: T[]
+): T[] {
+  return tasks.filter(other => task.dependsOn.includes(other.id) && other.status !== 'done');
+}
+
+/**
+ * Whether making a task depend on others would create a loop, given every
+ * other task's dependencies
+ */
+export function createsDependencyCycle(
+  taskId: string,
+  dependsOn: string[],
+  dependencies: Record<string, string[]>
+): boolean {
+  const seen = new Set<string>();
+  const pending = [...dependsOn];
+
+  while (pending.length > 0) {
+    const current = pending.pop() as string;
+    if (current === taskId) return true;
+    if (seen.has(current)) continue;
+
+    seen.add(current);
+    pending.push(...(dependencies[current] ?? []));
+  }
+
+  return false;
+}
+
+/**
+ * Tasks in board columns, each in phase then position order
+ */
+export function groupTasksByStatus<T extends Pick<Task, 'status' | 'position' | 'phaseId'>>(
+  tasks: T[],
+  phaseOrder: string[] = []
+): Record<TaskStatus, T[]> {
+  // Tasks outside any known phase go last
+  const phaseIndex = (task: T) => {
+    const index = task.phaseId ? phaseOrder.indexOf(task.phaseId) : -1;
+    return index === -1 ? phaseOrder.length : index;
+  };
+
+  return Object.fromEntries(TASK_STATUSES.map(status => [
+    status,
+    tasks
+      .filter(task => task.status === status)
+      .sort((a, b) => phaseIndex(a) - phaseIndex(b) || a.position - b.position),
+  ])) as Record<TaskStatus, T[]>;
+}
@@ -0,0 +1,91 @@
+import { z } from 'zod';
+import type { Json } from '@/types/supabase';
+
+// One phase of a template, with everything a project gets for it
+const templatePhaseSchema = z.object({
+  name: z.string().trim().min(1, 'Every phase needs a name').max(200, 'Keep phase names under 200 characters'),
+  tasks: z
+    .array(z.object({
+      title: z.string().trim().min(1, 'Every task needs a title').max(200, 'Keep task titles under 200 characters'),
+      description: z.string().trim().max(2000, 'Keep task descriptions under 2000 characters').default(''),
+    }))
+    .default([]),
+  checklist: z
+    .array(z.object({
+      label: z.string().trim().min(1, 'Every checklist item needs a label').max(500, 'Keep checklist items under 500 characters'),
+    }))
+    .default([]),
+  fees: z
+    .array(z.object({
+      description: z.string().trim().min(1, 'Every fee line needs a description').max(200, 'Keep fee descriptions under 200 characters'),
+      amount: z.number().nonnegative('Fees cannot be negative').multipleOf(0.01, 'Fees are in whole cents'),
+    }))
+    .default([]),
+});
+
+// What a template version holds: its phases, in order
+export const templateDefinitionSchema = z.object({
+  phases: z.array(templatePhaseSchema).min(1, 'Add at least one phase'),
+});
+
+export type TemplateDefinition = z.output<typeof templateDefinitionSchema>;
+
+export type TemplatePhase = TemplateDefinition['phases'][number];
+
+// Schema for saving a template; every save becomes a new version
+export const templateSchema = z.object({
+  name: z.string().trim().min(1, 'A template name is required').max(200, 'Keep the name under 200 characters'),
+  description: z.string().trim().max(2000, 'Keep the description under 2000 characters').default(''),
+  definition: templateDefinitionSchema,
+});
+
+export type TemplateFormData = z.input<typeof templateSchema>;
+
+export type TemplateSummary = {
+  id: string;
+  name: string;
+  description: string;
+  currentVersion: number;
+  createdAt: string;
+};
+
+export type TemplateVersion = {
+  id: string;
+  version: number;
+  definition: TemplateDefinition;
+  createdAt: string;
+  createdBy: string | null;
+};
+
+/**
+ * Read a stored definition, or null if it no longer matches the schema
+ */
+export function parseTemplateDefinition(definition: Json): TemplateDefinition | null {
+  const parsed = templateDefinitionSchema.safeParse(definition);
+  return parsed.success ? parsed.data : null;
+}
+
+// Fees are quoted in New Zealand dollars
+const FEE_CURRENCY = 'NZD';
+
+/**
+ * Format a fee amount for display
+ */
+export function formatFee(amount: number): string {
+  return amount.toLocaleString(undefined, { style: 'currency', currency: FEE_CURRENCY });
+}
+
+/**
+ * Count what a definition creates, for summaries
+ */
+export function countTemplateItems(definition: TemplateDefinition) {
+  return definition.phases.reduce(
+    (counts, phase) => ({
+      phases: counts.phases + 1,
+      tasks: counts.tasks + phase.tasks.length,
+      checklist: counts.checklist + phase.checklist.length,
+      fees: counts.fees + phase.fees.reduce((total, fee) => total + fee.amount, 0),
+    }),
+    { phases: 0, tasks: 0, checklist: 0, fees: 0 }
+  );
+}
@@ -0,0 +1,87 @@
+import { z } from 'zod';
+import { Permission, UserRole, getAllPermissions, isPermission, isUserRole } from './auth';
+import { appConfig } from './config';
+import { getAssignableRoles } from './roleDelegation';
+import type { Database } from '@/types/supabase';
+
+const temporaryGrantSettingsSchema = z.object({
+  maxDurationMs: z.number().int().positive().default(7 * 24 * 60 * 60 * 1000),
+});
+
+export type TemporaryGrantSettings = z.infer<typeof temporaryGrantSettingsSchema>;
+
+// security.temporaryGrants from config/environments/<env>.js. The database
+// enforces its own ceiling too (temporary_grant_settings).
+export const temporaryGrantSettings: TemporaryGrantSettings = temporaryGrantSettingsSchema.parse(
+  appConfig.security.temporaryGrants
+);
+
+export type TemporaryGrantRow = Database['public']['Tables']['temporary_grants']['Row'];
+
+export type TemporaryGrantStatus = 'pending' | 'active' | 'expired' | 'rejected' | 'revoked';
+
+// Schema for requesting a grant; load the role registry before parsing
+export const temporaryGrantSchema = z
+  .object({
+    userId: z.string().uuid('Invalid user ID'),
+    role: z
+      .string()
+      .refine(role => isUserRole(role), { message: 'Unknown role' })
+      .nullable()
+      .default(null),
+    permissions: z
+      .array(z.string().refine(isPermission, { message: 'Unknown permission' }))
+      .default([])
+      .transform(permissions => Array.from(new Set(permissions)) as Permission[]),
+    reason: z.string().trim().min(1, 'A reason is required').max(500, 'Keep the reason under 500 characters'),
+    durationMs: z.number().int().positive('Duration must be positive'),
+  })
+  .refine(grant => grant.role !== null || grant.permissions.length > 0, {
+    message: 'Grant a role, permissions or both',
+    path: ['permissions'],
+  })
+  .refine(grant => grant.durationMs <= temporaryGrantSettings.maxDurationMs, {
+    message: 'Grant lasts longer than allowed',
+    path: ['durationMs'],
+  });
+
+export type TemporaryGrantFormData = z.input<typeof temporaryGrantSchema>;
+
+/**
+ * Whether a user with actorRole may hand out a grant. Admins may grant
+ * anything; others only roles they could assign (see roleDelegation.ts) and
+ * permissions they hold themselves.
+ */
+export function canGrant(
+  actorRole: UserRole,
+  grant: { role: UserRole | null; permissions: Permission[] }
+): boolean {
+  if (actorRole === 'admin') return true;
+
+  if (grant.role && !getAssignableRoles(actorRole).includes(grant.role)) {
+    return false;
+  }
+
+  const held = getAllPermissions(actorRole);
+  return grant.permissions.every(permission => held.includes(permission));
+}
+
+/**
+ * When a grant approved now stops applying
+ */
+export function getGrantExpiry(durationMs: number, now: Date = new Date()): Date {
+  return new Date(now.getTime() + durationMs);
+}
+
+/**
+ * Where a grant stands
+ */
+export function getGrantStatus(
+  grant: Pick<TemporaryGrantRow, 'approved_at' | 'rejected_at' | 'revoked_at' | 'expires_at'>,
+  now: Date = new Date()
+): TemporaryGrantStatus {
+  if (grant.revoked_at) return 'revoked';
+  if (grant.rejected_at) return 'rejected';
+  if (new Date(grant.expires_at).getTime() <= now.getTime()) return 'expired';
+  return grant.approved_at ? 'active' : 'pending';
+}
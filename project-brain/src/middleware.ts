@@ -1,155 +1,218 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { createMiddlewareClient } from '@supabase/auth-helpers-nextjs';
-
-// Define public routes that don't require authentication
-const publicRoutes = [
-  '/',
-  '/login',
-  '/register',
-  '/api/auth/callback',
-  '/api/auth/logout',
-  '/api/auth/reset-password',
-  '/unauthorized'
-];
-
-// Define route protection by permission
-const routePermissions = {
-  '/dashboard': ['view:projects'],
-  '/projects': ['view:projects'],
-  '/projects/new': ['manage:projects'],
-  '/projects/edit': ['manage:projects'],
-  '/users': ['view:users'],
-  '/users/manage': ['manage:users'],
-  '/settings': ['manage:settings'],
-  '/analytics': ['view:analytics'],
+import { CORRELATION_ID_HEADER, getAuditContext, recordAuditEvent } from '@/lib/audit';
+import {
+  ACCOUNT_DISABLED_PATH,
+  UserRole,
+  fetchProjectMemberships,
+  fetchTemporaryGrants,
+  fetchUserAccount,
+} from '@/lib/auth';
+import {
+  IMPERSONATION_COOKIE,
+  Impersonation,
+  fetchImpersonation,
+  impersonationSettings,
+  isMutatingRequest,
+} from '@/lib/impersonation';
+import { loadRolePermissions } from '@/lib/permissionResolver';
+import { resolveSessionClaims } from '@/lib/roleClaims';
+import { checkRouteAccess, findRoutePolicy, getRouteProjectId } from '@/lib/routePolicy';
+
+// Define security headers
+const securityHeaders = {
+  'X-DNS-Prefetch-Control': 'on',
+  'X-XSS-Protection': '1; mode=block',
+  'X-Frame-Options': 'DENY',
+  'X-Content-Type-Options': 'nosniff',
+  'Referrer-Policy': 'strict-origin-when-cross-origin',
+  'Permissions-Policy': 'camera=(), microphone=(), geolocation=(), interest-cohort=()',
+  'Content-Security-Policy':
+    "default-src 'self'; " +
+    "script-src 'self' 'unsafe-inline' https://js.stripe.com; " +
+    "style-src 'self' 'unsafe-inline'; " +
+    "img-src 'self' data: blob: https:; " +
+    "font-src 'self' data:; " +
+    "connect-src 'self' https://*.supabase.co wss://*.supabase.co; " +
+    "frame-src 'self' https://js.stripe.com; " +
+    "object-src 'none'; " +
+    "base-uri 'self';"
 };
 
-// Define route protection by role
-const routeRoles = {
-  '/admin': ['admin'],
-  '/director': ['admin', 'director'],
-};
+// Correlation ids accepted from an upstream proxy; anything else is replaced
+const CORRELATION_ID_PATTERN = /^[\w.-]{1,128}$/;
+
+/**
+ * Record a request an admin made while impersonating someone. Every such
+ * request is recorded here, public and API routes included, whatever handles
+ * it afterwards.
+ */
+function auditImpersonatedRequest(
+  request: NextRequest,
+  requestHeaders: Headers,
+  impersonation: Impersonation,
+  actorRole: UserRole | null,
+  effectiveRole: UserRole | null,
+  blocked: boolean
+) {
+  recordAuditEvent({
+    type: 'impersonated_request',
+    actorId: impersonation.adminId,
+    actorRole,
+    targetUserId: impersonation.targetUserId,
+    effectiveRole,
+    impersonationId: impersonation.id,
+    path: request.nextUrl.pathname,
+    method: request.method,
+    success: !blocked,
+    reason: blocked ? 'Mutations are blocked while impersonating' : undefined,
+  }, getAuditContext(requestHeaders));
+}
 
 export async function middleware(request: NextRequest) {
-  // Initialize Supabase client
-  const res = NextResponse.next();
-  const supabase = createMiddlewareClient({ req: request, res });
-
-  // Check if the path is public
   const path = request.nextUrl.pathname;
-  if (publicRoutes.some(route => path === route || path.startsWith(`${route}/`))) {
-    return res;
+
+  // Tag the request with a correlation id so its audit events can be tied together
+  const requestHeaders = new Headers(request.headers);
+  const incomingCorrelationId = request.headers.get(CORRELATION_ID_HEADER);
+  const correlationId = incomingCorrelationId && CORRELATION_ID_PATTERN.test(incomingCorrelationId)
+    ? incomingCorrelationId
+    : crypto.randomUUID();
+  requestHeaders.set(CORRELATION_ID_HEADER, correlationId);
+
+  // Create a response object that we'll modify and return
+  const response = NextResponse.next({ request: { headers: requestHeaders } });
+  response.headers.set(CORRELATION_ID_HEADER, correlationId);
+
+  // Add security headers to all responses
+  Object.entries(securityHeaders).forEach(([key, value]) => {
+    response.headers.set(key, value);
+  });
+
+  // Add basic CSRF protection
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    const referer = request.headers.get('referer');
+    const origin = request.headers.get('origin');
+
+    // Check if referer or origin is missing, or if they don't match our domain
+    if (!referer || !origin || !referer.includes(request.headers.get('host') || '')) {
+      return new NextResponse('Invalid Cross-Site Request Forbidden', {
+        status: 403,
+        statusText: 'Forbidden'
+      });
+    }
+  }
+
+  // Look up the route's policy
+  const match = findRoutePolicy(path);
+  const impersonationId = request.cookies.get(IMPERSONATION_COOKIE)?.value;
+
+  // Public routes need no session, but are still audited while impersonating
+  if (match.policy.public && !impersonationId) {
+    return response;
   }
 
-  // Verify the user's session
+  // Initialize Supabase client
+  const supabase = createMiddlewareClient({ req: request, res: response });
+
+  // Read the user's session from its cookies; nothing in it is verified yet
   const {
     data: { session },
   } = await supabase.auth.getSession();
 
+  // Who the user is, their role and active state come from the verified JWT
+  // claims, falling back to a cached database lookup; never from the session
+  // cookie alone. Server components, actions and route handlers resolve the
+  // full context themselves (see getAuthContext).
+  const claims = session ? await resolveSessionClaims(supabase, session) : null;
+
+  // While an admin impersonates someone, the request is checked as that user.
+  // Only then does middleware look anything up.
+  const impersonation = claims?.active
+    ? await fetchImpersonation(supabase, claims.userId, impersonationId)
+    : null;
+  const target = impersonation ? await fetchUserAccount(supabase, impersonation.targetUserId) : null;
+  const userRole = impersonation ? (target?.active ? target.role : null) : claims?.role ?? null;
+
+  if (impersonation) {
+    // Server actions are POSTs; changes made while impersonating would be
+    // attributed to the wrong person. Public routes don't act as anyone.
+    const blocked = !match.policy.public && !match.policy.allowWhileImpersonating &&
+      !impersonationSettings.allowMutations && isMutatingRequest(request.method);
+
+    auditImpersonatedRequest(request, requestHeaders, impersonation, claims?.role ?? null, userRole, blocked);
+
+    if (blocked) {
+      return NextResponse.json({ error: 'Changes are not allowed while impersonating' }, { status: 403 });
+    }
+  } else if (session && impersonationId) {
+    // Ended, expired or not this user's: forget it
+    response.cookies.delete(IMPERSONATION_COOKIE);
+  }
+
+  // API routes enforce the same route policies through withAuth and answer with JSON
+  if (match.policy.public || path.startsWith('/api/')) {
+    return response;
+  }
+
   // If no session, redirect to login
   if (!session) {
     const redirectUrl = new URL('/login', request.url);
-    redirectUrl.searchParams.set('redirectedFrom', request.nextUrl.pathname);
+    redirectUrl.searchParams.set('redirectedFrom', path);
     return NextResponse.redirect(redirectUrl);
   }
 
-  // Get the user's role from the database
-  const { data: userData, error } = await supabase
-    .from('users')
-    .select('role')
-    .eq('id', session.user.id)
-    .single();
-
-  if (error || !userData) {
-    // If we couldn't get the role, log them out
+  if (!claims) {
+    // Without a profile there is no role, so log them out
     return NextResponse.redirect(new URL('/api/auth/logout', request.url));
   }
 
-  const userRole = userData.role;
-
-  // Check role-based access for specific routes
-  for (const [route, allowedRoles] of Object.entries(routeRoles)) {
-    if (path === route || path.startsWith(`${route}/`)) {
-      // Check if the user's role is in the allowed roles
-      const hasAccess = allowedRoles.includes(userRole);
-      
-      if (!hasAccess) {
-        // Log unauthorized access attempt
-        await supabase.rpc('log_auth_event', {
-          user_id: session.user.id,
-          event_type: 'unauthorized_access',
-          event_details: JSON.stringify({
-            path,
-            role: userRole,
-            required_roles: allowedRoles
-          }),
-          ip_address: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
-          user_agent: request.headers.get('user-agent') || 'unknown'
-        });
-        
-        return NextResponse.redirect(new URL('/unauthorized', request.url));
-      }
-    }
+  // Tokens are only issued to active users, so this catches deactivation at
+  // the next refresh; until then RLS and getAuthContext already refuse them
+  if (!claims.active) {
+    await supabase.auth.signOut();
+
+    // Carry the cleared session cookies over to the redirect
+    const disabledResponse = NextResponse.redirect(new URL(ACCOUNT_DISABLED_PATH, request.url));
+    response.cookies.getAll().forEach(cookie => disabledResponse.cookies.set(cookie));
+    return disabledResponse;
   }
 
-  // Check permission-based access for specific routes
-  for (const [route, requiredPermissions] of Object.entries(routePermissions)) {
-    if (path === route || path.startsWith(`${route}/`)) {
-      // For permission checks, we need to make a serverless function call
-      // since the permission logic is more complex and involves role inheritance
-      const { data: permissionCheck, error: permissionError } = await supabase.functions.invoke('check-permissions', {
-        body: {
-          userRole,
-          requiredPermissions
-        }
-      });
+  // Evaluate in-process against the cached role → permission mapping
+  if (match.policy.permissions?.length) {
+    await loadRolePermissions(supabase);
+  }
 
-      if (permissionError || !permissionCheck?.hasPermission) {
-        // Log unauthorized access attempt
-        await supabase.rpc('log_auth_event', {
-          user_id: session.user.id,
-          event_type: 'unauthorized_access',
-          event_details: JSON.stringify({
-            path,
-            role: userRole,
-            required_permissions: requiredPermissions
-          }),
-          ip_address: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
-          user_agent: request.headers.get('user-agent') || 'unknown'
-        });
-        
-        return NextResponse.redirect(new URL('/unauthorized', request.url));
-      }
-    }
+  // Check with the role alone first. Only when that isn't enough are the
+  // user's memberships on the route's project and their grants looked up.
+  const projectId = getRouteProjectId(match);
+  let access = checkRouteAccess(match.policy, userRole, { projectId });
+
+  if (access === 'forbidden' && userRole) {
+    const subjectId = impersonation?.targetUserId ?? claims.userId;
+    const [memberships, grants] = await Promise.all([
+      projectId ? fetchProjectMemberships(supabase, subjectId, projectId) : Promise.resolve([]),
+      fetchTemporaryGrants(supabase, subjectId),
+    ]);
+    access = checkRouteAccess(match.policy, userRole, { projectId, memberships, grants });
   }
 
-  // Add security headers
-  const response = NextResponse.next();
-  
-  // Content Security Policy
-  response.headers.set(
-    'Content-Security-Policy',
-    "default-src 'self'; script-src 'self' 'unsafe-inline' https://js.stripe.com; style-src 'self' 'unsafe-inline'; img-src 'self' data: https:; font-src 'self' data:; connect-src 'self' https://api.supabase.io wss://*.supabase.co;"
-  );
-  
-  // XSS Protection
-  response.headers.set('X-XSS-Protection', '1; mode=block');
-  
-  // Frame options to prevent clickjacking
-  response.headers.set('X-Frame-Options', 'DENY');
-  
-  // Content type options
-  response.headers.set('X-Content-Type-Options', 'nosniff');
-  
-  // Referrer policy
-  response.headers.set('Referrer-Policy', 'strict-origin-when-cross-origin');
-  
-  // Permissions policy
-  response.headers.set(
-    'Permissions-Policy',
-    'camera=(), microphone=(), geolocation=(), interest-cohort=()'
-  );
+  if (access !== 'allow') {
+    // Log unauthorized access attempt
+    recordAuditEvent({
+      type: 'unauthorized_access',
+      actorId: claims.userId,
+      actorRole: claims.role,
+      path,
+      route: match.policy.pattern,
+      requiredRoles: match.policy.anyRole,
+      requiredPermissions: match.policy.permissions,
+      projectId
+    }, getAuditContext(requestHeaders));
+
+    return NextResponse.redirect(new URL('/unauthorized', request.url));
+  }
 
   return response;
 }
@@ -166,4 +229,4 @@ export const config = {
      */
     '/((?!_next/static|_next/image|favicon.ico|public/).*)',
   ],
-}; 
\ No newline at end of file
+};
@@ -1,3 +1,11 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
 export type Database = {
   public: {
     Tables: {
@@ -7,18 +15,741 @@ export type Database = {
           email: string
           created_at: string
           role: string
+          active: boolean
+          last_login: string | null
+          failed_login_attempts: number | null
+          locked_until: string | null
+          deactivated_at: string | null
+          deactivated_by: string | null
         }
         Insert: {
           id?: string
           email: string
           created_at?: string
           role?: string
+          active?: boolean
+          last_login?: string | null
+          failed_login_attempts?: number | null
+          locked_until?: string | null
+          deactivated_at?: string | null
+          deactivated_by?: string | null
         }
         Update: {
           id?: string
           email?: string
           created_at?: string
           role?: string
+          active?: boolean
+          last_login?: string | null
+          failed_login_attempts?: number | null
+          locked_until?: string | null
+          deactivated_at?: string | null
+          deactivated_by?: string | null
+        }
+      }
+      role_permissions: {
+        Row: {
+          id: string
+          role: string
+          permission: string
+          created_at: string
+          created_by: string | null
+        }
+        Insert: {
+          id?: string
+          role: string
+          permission: string
+          created_at?: string
+          created_by?: string | null
+        }
+        Update: {
+          id?: string
+          role?: string
+          permission?: string
+          created_at?: string
+          created_by?: string | null
+        }
+      }
+      custom_roles: {
+        Row: {
+          key: string
+          display_name: string
+          color: string
+          parent_roles: string[]
+          created_at: string
+          created_by: string | null
+        }
+        Insert: {
+          key: string
+          display_name: string
+          color?: string
+          parent_roles?: string[]
+          created_at?: string
+          created_by?: string | null
+        }
+        Update: {
+          key?: string
+          display_name?: string
+          color?: string
+          parent_roles?: string[]
+          created_at?: string
+          created_by?: string | null
+        }
+      }
+      projects: {
+        Row: {
+          id: string
+          name: string
+          address: string
+          client_name: string
+          client_email: string | null
+          scope: string
+          status: string
+          phase: string
+          created_at: string
+          created_by: string | null
+          updated_at: string
+          updated_by: string | null
+          template_version_id: string | null
+        }
+        Insert: {
+          id?: string
+          name: string
+          address: string
+          client_name: string
+          client_email?: string | null
+          scope?: string
+          status?: string
+          phase?: string
+          created_at?: string
+          created_by?: string | null
+          updated_at?: string
+          updated_by?: string | null
+          template_version_id?: string | null
+        }
+        Update: {
+          id?: string
+          name?: string
+          address?: string
+          client_name?: string
+          client_email?: string | null
+          scope?: string
+          status?: string
+          phase?: string
+          created_at?: string
+          created_by?: string | null
+          updated_at?: string
+          updated_by?: string | null
+          template_version_id?: string | null
+        }
+      }
+      project_templates: {
+        Row: {
+          id: string
+          name: string
+          description: string
+          current_version: number
+          created_at: string
+          created_by: string | null
+        }
+        Insert: {
+          id?: string
+          name: string
+          description?: string
+          current_version?: number
+          created_at?: string
+          created_by?: string | null
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string
+          current_version?: number
+          created_at?: string
+          created_by?: string | null
+        }
+      }
+      project_template_versions: {
+        Row: {
+          id: string
+          template_id: string
+          version: number
+          definition: Json
+          created_at: string
+          created_by: string | null
+        }
+        Insert: {
+          id?: string
+          template_id: string
+          version: number
+          definition: Json
+          created_at?: string
+          created_by?: string | null
+        }
+        Update: {
+          id?: string
+          template_id?: string
+          version?: number
+          definition?: Json
+          created_at?: string
+          created_by?: string | null
+        }
+      }
+      project_phases: {
+        Row: {
+          id: string
+          project_id: string
+          name: string
+          position: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          name: string
+          position: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          project_id?: string
+          name?: string
+          position?: number
+          created_at?: string
+        }
+      }
+      tasks: {
+        Row: {
+          id: string
+          project_id: string
+          phase_id: string | null
+          title: string
+          description: string
+          position: number
+          created_at: string
+          created_by: string | null
+          assignee_id: string | null
+          due_date: string | null
+          status: string
+          shared: boolean
+          updated_at: string
+          completed_at: string | null
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          phase_id?: string | null
+          title: string
+          description?: string
+          position?: number
+          created_at?: string
+          created_by?: string | null
+          assignee_id?: string | null
+          due_date?: string | null
+          status?: string
+          shared?: boolean
+          updated_at?: string
+          completed_at?: string | null
+        }
+        Update: {
+          id?: string
+          project_id?: string
+          phase_id?: string | null
+          title?: string
+          description?: string
+          position?: number
+          created_at?: string
+          created_by?: string | null
+          assignee_id?: string | null
+          due_date?: string | null
+          status?: string
+          shared?: boolean
+          updated_at?: string
+          completed_at?: string | null
+        }
+      }
+      task_dependencies: {
+        Row: {
+          task_id: string
+          depends_on_id: string
+          created_at: string
+        }
+        Insert: {
+          task_id: string
+          depends_on_id: string
+          created_at?: string
+        }
+        Update: {
+          task_id?: string
+          depends_on_id?: string
+          created_at?: string
+        }
+      }
+      task_comments: {
+        Row: {
+          id: string
+          task_id: string
+          author_id: string | null
+          body: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          task_id: string
+          author_id?: string | null
+          body: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          task_id?: string
+          author_id?: string | null
+          body?: string
+          created_at?: string
+        }
+      }
+      qa_items: {
+        Row: {
+          id: string
+          project_id: string
+          phase_id: string | null
+          label: string
+          position: number
+          checked_at: string | null
+          checked_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          phase_id?: string | null
+          label: string
+          position?: number
+          checked_at?: string | null
+          checked_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          project_id?: string
+          phase_id?: string | null
+          label?: string
+          position?: number
+          checked_at?: string | null
+          checked_by?: string | null
+          created_at?: string
+        }
+      }
+      fee_lines: {
+        Row: {
+          id: string
+          project_id: string
+          phase_id: string | null
+          description: string
+          amount: number
+          position: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          phase_id?: string | null
+          description: string
+          amount: number
+          position?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          project_id?: string
+          phase_id?: string | null
+          description?: string
+          amount?: number
+          position?: number
+          created_at?: string
+        }
+      }
+      document_folders: {
+        Row: {
+          id: string
+          project_id: string
+          parent_id: string | null
+          name: string
+          created_at: string
+          created_by: string | null
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          parent_id?: string | null
+          name: string
+          created_at?: string
+          created_by?: string | null
+        }
+        Update: {
+          id?: string
+          project_id?: string
+          parent_id?: string | null
+          name?: string
+          created_at?: string
+          created_by?: string | null
+        }
+      }
+      documents: {
+        Row: {
+          id: string
+          project_id: string
+          folder_id: string | null
+          name: string
+          uploaded_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          folder_id?: string | null
+          name: string
+          uploaded_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          project_id?: string
+          folder_id?: string | null
+          name?: string
+          uploaded_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      document_versions: {
+        Row: {
+          id: string
+          document_id: string
+          project_id: string
+          version: number
+          storage_path: string
+          file_name: string
+          content_type: string
+          size_bytes: number
+          uploaded_by: string | null
+          uploaded_at: string
+          completed_at: string | null
+          review_status: string
+          reviewed_by: string | null
+          reviewed_at: string | null
+        }
+        Insert: {
+          id?: string
+          document_id: string
+          project_id: string
+          version: number
+          storage_path: string
+          file_name: string
+          content_type: string
+          size_bytes: number
+          uploaded_by?: string | null
+          uploaded_at?: string
+          completed_at?: string | null
+          review_status?: string
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+        }
+        Update: {
+          id?: string
+          document_id?: string
+          project_id?: string
+          version?: number
+          storage_path?: string
+          file_name?: string
+          content_type?: string
+          size_bytes?: number
+          uploaded_by?: string | null
+          uploaded_at?: string
+          completed_at?: string | null
+          review_status?: string
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+        }
+      }
+      content_submissions: {
+        Row: {
+          id: string
+          project_id: string
+          title: string
+          body: string
+          status: string
+          author_id: string | null
+          created_at: string
+          updated_at: string
+          submitted_at: string | null
+          decided_at: string | null
+          decided_by: string | null
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          title: string
+          body?: string
+          status?: string
+          author_id?: string | null
+          created_at?: string
+          updated_at?: string
+          submitted_at?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
+        }
+        Update: {
+          id?: string
+          project_id?: string
+          title?: string
+          body?: string
+          status?: string
+          author_id?: string | null
+          created_at?: string
+          updated_at?: string
+          submitted_at?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
+        }
+      }
+      content_submission_comments: {
+        Row: {
+          id: string
+          submission_id: string
+          author_id: string | null
+          body: string
+          from_status: string | null
+          to_status: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          submission_id: string
+          author_id?: string | null
+          body: string
+          from_status?: string | null
+          to_status?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          submission_id?: string
+          author_id?: string | null
+          body?: string
+          from_status?: string | null
+          to_status?: string | null
+          created_at?: string
+        }
+      }
+      project_members: {
+        Row: {
+          id: string
+          project_id: string
+          user_id: string
+          role: string
+          created_at: string
+          created_by: string | null
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          user_id: string
+          role: string
+          created_at?: string
+          created_by?: string | null
+        }
+        Update: {
+          id?: string
+          project_id?: string
+          user_id?: string
+          role?: string
+          created_at?: string
+          created_by?: string | null
+        }
+      }
+      audit_logs: {
+        Row: {
+          id: string
+          timestamp: string
+          action: string
+          user_id: string | null
+          target_user_id: string | null
+          path: string | null
+          method: string | null
+          user_role: string | null
+          success: boolean | null
+          reason: string | null
+          details: Json | null
+          ip_address: string | null
+          user_agent: string | null
+          correlation_id: string | null
+        }
+        Insert: {
+          id?: string
+          timestamp?: string
+          action: string
+          user_id?: string | null
+          target_user_id?: string | null
+          path?: string | null
+          method?: string | null
+          user_role?: string | null
+          success?: boolean | null
+          reason?: string | null
+          details?: Json | null
+          ip_address?: string | null
+          user_agent?: string | null
+          correlation_id?: string | null
+        }
+        Update: {
+          id?: string
+          timestamp?: string
+          action?: string
+          user_id?: string | null
+          target_user_id?: string | null
+          path?: string | null
+          method?: string | null
+          user_role?: string | null
+          success?: boolean | null
+          reason?: string | null
+          details?: Json | null
+          ip_address?: string | null
+          user_agent?: string | null
+          correlation_id?: string | null
+        }
+      }
+      impersonation_sessions: {
+        Row: {
+          id: string
+          admin_id: string
+          target_user_id: string
+          reason: string
+          started_at: string
+          expires_at: string
+          ended_at: string | null
+        }
+        Insert: {
+          id?: string
+          admin_id: string
+          target_user_id: string
+          reason: string
+          started_at?: string
+          expires_at: string
+          ended_at?: string | null
+        }
+        Update: {
+          id?: string
+          admin_id?: string
+          target_user_id?: string
+          reason?: string
+          started_at?: string
+          expires_at?: string
+          ended_at?: string | null
+        }
+      }
+      invitations: {
+        Row: {
+          id: string
+          email: string
+          role: string
+          project_assignments: Json
+          token_hash: string
+          expires_at: string
+          invited_by: string | null
+          created_at: string
+          last_sent_at: string
+          send_count: number
+          accepted_at: string | null
+          accepted_by: string | null
+          revoked_at: string | null
+          revoked_by: string | null
+        }
+        Insert: {
+          id?: string
+          email: string
+          role: string
+          project_assignments?: Json
+          token_hash: string
+          expires_at: string
+          invited_by?: string | null
+          created_at?: string
+          last_sent_at?: string
+          send_count?: number
+          accepted_at?: string | null
+          accepted_by?: string | null
+          revoked_at?: string | null
+          revoked_by?: string | null
+        }
+        Update: {
+          id?: string
+          email?: string
+          role?: string
+          project_assignments?: Json
+          token_hash?: string
+          expires_at?: string
+          invited_by?: string | null
+          created_at?: string
+          last_sent_at?: string
+          send_count?: number
+          accepted_at?: string | null
+          accepted_by?: string | null
+          revoked_at?: string | null
+          revoked_by?: string | null
+        }
+      }
+      temporary_grants: {
+        Row: {
+          id: string
+          user_id: string
+          role: string | null
+          permissions: string[]
+          reason: string
+          expires_at: string
+          created_by: string | null
+          created_at: string
+          approved_by: string | null
+          approved_at: string | null
+          rejected_by: string | null
+          rejected_at: string | null
+          revoked_by: string | null
+          revoked_at: string | null
+          expired_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          role?: string | null
+          permissions?: string[]
+          reason: string
+          expires_at: string
+          created_by?: string | null
+          created_at?: string
+          approved_by?: string | null
+          approved_at?: string | null
+          rejected_by?: string | null
+          rejected_at?: string | null
+          revoked_by?: string | null
+          revoked_at?: string | null
+          expired_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          role?: string | null
+          permissions?: string[]
+          reason?: string
+          expires_at?: string
+          created_by?: string | null
+          created_at?: string
+          approved_by?: string | null
+          approved_at?: string | null
+          rejected_by?: string | null
+          rejected_at?: string | null
+          revoked_by?: string | null
+          revoked_at?: string | null
+          expired_at?: string | null
         }
       }
     }